@@ -1,5 +1,8 @@
 
+import { mat4 } from 'gl-matrix';
+
 import { assert, log, logIf, LogLevel } from './auxiliaries';
+import { m4 } from './gl-matrix-extensions';
 import { GLsizei2 } from './tuples';
 
 import { ChangeLookup } from './changelookup';
@@ -25,6 +28,19 @@ import { Wizard } from './wizard';
  * this.accumulate.update();
  * this.accumulate.frame(frameNumber);
  * ```
+ *
+ * Optionally, temporal reprojection can be used to retain quality while the multi-frame is reset on every frame,
+ * e.g., during navigation: if enabled, the first frame of a multi-frame is not used as is, but blended with an
+ * exponential weight (@see {@link reprojectionWeight}) onto the previous accumulation result, reprojected using the
+ * current frame's depth as well as the previous and current view projection. Disoccluded history is rejected by
+ * clamping it to the current frame's neighborhood. Subsequent frames are accumulated progressively as usual:
+ * ```
+ * this.accumulate.temporalReprojection = true;
+ * this.accumulate.depthTexture = this.depthTexture; // depth in [0, 1] of the current frame in the red channel
+ * ...
+ * this.accumulate.viewProjection = this.camera.viewProjection;
+ * this.accumulate.frame(frameNumber);
+ * ```
  */
 export class AccumulatePass extends Initializable {
 
@@ -77,6 +93,49 @@ export class AccumulatePass extends Initializable {
     protected _program: Program;
     protected _uWeight: WebGLUniformLocation;
 
+    /** @see {@link temporalReprojection} */
+    protected _temporalReprojection = false;
+
+    /** @see {@link depthTexture} */
+    protected _depthTexture: Texture2D | undefined;
+
+    /** @see {@link viewProjection} */
+    protected _viewProjection: mat4 | undefined;
+
+    /**
+     * View projection of the last accumulated frame, used for reprojection of the accumulation result.
+     */
+    protected _previousViewProjection: mat4 | undefined;
+
+    /** @see {@link reprojectionWeight} */
+    protected _reprojectionWeight = 0.1;
+
+    /**
+     * Whether or not the last written accumulation buffer holds a result that can be reprojected, i.e., at least one
+     * frame was accumulated since the accumulation buffers were (re)created.
+     */
+    protected _historyValid = false;
+
+    /**
+     * Program for temporal reprojection, created when temporal reprojection is enabled for the first time.
+     */
+    protected _reprojectionProgram: Program | undefined;
+
+
+    /**
+     * Computes the transform from the current frame's normalized device coordinates to the previous frame's ones.
+     * @param previous - View projection of the previous frame.
+     * @param current - View projection of the current frame.
+     * @returns - Reprojection transform, undefined if the current view projection is not invertible.
+     */
+    static reprojection(previous: mat4, current: mat4): mat4 | undefined {
+        const currentInverse = mat4.invert(m4(), current);
+        if (currentInverse === null) {
+            return undefined;
+        }
+        return mat4.multiply(m4(), previous, currentInverse);
+    }
+
 
     constructor(context: Context) {
         super();
@@ -84,6 +143,39 @@ export class AccumulatePass extends Initializable {
     }
 
 
+    /**
+     * Creates the temporal reprojection program and caches its static uniforms.
+     */
+    protected initializeReprojection(): void {
+        const gl = this._context.gl;
+
+        const vert = new Shader(this._context, gl.VERTEX_SHADER, 'ndcvertices.vert (accumulate reproject)');
+        vert.initialize(require('./shaders/ndcvertices.vert'));
+        const frag = new Shader(this._context, gl.FRAGMENT_SHADER, 'accumulate_reproject.frag');
+        frag.initialize(require('./shaders/accumulate_reproject.frag'));
+
+        this._reprojectionProgram = new Program(this._context, 'AccumulateReprojectProgram');
+        this._reprojectionProgram.initialize([vert, frag]);
+        this._reprojectionProgram.attribute('a_vertex', this._ndcTriangle.aVertex);
+
+        this._reprojectionProgram.bind();
+        this._reprojectionProgram.setUniform('u_accumulationTexture', 0);
+        this._reprojectionProgram.setUniform('u_currentFrameTexture', 1);
+        this._reprojectionProgram.setUniform('u_depthTexture', 2);
+        this._reprojectionProgram.unbind();
+    }
+
+    /**
+     * Whether or not the given frame can be reprojected, i.e., temporal reprojection is enabled, the frame is the first
+     * of a multi-frame, and history, depth, as well as both view projections are available.
+     */
+    protected reprojectable(frameNumber: number): boolean {
+        return this._temporalReprojection && frameNumber === 0 && this._historyValid &&
+            this._depthTexture !== undefined && this._depthTexture.valid &&
+            this._viewProjection !== undefined && this._previousViewProjection !== undefined;
+    }
+
+
     /**
      * Specializes this pass's initialization. This pass requires an ndc-filling triangle, a single accumulation
      * program, and two accumulation framebuffers for ping pong (simultaneous read and write is currently not allowed
@@ -148,6 +240,10 @@ export class AccumulatePass extends Initializable {
             this._ndcTriangle.uninitialize();
         }
         this._program.uninitialize();
+        if (this._reprojectionProgram !== undefined) {
+            this._reprojectionProgram.uninitialize();
+            this._reprojectionProgram = undefined;
+        }
 
         this._accumulationFBOs[0].uninitialize();
         this._accumulationFBOs[1].uninitialize();
@@ -155,6 +251,7 @@ export class AccumulatePass extends Initializable {
         this._accumulationTextures[1].uninitialize();
 
         this._write = 0;
+        this._historyValid = false;
     }
 
     /**
@@ -183,6 +280,9 @@ export class AccumulatePass extends Initializable {
         const gl = this._context.gl;
         const gl2facade = this._context.gl2facade;
 
+        /* The accumulation result cannot be reprojected after recreation or resize. */
+        this._historyValid = false;
+
         /* Create and initialize accumulation texture and FBOs. */
 
         const textureSize = this._texture.size;
@@ -221,7 +321,8 @@ export class AccumulatePass extends Initializable {
      * An accumulation frame binds the two accumulation textures (ping-pong framebuffer), one for read, the other for
      * write/accumulating into. A screen-aligned triangle is used to fill the viewport and mix the input texture with
      * the weight of 1 / (frameNumber + 1) with the previous accumulation result. If no texture is specified, pass
-     * through is used.
+     * through is used. With temporal reprojection, the first frame is mixed with the reprojected accumulation result
+     * (if reprojectable) instead.
      * @param frameNumber - Frame number used to select the current read and write framebuffer as well as frame weight.
      * @param viewport - If specified, the viewport for accumulation will be set to the given width and height. If not,
      * the currently set viewport is used.
@@ -243,7 +344,8 @@ export class AccumulatePass extends Initializable {
             gl.viewport(0, 0, viewport[0], viewport[1]);
         }
 
-        const readIndex = frameNumber % 2;
+        /* With temporal reprojection, the last accumulation result is read regardless of the frame number. */
+        const readIndex = this._temporalReprojection ? this._write : frameNumber % 2;
         const writeIndex = this._write = 1 - readIndex;
 
         const accumTexture = this._accumulationTextures[readIndex];
@@ -252,8 +354,21 @@ export class AccumulatePass extends Initializable {
         accumTexture.bind(gl.TEXTURE0);
         frameTexture.bind(gl.TEXTURE1);
 
-        this._program.bind();
-        gl.uniform1f(this._uWeight, 1.0 / (frameNumber + 1));
+        const reprojection = this.reprojectable(frameNumber) ?
+            AccumulatePass.reprojection(this._previousViewProjection!, this._viewProjection!) : undefined;
+
+        if (reprojection !== undefined) {
+            this._depthTexture!.bind(gl.TEXTURE2);
+
+            const program = this._reprojectionProgram!;
+            program.bind();
+            program.setUniform('u_weight', this._reprojectionWeight);
+            program.setUniform('u_reprojection', reprojection);
+            program.setUniform('u_texelSize', [1.0 / frameTexture.width, 1.0 / frameTexture.height]);
+        } else {
+            this._program.bind();
+            gl.uniform1f(this._uWeight, 1.0 / (frameNumber + 1));
+        }
 
         this._accumulationFBOs[writeIndex].bind(gl.DRAW_FRAMEBUFFER); // bind draw only does not work for IE and EDGE
         this._ndcTriangle.bind();
@@ -266,6 +381,13 @@ export class AccumulatePass extends Initializable {
 
         accumTexture.unbind(gl.TEXTURE0);
         frameTexture.unbind(gl.TEXTURE1);
+        if (reprojection !== undefined) {
+            this._depthTexture!.unbind(gl.TEXTURE2);
+        }
+
+        this._historyValid = true;
+        this._previousViewProjection = this._viewProjection !== undefined ? mat4.clone(this._viewProjection) :
+            undefined;
     }
 
 
@@ -317,6 +439,60 @@ export class AccumulatePass extends Initializable {
         this._altered.alter('passThrough');
     }
 
+    /**
+     * Enables temporal reprojection of the accumulation result for the first frame of a multi-frame. This requires a
+     * depth texture and the view projection to be set for every frame.
+     */
+    set temporalReprojection(enable: boolean) {
+        this.assertInitialized();
+        if (this._temporalReprojection === enable) {
+            return;
+        }
+        this._temporalReprojection = enable;
+        if (enable && this._reprojectionProgram === undefined) {
+            this.initializeReprojection();
+        }
+    }
+
+    get temporalReprojection(): boolean {
+        return this._temporalReprojection;
+    }
+
+    /**
+     * Depth texture of the current frame used for reprojection. The depth in [0, 1] is expected in the red channel,
+     * e.g., a depth attachment of the intermediate framebuffer.
+     */
+    set depthTexture(texture: Texture2D | undefined) {
+        this._depthTexture = texture;
+    }
+
+    get depthTexture(): Texture2D | undefined {
+        return this._depthTexture;
+    }
+
+    /**
+     * View projection of the current frame used for reprojection. This should be set before every frame.
+     */
+    set viewProjection(viewProjection: mat4 | undefined) {
+        this._viewProjection = viewProjection;
+    }
+
+    get viewProjection(): mat4 | undefined {
+        return this._viewProjection;
+    }
+
+    /**
+     * Weight of the current frame when blended onto the reprojected accumulation result, in (0.0, 1.0]. Smaller
+     * weights result in smoother images with more ghosting.
+     */
+    set reprojectionWeight(weight: GLfloat) {
+        this._reprojectionWeight = Math.min(Math.max(weight, Number.EPSILON), 1.0);
+    }
+
+    get reprojectionWeight(): GLfloat {
+        return this._reprojectionWeight;
+    }
+
     /**
      * Returns the framebuffer last accumulated into. Note: the accumulation buffer is represented by two framebuffers
      * swapped for read and write every frame. The accumulation result is in the first color attachment.
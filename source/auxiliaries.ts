@@ -177,6 +177,8 @@ namespace auxiliaries {
 
         const prettyMeasure = prettyPrintMilliseconds(measure.duration);
         log(LogLevel.Debug, `${mark}${' '.repeat(indent)}${message ? message : ''} | ${prettyMeasure}`);
+
+        performanceMeasureListeners.forEach((listener) => listener(mark, measure.duration));
     }
 
     /**
@@ -194,6 +196,33 @@ namespace auxiliaries {
         logPerformanceStop(mark, message, measureIndent);
     }
 
+    /**
+     * Listeners that are notified of every measure taken by `logPerformanceStop`.
+     */
+    const performanceMeasureListeners = new Set<PerformanceMeasureListener>();
+
+    /**
+     * Callback receiving the name and duration in milliseconds of a measure taken by `logPerformanceStop`.
+     */
+    export type PerformanceMeasureListener = (mark: string, duration: number) => void;
+
+    /**
+     * Registers a listener that is invoked with every measure taken by `logPerformanceStop`, independent of the log
+     * verbosity, e.g., for merging CPU timings into GPU profiling reports.
+     * @param listener - Callback that is invoked with the measure's mark name and duration in milliseconds.
+     */
+    export function addPerformanceMeasureListener(listener: PerformanceMeasureListener): void {
+        performanceMeasureListeners.add(listener);
+    }
+
+    /**
+     * Unregisters a listener previously added by `addPerformanceMeasureListener`.
+     * @param listener - Callback to remove.
+     */
+    export function removePerformanceMeasureListener(listener: PerformanceMeasureListener): void {
+        performanceMeasureListeners.delete(listener);
+    }
+
 
     /**
      * Generates a random value within a given range [min,max].
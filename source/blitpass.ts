@@ -8,6 +8,7 @@ import { NdcFillingTriangle } from './ndcfillingtriangle';
 import { Program } from './program';
 import { Shader } from './shader';
 import { Texture2D } from './texture2d';
+import { GLsizei4 } from './tuples';
 
 
 /**
@@ -44,6 +45,12 @@ export class BlitPass extends Initializable {
     /** @see {@link drawBuffer} */
     protected _drawBuffer: GLenum;
 
+    /** @see {@link bounds} */
+    protected _bounds: GLsizei4 | undefined;
+
+    /** @see {@link colorMask} */
+    protected _colorMask: [boolean, boolean, boolean, boolean] | undefined;
+
     /* Indirect blit and fallback implementation. */
 
     /**
@@ -63,16 +70,6 @@ export class BlitPass extends Initializable {
     /** @see {@link debug} */
     protected _debug: BlitPass.Debug = BlitPass.Debug.None;
 
-    /**
-     * Uniform for passing the debug mode to the specialized blit program.
-     */
-    protected _uDebugMode: WebGLUniformLocation | undefined;
-
-    /**
-     * Uniform used to pass near and far data to the specialized blit program for linearization.
-     */
-    protected _uLinearize: WebGLUniformLocation | undefined;
-
     /**
      * If provided, depth will be linearized when depth data is blitted.
      */
@@ -85,6 +82,13 @@ export class BlitPass extends Initializable {
         this._context = context;
     }
 
+    /**
+     * Returns the bounds within the target to blit into, i.e., the entire target if no bounds are specified.
+     */
+    private targetBounds(): GLsizei4 {
+        return this._bounds !== undefined ? this._bounds : [0, 0, this._target.width, this._target.height];
+    }
+
     /**
      * Uses direct blit via glBlitFramebuffer for blitting a single read buffer into the given target's draw buffer.
      */
@@ -105,8 +109,9 @@ export class BlitPass extends Initializable {
         gl.clear(gl.COLOR_BUFFER_BIT);
         gl.disable(gl.SCISSOR_TEST);
 
-        gl.blitFramebuffer(0, 0, this._framebuffer.width, this._framebuffer.height, 0, 0
-            , this._target.width, this._target.height, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+        const bounds = this.targetBounds();
+        gl.blitFramebuffer(0, 0, this._framebuffer.width, this._framebuffer.height, bounds[0], bounds[1]
+            , bounds[2], bounds[3], gl.COLOR_BUFFER_BIT, gl.NEAREST);
 
         this._framebuffer.unbind(gl.READ_FRAMEBUFFER);
         this._target.unbind(gl.DRAW_FRAMEBUFFER);
@@ -120,7 +125,12 @@ export class BlitPass extends Initializable {
         assert(this._ndcTriangle && this._ndcTriangle.initialized, `expected an initialized ndc triangle`);
         const gl = this._context.gl;
 
-        gl.viewport(0, 0, this._target.width, this._target.height);
+        const bounds = this.targetBounds();
+        gl.viewport(bounds[0], bounds[1], bounds[2] - bounds[0], bounds[3] - bounds[1]);
+
+        if (this._colorMask !== undefined) {
+            gl.colorMask(this._colorMask[0], this._colorMask[1], this._colorMask[2], this._colorMask[3]);
+        }
 
         program.bind();
 
@@ -136,6 +146,10 @@ export class BlitPass extends Initializable {
 
         texture.unbind();
 
+        if (this._colorMask !== undefined) {
+            gl.colorMask(true, true, true, true);
+        }
+
         /* Every pass is expected to bind its own program when drawing, thus, unbinding is not necessary. */
         // this.program.unbind();
     }
@@ -196,8 +210,6 @@ export class BlitPass extends Initializable {
 
         if (this._debugProgram) {
             this._debugProgram.uninitialize();
-            this._uDebugMode = undefined;
-            this._uLinearize = undefined;
         }
     }
 
@@ -226,8 +238,9 @@ export class BlitPass extends Initializable {
                 break;
         }
 
-        /* BlitFramebuffer is not an extension and, thus, it does not need to be enabled. */
-        if (this._context.supportsBlitFramebuffer) {
+        /* BlitFramebuffer is not an extension and, thus, it does not need to be enabled. Since color masks are not
+        reliably applied by blitFramebuffer, the program based blit is used when masking. */
+        if (this._context.supportsBlitFramebuffer && this._colorMask === undefined) {
             return this.functionBlit();
         }
         this.programBlit(this._program);
@@ -272,6 +285,30 @@ export class BlitPass extends Initializable {
         this._target = target;
     }
 
+    /**
+     * Bounds within the target to blit into as [x0, y0, x1, y1] in pixel (lower left origin), e.g., for side-by-side
+     * output. If undefined, the entire target is used.
+     */
+    set bounds(bounds: GLsizei4 | undefined) {
+        this._bounds = bounds;
+    }
+
+    get bounds(): GLsizei4 | undefined {
+        return this._bounds;
+    }
+
+    /**
+     * Color channels (red, green, blue, alpha) written on blit, e.g., for anaglyph output. If undefined, all channels
+     * are written. Color masks are applied using the program based blit only.
+     */
+    set colorMask(mask: [boolean, boolean, boolean, boolean] | undefined) {
+        this._colorMask = mask;
+    }
+
+    get colorMask(): [boolean, boolean, boolean, boolean] | undefined {
+        return this._colorMask;
+    }
+
     /**
      * Specify a debug mode for blitting @see {@link Blitpass.Debug}. If the debug mode is set to anything except
      * `Debug.None` for the first time, a specialized debug program will be created, initialized, and used for blit.
@@ -286,7 +323,7 @@ export class BlitPass extends Initializable {
         }
         if (this._debugProgram !== undefined) {
             this._debugProgram!.bind();
-            gl.uniform1i(this._uDebugMode, this._debug);
+            this._debugProgram.setUniform('u_mode', this._debug);
             return;
         }
 
@@ -298,13 +335,10 @@ export class BlitPass extends Initializable {
         this._debugProgram = new Program(this._context, 'BlitProgramDebug');
         this._debugProgram.initialize([vert, frag]);
 
-        this._uDebugMode = this._debugProgram.uniform('u_mode');
-        this._uLinearize = this._debugProgram.uniform('u_linearize');
-
         this._debugProgram.bind();
-        gl.uniform1i(this._debugProgram.uniform('u_texture'), 0);
-        gl.uniform1i(this._uDebugMode, this._debug);
-        gl.uniform2f(this._uLinearize, this._near, this._far);
+        this._debugProgram.setUniform('u_texture', 0);
+        this._debugProgram.setUniform('u_mode', this._debug);
+        this._debugProgram.setUniform('u_linearize', [this._near, this._far]);
     }
 
     /**
@@ -314,7 +348,7 @@ export class BlitPass extends Initializable {
         this._near = near ? near : 0.0;
         if (this._debugProgram) {
             this._debugProgram.bind();
-            this._context.gl.uniform2f(this._uLinearize, this._near, this._far);
+            this._debugProgram.setUniform('u_linearize', [this._near, this._far]);
         }
     }
 
@@ -326,7 +360,7 @@ export class BlitPass extends Initializable {
 
         if (this._debugProgram) {
             this._debugProgram.bind();
-            this._context.gl.uniform2f(this._uLinearize, this._near, this._far);
+            this._debugProgram.setUniform('u_linearize', [this._near, this._far]);
         }
     }
 
@@ -0,0 +1,171 @@
+
+import { GLsizei2 } from './tuples';
+
+import { Framebuffer } from './framebuffer';
+import { PostProcessingPass } from './postprocessingpass';
+import { Program } from './program';
+import { Texture2D } from './texture2d';
+import { Wizard } from './wizard';
+
+
+/**
+ * Adds a glow to bright regions: color above a (soft) luminance threshold is extracted at half resolution, blurred
+ * by a separable gaussian, and added onto the source. This pass expects linear high dynamic range color and, thus,
+ * should be applied before tone mapping. The half resolution targets are owned by this pass.
+ */
+export class BloomPass extends PostProcessingPass {
+
+    /** @see {@link threshold} */
+    protected _threshold = 1.0;
+
+    /** @see {@link knee} */
+    protected _knee = 0.5;
+
+    /** @see {@link intensity} */
+    protected _intensity = 0.5;
+
+    /** @see {@link iterations} */
+    protected _iterations = 2;
+
+    protected _thresholdProgram: Program;
+    protected _blurProgram: Program;
+    protected _compositeProgram: Program;
+
+    /**
+     * Two half resolution framebuffers used for ping-ponging the separable blur.
+     */
+    protected _framebuffers: [Framebuffer, Framebuffer];
+    protected _textures: [Texture2D, Texture2D];
+
+
+    /**
+     * Size of the blur targets for the given frame size.
+     */
+    protected static halfSize(size: GLsizei2): GLsizei2 {
+        return [Math.max(Math.ceil(size[0] / 2), 1), Math.max(Math.ceil(size[1] / 2), 1)];
+    }
+
+
+    protected onInitialize(): boolean {
+        const gl = this._context.gl;
+        const gl2facade = this._context.gl2facade;
+
+        this._thresholdProgram = this.createProgram('bloom_threshold.frag', require('./shaders/bloom_threshold.frag'),
+            'BloomThresholdProgram');
+        this._blurProgram = this.createProgram('gaussianblur.frag', require('./shaders/gaussianblur.frag'),
+            'GaussianBlurProgram');
+        this._compositeProgram = this.createProgram('bloom_composite.frag', require('./shaders/bloom_composite.frag'),
+            'BloomCompositeProgram');
+
+        this._thresholdProgram.bind();
+        this._thresholdProgram.setUniform('u_source', 0);
+        this._blurProgram.bind();
+        this._blurProgram.setUniform('u_source', 0);
+        this._compositeProgram.bind();
+        this._compositeProgram.setUniform('u_source', 0);
+        this._compositeProgram.setUniform('u_bloom', 1);
+        this._compositeProgram.unbind();
+
+        this._textures = [
+            new Texture2D(this._context, 'BloomPingTexture'),
+            new Texture2D(this._context, 'BloomPongTexture')];
+        this._framebuffers = [
+            new Framebuffer(this._context, 'BloomPingFBO'),
+            new Framebuffer(this._context, 'BloomPongFBO')];
+
+        const size = BloomPass.halfSize(this._size);
+        const internalFormat = Wizard.queryInternalTextureFormat(this._context, gl.RGBA, Wizard.Precision.half);
+        for (let i = 0; i < 2; ++i) {
+            this._textures[i].initialize(size[0], size[1], internalFormat[0], gl.RGBA, internalFormat[1]);
+            this._textures[i].filter(gl.LINEAR, gl.LINEAR);
+            this._textures[i].wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+            this._framebuffers[i].initialize([[gl2facade.COLOR_ATTACHMENT0, this._textures[i]]]);
+        }
+        return true;
+    }
+
+    protected onUninitialize(): void {
+        this._thresholdProgram.uninitialize();
+        this._blurProgram.uninitialize();
+        this._compositeProgram.uninitialize();
+
+        this._framebuffers[0].uninitialize();
+        this._framebuffers[1].uninitialize();
+        this._textures[0].uninitialize();
+        this._textures[1].uninitialize();
+    }
+
+    protected onResize(): void {
+        const size = BloomPass.halfSize(this._size);
+        this._framebuffers[0].resize(size[0], size[1]);
+        this._framebuffers[1].resize(size[0], size[1]);
+    }
+
+
+    frame(source: Texture2D, target: Framebuffer): boolean {
+        this._thresholdProgram.bind();
+        this._thresholdProgram.setUniform('u_threshold', this._threshold);
+        this._thresholdProgram.setUniform('u_knee', this._knee);
+        this.draw(this._framebuffers[0], [source]);
+
+        const texelSize = [1.0 / this._textures[0].width, 1.0 / this._textures[0].height];
+        this._blurProgram.bind();
+        for (let i = 0; i < this._iterations; ++i) {
+            this._blurProgram.setUniform('u_direction', [texelSize[0], 0.0]);
+            this.draw(this._framebuffers[1], [this._textures[0]]);
+            this._blurProgram.setUniform('u_direction', [0.0, texelSize[1]]);
+            this.draw(this._framebuffers[0], [this._textures[1]]);
+        }
+
+        this._compositeProgram.bind();
+        this._compositeProgram.setUniform('u_intensity', this._intensity);
+        this.draw(target, [source, this._textures[0]]);
+        return true;
+    }
+
+
+    /**
+     * Luminance above which color contributes to the bloom.
+     */
+    set threshold(threshold: number) {
+        this._threshold = threshold;
+    }
+
+    get threshold(): number {
+        return this._threshold;
+    }
+
+    /**
+     * Width of the soft transition below the threshold, zero for a hard threshold.
+     */
+    set knee(knee: number) {
+        this._knee = Math.max(knee, 0.0);
+    }
+
+    get knee(): number {
+        return this._knee;
+    }
+
+    /**
+     * Scale of the blurred bright color added onto the source.
+     */
+    set intensity(intensity: number) {
+        this._intensity = intensity;
+    }
+
+    get intensity(): number {
+        return this._intensity;
+    }
+
+    /**
+     * Number of horizontal and vertical blur iterations, increasing the bloom's extent.
+     */
+    set iterations(iterations: number) {
+        this._iterations = Math.max(Math.floor(iterations), 1);
+    }
+
+    get iterations(): number {
+        return this._iterations;
+    }
+
+}
@@ -4,6 +4,7 @@ import { assert } from './auxiliaries';
 import { Bindable } from './bindable';
 import { Initializable } from './initializable';
 import { AbstractObject } from './object';
+import { VertexLayout } from './vertexlayout';
 
 
 /**
@@ -20,6 +21,19 @@ export class Buffer extends AbstractObject<WebGLBuffer> implements Bindable {
     /** @see {@link target} */
     protected _target: GLenum | undefined = Buffer.DEFAULT_BUFFER;
 
+    /** @see {@link layout} */
+    protected _layout: VertexLayout | undefined;
+
+    /**
+     * Provides the number of columns and the number of components per column of an attribute, e.g., [4, 4] for a
+     * mat4 attribute and [1, 3] for a vec3 attribute.
+     * @param size - Number of components of the attribute.
+     */
+    protected static columns(size: GLint): [GLint, GLint] {
+        return size === 16 ? [4, 4] : size === 9 ? [3, 3] : [1, size];
+    }
+
+
     /**
      * Create a buffer object on the GPU.
      */
@@ -166,6 +180,86 @@ export class Buffer extends AbstractObject<WebGLBuffer> implements Bindable {
         }
     }
 
+    /**
+     * Specifies the memory layout of the buffer for all attributes of its vertex layout with a location. Attributes
+     * with divisor are set up for instancing and integer attributes are set up using vertexAttribIPointer (WebGL2).
+     * Matrix attributes are set up as consecutive column attributes.
+     * @param locations - Attribute locations by attribute name, attributes without location (or -1) are skipped.
+     * @param bind - Allows to skip binding the object (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the object (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    enableLayout(locations: Map<string, GLint>, bind: boolean = true, unbind: boolean = true): void {
+        assert(this._layout !== undefined, `expected a vertex layout to be specified`);
+        const gl = this.context.gl;
+        const gl2facade = this.context.gl2facade;
+
+        if (bind) {
+            this.bind();
+        }
+        for (const attribute of this._layout!.attributes) {
+            const location = locations.get(attribute.name);
+            if (location === undefined || location < 0) {
+                continue;
+            }
+            const [columns, size] = Buffer.columns(attribute.size);
+            const columnBytes = size * VertexLayout.byteSizeOfType(attribute.type);
+
+            for (let column = 0; column < columns; ++column) {
+                const index = location + column;
+                const offset = attribute.offset + column * columnBytes;
+
+                if (attribute.integer) {
+                    assert(this.context.isWebGL2, `integer attributes require a WebGL2 context`);
+                    gl.vertexAttribIPointer(index, size, attribute.type, attribute.stride, offset);
+                } else {
+                    gl.vertexAttribPointer(index, size, attribute.type, attribute.normalized, attribute.stride, offset);
+                }
+                gl.enableVertexAttribArray(index);
+
+                if (attribute.divisor > 0) {
+                    assert(gl2facade.vertexAttribDivisor !== undefined, `expected instanced arrays to be supported`);
+                    gl2facade.vertexAttribDivisor(index, attribute.divisor);
+                }
+            }
+        }
+        if (unbind) {
+            this.unbind();
+        }
+    }
+
+    /**
+     * Disables all binding points of the buffer's vertex layout and resets their divisors.
+     * @param locations - Attribute locations by attribute name, attributes without location (or -1) are skipped.
+     * @param bind - Allows to skip binding the object (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the object (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    disableLayout(locations: Map<string, GLint>, bind: boolean = true, unbind: boolean = true): void {
+        assert(this._layout !== undefined, `expected a vertex layout to be specified`);
+        const gl = this.context.gl;
+
+        if (bind) {
+            this.bind();
+        }
+        for (const attribute of this._layout!.attributes) {
+            const location = locations.get(attribute.name);
+            if (location === undefined || location < 0) {
+                continue;
+            }
+            const [columns] = Buffer.columns(attribute.size);
+            for (let column = 0; column < columns; ++column) {
+                if (attribute.divisor > 0) {
+                    this.context.gl2facade.vertexAttribDivisor(location + column, 0);
+                }
+                gl.disableVertexAttribArray(location + column);
+            }
+        }
+        if (unbind) {
+            this.unbind();
+        }
+    }
+
     /**
      * Returns the number of bytes this object approximately allocates on the GPU.
      */
@@ -174,6 +268,17 @@ export class Buffer extends AbstractObject<WebGLBuffer> implements Bindable {
         return this.context.allocationRegister.allocated(this._identifier);
     }
 
+    /**
+     * Vertex layout of the attributes stored in this buffer, used for enabling and disabling all its attributes at
+     * once (@see {@link enableLayout}). Undefined by default.
+     */
+    set layout(layout: VertexLayout | undefined) {
+        this._layout = layout;
+    }
+    get layout(): VertexLayout | undefined {
+        return this._layout;
+    }
+
     /**
      * Target to which the buffer object is bound (either GL_ARRAY_BUFFER or GL_ELEMENT_ARRAY_BUFFER).
      * Readonly access to the target (as specified on initialization) the buffer will be bound to.
@@ -3,7 +3,7 @@ import { mat4, vec3 } from 'gl-matrix';
 import { m4 } from './gl-matrix-extensions';
 
 import { DEG2RAD, log, LogLevel } from './auxiliaries';
-import { GLsizei2 } from './tuples';
+import { GLfloat4, GLsizei2 } from './tuples';
 
 
 /**
@@ -11,6 +11,11 @@ import { GLsizei2 } from './tuples';
  * view, projection, and view projection matrices. Cached by means of whenever one of the attributes change, all
  * matrices are invalidated and recalculated only once and only when requested. Please note that eye denotes the
  * position in a virtual 3D scene and center denotes the position which is being looked at.
+ *
+ * The projection is either perspective (based on fovy) or orthographic (based on an orthographic height), see
+ * {@link mode}. Both can be restricted to an asymmetric sub-window of the frustum, e.g., for tiled rendering or
+ * stereo, see {@link frustumWindow}. Optionally, depth can be reversed (near plane mapped to +1 and far plane to -1 in
+ * normalized device coordinates) and, for perspective projections, the far plane can be moved to infinity.
  */
 export class Camera {
 
@@ -23,6 +28,11 @@ export class Camera {
     private static readonly DEFAULT_NEAR = 2.0;
     private static readonly DEFAULT_FAR = 8.0;
 
+    /**
+     * Default orthographic height, matching the perspective's height at the default center (distance of 1.0).
+     */
+    private static readonly DEFAULT_ORTHOGRAPHIC_HEIGHT = 2.0 * Math.tan(Camera.DEFAULT_FOVY * DEG2RAD * 0.5);
+
 
     /** @see {@link eye} */
     protected _eye: vec3;
@@ -48,6 +58,21 @@ export class Camera {
     /** @see {@link aspect} */
     protected _aspect: GLfloat = 1.0;
 
+    /** @see {@link mode} */
+    protected _mode: Camera.ProjectionMode = Camera.ProjectionMode.Perspective;
+
+    /** @see {@link orthographicHeight} */
+    protected _orthographicHeight = Camera.DEFAULT_ORTHOGRAPHIC_HEIGHT;
+
+    /** @see {@link frustumWindow} */
+    protected _frustumWindow: GLfloat4 = [-1.0, +1.0, -1.0, +1.0];
+
+    /** @see {@link reversedZ} */
+    protected _reversedZ = false;
+
+    /** @see {@link infiniteFar} */
+    protected _infiniteFar = false;
+
     /** @see {@link view} */
     protected _view: mat4 | undefined;
     /** @see {@link viewInverse} */
@@ -271,6 +296,7 @@ export class Camera {
             return;
         }
         this._aspect = aspect;
+        this.invalidate(false, true);
     }
 
     /**
@@ -280,6 +306,91 @@ export class Camera {
         return this._aspect;
     }
 
+    /**
+     * Projection mode, either perspective (based on {@link fovy}) or orthographic (based on
+     * {@link orthographicHeight}). Invalidates the projection.
+     */
+    set mode(mode: Camera.ProjectionMode) {
+        if (this._mode === mode) {
+            return;
+        }
+        this._mode = mode;
+        this.invalidate(false, true);
+    }
+
+    get mode(): Camera.ProjectionMode {
+        return this._mode;
+    }
+
+    /**
+     * Height of the view volume in world space units for orthographic projection (the width is derived using the
+     * aspect ratio). Invalidates the projection.
+     */
+    set orthographicHeight(height: GLfloat) {
+        if (this._orthographicHeight === height) {
+            return;
+        }
+        this._orthographicHeight = height;
+        this.invalidate(false, true);
+    }
+
+    get orthographicHeight(): GLfloat {
+        return this._orthographicHeight;
+    }
+
+    /**
+     * Sub-window of the (symmetric) frustum as left, right, bottom, and top, relative to the frustum's half extents,
+     * i.e., [-1, +1, -1, +1] is the entire frustum. This can be used for off-axis projections, e.g., for a tile of a
+     * larger image [-1, 0, 0, +1] (upper left quarter) or for horizontally shifted stereo frusta. Invalidates the
+     * projection.
+     */
+    set frustumWindow(frustumWindow: GLfloat4) {
+        const w = this._frustumWindow;
+        const f = frustumWindow;
+        if (w[0] === f[0] && w[1] === f[1] && w[2] === f[2] && w[3] === f[3]) {
+            return;
+        }
+        this._frustumWindow = [f[0], f[1], f[2], f[3]];
+        this.invalidate(false, true);
+    }
+
+    get frustumWindow(): GLfloat4 {
+        return this._frustumWindow;
+    }
+
+    /**
+     * Whether or not depth is reversed, i.e., the near plane is mapped to +1 and the far plane to -1 in normalized
+     * device coordinates (resulting in depth values of 1 and 0 respectively). Note that the depth test and clear depth
+     * have to be adjusted accordingly (e.g., gl.GREATER and 0.0). Invalidates the projection.
+     */
+    set reversedZ(reversed: boolean) {
+        if (this._reversedZ === reversed) {
+            return;
+        }
+        this._reversedZ = reversed;
+        this.invalidate(false, true);
+    }
+
+    get reversedZ(): boolean {
+        return this._reversedZ;
+    }
+
+    /**
+     * Whether or not the far plane is at infinity for perspective projection ({@link far} is ignored then). This has
+     * no effect on orthographic projection. Invalidates the projection.
+     */
+    set infiniteFar(infinite: boolean) {
+        if (this._infiniteFar === infinite) {
+            return;
+        }
+        this._infiniteFar = infinite;
+        this.invalidate(false, true);
+    }
+
+    get infiniteFar(): boolean {
+        return this._infiniteFar;
+    }
+
     /**
      * Either returns the cached view matrix or derives the current one after invalidation and caches it.
      */
@@ -309,7 +420,34 @@ export class Camera {
         if (this._projection) { // return cached value
             return this._projection;
         }
-        this._projection = mat4.perspective(m4(), this.fovy * DEG2RAD, this.aspect, this.near, this.far);
+        const w = this._frustumWindow;
+        const projection = m4();
+
+        if (this._mode === Camera.ProjectionMode.Orthographic) {
+            const top = this._orthographicHeight * 0.5;
+            const right = top * this.aspect;
+            mat4.ortho(projection, right * w[0], right * w[1], top * w[2], top * w[3],
+                this.near, this.far);
+        } else {
+            const top = this.near * Math.tan(this.fovy * DEG2RAD * 0.5);
+            const right = top * this.aspect;
+            mat4.frustum(projection, right * w[0], right * w[1], top * w[2], top * w[3],
+                this.near, this.far);
+            if (this._infiniteFar) {
+                projection[10] = -1.0;
+                projection[14] = -2.0 * this.near;
+            }
+        }
+
+        /* Reversing depth negates the z row, mapping the near plane to +1 and the far plane to -1. */
+        if (this._reversedZ) {
+            projection[2] = -projection[2];
+            projection[6] = -projection[6];
+            projection[10] = -projection[10];
+            projection[14] = -projection[14];
+        }
+
+        this._projection = projection;
         return this._projection;
     }
 
@@ -364,3 +502,13 @@ export class Camera {
     }
 
 }
+
+
+export namespace Camera {
+
+    export enum ProjectionMode {
+        Perspective = 'perspective',
+        Orthographic = 'orthographic',
+    }
+
+}
@@ -0,0 +1,427 @@
+
+import { mat3, quat, vec3 } from 'gl-matrix';
+
+import { Observable, ReplaySubject } from 'rxjs';
+
+import { assert, DEG2RAD } from './auxiliaries';
+import { clamp, m3, mix, v3 } from './gl-matrix-extensions';
+
+import { Camera } from './camera';
+import { Invalidate } from './renderer';
+
+import * as rayMath from './raymath';
+
+
+/**
+ * Animates a camera along a path of keyframed camera states. Eye positions are interpolated using Catmull-Rom
+ * splines (which is a linear interpolation for two keyframes), orientations (view direction and up vector) using
+ * spherical linear interpolation of quaternions, and the distance between eye and center as well as the vertical field
+ * of view are interpolated alongside. The animation's progress can be mapped by an easing function. The animation
+ * should be updated by the owning renderer on every update and keeps invalidating the renderer until it completes:
+ * ```
+ * this._animation = new CameraAnimation((force) => this.invalidate(force), this._camera);
+ * this._animation.flyTo(sphereCenter, sphereRadius, 1000.0);
+ * ...
+ * // within onUpdate
+ * this._animation.update();
+ * return this._altered.any || this._camera.altered;
+ * ```
+ */
+export class CameraAnimation {
+
+    /**
+     * The animation's invalidation callback, usually the one of the owning renderer. It is invoked on every update
+     * while the animation is running, thereby requesting subsequent updates via the controller.
+     */
+    protected _invalidate: Invalidate;
+
+    /** @see {@link camera} */
+    protected _camera: Camera | undefined;
+
+    /** @see {@link keyframes} */
+    protected _keyframes = new Array<CameraAnimation.Keyframe>();
+
+    /** @see {@link easing} */
+    protected _easing: CameraAnimation.Easing = CameraAnimation.Easing.easeInOut;
+
+    /**
+     * Time of the first update after the animation was started, undefined if no update occurred since.
+     */
+    protected _startTime: number | undefined;
+
+    /** @see {@link running} */
+    protected _running = false;
+
+    /** @see {@link progress} */
+    protected _progress = 0.0;
+
+    /** @see {@link progress$} */
+    protected _progressSubject = new ReplaySubject<number>(1);
+
+
+    /**
+     * Creates a deep copy of the given state.
+     */
+    protected static copy(state: CameraAnimation.State): CameraAnimation.State {
+        return {
+            eye: vec3.clone(state.eye), center: vec3.clone(state.center), up: vec3.clone(state.up),
+            fovy: state.fovy,
+        };
+    }
+
+    /**
+     * Retrieves the current state of the given camera.
+     * @param camera - Camera to retrieve eye, center, up, and fovy from.
+     */
+    static state(camera: Camera): CameraAnimation.State {
+        return {
+            eye: vec3.clone(camera.eye), center: vec3.clone(camera.center), up: vec3.clone(camera.up),
+            fovy: camera.fovy,
+        };
+    }
+
+    /**
+     * Assigns the given state to the camera. The camera's setters only invalidate on actual changes.
+     * @param camera - Camera to assign eye, center, up, and fovy to.
+     * @param state - State to assign.
+     */
+    static apply(camera: Camera, state: CameraAnimation.State): void {
+        camera.eye = state.eye;
+        camera.center = state.center;
+        camera.up = state.up;
+        camera.fovy = state.fovy;
+    }
+
+    /**
+     * Derives a quaternion rotating the camera's local frame (looking along -z with y as up vector) into world space.
+     * @param state - State to derive the orientation of.
+     */
+    static orientation(state: CameraAnimation.State): quat {
+        const back = vec3.normalize(v3(), vec3.subtract(v3(), state.eye, state.center));
+        const right = vec3.normalize(v3(), vec3.cross(v3(), state.up, back));
+        const up = vec3.cross(v3(), back, right);
+
+        const rotation = mat3.set(m3(), right[0], right[1], right[2], up[0], up[1], up[2],
+            back[0], back[1], back[2]);
+        return quat.normalize(quat.create(), quat.fromMat3(quat.create(), rotation));
+    }
+
+    /**
+     * Evaluates a uniform Catmull-Rom spline segment between p1 and p2. For the first and last segments of a path,
+     * the missing control points should be reflected, i.e., p0 = 2 p1 - p2 and p3 = 2 p2 - p1, which results in linear
+     * interpolation for paths of only two points.
+     * @param out - Receiving vector.
+     * @param p0 - Control point preceding the segment.
+     * @param p1 - Start of the segment.
+     * @param p2 - End of the segment.
+     * @param p3 - Control point succeeding the segment.
+     * @param t - Interpolation parameter in [0.0, 1.0].
+     */
+    static catmullRom(out: vec3, p0: vec3, p1: vec3, p2: vec3, p3: vec3, t: number): vec3 {
+        const t2 = t * t;
+        const t3 = t2 * t;
+        for (let i = 0; i < 3; ++i) {
+            out[i] = 0.5 * (2.0 * p1[i] + (p2[i] - p0[i]) * t
+                + (2.0 * p0[i] - 5.0 * p1[i] + 4.0 * p2[i] - p3[i]) * t2
+                + (3.0 * p1[i] - p0[i] - 3.0 * p2[i] + p3[i]) * t3);
+        }
+        return out;
+    }
+
+    /**
+     * Interpolates between two camera states: the eye is interpolated linearly, the orientation spherically, and the
+     * center is placed along the interpolated view direction at the interpolated distance.
+     * @param from - State at t = 0.0.
+     * @param to - State at t = 1.0.
+     * @param t - Interpolation parameter in [0.0, 1.0].
+     */
+    static interpolate(from: CameraAnimation.State, to: CameraAnimation.State, t: number): CameraAnimation.State {
+        const keyframes = [{ state: from, time: 0.0 }, { state: to, time: 1.0 }];
+        return CameraAnimation.evaluate(keyframes, t);
+    }
+
+    /**
+     * Evaluates the path of the given keyframes at a specific time. Times before the first or after the last keyframe
+     * result in the first or last keyframe's state respectively.
+     * @param keyframes - Keyframes in ascending order of time (at least one).
+     * @param time - Time to evaluate the path at.
+     */
+    static evaluate(keyframes: Array<CameraAnimation.Keyframe>, time: number): CameraAnimation.State {
+        assert(keyframes.length > 0, `expected at least one keyframe`);
+
+        const last = keyframes.length - 1;
+        if (time <= keyframes[0].time) {
+            return CameraAnimation.copy(keyframes[0].state);
+        }
+        if (time >= keyframes[last].time) {
+            return CameraAnimation.copy(keyframes[last].state);
+        }
+
+        /* Find the segment [i, i + 1] containing the time. */
+        let i = 0;
+        while (keyframes[i + 1].time <= time) {
+            ++i;
+        }
+        const t = (time - keyframes[i].time) / (keyframes[i + 1].time - keyframes[i].time);
+
+        const s1 = keyframes[i].state;
+        const s2 = keyframes[i + 1].state;
+        const s0 = i > 0 ? keyframes[i - 1].state : undefined;
+        const s3 = i + 1 < last ? keyframes[i + 2].state : undefined;
+
+        /* Reflect missing control points at the ends of the path. */
+        const reflect = (a: vec3, b: vec3) => vec3.scaleAndAdd(v3(), vec3.scale(v3(), a, 2.0), b, -1.0);
+        const p0 = s0 ? s0.eye : reflect(s1.eye, s2.eye);
+        const p3 = s3 ? s3.eye : reflect(s2.eye, s1.eye);
+        const eye = CameraAnimation.catmullRom(v3(), p0, s1.eye, s2.eye, p3, t);
+
+        const orientation = quat.slerp(quat.create(), CameraAnimation.orientation(s1),
+            CameraAnimation.orientation(s2), t);
+        const back = vec3.transformQuat(v3(), [0.0, 0.0, 1.0], orientation);
+        const up = vec3.transformQuat(v3(), [0.0, 1.0, 0.0], orientation);
+
+        const distance = mix(vec3.distance(s1.eye, s1.center), vec3.distance(s2.eye, s2.center), t);
+        const center = vec3.scaleAndAdd(v3(), eye, back, -distance);
+
+        return { eye, center, up, fovy: mix(s1.fovy, s2.fovy, t) };
+    }
+
+    /**
+     * Derives a state of the given camera that has the given bounding sphere entirely in view. The camera is
+     * translated such that its center is the sphere's center and the eye is moved along the view direction using
+     * `ray_math.eyeWithPointInView` for the sphere's extents in vertical and horizontal direction.
+     * @param camera - Camera providing view direction, up vector, field of view, and aspect ratio.
+     * @param center - Center of the bounding sphere.
+     * @param radius - Radius of the bounding sphere.
+     */
+    static sphereInView(camera: Camera, center: vec3, radius: number): CameraAnimation.State {
+        const translated = new Camera(vec3.add(v3(), camera.eye, vec3.subtract(v3(), center, camera.center)),
+            center, camera.up);
+        translated.fovy = camera.fovy;
+        translated.aspect = camera.aspect;
+
+        const forward = vec3.normalize(v3(), vec3.subtract(v3(), center, translated.eye));
+        const right = vec3.normalize(v3(), vec3.cross(v3(), forward, camera.up));
+        const up = vec3.cross(v3(), right, forward);
+
+        /* A point at r / cos(fov / 2) along an axis results in the sphere touching the frustum's planes. */
+        const tangent = Math.tan(camera.fovy * DEG2RAD * 0.5);
+        const vertical = radius / Math.cos(Math.atan(tangent));
+        const horizontal = radius / Math.cos(Math.atan(tangent * camera.aspect));
+
+        const eyeVertical = rayMath.eyeWithPointInView(translated,
+            vec3.scaleAndAdd(v3(), center, up, vertical));
+        const eyeHorizontal = rayMath.eyeWithPointInView(translated,
+            vec3.scaleAndAdd(v3(), center, right, horizontal));
+
+        const eye = vec3.distance(eyeVertical, center) > vec3.distance(eyeHorizontal, center) ?
+            eyeVertical : eyeHorizontal;
+        return { eye, center: vec3.clone(center), up: vec3.clone(camera.up), fovy: camera.fovy };
+    }
+
+
+    /**
+     * Creates a camera animation that invokes the given invalidation while running.
+     * @param invalidate - Invalidation callback, usually the one of the owning renderer.
+     * @param camera - Camera to be animated.
+     */
+    constructor(invalidate: Invalidate, camera?: Camera) {
+        this._invalidate = invalidate;
+        this._camera = camera;
+    }
+
+
+    /**
+     * Starts the animation along the given keyframes. Keyframe times are in milliseconds and relative to each other,
+     * i.e., the animation's duration is the time between first and last keyframe. The animation starts with the next
+     * update and a previously running animation is replaced.
+     * @param keyframes - Keyframes in ascending order of time (at least one).
+     * @param easing - Optional easing function, replacing the current one.
+     */
+    play(keyframes: Array<CameraAnimation.Keyframe>, easing?: CameraAnimation.Easing): void {
+        assert(keyframes.length > 0, `expected at least one keyframe`);
+        for (let i = 1; i < keyframes.length; ++i) {
+            assert(keyframes[i - 1].time <= keyframes[i].time, `expected keyframes in ascending order of time`);
+        }
+
+        this._keyframes = keyframes;
+        if (easing !== undefined) {
+            this._easing = easing;
+        }
+        this._startTime = undefined;
+        this._running = true;
+        this._progress = 0.0;
+        this._progressSubject.next(this._progress);
+
+        this._invalidate(false);
+    }
+
+    /**
+     * Animates the camera from its current state to the given state.
+     * @param to - State to animate the camera to.
+     * @param duration - Duration of the animation in milliseconds.
+     * @param easing - Optional easing function, replacing the current one.
+     */
+    transition(to: CameraAnimation.State, duration: number, easing?: CameraAnimation.Easing): void {
+        assert(this._camera !== undefined, `expected a camera to be set for transitions`);
+        this.play([{ state: CameraAnimation.state(this._camera!), time: 0.0 },
+        { state: to, time: duration }], easing);
+    }
+
+    /**
+     * Animates the camera to have the given bounding sphere entirely in view, keeping its view direction.
+     * @param center - Center of the bounding sphere.
+     * @param radius - Radius of the bounding sphere.
+     * @param duration - Duration of the animation in milliseconds.
+     * @param easing - Optional easing function, replacing the current one.
+     */
+    flyTo(center: vec3, radius: number, duration: number, easing?: CameraAnimation.Easing): void {
+        assert(this._camera !== undefined, `expected a camera to be set for flying`);
+        this.transition(CameraAnimation.sphereInView(this._camera!, center, radius), duration, easing);
+    }
+
+    /**
+     * Stops the animation, keeping the camera in its current state.
+     */
+    stop(): void {
+        this._running = false;
+    }
+
+    /**
+     * Applies the camera state for the given time. While the animation is running, the invalidation callback is
+     * invoked in order to request a subsequent update. This should be invoked on every update of the owning renderer.
+     * @param time - Current time in milliseconds, defaults to performance.now().
+     * @returns - Whether or not the camera state was applied.
+     */
+    update(time: number = performance.now()): boolean {
+        if (!this._running || this._camera === undefined) {
+            return false;
+        }
+        if (this._startTime === undefined) {
+            this._startTime = time;
+        }
+
+        const first = this._keyframes[0].time;
+        const duration = this._keyframes[this._keyframes.length - 1].time - first;
+        this._progress = duration > 0.0 ? clamp((time - this._startTime) / duration, 0.0, 1.0) : 1.0;
+
+        const eased = this._progress < 1.0 ? this._easing(this._progress) : 1.0;
+        CameraAnimation.apply(this._camera, CameraAnimation.evaluate(this._keyframes, first + eased * duration));
+
+        this._running = this._progress < 1.0;
+        this._progressSubject.next(this._progress);
+
+        if (this._running) {
+            this._invalidate(false);
+        }
+        return true;
+    }
+
+
+    /**
+     * The camera that is to be animated.
+     */
+    set camera(camera: Camera | undefined) {
+        this._camera = camera;
+    }
+
+    get camera(): Camera | undefined {
+        return this._camera;
+    }
+
+    /**
+     * Keyframes of the current (or last) animation.
+     */
+    get keyframes(): Array<CameraAnimation.Keyframe> {
+        return this._keyframes;
+    }
+
+    /**
+     * Easing function mapping the linear progress to the path's (normalized) time.
+     */
+    set easing(easing: CameraAnimation.Easing) {
+        this._easing = easing;
+    }
+
+    get easing(): CameraAnimation.Easing {
+        return this._easing;
+    }
+
+    /**
+     * Whether or not the animation is running, i.e., has not completed or been stopped.
+     */
+    get running(): boolean {
+        return this._running;
+    }
+
+    /**
+     * Linear progress of the animation in [0.0, 1.0].
+     */
+    get progress(): number {
+        return this._progress;
+    }
+
+    /**
+     * Observable that can be used to subscribe to progress changes, emitted on every update while running.
+     */
+    get progress$(): Observable<number> {
+        return this._progressSubject.asObservable();
+    }
+
+}
+
+
+export namespace CameraAnimation {
+
+    /**
+     * Camera attributes that are animated.
+     */
+    export interface State {
+        eye: vec3;
+        center: vec3;
+        up: vec3;
+        fovy: number;
+    }
+
+    /**
+     * Camera state at a specific time in milliseconds.
+     */
+    export interface Keyframe {
+        state: State;
+        time: number;
+    }
+
+    /**
+     * Maps a linear progress in [0.0, 1.0] to an eased progress with f(0) = 0 and f(1) = 1.
+     */
+    export interface Easing { (t: number): number; }
+
+    /**
+     * Common easing functions.
+     */
+    export namespace Easing {
+
+        export function linear(t: number): number {
+            return t;
+        }
+
+        export function easeIn(t: number): number {
+            return t * t * t;
+        }
+
+        export function easeOut(t: number): number {
+            const u = 1.0 - t;
+            return 1.0 - u * u * u;
+        }
+
+        export function easeInOut(t: number): number {
+            return t < 0.5 ? 4.0 * t * t * t : 1.0 - Math.pow(-2.0 * t + 2.0, 3.0) * 0.5;
+        }
+
+        export function smoothstep(t: number): number {
+            return t * t * (3.0 - 2.0 * t);
+        }
+
+    }
+
+}
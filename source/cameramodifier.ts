@@ -1,7 +1,12 @@
 
-import { vec2 } from 'gl-matrix';
+import { vec2, vec3 } from 'gl-matrix';
+
+import { v3 } from './gl-matrix-extensions';
 
 import { Camera } from './camera';
+import { ReadbackPass } from './readbackpass';
+
+import * as rayMath from './raymath';
 
 
 export abstract class CameraModifier {
@@ -24,6 +29,58 @@ export abstract class CameraModifier {
      */
     protected _currentPoint: vec2;
 
+    /** @see {@link readbackPass} */
+    protected _readbackPass: ReadbackPass | undefined;
+
+
+    /**
+     * Computes the world space ray through the event position, i.e., the ray from the eye through the point in the
+     * given camera's view plane (or, for orthographic projection, the ray parallel to the view direction). The ray's
+     * points are unprojected from within the depth range and ordered from near to far, thus, reversed depth and an
+     * infinite far plane are supported.
+     * @param point - Event position in pixel (origin at the upper left) with respect to the camera's viewport.
+     * @param camera - Camera to unproject the point with.
+     * @returns - Nearer and farther point of the ray, undefined if the camera's view projection is not invertible.
+     */
+    protected ray(point: vec2, camera: Camera): [vec3, vec3] | undefined {
+        const viewProjectionInverse = camera.viewProjectionInverse;
+        if (!viewProjectionInverse) {
+            return undefined;
+        }
+        const x = point[0] * 2.0 / camera.viewport[0] - 1.0;
+        const y = 1.0 - point[1] * 2.0 / camera.viewport[1];
+        const near = camera.reversedZ ? +0.5 : -0.5;
+        return [vec3.transformMat4(v3(), [x, y, near], viewProjectionInverse),
+            vec3.transformMat4(v3(), [x, y, -near], viewProjectionInverse)];
+    }
+
+    /**
+     * Retrieves the world space anchor for the given event position: if a readback pass is assigned and depth is
+     * available at the position, the fragment's coordinate is used. Otherwise, the ray through the point is intersected
+     * with the focal plane, i.e., the plane through the camera's center facing the eye.
+     * @param point - Event position in pixel (origin at the upper left) with respect to the camera's viewport.
+     * @param camera - Camera to unproject the point with, defaults to the modified camera.
+     * @returns - Anchor in world space, undefined if neither the fragment nor the focal plane could be hit.
+     */
+    protected anchor(point: vec2, camera: Camera | undefined = this._camera): vec3 | undefined {
+        if (camera === undefined) {
+            return undefined;
+        }
+        if (this._readbackPass !== undefined && camera.viewProjectionInverse) {
+            const coords = this._readbackPass.coordsAt(Math.round(point[0]), Math.round(point[1]), undefined,
+                camera.viewProjectionInverse);
+            if (coords !== undefined) {
+                return coords;
+            }
+        }
+        const ray = this.ray(point, camera);
+        if (ray === undefined) {
+            return undefined;
+        }
+        const normal = vec3.normalize(v3(), vec3.subtract(v3(), camera.eye, camera.center));
+        return rayMath.rayPlaneIntersection(ray[0], ray[1], camera.center, normal);
+    }
+
 
     /**
      * Should apply all previously calculated transformations to the camera set. Note that this does not invalidate the
@@ -48,4 +105,16 @@ export abstract class CameraModifier {
         this.update();
     }
 
+    /**
+     * Readback pass used to retrieve the depth at event positions for depth-aware modifications. If not assigned or
+     * if depth is cleared at a position, the focal plane through the camera's center is used instead.
+     */
+    set readbackPass(readbackPass: ReadbackPass | undefined) {
+        this._readbackPass = readbackPass;
+    }
+
+    get readbackPass(): ReadbackPass | undefined {
+        return this._readbackPass;
+    }
+
 }
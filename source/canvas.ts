@@ -11,7 +11,9 @@ import { GLclampf2, GLsizei2, tuple2, tuple4 } from './tuples';
 import { Color } from './color';
 import { Context } from './context';
 import { Controller } from './controller';
+import { FrameCapture } from './framecapture';
 import { MouseEventProvider } from './mouseeventprovider';
+import { PointerEventProvider } from './pointereventprovider';
 import { Renderer } from './renderer';
 import { Resizable } from './resizable';
 import { TouchEventProvider } from './toucheventprovider';
@@ -107,6 +109,9 @@ export class Canvas extends Resizable {
     /** @see {@link touchEventProvider} */
     protected _touchEventProvider: TouchEventProvider;
 
+    /** @see {@link pointerEventProvider} */
+    protected _pointerEventProvider: PointerEventProvider;
+
 
     /**
      * Create and initialize a multi-frame controller, setup a default multi-frame number and get the canvas's webgl
@@ -135,6 +140,7 @@ export class Canvas extends Resizable {
             document.getElementById(element) as HTMLCanvasElement;
         this._mouseEventProvider = new MouseEventProvider(this._element, 200);
         this._touchEventProvider = new TouchEventProvider(this._element, 200);
+        this._pointerEventProvider = new PointerEventProvider(this._element, 200);
 
         const dataset = this._element.dataset;
 
@@ -341,7 +347,8 @@ export class Canvas extends Resizable {
          * method is assigned to the pipelines invalidation event.
          */
         this._renderer.initialize(this.context, (force) => this._controller.update(force),
-            this._mouseEventProvider /*, this._keyEventProvider */, this._touchEventProvider);
+            this._mouseEventProvider /*, this._keyEventProvider */, this._touchEventProvider,
+            this._pointerEventProvider);
 
         this._renderer.frameSize = this._frameSize;
         this._renderer.clearColor = this._clearColor.rgba;
@@ -395,6 +402,38 @@ export class Canvas extends Resizable {
         this.onResize();
     }
 
+    /**
+     * Renders a multi-frame of the bound renderer at the given size and captures it as image data once finished
+     * (@see {@link FrameCapture}). The promise is rejected if no renderer is bound or capturing is not supported.
+     * @param size - Width and height of the image in pixel, defaults to the current frame size.
+     */
+    captureImageData(size?: GLsizei2): Promise<ImageData> {
+        return this._renderer ? new FrameCapture(this._context, this._controller, this._renderer)
+            .captureImageData(size) : Promise.reject(`expected a renderer to be bound for capturing`);
+    }
+
+    /**
+     * Renders a multi-frame of the bound renderer at the given size and captures it as encoded image once finished
+     * (@see {@link FrameCapture}). The promise is rejected if no renderer is bound or capturing is not supported.
+     * @param size - Width and height of the image in pixel, defaults to the current frame size.
+     * @param type - Mime type of the encoded image, e.g., 'image/png' or 'image/jpeg'.
+     */
+    captureBlob(size?: GLsizei2, type?: string): Promise<Blob> {
+        return this._renderer ? new FrameCapture(this._context, this._controller, this._renderer)
+            .captureBlob(size, type) : Promise.reject(`expected a renderer to be bound for capturing`);
+    }
+
+    /**
+     * Renders a multi-frame of the bound renderer at the given size and captures its raw floating point data once
+     * finished (@see {@link FrameCapture}). The promise is rejected if no renderer is bound or the renderer does not
+     * provide a float capture target.
+     * @param size - Width and height of the image in pixel, defaults to the current frame size.
+     */
+    captureFloat32(size?: GLsizei2): Promise<Float32Array> {
+        return this._renderer ? new FrameCapture(this._context, this._controller, this._renderer)
+            .captureFloat32(size) : Promise.reject(`expected a renderer to be bound for capturing`);
+    }
+
 
     /**
      * Single controller that is managing the rendering control flow of a bound renderer.
@@ -671,4 +710,11 @@ export class Canvas extends Resizable {
     get touchEventProvider(): TouchEventProvider {
         return this._touchEventProvider;
     }
+
+    /**
+     * Canvas pointer event provider referring to the canvas element, unifying mouse, pen, and touch input.
+     */
+    get pointerEventProvider(): PointerEventProvider {
+        return this._pointerEventProvider;
+    }
 }
@@ -3,7 +3,9 @@ import { clamp } from './gl-matrix-extensions';
 
 import { assert } from './auxiliaries';
 import { Color } from './color';
+import { Context } from './context';
 import { fetchJsonAsync } from './fetch';
+import { Texture2D } from './texture2d';
 
 
 // /**
@@ -51,6 +53,21 @@ export class ColorScale {
         }
     }
 
+    /**
+     * Creates an rgba byte texture comprising the given baked colors, clamped to edge.
+     */
+    protected static createTexture(context: Context, bits: Uint8Array, width: GLsizei, height: GLsizei,
+        nearest: boolean, identifier?: string): Texture2D {
+        const gl = context.gl;
+
+        const texture = new Texture2D(context, identifier);
+        texture.initialize(width, height, context.isWebGL2 ? gl.RGBA8 : gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE);
+        texture.filter(nearest ? gl.NEAREST : gl.LINEAR, nearest ? gl.NEAREST : gl.LINEAR);
+        texture.wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+        texture.data(bits);
+        return texture;
+    }
+
 
     /**
      * Fetches a color schema file, and, if successful, picks a preset for the specified number of steps. If the named
@@ -226,6 +243,37 @@ export class ColorScale {
         return scale;
     }
 
+    /**
+     * Bakes multiple color scales into rows of interleaved unsigned int rgba values, one row per scale, e.g., for an
+     * atlas of stacked lookup textures (@see {@link atlas}).
+     * @param scales - Color scales to bake, the first scale being the first row.
+     * @param size - Number of entries per row.
+     * @param space - Color space used for interpolation (@see {@link bakeF32}).
+     */
+    static bakeAtlasUI8(scales: Array<ColorScale>, size: number, space: Color.Space = Color.Space.LAB): Uint8Array {
+        const bits = new Uint8Array(size * scales.length * 4);
+        scales.forEach((scale, index) => bits.set(scale.bakeUI8(size, true, space), index * size * 4));
+        return bits;
+    }
+
+    /**
+     * Creates a lookup texture of stacked color scales, one row per scale, with colors in rgba bytes. The texture is
+     * filtered nearest only if all scales hint nearest interpolation. Use the `colorscale` chunk for sampling by
+     * normalized value and scale index (`#include <colorscale>`).
+     * @param context - Context to create the texture for.
+     * @param scales - Color scales to bake, the first scale being the first row.
+     * @param size - Number of entries per row.
+     * @param space - Color space used for interpolation (@see {@link bakeF32}).
+     * @param identifier - Meaningful name for identification of the texture.
+     */
+    static atlas(context: Context, scales: Array<ColorScale>, size: number, space: Color.Space = Color.Space.LAB,
+        identifier?: string): Texture2D {
+        assert(scales.length > 0, `expected at least one color scale for the atlas`);
+        const nearest = scales.every((scale) => scale.hint === ColorScale.InterpolationHint.Nearest);
+        return ColorScale.createTexture(context, ColorScale.bakeAtlasUI8(scales, size, space), size, scales.length,
+            nearest, identifier);
+    }
+
 
     /**
      * Queries the color at a given position by identifying the adjacent stops (lower and upper bound) and either
@@ -254,13 +302,13 @@ export class ColorScale {
         }
 
         /* Find lower and upper bound for the given position. */
-        const posIndex = position * this._colors.length; // Position in index space.
+        const posIndex = clamped * (this._colors.length - 1); // Position in index space.
         const lower = Math.floor(posIndex);
         const upper = lower + 1;
         assert(upper < this._colors.length, `expected upper not exceed maximum color index`);
 
         if (this._hint === ColorScale.InterpolationHint.Nearest) {
-            return this._colors[posIndex - lower > upper - posIndex ? lower : upper];
+            return this._colors[posIndex - lower < upper - posIndex ? lower : upper];
         }
         return Color.mix(this._colors[lower], this._colors[upper], posIndex - lower, space);
     }
@@ -300,7 +348,8 @@ export class ColorScale {
 
 
     /**
-     * Converts the color scale into an array of interleaved unsigned int values of the requested color space.
+     * Converts the color scale into an array of interleaved unsigned int values of the requested color space, one
+     * entry per color. Values are truncated. In contrast to @see {@link bakeUI8}, colors are not resampled.
      * @param space - Color space that is to be used for the array.
      * @param alpha - Whether or not alpha is to be included.
      */
@@ -322,7 +371,8 @@ export class ColorScale {
     }
 
     /**
-     * Converts the color scale into an array of interleaved float values of the requested color space.
+     * Converts the color scale into an array of interleaved float values of the requested color space, one entry per
+     * color. In contrast to @see {@link bakeF32}, colors are not resampled.
      * @param space - Color space that is to be used for the array.
      * @param alpha - Whether or not alpha is to be included.
      */
@@ -344,6 +394,65 @@ export class ColorScale {
     }
 
 
+    /**
+     * Bakes the color scale into an array of interleaved float values (rgb or rgba) of the given number of entries.
+     * Entries are sampled at equidistant positions in [0, 1], i.e., the first and last entry match the first and last
+     * color, and are interpolated according to the interpolation hint (@see {@link lerp}). In contrast to
+     * @see {@link bitsF32}, the colors are resampled and always provided in RGB, whereas the space specifies the
+     * color space used for interpolation.
+     * @param size - Number of entries, the number of colors by default.
+     * @param alpha - Whether or not alpha is to be included.
+     * @param space - Color space used for interpolation, LAB by default (as for @see {@link lerp}).
+     */
+    bakeF32(size: number = this.length, alpha: boolean = true, space: Color.Space = Color.Space.LAB): Float32Array {
+        assert(size > 0, `expected at least one entry, given ${size}`);
+        const stride = alpha ? 4 : 3;
+        const bits = new Float32Array(size * stride);
+
+        for (let i = 0; i < size; ++i) {
+            const color = this.lerp(size > 1 ? i / (size - 1) : 0.0, space);
+            if (color === undefined) {
+                continue;
+            }
+            bits.set(color.tuple(Color.Space.RGB, alpha), i * stride);
+        }
+        return bits;
+    }
+
+    /**
+     * Bakes the color scale into an array of interleaved unsigned int values (rgb or rgba) of the given number of
+     * entries (@see {@link bakeF32}), e.g., for lookup textures. In contrast to @see {@link bitsUI8}, values are
+     * rounded to the nearest integer.
+     * @param size - Number of entries, the number of colors by default.
+     * @param alpha - Whether or not alpha is to be included.
+     * @param space - Color space used for interpolation, LAB by default (as for @see {@link lerp}).
+     */
+    bakeUI8(size: number = this.length, alpha: boolean = true, space: Color.Space = Color.Space.LAB): Uint8Array {
+        const floats = this.bakeF32(size, alpha, space);
+        const bits = new Uint8Array(floats.length);
+        for (let i = 0; i < floats.length; ++i) {
+            bits[i] = Math.round(floats[i] * 255.0);
+        }
+        return bits;
+    }
+
+    /**
+     * Creates a lookup texture (height of one) of the color scale with colors in rgba bytes. Nearest interpolation
+     * hints map to nearest filtering, linear interpolation to linear filtering. Use the `colorscale` chunk for
+     * sampling by normalized value (`#include <colorscale>`).
+     * @param context - Context to create the texture for.
+     * @param size - Number of entries, the number of colors by default. Since the texture is filtered in RGB, more
+     * entries approximate interpolation in other color spaces more closely.
+     * @param space - Color space used for interpolation when baking the entries (@see {@link bakeF32}).
+     * @param identifier - Meaningful name for identification of the texture.
+     */
+    texture(context: Context, size: number = this.length, space: Color.Space = Color.Space.LAB,
+        identifier?: string): Texture2D {
+        return ColorScale.createTexture(context, this.bakeUI8(size, true, space), size, 1,
+            this._hint === ColorScale.InterpolationHint.Nearest, identifier);
+    }
+
+
     /**
      * Provides read access to the number of colors of this scale. This is a shortcut for this.colors.length.
      */
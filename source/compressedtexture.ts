@@ -0,0 +1,558 @@
+
+import { assert, log, LogLevel } from './auxiliaries';
+
+import { Context } from './context';
+import { fetchAsync } from './fetch';
+
+
+/**
+ * Block compressed texel data of a 2D texture or cube map, comprising all mipmap levels as provided by a KTX, KTX2, or
+ * DDS container. Containers can be parsed independently of a context, whereas upload is done by the texture classes
+ * (@see {@link Texture2D.compressedData} and {@link TextureCube.compressedData}). Since support of compression
+ * formats varies by platform, it is up to the application to provide a container per compression family and to select
+ * the best one supported by the context:
+ * ```
+ * const sources = { astc: 'img/logo.astc.ktx2', etc: 'img/logo.etc2.ktx', s3tc: 'img/logo.dxt5.dds' };
+ * texture.loadCompressed(sources).then(() => this.invalidate(true));
+ * ```
+ * Supercompressed KTX2 containers (BasisLZ, Zstandard, or zlib) are not supported, since they require a transcoder.
+ */
+export class CompressedTexture {
+
+    /**
+     * File identifiers of KTX ('«KTX 11»\r\n\x1A\n') and KTX2 ('«KTX 20»\r\n\x1A\n') as well as the DDS magic ('DDS ').
+     */
+    protected static readonly KTX_IDENTIFIER = [0xAB, 0x4B, 0x54, 0x58, 0x20, 0x31, 0x31, 0xBB, 0x0D, 0x0A, 0x1A,
+        0x0A];
+    protected static readonly KTX2_IDENTIFIER = [0xAB, 0x4B, 0x54, 0x58, 0x20, 0x32, 0x30, 0xBB, 0x0D, 0x0A, 0x1A,
+        0x0A];
+    protected static readonly DDS_MAGIC = 0x20534444;
+
+
+    /** @see {@link internalFormat} */
+    protected _internalFormat: GLenum;
+
+    /** @see {@link width} */
+    protected _width: GLsizei;
+
+    /** @see {@link height} */
+    protected _height: GLsizei;
+
+    /** @see {@link levels} */
+    protected _levels: Array<Array<Uint8Array>>;
+
+
+    protected static matches(data: ArrayBuffer, identifier: Array<number>): boolean {
+        if (data.byteLength < identifier.length) {
+            return false;
+        }
+        const bytes = new Uint8Array(data, 0, identifier.length);
+        return identifier.every((value, index) => bytes[index] === value);
+    }
+
+    /**
+     * Maps a Vulkan format as used by KTX2 to the corresponding compressed internal format.
+     * @param vkFormat - Vulkan format identifier.
+     * @returns - Internal format, undefined if the format is not a supported compressed format.
+     */
+    protected static fromVkFormat(vkFormat: number): GLenum | undefined {
+        if (vkFormat >= 131 && vkFormat <= 134) { /* BC1 RGB, BC1 RGBA */
+            return [0x83F0, 0x8C4C, 0x83F1, 0x8C4D][vkFormat - 131];
+        }
+        if (vkFormat >= 135 && vkFormat <= 138) { /* BC2, BC3 */
+            return [0x83F2, 0x8C4E, 0x83F3, 0x8C4F][vkFormat - 135];
+        }
+        if (vkFormat >= 147 && vkFormat <= 152) { /* ETC2 RGB, RGB A1, RGBA */
+            return 0x9274 + vkFormat - 147;
+        }
+        if (vkFormat >= 153 && vkFormat <= 156) { /* EAC R11, RG11 */
+            return 0x9270 + vkFormat - 153;
+        }
+        if (vkFormat >= 157 && vkFormat <= 184) { /* ASTC, alternating unorm and srgb per block size */
+            const block = (vkFormat - 157) >> 1;
+            return ((vkFormat - 157) % 2 === 0 ? 0x93B0 : 0x93D0) + block;
+        }
+        switch (vkFormat) {
+            case 1000054000: /* PVRTC1 2BPP */
+                return 0x8C03;
+            case 1000054001: /* PVRTC1 4BPP */
+                return 0x8C02;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Provides block dimensions and byte size per block of a compressed internal format.
+     * @param format - Compressed internal format, e.g., `COMPRESSED_RGBA_S3TC_DXT5_EXT`.
+     * @returns - Format information, undefined if the format is not a supported compressed format.
+     */
+    static formatInfo(format: GLenum): CompressedTexture.FormatInfo | undefined {
+        return FORMATS.get(format);
+    }
+
+    /**
+     * Computes the byte size of a single image of the given compressed format, i.e., rounded up to full blocks.
+     * @param format - Compressed internal format.
+     * @param width - Width of the image in px.
+     * @param height - Height of the image in px.
+     * @returns - Size of the image in bytes.
+     */
+    static byteSize(format: GLenum, width: GLsizei, height: GLsizei): GLsizei {
+        const info = FORMATS.get(format);
+        assert(info !== undefined, `expected compressed internal format, given ${format}`);
+
+        let blocksX = Math.ceil(width / info!.blockWidth);
+        let blocksY = Math.ceil(height / info!.blockHeight);
+        if (info!.family === CompressedTexture.Family.PVRTC) { /* PVRTC requires at least 2x2 blocks */
+            blocksX = Math.max(blocksX, 2);
+            blocksY = Math.max(blocksY, 2);
+        }
+        return blocksX * blocksY * info!.blockBytes;
+    }
+
+    /**
+     * Queries whether or not a compression family is supported by the given context.
+     * @param context - Context to query the extension support of.
+     * @param family - Compression family.
+     */
+    static supports(context: Context, family: CompressedTexture.Family): boolean {
+        switch (family) {
+            case CompressedTexture.Family.ASTC:
+                return context.supportsCompressedTextureASTC;
+            case CompressedTexture.Family.ATC:
+                return context.supportsCompressedTextureATC;
+            case CompressedTexture.Family.ETC:
+                return context.supportsCompressedTextureETC;
+            case CompressedTexture.Family.ETC1:
+                return context.supportsCompressedTextureETC1;
+            case CompressedTexture.Family.PVRTC:
+                return context.supportsCompressedTexturePVRTC;
+            case CompressedTexture.Family.S3TC:
+                return context.supportsCompressedTextureS3TC;
+            case CompressedTexture.Family.S3TCSRGB:
+                return context.supportsCompressedTextureS3TCSRGB;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Enables the extension of a compression family, which is required before uploading texel data.
+     * @param context - Context to enable the extension for.
+     * @param family - Compression family, expected to be supported by the context.
+     */
+    static enable(context: Context, family: CompressedTexture.Family): void {
+        assert(CompressedTexture.supports(context, family), `expected compression family '${family}' to be supported`);
+        /* tslint:disable:no-unused-expression */
+        switch (family) {
+            case CompressedTexture.Family.ASTC:
+                context.compressedTextureASTC;
+                break;
+            case CompressedTexture.Family.ATC:
+                context.compressedTextureATC;
+                break;
+            case CompressedTexture.Family.ETC:
+                context.compressedTextureETC;
+                break;
+            case CompressedTexture.Family.ETC1:
+                context.compressedTextureETC1;
+                break;
+            case CompressedTexture.Family.PVRTC:
+                context.compressedTexturePVRTC;
+                break;
+            case CompressedTexture.Family.S3TC:
+                context.compressedTextureS3TC;
+                break;
+            case CompressedTexture.Family.S3TCSRGB:
+                context.compressedTextureS3TCSRGB;
+                break;
+            default:
+                break;
+        }
+        /* tslint:enable:no-unused-expression */
+    }
+
+    /**
+     * Selects the preferred compression family among the given ones that is supported by the context.
+     * @param context - Context to query the extension support of.
+     * @param families - Families to choose from, e.g., the families containers are available for.
+     * @returns - Supported family, undefined if none of the given families is supported.
+     */
+    static best(context: Context, families: Array<CompressedTexture.Family>): CompressedTexture.Family | undefined {
+        return PREFERENCE.find((family) =>
+            families.indexOf(family) > -1 && CompressedTexture.supports(context, family));
+    }
+
+    static isKTX(data: ArrayBuffer): boolean {
+        return CompressedTexture.matches(data, CompressedTexture.KTX_IDENTIFIER);
+    }
+
+    static isKTX2(data: ArrayBuffer): boolean {
+        return CompressedTexture.matches(data, CompressedTexture.KTX2_IDENTIFIER);
+    }
+
+    static isDDS(data: ArrayBuffer): boolean {
+        return data.byteLength >= 4 && new DataView(data).getUint32(0, true) === CompressedTexture.DDS_MAGIC;
+    }
+
+    /**
+     * Parses a KTX (version 1) container. Array textures and 3D textures are not supported.
+     * @param data - Content of the container.
+     * @returns - Compressed texture, undefined if the texel data is not block compressed in a supported format.
+     */
+    static parseKTX(data: ArrayBuffer): CompressedTexture | undefined {
+        assert(CompressedTexture.isKTX(data), `expected KTX identifier`);
+        const view = new DataView(data);
+
+        const littleEndian = view.getUint32(12, true) === 0x04030201;
+        const u32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+        const glType = u32(16);
+        const internalFormat = u32(28);
+        const width = u32(36);
+        const height = u32(40);
+        const depth = u32(44);
+        const elements = u32(48);
+        const faces = u32(52);
+        const levelCount = Math.max(u32(56), 1);
+        const keyValueBytes = u32(60);
+
+        assert(depth === 0 && elements === 0, `expected KTX of a 2D texture or cube map`);
+        assert(faces === 1 || faces === 6, `expected KTX of 1 or 6 faces, given ${faces}`);
+        if (glType !== 0 || !FORMATS.has(internalFormat)) {
+            log(LogLevel.Warning, `KTX internal format ${internalFormat} is not a supported compressed format`);
+            return undefined;
+        }
+
+        const levels = new Array<Array<Uint8Array>>();
+        let offset = 64 + keyValueBytes;
+        for (let level = 0; level < levelCount; ++level) {
+            const imageSize = u32(offset);
+            offset += 4;
+
+            const images = new Array<Uint8Array>();
+            for (let face = 0; face < faces; ++face) {
+                assert(offset + imageSize <= data.byteLength, `expected KTX image data of level ${level} in range`);
+                images.push(new Uint8Array(data, offset, imageSize));
+                offset += imageSize + (3 - (imageSize + 3) % 4); /* cube and mip padding to 4 bytes */
+            }
+            levels.push(images);
+        }
+        return new CompressedTexture(internalFormat, width, height, levels);
+    }
+
+    /**
+     * Parses a KTX2 container. Supercompressed containers, array textures, and 3D textures are not supported.
+     * @param data - Content of the container.
+     * @returns - Compressed texture, undefined if the container is supercompressed or the texel data is not block
+     * compressed in a supported format.
+     */
+    static parseKTX2(data: ArrayBuffer): CompressedTexture | undefined {
+        assert(CompressedTexture.isKTX2(data), `expected KTX2 identifier`);
+        const view = new DataView(data);
+        const u32 = (offset: number) => view.getUint32(offset, true);
+        /* 64 bit offsets and lengths are assumed to not exceed 32 bit */
+        const u64 = (offset: number) => view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+        const vkFormat = u32(12);
+        const width = u32(20);
+        const height = u32(24);
+        const depth = u32(28);
+        const layers = u32(32);
+        const faces = u32(36);
+        const levelCount = Math.max(u32(40), 1);
+        const supercompression = u32(44);
+
+        assert(depth === 0 && layers === 0, `expected KTX2 of a 2D texture or cube map`);
+        assert(faces === 1 || faces === 6, `expected KTX2 of 1 or 6 faces, given ${faces}`);
+        if (supercompression !== 0) {
+            log(LogLevel.Warning, `KTX2 supercompression scheme ${supercompression} is not supported`);
+            return undefined;
+        }
+        const internalFormat = CompressedTexture.fromVkFormat(vkFormat);
+        if (internalFormat === undefined) {
+            log(LogLevel.Warning, `KTX2 format ${vkFormat} is not a supported compressed format`);
+            return undefined;
+        }
+
+        const levels = new Array<Array<Uint8Array>>();
+        for (let level = 0; level < levelCount; ++level) {
+            const offset = u64(80 + level * 24);
+            const length = u64(88 + level * 24);
+            assert(offset + length <= data.byteLength, `expected KTX2 image data of level ${level} in range`);
+
+            const faceSize = length / faces;
+            const images = new Array<Uint8Array>();
+            for (let face = 0; face < faces; ++face) {
+                images.push(new Uint8Array(data, offset + face * faceSize, faceSize));
+            }
+            levels.push(images);
+        }
+        return new CompressedTexture(internalFormat, width, height, levels);
+    }
+
+    /**
+     * Parses a DDS container of S3TC compressed texel data (DXT1, DXT3, DXT5, or the DX10 BC1-BC3 formats).
+     * @param data - Content of the container.
+     * @returns - Compressed texture, undefined if the texel data is not block compressed in a supported format.
+     */
+    static parseDDS(data: ArrayBuffer): CompressedTexture | undefined {
+        assert(CompressedTexture.isDDS(data), `expected DDS magic`);
+        const view = new DataView(data);
+        const u32 = (offset: number) => view.getUint32(offset, true);
+        const fourCC = (code: string) => code.charCodeAt(0) | code.charCodeAt(1) << 8 |
+            code.charCodeAt(2) << 16 | code.charCodeAt(3) << 24;
+
+        const DDSD_MIPMAPCOUNT = 0x20000;
+        const DDPF_ALPHAPIXELS = 0x1;
+        const DDSCAPS2_CUBEMAP = 0x200;
+
+        const height = u32(12);
+        const width = u32(16);
+        const levelCount = u32(8) & DDSD_MIPMAPCOUNT ? Math.max(u32(28), 1) : 1;
+        const faces = u32(112) & DDSCAPS2_CUBEMAP ? 6 : 1;
+
+        let internalFormat: GLenum | undefined;
+        let offset = 128;
+        switch (u32(84)) {
+            case fourCC('DXT1'):
+                internalFormat = u32(80) & DDPF_ALPHAPIXELS ? 0x83F1 : 0x83F0;
+                break;
+            case fourCC('DXT3'):
+                internalFormat = 0x83F2;
+                break;
+            case fourCC('DXT5'):
+                internalFormat = 0x83F3;
+                break;
+            case fourCC('DX10'):
+                /* DXGI formats BC1 to BC3, each as unorm and unorm srgb */
+                internalFormat = new Map<number, GLenum>([[71, 0x83F1], [72, 0x8C4D], [74, 0x83F2], [75, 0x8C4E],
+                [77, 0x83F3], [78, 0x8C4F]]).get(u32(128));
+                offset += 20;
+                break;
+            default:
+                break;
+        }
+        if (internalFormat === undefined) {
+            log(LogLevel.Warning, `DDS pixel format is not a supported compressed format`);
+            return undefined;
+        }
+
+        /* DDS stores all levels of a face consecutively, whereas levels are indexed first here. */
+        const levels = new Array<Array<Uint8Array>>();
+        for (let level = 0; level < levelCount; ++level) {
+            levels.push(new Array<Uint8Array>(faces));
+        }
+        for (let face = 0; face < faces; ++face) {
+            for (let level = 0; level < levelCount; ++level) {
+                const size = CompressedTexture.byteSize(internalFormat,
+                    Math.max(width >> level, 1), Math.max(height >> level, 1));
+                assert(offset + size <= data.byteLength, `expected DDS image data of level ${level} in range`);
+                levels[level][face] = new Uint8Array(data, offset, size);
+                offset += size;
+            }
+        }
+        return new CompressedTexture(internalFormat, width, height, levels);
+    }
+
+    /**
+     * Parses a KTX, KTX2, or DDS container, detected by its identifier.
+     * @param data - Content of the container.
+     * @returns - Compressed texture, undefined if the container or its format is not supported.
+     */
+    static parse(data: ArrayBuffer): CompressedTexture | undefined {
+        if (CompressedTexture.isKTX(data)) {
+            return CompressedTexture.parseKTX(data);
+        } else if (CompressedTexture.isKTX2(data)) {
+            return CompressedTexture.parseKTX2(data);
+        } else if (CompressedTexture.isDDS(data)) {
+            return CompressedTexture.parseDDS(data);
+        }
+        log(LogLevel.Warning, `expected KTX, KTX2, or DDS container`);
+        return undefined;
+    }
+
+    /**
+     * Fetches and parses the container of the preferred compression family supported by the context.
+     * @param context - Context to select the compression family for.
+     * @param sources - URL of a single container or URLs of containers per compression family.
+     * @returns - Promise resolved with the parsed texture, rejected if no container is supported.
+     */
+    static load(context: Context, sources: CompressedTexture.Sources | string): Promise<CompressedTexture> {
+        let url: string | undefined;
+        if (typeof sources === 'string') {
+            url = sources;
+        } else {
+            const family = CompressedTexture.best(context, Object.keys(sources) as Array<CompressedTexture.Family>);
+            url = family === undefined ? undefined : sources[family];
+        }
+        if (url === undefined) {
+            return Promise.reject(`none of the compression families ${Object.keys(sources).join(', ')} ` +
+                `is supported by the context`);
+        }
+
+        return fetchAsync<ArrayBuffer>(url, 'arraybuffer').then<CompressedTexture>((data) => {
+            const texture = CompressedTexture.parse(data);
+            if (texture === undefined) {
+                return Promise.reject(`parsing compressed texture from '${url}' failed`);
+            }
+            return texture;
+        });
+    }
+
+
+    /**
+     * @param internalFormat - Compressed internal format of the texel data.
+     * @param width - Width of the base level in px.
+     * @param height - Height of the base level in px.
+     * @param levels - Texel data per level (base level first) and face (1 face or 6 faces in order +x, -x, +y, -y,
+     * +z, -z).
+     */
+    constructor(internalFormat: GLenum, width: GLsizei, height: GLsizei, levels: Array<Array<Uint8Array>>) {
+        assert(FORMATS.has(internalFormat), `expected compressed internal format, given ` +
+            `${internalFormat}`);
+        assert(levels.length > 0, `expected at least one level of texel data`);
+
+        this._internalFormat = internalFormat;
+        this._width = width;
+        this._height = height;
+        this._levels = levels;
+    }
+
+
+    /**
+     * Size of the given level in px.
+     * @param level - Mipmap level, 0 being the base level.
+     */
+    levelSize(level: GLint): [GLsizei, GLsizei] {
+        return [Math.max(this._width >> level, 1), Math.max(this._height >> level, 1)];
+    }
+
+
+    /**
+     * Compressed internal format of the texel data, e.g., `COMPRESSED_RGBA_ASTC_4x4_KHR`.
+     */
+    get internalFormat(): GLenum {
+        return this._internalFormat;
+    }
+
+    /**
+     * Compression family of the internal format, that is, the extension required for upload.
+     */
+    get family(): CompressedTexture.Family {
+        return (FORMATS.get(this._internalFormat) as CompressedTexture.FormatInfo).family;
+    }
+
+    /**
+     * Width of the base level in px.
+     */
+    get width(): GLsizei {
+        return this._width;
+    }
+
+    /**
+     * Height of the base level in px.
+     */
+    get height(): GLsizei {
+        return this._height;
+    }
+
+    /**
+     * Number of faces, i.e., 6 for cube maps and 1 otherwise.
+     */
+    get faces(): GLsizei {
+        return this._levels[0].length;
+    }
+
+    /**
+     * Texel data indexed by level (base level first) and face.
+     */
+    get levels(): Array<Array<Uint8Array>> {
+        return this._levels;
+    }
+
+    /**
+     * Size of the texel data of all levels and faces in bytes, i.e., the GPU storage required.
+     */
+    get byteSize(): GLsizei {
+        let bytes = 0;
+        for (const level of this._levels) {
+            for (const image of level) {
+                bytes += image.byteLength;
+            }
+        }
+        return bytes;
+    }
+
+}
+
+
+export namespace CompressedTexture {
+
+    /**
+     * Compression families, each corresponding to a WebGL extension.
+     */
+    export enum Family {
+        ASTC = 'astc',
+        ATC = 'atc',
+        ETC = 'etc',
+        ETC1 = 'etc1',
+        PVRTC = 'pvrtc',
+        S3TC = 's3tc',
+        S3TCSRGB = 's3tc_srgb',
+    }
+
+    export interface FormatInfo {
+        family: Family;
+        blockWidth: GLsizei;
+        blockHeight: GLsizei;
+        blockBytes: GLsizei;
+    }
+
+    /**
+     * URLs of containers per compression family, e.g., as passed to `loadCompressed`.
+     */
+    export type Sources = { [family in Family]?: string };
+
+}
+
+
+/**
+ * Block dimensions and byte size per block of all supported compressed internal formats. The enumerator values of the
+ * respective extensions are used, e.g., COMPRESSED_RGB_S3TC_DXT1_EXT = 0x83F0, since extension objects are not
+ * available without context.
+ */
+const FORMATS = new Map<GLenum, CompressedTexture.FormatInfo>();
+
+/**
+ * Compression families in order of preference: higher quality per bit is preferred.
+ */
+const PREFERENCE = [
+    CompressedTexture.Family.ASTC, CompressedTexture.Family.ETC, CompressedTexture.Family.S3TC,
+    CompressedTexture.Family.S3TCSRGB, CompressedTexture.Family.PVRTC, CompressedTexture.Family.ETC1,
+    CompressedTexture.Family.ATC];
+
+function register(family: CompressedTexture.Family, blockWidth: GLsizei, blockHeight: GLsizei,
+    blockBytes: GLsizei, formats: Array<GLenum>): void {
+    for (const format of formats) {
+        FORMATS.set(format, { family, blockWidth, blockHeight, blockBytes });
+    }
+}
+
+register(CompressedTexture.Family.S3TC, 4, 4, 8, [0x83F0, 0x83F1]);
+register(CompressedTexture.Family.S3TC, 4, 4, 16, [0x83F2, 0x83F3]);
+register(CompressedTexture.Family.S3TCSRGB, 4, 4, 8, [0x8C4C, 0x8C4D]);
+register(CompressedTexture.Family.S3TCSRGB, 4, 4, 16, [0x8C4E, 0x8C4F]);
+register(CompressedTexture.Family.ETC, 4, 4, 8, [0x9270, 0x9271, 0x9274, 0x9275, 0x9276, 0x9277]);
+register(CompressedTexture.Family.ETC, 4, 4, 16, [0x9272, 0x9273, 0x9278, 0x9279]);
+register(CompressedTexture.Family.ETC1, 4, 4, 8, [0x8D64]);
+register(CompressedTexture.Family.PVRTC, 4, 4, 8, [0x8C00, 0x8C02]);
+register(CompressedTexture.Family.PVRTC, 8, 4, 8, [0x8C01, 0x8C03]);
+register(CompressedTexture.Family.ATC, 4, 4, 8, [0x8C92]);
+register(CompressedTexture.Family.ATC, 4, 4, 16, [0x8C93, 0x87EE]);
+
+/* ASTC block sizes in order of the format enumerators, both for linear (0x93B0) and sRGB (0x93D0) formats */
+[[4, 4], [5, 4], [5, 5], [6, 5], [6, 6], [8, 5], [8, 6], [8, 8], [10, 5], [10, 6], [10, 8], [10, 10], [12, 10],
+[12, 12]].forEach((block, index) =>
+    register(CompressedTexture.Family.ASTC, block[0], block[1], 16, [0x93B0 + index, 0x93D0 + index]));
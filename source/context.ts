@@ -98,24 +98,46 @@ export class Context {
 
     /**
      * Create a WebGL context. Note: this should only be called once in constructor, because the second and subsequent
-     * calls to getContext of an element will return null.
-     * @param element - Canvas element to request context from.
+     * calls to getContext of an element will return null. For offscreen canvases, neither data attributes nor GET
+     * parameters are evaluated (@see {@link requestFromFactory} for further configuration).
+     * @param element - Canvas element or offscreen canvas to request context from.
      * @param attributes - Overrides the internal default attributes @see{Context.DEFAULT_ATTRIBUTES}.
      * @returns - Context providing either a WebGLRenderingContext, WebGL2RenderingContext.
      */
-    static request(element: HTMLCanvasElement,
+    static request(element: HTMLCanvasElement | Context.OffscreenCanvas,
         attributes: WebGLContextAttributes = Context.DEFAULT_ATTRIBUTES): Context {
 
-        const dataset: DOMStringMap = element.dataset;
-        const mask = Context.createMasqueradeFromGETorDataAttribute(dataset);
+        const dataset: DOMStringMap | undefined = (element as HTMLCanvasElement).dataset;
+        const mask = dataset !== undefined ? Context.createMasqueradeFromGETorDataAttribute(dataset) : undefined;
 
         /** Favor backend specification by masquerade over specification by data attribute. */
-        let request = mask ? (mask.backend as string) :
-            dataset.backend ? (dataset.backend as string).toLowerCase() : 'auto';
+        const request = mask ? (mask.backend as string) :
+            dataset !== undefined && dataset.backend ? (dataset.backend as string).toLowerCase() : 'auto';
 
+        const factory = (identifier: string, contextAttributes: WebGLContextAttributes) =>
+            (element as Context.OffscreenCanvas).getContext(identifier, contextAttributes);
+        return Context.requestFromFactory(factory, request, attributes, mask);
+    }
+
+    /**
+     * Create a context using the given factory for the actual WebGL context creation. This allows to provide contexts
+     * that are not backed by a canvas element, e.g., a mock or software context for testing in headless environments:
+     * ```
+     * const context = Context.requestFromFactory((identifier) => identifier === 'webgl2' ? mock : undefined);
+     * ```
+     * @param factory - Factory invoked with context identifiers ('webgl2', 'webgl', ...) in order of preference.
+     * @param backend - Requested backend, either 'auto', 'webgl', or 'webgl2' (@see {@link BackendRequestType}).
+     * @param attributes - Overrides the internal default attributes @see{Context.DEFAULT_ATTRIBUTES}.
+     * @param mask - Optional masquerade object for debugging.
+     * @returns - Context providing either a WebGLRenderingContext, WebGL2RenderingContext.
+     */
+    static requestFromFactory(factory: Context.Factory, backend: string = Context.BackendRequestType.auto,
+        attributes: WebGLContextAttributes = Context.DEFAULT_ATTRIBUTES, mask?: ContextMasquerade): Context {
+
+        let request = backend;
         if (!(request in Context.BackendRequestType)) {
             log(LogLevel.Warning,
-                `unknown backend '${dataset.backend}' changed to '${Context.BackendRequestType.auto}'`);
+                `unknown backend '${backend}' changed to '${Context.BackendRequestType.auto}'`);
             request = 'auto';
         }
 
@@ -137,10 +159,10 @@ export class Context {
 
         let context;
         if (request !== Context.BackendRequestType.webgl) {
-            context = this.requestWebGL2(element, attributes);
+            context = this.requestWebGL2(factory, attributes);
         }
         if (!context) {
-            context = this.requestWebGL1(element, attributes);
+            context = this.requestWebGL1(factory, attributes);
             logIf(context !== undefined && request === Context.BackendRequestType.webgl2, LogLevel.Info,
                 `backend changed to '${Context.BackendRequestType.webgl}', given '${request}'`);
         }
@@ -151,37 +173,36 @@ export class Context {
 
     /**
      * Helper that tries to create a WebGL 1 context (requests to 'webgl' and 'experimental-webgl' are made).
-     * @param element - Canvas element to request context from.
+     * @param factory - Factory to request context from, e.g., wrapping a canvas element's getContext.
      * @param attributes - Overrides the internal default attributes @see{Context.CONTEXT_ATTRIBUTES}.
-     * @returns {WebGLRenderingContext} - WebGL context object or null.
+     * @returns {WebGLRenderingContext} - WebGL context object or undefined.
      */
-    protected static requestWebGL1(element: HTMLCanvasElement,
+    protected static requestWebGL1(factory: Context.Factory,
         attributes: WebGLContextAttributes = Context.DEFAULT_ATTRIBUTES): WebGLRenderingContext | undefined {
 
-        let context = element.getContext(Context.BackendRequestType.webgl, attributes);
+        let context = factory(Context.BackendRequestType.webgl, attributes);
         if (context) {
             return context;
         }
-        context = element.getContext(Context.BackendRequestType.experimental, attributes);
-        return context === null ? undefined : context;
+        context = factory(Context.BackendRequestType.experimental, attributes);
+        return context ? context : undefined;
     }
 
     /**
      * Helper that tries to create a WebGL 2 context (requests to 'webgl2' and 'experimental-webgl2' are made).
-     * @param element - Canvas element to request context from.
+     * @param factory - Factory to request context from, e.g., wrapping a canvas element's getContext.
      * @param attributes - Overrides the internal default attributes @see{Context.CONTEXT_ATTRIBUTES}.
      * @returns {WebGL2RenderingContext} - WebGL2 context object or undefined.
      */
-    protected static requestWebGL2(element: HTMLCanvasElement,
-        attributes: WebGLContextAttributes = Context.DEFAULT_ATTRIBUTES)
-        : WebGLRenderingContext | CanvasRenderingContext2D | undefined {
+    protected static requestWebGL2(factory: Context.Factory,
+        attributes: WebGLContextAttributes = Context.DEFAULT_ATTRIBUTES): WebGLRenderingContext | undefined {
 
-        let context = element.getContext(Context.BackendRequestType.webgl2, attributes);
+        let context = factory(Context.BackendRequestType.webgl2, attributes);
         if (context) {
             return context;
         }
-        context = element.getContext(Context.BackendRequestType.experimental2, attributes);
-        return context === null ? undefined : context;
+        context = factory(Context.BackendRequestType.experimental2, attributes);
+        return context ? context : undefined;
     }
 
 
@@ -1065,4 +1086,19 @@ export namespace Context {
         experimental2 = 'experimental-webgl2',
     }
 
+    /**
+     * Factory creating the actual WebGL context for a given context identifier, e.g., 'webgl2' or 'webgl'. Returns
+     * null or undefined if no context of the requested type can be created.
+     */
+    export type Factory = (identifier: string, attributes: WebGLContextAttributes) => any;
+
+    /**
+     * Subset of the OffscreenCanvas interface required for context creation (not yet part of the DOM typings).
+     */
+    export interface OffscreenCanvas {
+        width: number;
+        height: number;
+        getContext(contextId: string, attributes?: WebGLContextAttributes): any;
+    }
+
 }
@@ -1,8 +1,9 @@
 
-import { Observable, ReplaySubject } from 'rxjs';
+import { Observable, ReplaySubject, Subject } from 'rxjs';
 
 import { assert, log, logIf, LogLevel, logVerbosity } from './auxiliaries';
 import { clamp } from './gl-matrix-extensions';
+import { Profiler } from './profiler';
 
 
 /**
@@ -95,6 +96,12 @@ export class Controller {
     protected _frameNumber = 0;
     protected _frameNumberSubject = new ReplaySubject<number>(1);
 
+    /**
+     * Subject emitting the frame number whenever rendering halts, i.e., when all intermediate frames of a multi-frame
+     * (or up to the debug-frame number) are rendered.
+     */
+    protected _multiFrameFinishedSubject = new Subject<number>();
+
 
     // /** @see {@link multiFrameDelay} */
     // protected _multiFrameDelay = 0;
@@ -106,6 +113,12 @@ export class Controller {
      */
     protected _controllable: Controllable | undefined;
 
+    /** @see {@link profiler} */
+    protected _profiler: Profiler | undefined;
+
+    /** @see {@link scheduler} */
+    protected _scheduler: Controller.Scheduler | undefined;
+
 
     /**
      * Holds the handle of the pending animate frame request, if requested. Throughout the controller, only a single
@@ -203,11 +216,14 @@ export class Controller {
         const numRemainingIntermediates = Math.max((dfnum > 0 ? dfnum : mfnum) - this._frameNumber, 0);
 
         if (type !== undefined) {
-            this._pendingRequest = window.requestAnimationFrame(() => this.invoke(type));
+            this._pendingRequest = this.schedule(() => this.invoke(type));
         } else if (numRemainingIntermediates > 0) {
-            this._pendingRequest = window.requestAnimationFrame(() => this.invoke(Controller.RequestType.Frame));
-        } else if (dfnum === mfnum || dfnum === 0) {
-            ++this._multiFrameCount;
+            this._pendingRequest = this.schedule(() => this.invoke(Controller.RequestType.Frame));
+        } else {
+            if (dfnum === mfnum || dfnum === 0) {
+                ++this._multiFrameCount;
+            }
+            this._multiFrameFinishedSubject.next(this._frameNumber);
         }
     }
 
@@ -237,6 +253,16 @@ export class Controller {
         return false;
     }
 
+    /**
+     * Requests the callback to be invoked before the next repaint, using the scheduler if set.
+     * @param callback - Callback to invoke.
+     * @returns - Non-zero handle of the request.
+     */
+    protected schedule(callback: () => void): number {
+        return this._scheduler !== undefined ? this._scheduler.request(callback) :
+            window.requestAnimationFrame(callback);
+    }
+
     /**
      * Cancel a pending frame invocation (if existing).
      */
@@ -247,7 +273,11 @@ export class Controller {
         }
         logIf(Controller._debug, LogLevel.Debug, `c cancel            | pending: '${this._pendingRequest}'`);
 
-        window.cancelAnimationFrame(this._pendingRequest);
+        if (this._scheduler !== undefined) {
+            this._scheduler.cancel(this._pendingRequest);
+        } else {
+            window.cancelAnimationFrame(this._pendingRequest);
+        }
         this._pendingRequest = 0;
     }
 
@@ -350,7 +380,13 @@ export class Controller {
 
         for (; this._frameNumber < batchEnd; ++this._frameNumber) {
             logIf(Controller._debug, LogLevel.Debug, `c -> frame          | frame: ${this._frameNumber}`);
+            if (this._profiler !== undefined) {
+                this._profiler.beginFrame(this._frameNumber);
+            }
             (this._controllable as Controllable).frame(this._frameNumber);
+            if (this._profiler !== undefined) {
+                this._profiler.endFrame();
+            }
             ++this._intermediateFrameCount;
         }
         logIf(Controller._debug, LogLevel.Debug, `c -> swap           |`);
@@ -516,6 +552,46 @@ export class Controller {
         this.update();
     }
 
+    /**
+     * Profiler whose frames are delimited by the controllable's frame invocations, if set.
+     */
+    get profiler(): Profiler | undefined {
+        return this._profiler;
+    }
+
+    /**
+     * Sets a profiler for which frames are begun and ended around every intermediate frame invocation. Sections
+     * within a frame are measured by the controllable (@see {@link Profiler.begin}).
+     * @param profiler - Profiler to associate frames with, or undefined to stop profiling.
+     */
+    set profiler(profiler: Profiler | undefined) {
+        this._profiler = profiler;
+    }
+
+    /**
+     * Scheduler used for requesting invocations, undefined if animation frames of the window are used.
+     */
+    get scheduler(): Controller.Scheduler | undefined {
+        return this._scheduler;
+    }
+
+    /**
+     * Sets a scheduler that replaces the window's animation frames for requesting invocations, e.g., for rendering in
+     * workers or headless environments. A pending request is canceled and re-requested as update using the new one.
+     * @param scheduler - Scheduler for requests or undefined for using animation frames.
+     */
+    set scheduler(scheduler: Controller.Scheduler | undefined) {
+        if (scheduler === this._scheduler) {
+            return;
+        }
+        const pending = this._pendingRequest !== 0;
+        this.cancel();
+        this._scheduler = scheduler;
+        if (pending) {
+            this.update();
+        }
+    }
+
 
     /**
      * Returns the multi-frame number. The number is greater than or equal to zero. Multi-frame number is implemented
@@ -652,6 +728,14 @@ export class Controller {
         return this._frameNumberSubject.asObservable();
     }
 
+    /**
+     * Observable that emits the frame number whenever rendering halts after the last intermediate frame of a
+     * multi-frame or at the debug-frame number. In contrast to the other observables, past events are not replayed.
+     */
+    get multiFrameFinished$(): Observable<number> {
+        return this._multiFrameFinishedSubject.asObservable();
+    }
+
 
     /**
      * Returns the total number of rendered (requested and probably completed) intermediate frames.
@@ -730,4 +814,15 @@ export namespace Controller {
 
     export enum RequestType { Update, NonOptionalUpdate, Prepare, Frame }
 
+    /**
+     * Interface for requesting and canceling deferred invocations, analogous to the window's requestAnimationFrame and
+     * cancelAnimationFrame.
+     */
+    export interface Scheduler {
+        /** Requests the callback to be invoked later on and returns a non-zero handle for cancellation. */
+        request(callback: () => void): number;
+        /** Cancels a pending request. */
+        cancel(handle: number): void;
+    }
+
 }
@@ -13,11 +13,13 @@ import { DefaultFramebuffer } from '../defaultframebuffer';
 import { Framebuffer } from '../framebuffer';
 import { MouseEventProvider } from '../mouseeventprovider';
 import { Navigation } from '../navigation';
+import { PointerEventProvider } from '../pointereventprovider';
 import { Program } from '../program';
 import { Renderbuffer } from '../renderbuffer';
 import { Invalidate, Renderer } from '../renderer';
 import { Shader } from '../shader';
 import { Texture2D } from '../texture2d';
+import { TouchEventProvider } from '../toucheventprovider';
 
 import { FontFace } from '../text/fontface';
 import { Label } from '../text/label';
@@ -65,12 +67,14 @@ namespace debug {
          * @param context - valid context to create the object for.
          * @param identifier - meaningful name for identification of this instance.
          * @param mouseEventProvider - required for mouse interaction
+         * @param pointerEventProvider - used for navigation instead of mouse events if provided
          * @returns - whether initialization was successful
          */
         protected onInitialize(context: Context, callback: Invalidate,
             mouseEventProvider: MouseEventProvider,
-        /* keyEventProvider: KeyEventProvider, */
-        /* touchEventProvider: TouchEventProvider */): boolean {
+            /* keyEventProvider: KeyEventProvider, */
+            touchEventProvider: TouchEventProvider | undefined,
+            pointerEventProvider?: PointerEventProvider): boolean {
 
             const gl = this._context.gl;
             const gl2facade = this._context.gl2facade;
@@ -138,7 +142,7 @@ namespace debug {
             this._camera.far = 8.0;
 
             /* Initialize navigation */
-            this._navigation = new Navigation(callback, mouseEventProvider);
+            this._navigation = new Navigation(callback, mouseEventProvider, pointerEventProvider, touchEventProvider);
             this._navigation.camera = this._camera;
 
             /* Create and configure label pass. */
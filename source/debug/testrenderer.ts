@@ -27,6 +27,7 @@ namespace debug {
         protected _ndcOffsetKernel: AntiAliasingKernel;
         protected _uNdcOffset: WebGLUniformLocation;
         protected _uFrameNumber: WebGLUniformLocation;
+        protected _uTileTransform: WebGLUniformLocation;
         protected _ndcTriangle: NdcFillingTriangle;
 
         protected _accumulate: AccumulatePass;
@@ -69,6 +70,7 @@ namespace debug {
 
             this._uNdcOffset = this._program.uniform('u_ndcOffset');
             this._uFrameNumber = this._program.uniform('u_frameNumber');
+            this._uTileTransform = this._program.uniform('u_tileTransform');
 
             this._ndcTriangle = new NdcFillingTriangle(this._context);
             const aVertex = this._program.attribute('a_vertex', 0);
@@ -114,6 +116,7 @@ namespace debug {
 
             this._uNdcOffset = -1;
             this._uFrameNumber = -1;
+            this._uTileTransform = -1;
             this._program.uninitialize();
 
             this._ndcTriangle.uninitialize();
@@ -182,6 +185,7 @@ namespace debug {
             ndcOffset[1] = 2.0 * ndcOffset[1] / this._frameSize[1];
             gl.uniform2fv(this._uNdcOffset, ndcOffset);
             gl.uniform1i(this._uFrameNumber, frameNumber);
+            gl.uniformMatrix4fv(this._uTileTransform, false, this._tileTransform);
 
             this._intermediateFBO.clear(gl.COLOR_BUFFER_BIT, true, false);
             this._ndcTriangle.bind();
@@ -198,6 +202,21 @@ namespace debug {
         }
 
 
+        /**
+         * The tile transform is applied to the ndc-filling triangle, thus, frames can be captured in tiles.
+         */
+        get supportsTiles(): boolean {
+            return true;
+        }
+
+        /**
+         * The accumulated frame (or the intermediate frame if accumulation is passed through) can be captured.
+         */
+        get captureTarget(): [Framebuffer, GLenum] | undefined {
+            const framebuffer = this._accumulate.framebuffer ? this._accumulate.framebuffer : this._intermediateFBO;
+            return [framebuffer, this._context.gl2facade.COLOR_ATTACHMENT0];
+        }
+
     }
 
 }
@@ -1,8 +1,8 @@
 
 precision lowp float;
 
-@import ../shaders/facade.vert;
-@import ../shaders/ndcoffset;
+#include <facade.vert>
+#include <ndcoffset>
 
 
 #if __VERSION__ == 100
@@ -12,6 +12,7 @@ precision lowp float;
 #endif
 
 uniform vec2 u_ndcOffset;
+uniform mat4 u_tileTransform;
 
 varying vec2 v_uv;
 
@@ -20,7 +21,7 @@ void main(void)
 {
     v_uv = a_vertex.xy * 0.5 + 0.5;
 
-    vec4 vertex = vec4(a_vertex, 0.0, 1.0);
+    vec4 vertex = u_tileTransform * vec4(a_vertex, 0.0, 1.0);
     ndcOffset(vertex, u_ndcOffset);
 
     gl_Position = vertex;
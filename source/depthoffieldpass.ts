@@ -0,0 +1,100 @@
+
+import { log, LogLevel } from './auxiliaries';
+
+import { Framebuffer } from './framebuffer';
+import { PostProcessingPass } from './postprocessingpass';
+import { Program } from './program';
+import { Texture2D } from './texture2d';
+
+
+/**
+ * Simulates the limited depth of field of a lens by blurring fragments with regard to their distance to the focus
+ * distance. The circle of confusion grows linearly with the distance to the focus distance and reaches its maximum
+ * radius (in px) at the focus range. Depth and camera inputs are required; without them, the pass is skipped.
+ */
+export class DepthOfFieldPass extends PostProcessingPass {
+
+    /** @see {@link focusDistance} */
+    protected _focusDistance = 2.0;
+
+    /** @see {@link focusRange} */
+    protected _focusRange = 1.0;
+
+    /** @see {@link maxRadius} */
+    protected _maxRadius = 8.0;
+
+    protected _program: Program;
+
+
+    protected onInitialize(): boolean {
+        this._program = this.createProgram('depthoffield.frag', require('./shaders/depthoffield.frag'),
+            'DepthOfFieldProgram');
+
+        this._program.bind();
+        this._program.setUniform('u_source', 0);
+        this._program.setUniform('u_depth', 1);
+        this._program.unbind();
+        return true;
+    }
+
+    protected onUninitialize(): void {
+        this._program.uninitialize();
+    }
+
+
+    frame(source: Texture2D, target: Framebuffer, inputs: PostProcessingPass.Inputs): boolean {
+        if (inputs.depth === undefined || inputs.camera === undefined) {
+            log(LogLevel.Debug, `depth of field skipped, depth texture and camera expected`);
+            return false;
+        }
+        const inverseProjection = inputs.camera.projectionInverse;
+        if (inverseProjection === null) {
+            return false;
+        }
+
+        this._program.bind();
+        this._program.setUniform('u_inverseProjection', inverseProjection);
+        this._program.setUniform('u_focusDistance', this._focusDistance);
+        this._program.setUniform('u_focusRange', Math.max(this._focusRange, 1e-6));
+        this._program.setUniform('u_maxRadius', this._maxRadius);
+        this._program.setUniform('u_texelSize', [1.0 / source.width, 1.0 / source.height]);
+        this.draw(target, [source, inputs.depth]);
+        return true;
+    }
+
+
+    /**
+     * Distance from the eye along the view direction that is in focus, in world space units.
+     */
+    set focusDistance(distance: number) {
+        this._focusDistance = distance;
+    }
+
+    get focusDistance(): number {
+        return this._focusDistance;
+    }
+
+    /**
+     * Distance to the focus distance at which the maximum blur is reached, in world space units. Smaller ranges
+     * correspond to larger apertures.
+     */
+    set focusRange(range: number) {
+        this._focusRange = range;
+    }
+
+    get focusRange(): number {
+        return this._focusRange;
+    }
+
+    /**
+     * Maximum radius of the circle of confusion in px.
+     */
+    set maxRadius(radius: number) {
+        this._maxRadius = Math.max(radius, 0.0);
+    }
+
+    get maxRadius(): number {
+        return this._maxRadius;
+    }
+
+}
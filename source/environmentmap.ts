@@ -0,0 +1,518 @@
+
+import { assert, logIf, LogLevel } from './auxiliaries';
+import { levelCount, levelSize } from './mipmapping';
+
+import { Context } from './context';
+import { fetchAsync } from './fetch';
+import { Framebuffer } from './framebuffer';
+import { Initializable } from './initializable';
+import { NdcFillingTriangle } from './ndcfillingtriangle';
+import { Program } from './program';
+import { RGBEDecoder } from './rgbedecoder';
+import { Shader } from './shader';
+import { Texture2D } from './texture2d';
+import { TextureCube } from './texturecube';
+import { Wizard } from './wizard';
+
+
+/**
+ * Environment map for image-based lighting (IBL). An equirectangular panorama, e.g., a Radiance .hdr image, is
+ * converted into an environment cube map on the GPU, from which an irradiance cube map (diffuse lighting) and a
+ * specular cube map (prefiltered per roughness, one roughness per mipmap level) are generated. Additionally, a BRDF
+ * lookup texture for the split sum approximation is provided, indexed by N dot V (u) and roughness (v). All render
+ * targets use the configured precision (@see {@link Wizard.queryInternalTextureFormat}), half float by default.
+ *
+ * The environment map can be used as follows:
+ * ```
+ * this._environment = new EnvironmentMap(this._context);
+ * this._environment.initialize(this._ndcTriangle);
+ * this._environment.load('/data/panorama.hdr').then(() => this.invalidate(true));
+ * ...
+ * // within onFrame
+ * this._environment.irradianceMap.bind(gl.TEXTURE0);
+ * this._environment.specularMap.bind(gl.TEXTURE1);
+ * this._environment.brdfLUT.bind(gl.TEXTURE2);
+ * program.setUniform('u_specularLevels', this._environment.specularLevels);
+ * ```
+ * Please note that rendering into mipmap levels other than the base level requires WebGL2. In WebGL1, the specular
+ * map is thus restricted to a single level, prefiltered for the roughness of the last level.
+ */
+export class EnvironmentMap extends Initializable {
+
+    /**
+     * Read-only access to the objects context, used to get context information and WebGL API access.
+     */
+    protected _context: Context;
+
+    /** @see {@link size} */
+    protected _size = 512;
+
+    /** @see {@link irradianceSize} */
+    protected _irradianceSize = 32;
+
+    /** @see {@link specularSize} */
+    protected _specularSize = 128;
+
+    /** @see {@link specularLevels} */
+    protected _specularLevels = 5;
+
+    /** @see {@link brdfSize} */
+    protected _brdfSize = 256;
+
+    /** @see {@link samples} */
+    protected _samples = 512;
+
+    /** @see {@link precision} */
+    protected _precision: Wizard.Precision = Wizard.Precision.half;
+
+    /**
+     * Geometry used to draw on. If no triangle is given, the ndc triangle will be created and managed internally.
+     */
+    protected _ndcTriangle: NdcFillingTriangle;
+
+    /**
+     * Tracks ownership of the ndc-filling triangle.
+     */
+    protected _ndcTriangleShared = false;
+
+    /**
+     * Framebuffer with the BRDF lookup texture attached. For rendering into individual faces and levels of the cube
+     * maps, these are attached temporarily instead.
+     */
+    protected _framebuffer: Framebuffer;
+
+    protected _equirectangularProgram: Program;
+    protected _irradianceProgram: Program;
+    protected _specularProgram: Program;
+    protected _brdfProgram: Program;
+
+    /** @see {@link cubeMap} */
+    protected _cubeMap: TextureCube;
+
+    /** @see {@link irradianceMap} */
+    protected _irradianceMap: TextureCube;
+
+    /** @see {@link specularMap} */
+    protected _specularMap: TextureCube;
+
+    /** @see {@link brdfLUT} */
+    protected _brdfLUT: Texture2D;
+
+
+    constructor(context: Context) {
+        super();
+        this._context = context;
+    }
+
+
+    /**
+     * Creates a program comprising the ndc vertex shader and the given fragment shader.
+     */
+    protected createProgram(identifier: string, source: string, program: string): Program {
+        const gl = this._context.gl;
+
+        const vert = new Shader(this._context, gl.VERTEX_SHADER, `ndcvertices.vert (${identifier})`);
+        vert.initialize(require('./shaders/ndcvertices.vert'));
+        const frag = new Shader(this._context, gl.FRAGMENT_SHADER, identifier);
+        frag.initialize(source);
+
+        const result = new Program(this._context, program);
+        result.initialize([vert, frag]);
+        result.attribute('a_vertex', this._ndcTriangle.aVertex);
+        return result;
+    }
+
+    /**
+     * Creates a cube map of the configured precision, filtered linearly and clamped to edge.
+     */
+    protected createCubeMap(identifier: string, size: GLsizei, mipmap: boolean): TextureCube {
+        const gl = this._context.gl;
+
+        const internalFormat = Wizard.queryInternalTextureFormat(this._context, gl.RGBA, this._precision);
+        const result = new TextureCube(this._context, identifier);
+        result.initialize(size, internalFormat[0], gl.RGBA, internalFormat[1]);
+        result.filter(gl.LINEAR, mipmap ? gl.LINEAR_MIPMAP_LINEAR : gl.LINEAR);
+        result.wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+        return result;
+    }
+
+    /**
+     * Renders all six faces of a level of the given cube map using the currently bound program. The program's
+     * `u_face` uniform is set to the index of the face rendered.
+     * @param target - Cube map to render into.
+     * @param level - Mipmap level to render into, levels other than the base level require WebGL2.
+     */
+    protected renderFaces(program: Program, target: TextureCube, level: GLint): void {
+        const gl = this._context.gl;
+        const size = levelSize(target.size, level);
+
+        this._framebuffer.bind();
+        gl.viewport(0, 0, size, size);
+        this._ndcTriangle.bind();
+        for (let face = 0; face < 6; ++face) {
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_CUBE_MAP_POSITIVE_X + face,
+                target.object, level);
+            program.setUniform('u_face', face);
+            this._ndcTriangle.draw();
+        }
+        this._ndcTriangle.unbind();
+
+        /* Restore the attachment the framebuffer was initialized with. */
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, this._brdfLUT.object, 0);
+        this._framebuffer.unbind();
+    }
+
+    /**
+     * Integrates the BRDF lookup texture, which is independent of the environment.
+     */
+    protected renderBRDF(): void {
+        const gl = this._context.gl;
+
+        this._brdfProgram.bind();
+        this._brdfProgram.setUniform('u_samples', this._samples);
+
+        this._framebuffer.bind();
+        gl.viewport(0, 0, this._brdfSize, this._brdfSize);
+        this._ndcTriangle.bind();
+        this._ndcTriangle.draw();
+        this._ndcTriangle.unbind();
+        this._framebuffer.unbind();
+
+        this._brdfProgram.unbind();
+    }
+
+
+    /**
+     * Creates programs and cube maps and renders the BRDF lookup texture. The cube maps are empty until a panorama
+     * is loaded or converted.
+     * @param ndcTriangle - If specified, assumed to be used as shared geometry. If none is specified, a ndc-filling
+     * triangle will be created internally.
+     */
+    @Initializable.initialize()
+    initialize(ndcTriangle?: NdcFillingTriangle): boolean {
+        const gl = this._context.gl;
+
+        if (ndcTriangle === undefined) {
+            this._ndcTriangle = new NdcFillingTriangle(this._context, 'NdcFillingTriangle-EnvironmentMap');
+        } else {
+            this._ndcTriangle = ndcTriangle;
+            this._ndcTriangleShared = true;
+        }
+        if (!this._ndcTriangle.initialized) {
+            this._ndcTriangle.initialize(0);
+        }
+
+        this._equirectangularProgram = this.createProgram('environmentmap_equirectangular.frag',
+            require('./shaders/environmentmap_equirectangular.frag'), 'EnvironmentMapEquirectangularProgram');
+        this._irradianceProgram = this.createProgram('environmentmap_irradiance.frag',
+            require('./shaders/environmentmap_irradiance.frag'), 'EnvironmentMapIrradianceProgram');
+        this._specularProgram = this.createProgram('environmentmap_specular.frag',
+            require('./shaders/environmentmap_specular.frag'), 'EnvironmentMapSpecularProgram');
+        this._brdfProgram = this.createProgram('environmentmap_brdf.frag',
+            require('./shaders/environmentmap_brdf.frag'), 'EnvironmentMapBRDFProgram');
+
+        this._equirectangularProgram.bind();
+        this._equirectangularProgram.setUniform('u_panorama', 0);
+        this._irradianceProgram.bind();
+        this._irradianceProgram.setUniform('u_environment', 0);
+        this._specularProgram.bind();
+        this._specularProgram.setUniform('u_environment', 0);
+        this._specularProgram.unbind();
+
+        logIf(this._context.isWebGL1 && this._specularLevels > 1, LogLevel.Warning,
+            `rendering into mipmap levels requires WebGL2, specular map restricted to a single level`);
+        if (this._context.isWebGL1) {
+            this._specularLevels = 1;
+        }
+
+        this._cubeMap = this.createCubeMap('EnvironmentCubeMap', this._size, this._context.isWebGL2);
+        this._irradianceMap = this.createCubeMap('EnvironmentIrradianceMap', this._irradianceSize, false);
+        this._specularMap = this.createCubeMap('EnvironmentSpecularMap', this._specularSize,
+            this._specularLevels > 1);
+
+        /* Allocate the specular levels and restrict sampling to these. */
+        for (let level = 1; level < this._specularLevels; ++level) {
+            for (let face = 0; face < 6; ++face) {
+                this._specularMap.data([gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, undefined], true, true, level);
+            }
+        }
+        if (this._context.isWebGL2) {
+            this._specularMap.lod(0.0, this._specularLevels - 1);
+        }
+
+        const internalFormat = Wizard.queryInternalTextureFormat(this._context, gl.RGBA, this._precision);
+        this._brdfLUT = new Texture2D(this._context, 'EnvironmentBRDFLUT');
+        this._brdfLUT.initialize(this._brdfSize, this._brdfSize, internalFormat[0], gl.RGBA, internalFormat[1]);
+        this._brdfLUT.filter(gl.LINEAR, gl.LINEAR);
+        this._brdfLUT.wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+
+        this._framebuffer = new Framebuffer(this._context, 'EnvironmentMapFBO');
+        this._framebuffer.initialize([[gl.COLOR_ATTACHMENT0, this._brdfLUT]]);
+        this.renderBRDF();
+
+        return true;
+    }
+
+    /**
+     * Uninitializes all programs, textures, and the geometry (if not shared).
+     */
+    @Initializable.uninitialize()
+    uninitialize(): void {
+        if (!this._ndcTriangleShared && this._ndcTriangle.initialized) {
+            this._ndcTriangle.uninitialize();
+        }
+
+        this._equirectangularProgram.uninitialize();
+        this._irradianceProgram.uninitialize();
+        this._specularProgram.uninitialize();
+        this._brdfProgram.uninitialize();
+
+        this._framebuffer.uninitialize();
+
+        this._cubeMap.uninitialize();
+        this._irradianceMap.uninitialize();
+        this._specularMap.uninitialize();
+        this._brdfLUT.uninitialize();
+    }
+
+    /**
+     * Asynchronous load of an equirectangular panorama, which is converted and prefiltered subsequently. Radiance
+     * .hdr images (RGBE) are decoded on the CPU and uploaded as is, i.e., the shared exponents are resolved on the
+     * GPU. Other images are expected to be sRGB encoded (low dynamic range).
+     * @param url - Uniform resource locator string referencing the panorama.
+     * @param crossOrigin - Enable cross origin data loading (for images only).
+     * @returns - Promise for handling load status.
+     */
+    @Initializable.assert_initialized()
+    load(url: string, crossOrigin: boolean = false): Promise<void> {
+        const gl = this._context.gl;
+        const panorama = new Texture2D(this._context, 'EnvironmentPanorama');
+        const internalFormat = Wizard.queryInternalTextureFormat(this._context, gl.RGBA, Wizard.Precision.byte);
+
+        let loaded: Promise<void>;
+        if (/\.hdr$/i.test(url)) {
+            loaded = fetchAsync<ArrayBuffer>(url, 'arraybuffer').then((data) => {
+                const image = RGBEDecoder.decode(data);
+
+                panorama.initialize(image.width, image.height, internalFormat[0], gl.RGBA, internalFormat[1]);
+                panorama.data(image.data);
+                this.equirectangular(panorama, EnvironmentMap.Encoding.RGBE, 1.0 / image.exposure);
+            });
+        } else {
+            panorama.initialize(1, 1, internalFormat[0], gl.RGBA, internalFormat[1]);
+            loaded = panorama.load(url, crossOrigin).then(() =>
+                this.equirectangular(panorama, EnvironmentMap.Encoding.sRGB));
+        }
+
+        /* The panorama is released after conversion as well as on failure, e.g., when decoding failed. */
+        const release = () => {
+            if (panorama.initialized) {
+                panorama.uninitialize();
+            }
+        };
+        return loaded.then(release, (reason) => {
+            release();
+            return Promise.reject(reason);
+        });
+    }
+
+    /**
+     * Converts an equirectangular panorama into the environment cube map and prefilters the irradiance and specular
+     * maps (@see {@link prefilter}). The panorama is expected to span 360 degrees horizontally and 180 degrees
+     * vertically, with its top row facing +y. The panorama's filtering and wrapping are changed to nearest and clamp.
+     * @param panorama - Equirectangular panorama, e.g., loaded from an .hdr image.
+     * @param encoding - Encoding of the panorama's texels.
+     * @param exposure - Scale of the decoded radiance, e.g., the inverse exposure specified by an .hdr image.
+     */
+    @Initializable.assert_initialized()
+    equirectangular(panorama: Texture2D, encoding: EnvironmentMap.Encoding = EnvironmentMap.Encoding.Linear,
+        exposure: number = 1.0): void {
+        assert(panorama.initialized, `expected panorama to be initialized`);
+        const gl = this._context.gl;
+
+        /* Interpolation is done in the shader, allowing for RGBE encoded panoramas. */
+        panorama.filter(gl.NEAREST, gl.NEAREST);
+        panorama.wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+        panorama.bind(gl.TEXTURE0);
+
+        this._equirectangularProgram.bind();
+        this._equirectangularProgram.setUniform('u_texelSize', [1.0 / panorama.width, 1.0 / panorama.height]);
+        this._equirectangularProgram.setUniform('u_encoding', encoding);
+        this._equirectangularProgram.setUniform('u_exposure', exposure);
+        this.renderFaces(this._equirectangularProgram, this._cubeMap, 0);
+        this._equirectangularProgram.unbind();
+
+        panorama.unbind(gl.TEXTURE0);
+
+        this.prefilter();
+    }
+
+    /**
+     * Generates the irradiance map and all levels of the specular map from the environment cube map. The specular
+     * map's levels are prefiltered for roughness linearly increasing from zero (base level) to one (last level). In
+     * WebGL2, the environment is mipmapped in advance for filtered importance sampling.
+     */
+    @Initializable.assert_initialized()
+    prefilter(): void {
+        const gl = this._context.gl;
+
+        if (this._context.isWebGL2) {
+            this._cubeMap.generateMipmap();
+        }
+        this._cubeMap.bind(gl.TEXTURE0);
+
+        this._irradianceProgram.bind();
+        this.renderFaces(this._irradianceProgram, this._irradianceMap, 0);
+
+        this._specularProgram.bind();
+        this._specularProgram.setUniform('u_environmentSize', this._size);
+        this._specularProgram.setUniform('u_samples', this._samples);
+        for (let level = 0; level < this._specularLevels; ++level) {
+            const roughness = this._specularLevels > 1 ? level / (this._specularLevels - 1) : 1.0;
+            this._specularProgram.setUniform('u_roughness', roughness);
+            this.renderFaces(this._specularProgram, this._specularMap, level);
+        }
+        this._specularProgram.unbind();
+
+        this._cubeMap.unbind(gl.TEXTURE0);
+    }
+
+
+    /**
+     * Size of each face of the environment cube map in px. Changes take effect on initialization.
+     */
+    set size(size: GLsizei) {
+        this.assertUninitialized();
+        this._size = size;
+    }
+
+    get size(): GLsizei {
+        return this._size;
+    }
+
+    /**
+     * Size of each face of the irradiance map in px. Since irradiance is low frequency, small sizes suffice. Changes
+     * take effect on initialization.
+     */
+    set irradianceSize(size: GLsizei) {
+        this.assertUninitialized();
+        this._irradianceSize = size;
+    }
+
+    get irradianceSize(): GLsizei {
+        return this._irradianceSize;
+    }
+
+    /**
+     * Size of each face of the specular map's base level in px. Changes take effect on initialization.
+     */
+    set specularSize(size: GLsizei) {
+        this.assertUninitialized();
+        this._specularSize = size;
+    }
+
+    get specularSize(): GLsizei {
+        return this._specularSize;
+    }
+
+    /**
+     * Number of mipmap levels of the specular map, i.e., number of prefiltered roughness steps, clamped to the
+     * levels available for the specular size. In WebGL1, only a single level is used. Changes take effect on
+     * initialization.
+     */
+    set specularLevels(levels: GLsizei) {
+        this.assertUninitialized();
+        this._specularLevels = Math.min(Math.max(Math.floor(levels), 1), levelCount(this._specularSize,
+            this._specularSize));
+    }
+
+    get specularLevels(): GLsizei {
+        return this._specularLevels;
+    }
+
+    /**
+     * Width and height of the BRDF lookup texture in px. Changes take effect on initialization.
+     */
+    set brdfSize(size: GLsizei) {
+        this.assertUninitialized();
+        this._brdfSize = size;
+    }
+
+    get brdfSize(): GLsizei {
+        return this._brdfSize;
+    }
+
+    /**
+     * Number of importance samples per texel used for specular prefiltering and BRDF integration (at most 4096).
+     * Changes take effect on the next prefiltering.
+     */
+    set samples(samples: number) {
+        this._samples = Math.min(Math.max(Math.floor(samples), 1), 4096);
+    }
+
+    get samples(): number {
+        return this._samples;
+    }
+
+    /**
+     * Precision of all cube maps and the BRDF lookup texture. Changes take effect on initialization.
+     */
+    set precision(precision: Wizard.Precision) {
+        this.assertUninitialized();
+        this._precision = precision;
+    }
+
+    get precision(): Wizard.Precision {
+        return this._precision;
+    }
+
+    /**
+     * Environment cube map converted from the last panorama.
+     */
+    get cubeMap(): TextureCube {
+        this.assertInitialized();
+        return this._cubeMap;
+    }
+
+    /**
+     * Irradiance cube map, i.e., cosine weighted radiance of the environment, such that diffuse lighting is given by
+     * albedo times irradiance (looked up by normal).
+     */
+    get irradianceMap(): TextureCube {
+        this.assertInitialized();
+        return this._irradianceMap;
+    }
+
+    /**
+     * Specular cube map prefiltered per roughness, i.e., lookup by reflection direction at level of detail roughness
+     * times the number of specular levels minus one.
+     */
+    get specularMap(): TextureCube {
+        this.assertInitialized();
+        return this._specularMap;
+    }
+
+    /**
+     * BRDF lookup texture providing scale (r) and bias (g) to the fresnel reflectance at normal incidence, indexed by
+     * N dot V (u) and roughness (v).
+     */
+    get brdfLUT(): Texture2D {
+        this.assertInitialized();
+        return this._brdfLUT;
+    }
+
+}
+
+
+export namespace EnvironmentMap {
+
+    /**
+     * Encoding of the texels of a panorama, mapped to the encoding uniform of the conversion shader.
+     */
+    export enum Encoding {
+        Linear = 0,
+        sRGB = 1,
+        RGBE = 2,
+    }
+
+}
@@ -7,6 +7,7 @@ import { Observable, Subscription } from 'rxjs';
 import { assert } from './auxiliaries';
 
 import { MouseEventProvider } from './mouseeventprovider';
+import { PointerEventProvider } from './pointereventprovider';
 import { Invalidate } from './renderer';
 import { TouchEventProvider } from './toucheventprovider';
 
@@ -21,6 +22,11 @@ export interface MouseEventHandler { (latests: Array<MouseEvent>, previous: Arra
  */
 export interface TouchEventHandler { (latests: Array<TouchEvent>, previous: Array<TouchEvent>): void; }
 
+/**
+ * Callback for handling pointer events, given the latest pointer events (since last update) as well as the previous.
+ */
+export interface PointerEventHandler { (latests: Array<PointerEvent>, previous: Array<PointerEvent>): void; }
+
 
 /**
  * ... Provider and event handler are explicitly separated in order to reduce the number of observables (reuse of event
@@ -53,6 +59,11 @@ export class EventHandler {
      */
     protected _touchEventProvider: TouchEventProvider | undefined;
 
+    /**
+     * Assigned pointer event provider. This is usually created and owned by the canvas.
+     */
+    protected _pointerEventProvider: PointerEventProvider | undefined;
+
     protected _latestMouseEventsByType =
         new Map<MouseEventProvider.Type, Array<MouseEvent>>();
     protected _previousMouseEventsByType =
@@ -67,12 +78,21 @@ export class EventHandler {
     protected _touchEventHandlerByType =
         new Map<TouchEventProvider.Type, Array<TouchEventHandler>>();
 
+    protected _latestPointerEventsByType =
+        new Map<PointerEventProvider.Type, Array<PointerEvent>>();
+    protected _previousPointerEventsByType =
+        new Map<PointerEventProvider.Type, Array<PointerEvent>>();
+    protected _pointerEventHandlerByType =
+        new Map<PointerEventProvider.Type, Array<PointerEventHandler>>();
+
 
     constructor(invalidate: Invalidate | undefined, mouseEventProvider: MouseEventProvider | undefined,
-        /* keyEventProvider: KeyEventProvider | undefined,*/ touchEventProvider: TouchEventProvider | undefined) {
+        /* keyEventProvider: KeyEventProvider | undefined,*/ touchEventProvider: TouchEventProvider | undefined,
+        pointerEventProvider?: PointerEventProvider) {
         this._invalidate = invalidate;
         this._mouseEventProvider = mouseEventProvider;
         this._touchEventProvider = touchEventProvider;
+        this._pointerEventProvider = pointerEventProvider;
     }
 
 
@@ -182,6 +202,22 @@ export class EventHandler {
         latest.length = 0;
     }
 
+    protected invokePointerEventHandler(type: PointerEventProvider.Type): void {
+        const handlers = this._pointerEventHandlerByType.get(type);
+        if (handlers === undefined || handlers.length === 0) {
+            return;
+        }
+        const latest = this._latestPointerEventsByType.get(type) as Array<PointerEvent>;
+        if (latest.length === 0) {
+            return;
+        }
+        const previous = this._previousPointerEventsByType.get(type) as Array<PointerEvent>;
+        handlers.forEach((handler) => handler(latest, previous));
+
+        Object.assign(previous, latest);
+        latest.length = 0;
+    }
+
     /**
      * Disposes all registered handlers of all event types.
      */
@@ -190,6 +226,8 @@ export class EventHandler {
         this._previousMouseEventsByType.forEach((value) => value.length = 0);
         this._latestTouchEventsByType.forEach((value) => value.length = 0);
         this._previousTouchEventsByType.forEach((value) => value.length = 0);
+        this._latestPointerEventsByType.forEach((value) => value.length = 0);
+        this._previousPointerEventsByType.forEach((value) => value.length = 0);
 
         for (const subscription of this._subscriptions) {
             subscription.unsubscribe();
@@ -212,12 +250,19 @@ export class EventHandler {
         this.invokeTouchEventHandler(TouchEventProvider.Type.End);
         this.invokeTouchEventHandler(TouchEventProvider.Type.Move);
         this.invokeTouchEventHandler(TouchEventProvider.Type.Cancel);
+
+        this.invokePointerEventHandler(PointerEventProvider.Type.Enter);
+        this.invokePointerEventHandler(PointerEventProvider.Type.Leave);
+        this.invokePointerEventHandler(PointerEventProvider.Type.Down);
+        this.invokePointerEventHandler(PointerEventProvider.Type.Up);
+        this.invokePointerEventHandler(PointerEventProvider.Type.Move);
+        this.invokePointerEventHandler(PointerEventProvider.Type.Cancel);
     }
 
 
     /**
-     * Normalize mouse and touch event coordinates for various browsers.
-     * @param event - Mouse, wheel, or touch event.
+     * Normalize mouse, pointer, and touch event coordinates for various browsers.
+     * @param event - Mouse, wheel, pointer, or touch event.
      * @param normalize - Whether or not to compute normalized coordinates (offsets).
      * @returns - Array of normalized x and y offsets (in case of multiple touches).
      */
@@ -342,6 +387,18 @@ export class EventHandler {
         this.pushMouseEventHandler(MouseEventProvider.Type.Wheel, handler);
     }
 
+    /**
+     * Register a context menu event handler that, in contrast to all other handlers, is called immediately on each
+     * context menu event, since the context menu can only be suppressed while the event is dispatched.
+     * @param handler - Handler to be called on context menu events.
+     */
+    pushContextMenuHandler(handler: (event: MouseEvent) => void): void {
+        assert(this._mouseEventProvider !== undefined, `expected valid mouse event provider`);
+        const observable = (this._mouseEventProvider as MouseEventProvider).observable(
+            MouseEventProvider.Type.ContextMenu) as Observable<MouseEvent>;
+        this._subscriptions.push(observable.subscribe(handler));
+    }
+
     /**
      * Register a touch start event handler that is to be called on update iff at least a single touch start event has
      * occurred since last update.
@@ -378,6 +435,34 @@ export class EventHandler {
         this.pushTouchEventHandler(TouchEventProvider.Type.Cancel, handler);
     }
 
+    /**
+     * Register a pointer event handler that is to be called on update iff at least a single pointer event of the given
+     * type has occurred since last update. Pointer events unify mouse, pen, and touch input, thus, handlers can use
+     * the event's pointer id, type, pressure, and tilt to distinguish devices and pointers.
+     * @param type - Pointer event type the handler is to be associated with.
+     * @param handler - Handler to be called on update.
+     */
+    pushPointerEventHandler(type: PointerEventProvider.Type, handler: PointerEventHandler): void {
+        if (this._pointerEventHandlerByType.has(type)) {
+            (this._pointerEventHandlerByType.get(type) as Array<PointerEventHandler>).push(handler);
+            return;
+        }
+
+        this._pointerEventHandlerByType.set(type, new Array<PointerEventHandler>());
+
+        this._previousPointerEventsByType.set(type, new Array<PointerEvent>());
+        const latest = new Array<PointerEvent>();
+        this._latestPointerEventsByType.set(type, latest);
+
+        assert(this._pointerEventProvider !== undefined, `expected valid pointer event provider`);
+        const observable = (this._pointerEventProvider as PointerEventProvider).observable(type);
+
+        this._subscriptions.push(observable.subscribe(
+            (event) => { latest.push(event); this.invalidate(); }));
+
+        (this._pointerEventHandlerByType.get(type) as Array<PointerEventHandler>).push(handler);
+    }
+
 
     /**
      * Forward pointer lock request to the mouse event provider (if one exists).
@@ -1,6 +1,7 @@
 
 import { assert } from './auxiliaries';
 
+import { CompressedTexture } from './compressedtexture';
 import { Context } from './context';
 
 
@@ -8,7 +9,9 @@ import { Context } from './context';
  * Provides the size in bytes of certain WebGL format enumerator. Please note that some byte sizes might vary based on
  * context attributes or the bound render, thus, DEPTH_COMPONENT and DEPTH_STENCIL are not covered by this function.
  * This function does NOT cover data types that are usually on CPU side, not GPU, e.g., UNSIGNED_BYTE,
- * UNSIGNED_SHORT_5_6_5, HALF_FLOAT, UNSIGNED_SHORT, FLOAT, etc. and will assert when provided with types.
+ * UNSIGNED_SHORT_5_6_5, HALF_FLOAT, UNSIGNED_SHORT, FLOAT, etc. and will assert when provided with types. For
+ * compressed formats the average size per texel is provided, e.g., 0.5 for COMPRESSED_RGB_S3TC_DXT1_EXT (exact sizes
+ * of compressed images are provided by {@link CompressedTexture.byteSize}).
  * @param context - The OpenGL context.
  * @param format - Format identifier of the target internal OpenGL data type.
  * @returns - The size in bytes of one type instance on the GPU.
@@ -53,6 +56,11 @@ export function byteSizeOfFormat(context: Context, format: GLenum): number {
     }
 
 
+    const compressed = CompressedTexture.formatInfo(format);
+    if (compressed !== undefined) {
+        return compressed.blockBytes / (compressed.blockWidth * compressed.blockHeight);
+    }
+
     const SRGB8_ALPHA8_EXT = context.supportsSRGB ? context.sRGB.SRGB8_ALPHA8_EXT : undefined;
     const SRGB_EXT = context.supportsSRGB ? context.sRGB.SRGB_EXT : undefined;
     const SRGB_ALPHA_EXT = context.supportsSRGB ? context.sRGB.SRGB_ALPHA_EXT : undefined;
@@ -0,0 +1,265 @@
+
+import { mat4 } from 'gl-matrix';
+
+import { assert, log, logIf, LogLevel } from './auxiliaries';
+import { GLsizei2, GLsizei4 } from './tuples';
+
+import { Context } from './context';
+import { Controller } from './controller';
+import { Renderer } from './renderer';
+
+
+/**
+ * Captures the final (accumulated) multi-frame of a renderer at arbitrary resolution. For capturing, the renderer's
+ * frame size is temporarily changed to the requested size and a new multi-frame is rendered. Once the controller
+ * finished the multi-frame, the renderer's capture target is read back. If the requested size exceeds the maximum
+ * viewport or texture size, the image is rendered and read back in tiles (requires the renderer to support tiles):
+ * ```
+ * const capture = new FrameCapture(canvas.context, canvas.controller, canvas.renderer);
+ * capture.captureBlob([3840, 2160]).then((blob) => ...);
+ * ```
+ * The renderer has to provide a capture target (@see {@link Renderer.captureTarget}). Please note that the canvas
+ * should not be resized while capturing, since the frame size would be reset.
+ */
+export class FrameCapture {
+
+    /** @see {@link context} */
+    protected _context: Context;
+
+    /** @see {@link controller} */
+    protected _controller: Controller;
+
+    /** @see {@link renderer} */
+    protected _renderer: Renderer;
+
+
+    /**
+     * Splits an image of the given size into tiles not exceeding the maximum tile size, in row-major order starting
+     * at the lower left (as used by the GL).
+     * @param size - Width and height of the full image in pixel.
+     * @param maxSize - Maximum width and height of a single tile.
+     * @returns - Tiles as [x, y, width, height] in pixel.
+     */
+    static tiles(size: GLsizei2, maxSize: GLsizei2): Array<GLsizei4> {
+        assert(maxSize[0] > 0 && maxSize[1] > 0, `expected positive maximum tile size, given [${maxSize}]`);
+
+        const tiles = new Array<GLsizei4>();
+        for (let y = 0; y < size[1]; y += maxSize[1]) {
+            for (let x = 0; x < size[0]; x += maxSize[0]) {
+                tiles.push([x, y, Math.min(maxSize[0], size[0] - x), Math.min(maxSize[1], size[1] - y)]);
+            }
+        }
+        return tiles;
+    }
+
+    /**
+     * Computes the transform from normalized device coordinates of the full image to the ones of a tile, i.e., the
+     * tile region is scaled and translated to cover [-1, +1]. This is intended to be applied after projection.
+     * @param out - Matrix to store the tile transform in.
+     * @param tile - Tile as [x, y, width, height] in pixel.
+     * @param size - Width and height of the full image in pixel.
+     * @returns - The tile transform (out).
+     */
+    static tileTransform(out: mat4, tile: GLsizei4, size: GLsizei2): mat4 {
+        const sx = size[0] / tile[2];
+        const sy = size[1] / tile[3];
+        mat4.fromTranslation(out, [sx - 1.0 - 2.0 * tile[0] / tile[2], sy - 1.0 - 2.0 * tile[1] / tile[3], 0.0]);
+        return mat4.scale(out, out, [sx, sy, 1.0]);
+    }
+
+    /**
+     * Converts floating point RGBA data to unsigned bytes, clamping to [0, 1].
+     * @param data - Floating point data, e.g., read back from a float accumulation target.
+     */
+    static toBytes(data: Float32Array): Uint8Array {
+        const bytes = new Uint8Array(data.length);
+        for (let i = 0; i < data.length; ++i) {
+            bytes[i] = Math.round(Math.min(Math.max(data[i], 0.0), 1.0) * 255.0);
+        }
+        return bytes;
+    }
+
+
+    /**
+     * Creates a frame capture for the given controller and the renderer controlled by it.
+     * @param context - Context the renderer is initialized with.
+     * @param controller - Controller invoking the renderer.
+     * @param renderer - Initialized renderer providing a capture target.
+     */
+    constructor(context: Context, controller: Controller, renderer: Renderer) {
+        this._context = context;
+        this._controller = controller;
+        this._renderer = renderer;
+    }
+
+
+    /**
+     * Forces rendering of a new multi-frame and resolves with the result of the given callback, invoked as soon as
+     * the multi-frame is finished (i.e., while the final frame is still present in the capture target). Since updates
+     * of a blocked or paused controller are ignored, the promise is rejected right away in that case.
+     */
+    protected frame<T>(callback: () => T): Promise<T> {
+        if (this._controller.blocked || this._controller.paused) {
+            return Promise.reject(`expected neither blocked nor paused controller for capturing`);
+        }
+        return new Promise<T>((resolve) => {
+            const subscription = this._controller.multiFrameFinished$.subscribe(() => {
+                subscription.unsubscribe();
+                resolve(callback());
+            });
+            this._controller.update(true);
+        });
+    }
+
+    /**
+     * Reads back the capture target and copies the pixels into the given image at the tile's position, flipping rows
+     * such that the image's top row comes first.
+     */
+    protected read(tile: GLsizei4, size: GLsizei2, float: boolean, image: Uint8Array | Float32Array): void {
+        const gl = this._context.gl;
+        const [framebuffer, attachment] = this._renderer.captureTarget!;
+
+        const data = float ? new Float32Array(tile[2] * tile[3] * 4) : new Uint8Array(tile[2] * tile[3] * 4);
+
+        framebuffer.bind();
+        if ((this._context.isWebGL2 || this._context.supportsDrawBuffers) && gl.readBuffer) {
+            gl.readBuffer(attachment);
+        }
+        gl.readPixels(0, 0, tile[2], tile[3], gl.RGBA, float ? gl.FLOAT : gl.UNSIGNED_BYTE, data);
+        framebuffer.unbind();
+
+        const stride = tile[2] * 4;
+        for (let row = 0; row < tile[3]; ++row) {
+            const target = ((size[1] - 1 - tile[1] - row) * size[0] + tile[0]) * 4;
+            image.set(data.subarray(row * stride, (row + 1) * stride), target);
+        }
+    }
+
+
+    /**
+     * Renders a multi-frame at the requested size and reads back the capture target. Byte targets are read as
+     * unsigned bytes, all other targets (e.g., half or float accumulation) as floats.
+     * @param size - Width and height of the image in pixel, defaults to the renderer's current frame size.
+     * @returns - Promise resolving with RGBA data (top row first) and the actual image size, which might be clamped
+     * if tiles are required but not supported by the renderer. The promise is rejected if capturing is not supported
+     * or the controller is blocked or paused.
+     */
+    capture(size?: GLsizei2): Promise<[Uint8Array | Float32Array, GLsizei2]> {
+        const renderer = this._renderer;
+        const target = renderer.initialized ? renderer.captureTarget : undefined;
+        if (target === undefined) {
+            return Promise.reject(`renderer does not provide a capture target`);
+        }
+        const gl = this._context.gl;
+        const previous: GLsizei2 = [renderer.frameSize[0], renderer.frameSize[1]];
+        const imageSize: GLsizei2 = size !== undefined ? [Math.round(size[0]), Math.round(size[1])] : previous;
+        if (!(imageSize[0] >= 1 && imageSize[1] >= 1)) {
+            return Promise.reject(`expected capture size of at least [1, 1], given [${imageSize}]`);
+        }
+
+        const texture = target[0].texture(target[1]);
+        const float = texture !== undefined && texture.type !== gl.UNSIGNED_BYTE;
+
+        /* Limit tiles by viewport and texture size (the capture target is expected to be a texture). */
+        const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS);
+        const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+        const maxSize: GLsizei2 = [Math.min(viewport[0], maxTextureSize), Math.min(viewport[1], maxTextureSize)];
+
+        let tiles = FrameCapture.tiles(imageSize, maxSize);
+        if (tiles.length > 1 && !renderer.supportsTiles) {
+            log(LogLevel.Warning, `renderer does not support tiles, capture size clamped to [${maxSize}], ` +
+                `given [${imageSize}]`);
+            imageSize[0] = Math.min(imageSize[0], maxSize[0]);
+            imageSize[1] = Math.min(imageSize[1], maxSize[1]);
+            tiles = [[0, 0, imageSize[0], imageSize[1]]];
+        }
+        logIf(tiles.length > 1, LogLevel.Debug, `capturing [${imageSize}] in ${tiles.length} tiles`);
+
+        const image = float ? new Float32Array(imageSize[0] * imageSize[1] * 4) :
+            new Uint8Array(imageSize[0] * imageSize[1] * 4);
+
+        const transform = mat4.create();
+        let chain = Promise.resolve();
+        for (const tile of tiles) {
+            chain = chain.then(() => {
+                renderer.frameSize = [tile[2], tile[3]];
+                if (tiles.length > 1) {
+                    renderer.tileTransform = FrameCapture.tileTransform(transform, tile, imageSize);
+                }
+                return this.frame(() => this.read(tile, imageSize, float, image));
+            });
+        }
+
+        const restore = () => {
+            renderer.tileTransform = mat4.identity(transform);
+            renderer.frameSize = previous;
+        };
+        return chain.then((): [Uint8Array | Float32Array, GLsizei2] => {
+            restore();
+            return [image, imageSize];
+        }, (reason) => {
+            restore();
+            return Promise.reject(reason);
+        });
+    }
+
+    /**
+     * Captures the frame as image data (@see {@link capture}), converting float data to bytes.
+     * @param size - Width and height of the image in pixel, defaults to the renderer's current frame size.
+     */
+    captureImageData(size?: GLsizei2): Promise<ImageData> {
+        return this.capture(size).then(([data, imageSize]) => {
+            const bytes = data instanceof Float32Array ? FrameCapture.toBytes(data) : data;
+            return new ImageData(new Uint8ClampedArray(bytes.buffer), imageSize[0], imageSize[1]);
+        });
+    }
+
+    /**
+     * Captures the frame as encoded image, e.g., PNG (@see {@link capture}). This requires a DOM for encoding.
+     * @param size - Width and height of the image in pixel, defaults to the renderer's current frame size.
+     * @param type - Mime type of the encoded image, e.g., 'image/png' or 'image/jpeg'.
+     */
+    captureBlob(size?: GLsizei2, type: string = 'image/png'): Promise<Blob> {
+        return this.captureImageData(size).then((imageData) => new Promise<Blob>((resolve, reject) => {
+            const canvas = document.createElement('canvas');
+            canvas.width = imageData.width;
+            canvas.height = imageData.height;
+            (canvas.getContext('2d') as CanvasRenderingContext2D).putImageData(imageData, 0, 0);
+            canvas.toBlob((blob) => blob ? resolve(blob) : reject(`encoding captured frame as '${type}' failed`),
+                type);
+        }));
+    }
+
+    /**
+     * Captures the raw floating point data of float or half float capture targets (@see {@link capture}).
+     * @param size - Width and height of the image in pixel, defaults to the renderer's current frame size.
+     * @returns - Promise resolving with RGBA floats (top row first), rejected for byte capture targets.
+     */
+    captureFloat32(size?: GLsizei2): Promise<Float32Array> {
+        return this.capture(size).then(([data]) => data instanceof Float32Array ? data :
+            Promise.reject<Float32Array>(`expected float capture target for float capture, given byte target`));
+    }
+
+
+    /**
+     * Context used for reading back the capture target.
+     */
+    get context(): Context {
+        return this._context;
+    }
+
+    /**
+     * Controller used for rendering the captured multi-frames.
+     */
+    get controller(): Controller {
+        return this._controller;
+    }
+
+    /**
+     * Renderer whose capture target is read back.
+     */
+    get renderer(): Renderer {
+        return this._renderer;
+    }
+
+}
@@ -0,0 +1,38 @@
+
+import { Framebuffer } from './framebuffer';
+import { PostProcessingPass } from './postprocessingpass';
+import { Program } from './program';
+import { Texture2D } from './texture2d';
+
+
+/**
+ * Fast approximate anti-aliasing (FXAA), blurring along edges detected by luma. This pass expects display color and,
+ * thus, should be applied after tone mapping.
+ */
+export class FXAAPass extends PostProcessingPass {
+
+    protected _program: Program;
+
+
+    protected onInitialize(): boolean {
+        this._program = this.createProgram('fxaa.frag', require('./shaders/fxaa.frag'), 'FXAAProgram');
+
+        this._program.bind();
+        this._program.setUniform('u_source', 0);
+        this._program.unbind();
+        return true;
+    }
+
+    protected onUninitialize(): void {
+        this._program.uninitialize();
+    }
+
+
+    frame(source: Texture2D, target: Framebuffer): boolean {
+        this._program.bind();
+        this._program.setUniform('u_texelSize', [1.0 / source.width, 1.0 / source.height]);
+        this.draw(target, [source]);
+        return true;
+    }
+
+}
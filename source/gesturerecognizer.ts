@@ -0,0 +1,416 @@
+
+import { vec2 } from 'gl-matrix';
+
+import { v2 } from './gl-matrix-extensions';
+
+
+/**
+ * Recognizes touch gestures, i.e., single-finger drag, tap, double-tap, and long-press as well as two-finger pinch,
+ * pan, and twist. The recognizer is a pure state machine without any DOM dependencies: it is fed with the list of
+ * currently active touches on every touch event (start, move, end) and returns the gestures recognized by this
+ * change. Long-presses can be recognized without touch events by regularly invoking `tick`:
+ * ```
+ * const recognizer = new GestureRecognizer({ longPressDuration: 800 });
+ * const gestures = recognizer.process([{ identifier: 0, x: 10, y: 20 }], event.timeStamp);
+ * ```
+ * Once two-finger gestures are recognized, the first exceeding threshold decides whether a pinch, twist, or pan is
+ * performed, which then remains locked until one of the fingers is lifted. Touching with more than two fingers or
+ * lifting a single finger of a two-finger gesture blocks recognition until all touches are released.
+ */
+export class GestureRecognizer {
+
+    /** @see {@link thresholds} */
+    protected _thresholds: GestureRecognizer.Thresholds;
+
+    /** @see {@link state} */
+    protected _state = GestureRecognizer.State.Idle;
+
+    /**
+     * Identifiers of the touches involved in the current gesture (in order).
+     */
+    protected _identifiers = new Array<number>();
+
+    /**
+     * Time in milliseconds the current single touch or two-finger touch started.
+     */
+    protected _startTime = 0.0;
+
+    /**
+     * Centroid, distance, and angle of the touches when starting the current gesture.
+     */
+    protected _startCenter = v2();
+    protected _startDistance = 0.0;
+    protected _startAngle = 0.0;
+
+    /**
+     * Centroid of the touches on previous processing, used for deltas.
+     */
+    protected _previousCenter = v2();
+
+    /**
+     * Position and time of the last tap that might be followed by a second one (double-tap).
+     */
+    protected _lastTap: [vec2, number] | undefined;
+
+
+    /**
+     * Computes the centroid, distance, and angle of the given touches. The distance and angle refer to the first two
+     * touches and are zero for single touches.
+     * @param touches - Touches to measure.
+     * @returns - Tuple of centroid, distance, and angle in radians.
+     */
+    protected static measure(touches: Array<GestureRecognizer.Touch>): [vec2, number, number] {
+        const center = v2();
+        for (const touch of touches) {
+            center[0] += touch.x / touches.length;
+            center[1] += touch.y / touches.length;
+        }
+        if (touches.length < 2) {
+            return [center, 0.0, 0.0];
+        }
+        const dx = touches[1].x - touches[0].x;
+        const dy = touches[1].y - touches[0].y;
+        return [center, Math.sqrt(dx * dx + dy * dy), Math.atan2(dy, dx)];
+    }
+
+    /**
+     * Wraps an angle difference to [-PI, +PI].
+     */
+    protected static wrap(angle: number): number {
+        while (angle > Math.PI) {
+            angle -= 2.0 * Math.PI;
+        }
+        while (angle < -Math.PI) {
+            angle += 2.0 * Math.PI;
+        }
+        return angle;
+    }
+
+
+    /**
+     * Creates a recognizer using the default thresholds, optionally overridden by the given ones.
+     * @param thresholds - Thresholds to override the defaults with (@see {@link GestureRecognizer.DEFAULT_THRESHOLDS}).
+     */
+    constructor(thresholds?: Partial<GestureRecognizer.Thresholds>) {
+        this._thresholds = Object.assign({}, GestureRecognizer.DEFAULT_THRESHOLDS, thresholds);
+    }
+
+
+    /**
+     * Creates a gesture of the given type and phase based on the current touches.
+     */
+    protected gesture(type: GestureRecognizer.Type, phase: GestureRecognizer.Phase,
+        touches: Array<GestureRecognizer.Touch>): GestureRecognizer.Gesture {
+        const [center, distance, angle] = GestureRecognizer.measure(touches);
+        const gesture: GestureRecognizer.Gesture = {
+            type, phase, center,
+            delta: vec2.subtract(v2(), center, this._previousCenter),
+            scale: touches.length > 1 && this._startDistance > 0.0 ? distance / this._startDistance : 1.0,
+            rotation: touches.length > 1 ? GestureRecognizer.wrap(angle - this._startAngle) : 0.0,
+        };
+        this._previousCenter = center;
+        return gesture;
+    }
+
+    /**
+     * Ends the current continuous gesture (if any) at the last known center.
+     */
+    protected end(gestures: Array<GestureRecognizer.Gesture>): void {
+        const type = this.continuous();
+        if (type !== undefined) {
+            gestures.push({
+                type, phase: GestureRecognizer.Phase.End, center: vec2.clone(this._previousCenter), delta: v2(),
+                scale: 1.0, rotation: 0.0,
+            });
+        }
+    }
+
+    /**
+     * Returns the type of the continuous gesture currently performed, if any.
+     */
+    protected continuous(): GestureRecognizer.Type | undefined {
+        switch (this._state) {
+            case GestureRecognizer.State.Dragging:
+                return GestureRecognizer.Type.Drag;
+            case GestureRecognizer.State.Pinching:
+                return GestureRecognizer.Type.Pinch;
+            case GestureRecognizer.State.Panning:
+                return GestureRecognizer.Type.Pan;
+            case GestureRecognizer.State.Twisting:
+                return GestureRecognizer.Type.Twist;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Starts tracking of a single touch or two touches, or blocks recognition for more touches.
+     */
+    protected begin(touches: Array<GestureRecognizer.Touch>, time: number): void {
+        this._identifiers = touches.map((touch) => touch.identifier);
+        this._startTime = time;
+
+        const [center, distance, angle] = GestureRecognizer.measure(touches);
+        this._startCenter = center;
+        this._previousCenter = vec2.clone(center);
+        this._startDistance = distance;
+        this._startAngle = angle;
+
+        switch (touches.length) {
+            case 0:
+                this._state = GestureRecognizer.State.Idle;
+                break;
+            case 1:
+                this._state = GestureRecognizer.State.Pressed;
+                break;
+            case 2:
+                this._state = GestureRecognizer.State.Dual;
+                break;
+            default:
+                this._state = GestureRecognizer.State.Blocked;
+                break;
+        }
+    }
+
+    /**
+     * Recognizes a tap or double-tap when the single touch of a press is released.
+     */
+    protected tap(time: number, gestures: Array<GestureRecognizer.Gesture>): void {
+        if (time - this._startTime > this._thresholds.tapDuration) {
+            return;
+        }
+        const center = this._previousCenter;
+        const gesture = (type: GestureRecognizer.Type) => gestures.push({
+            type, phase: GestureRecognizer.Phase.End, center: vec2.clone(center), delta: v2(),
+            scale: 1.0, rotation: 0.0,
+        });
+
+        if (this._lastTap !== undefined && time - this._lastTap[1] <= this._thresholds.doubleTapInterval &&
+            vec2.distance(this._lastTap[0], center) <= this._thresholds.doubleTapDistance) {
+            this._lastTap = undefined;
+            gesture(GestureRecognizer.Type.DoubleTap);
+            return;
+        }
+        this._lastTap = [vec2.clone(center), time];
+        gesture(GestureRecognizer.Type.Tap);
+    }
+
+    /**
+     * Decides on the two-finger gesture once the first threshold is exceeded.
+     */
+    protected decide(touches: Array<GestureRecognizer.Touch>): GestureRecognizer.State | undefined {
+        const [center, distance, angle] = GestureRecognizer.measure(touches);
+        const scale = this._startDistance > 0.0 ? distance / this._startDistance : 1.0;
+
+        if (Math.abs(scale - 1.0) > this._thresholds.pinch) {
+            return GestureRecognizer.State.Pinching;
+        }
+        if (Math.abs(GestureRecognizer.wrap(angle - this._startAngle)) > this._thresholds.twist) {
+            return GestureRecognizer.State.Twisting;
+        }
+        if (vec2.distance(center, this._startCenter) > this._thresholds.pan) {
+            return GestureRecognizer.State.Panning;
+        }
+        return undefined;
+    }
+
+
+    /**
+     * Processes a change of the active touches, e.g., on touch start, move, or end, and returns all gestures
+     * recognized by this change in order. Continuous gestures (drag, pinch, pan, and twist) begin, change, and end;
+     * discrete gestures (tap, double-tap, and long-press) are reported once with the end phase.
+     * @param touches - All currently active touches (empty if all touches were released).
+     * @param time - Time of the change in milliseconds, e.g., the event's time stamp.
+     * @returns - Recognized gestures, empty if none was recognized.
+     */
+    process(touches: Array<GestureRecognizer.Touch>, time: number): Array<GestureRecognizer.Gesture> {
+        const gestures = this.tick(time);
+
+        /* Any change of the involved touches (added, removed, or replaced) ends the current gesture. */
+        const identical = touches.length === this._identifiers.length &&
+            touches.every((touch, index) => touch.identifier === this._identifiers[index]);
+
+        if (!identical) {
+            const pressed = this._state === GestureRecognizer.State.Pressed;
+            this.end(gestures);
+            if (pressed && touches.length === 0) {
+                this.tap(time, gestures);
+            }
+
+            /* Lifting a finger of a two-finger gesture should not result in a drag of the remaining one. */
+            const dual = this._identifiers.length > 1 && touches.length > 0;
+            this.begin(touches, time);
+            if (dual && touches.length === 1) {
+                this._state = GestureRecognizer.State.Blocked;
+            }
+            return gestures;
+        }
+
+        switch (this._state) {
+            case GestureRecognizer.State.Pressed:
+                const [center] = GestureRecognizer.measure(touches);
+                if (vec2.distance(center, this._startCenter) > this._thresholds.slop) {
+                    this._lastTap = undefined;
+                    this._state = GestureRecognizer.State.Dragging;
+                    gestures.push(this.gesture(GestureRecognizer.Type.Drag, GestureRecognizer.Phase.Begin, touches));
+                }
+                break;
+
+            case GestureRecognizer.State.Dual:
+                const decision = this.decide(touches);
+                if (decision !== undefined) {
+                    this._lastTap = undefined;
+                    this._state = decision;
+                    gestures.push(this.gesture(this.continuous()!, GestureRecognizer.Phase.Begin, touches));
+                }
+                break;
+
+            case GestureRecognizer.State.Dragging:
+            case GestureRecognizer.State.Pinching:
+            case GestureRecognizer.State.Panning:
+            case GestureRecognizer.State.Twisting:
+                gestures.push(this.gesture(this.continuous()!, GestureRecognizer.Phase.Change, touches));
+                break;
+
+            default:
+                break;
+        }
+        return gestures;
+    }
+
+    /**
+     * Recognizes a long-press if a single touch is held in place for at least the long-press duration. This is
+     * invoked on processing, but should be invoked regularly as well, since a resting touch does not cause events.
+     * @param time - Current time in milliseconds (same time base as for processing).
+     * @returns - The long-press gesture if recognized, otherwise empty.
+     */
+    tick(time: number): Array<GestureRecognizer.Gesture> {
+        if (this._state !== GestureRecognizer.State.Pressed ||
+            time - this._startTime < this._thresholds.longPressDuration) {
+            return new Array<GestureRecognizer.Gesture>();
+        }
+        this._lastTap = undefined;
+        this._state = GestureRecognizer.State.LongPressed;
+        return [{
+            type: GestureRecognizer.Type.LongPress, phase: GestureRecognizer.Phase.End,
+            center: vec2.clone(this._previousCenter), delta: v2(), scale: 1.0, rotation: 0.0,
+        }];
+    }
+
+    /**
+     * Cancels recognition, e.g., on touch cancel, and ends the current continuous gesture (if any).
+     * @returns - The end of the current continuous gesture, otherwise empty.
+     */
+    cancel(): Array<GestureRecognizer.Gesture> {
+        const gestures = new Array<GestureRecognizer.Gesture>();
+        this.end(gestures);
+        this.begin([], 0.0);
+        this._lastTap = undefined;
+        return gestures;
+    }
+
+
+    /**
+     * Current state of recognition, e.g., for scheduling long-press detection while pressed.
+     */
+    get state(): GestureRecognizer.State {
+        return this._state;
+    }
+
+    /**
+     * Thresholds used for recognition. Changes apply to subsequent processing.
+     */
+    get thresholds(): GestureRecognizer.Thresholds {
+        return this._thresholds;
+    }
+
+    set thresholds(thresholds: GestureRecognizer.Thresholds) {
+        this._thresholds = Object.assign({}, thresholds);
+    }
+
+}
+
+
+export namespace GestureRecognizer {
+
+    /**
+     * Touch position in pixel (e.g., as retrieved by `EventHandler.offsets`) and its persistent identifier.
+     */
+    export interface Touch {
+        identifier: number;
+        x: number;
+        y: number;
+    }
+
+    export interface Thresholds {
+        /** Distance in pixel a single touch can move without starting a drag (and still being a tap). */
+        slop: number;
+        /** Relative change of the two-finger distance that starts a pinch. */
+        pinch: number;
+        /** Distance in pixel the two-finger centroid has to move to start a pan. */
+        pan: number;
+        /** Change of the two-finger angle in radians that starts a twist. */
+        twist: number;
+        /** Maximum duration in milliseconds of a touch to be recognized as tap. */
+        tapDuration: number;
+        /** Maximum interval in milliseconds between two taps to be recognized as double-tap. */
+        doubleTapInterval: number;
+        /** Maximum distance in pixel between two taps to be recognized as double-tap. */
+        doubleTapDistance: number;
+        /** Minimum duration in milliseconds a single touch has to be held in place to be recognized as long-press. */
+        longPressDuration: number;
+    }
+
+    export const DEFAULT_THRESHOLDS: Thresholds = {
+        slop: 10.0,
+        pinch: 0.1,
+        pan: 10.0,
+        twist: 0.15,
+        tapDuration: 250.0,
+        doubleTapInterval: 300.0,
+        doubleTapDistance: 30.0,
+        longPressDuration: 500.0,
+    };
+
+    export enum Type {
+        Tap = 'tap',
+        DoubleTap = 'doubletap',
+        LongPress = 'longpress',
+        Drag = 'drag',
+        Pinch = 'pinch',
+        Pan = 'pan',
+        Twist = 'twist',
+    }
+
+    export enum Phase {
+        Begin,
+        Change,
+        End,
+    }
+
+    export enum State {
+        Idle,
+        Pressed,
+        LongPressed,
+        Dragging,
+        Dual,
+        Pinching,
+        Panning,
+        Twisting,
+        Blocked,
+    }
+
+    export interface Gesture {
+        type: Type;
+        phase: Phase;
+        /** Centroid of the involved touches in pixel. */
+        center: vec2;
+        /** Movement of the centroid since the previous gesture update in pixel. */
+        delta: vec2;
+        /** Ratio of the current to the initial two-finger distance (1.0 for single touch gestures). */
+        scale: number;
+        /** Two-finger rotation in radians since the gesture began (0.0 for single touch gestures). */
+        rotation: number;
+    }
+
+}
@@ -34,6 +34,7 @@ export class GL2Facade {
         this.queryMaxUniformVec3Components(context);
         this.queryBufferSubDataInterface(context);
         this.queryTexImageInterface(context);
+        this.queryUniformInterface(context);
     }
 
 
@@ -442,4 +443,65 @@ export class GL2Facade {
         }
     }
 
+
+    // UNIFORM INTERFACE
+
+    /**
+     * @link https://developer.mozilla.org/en-US/docs/Web/API/WebGL2RenderingContext/uniform
+     */
+    uniform1uiv: (location: WebGLUniformLocation, data: ArrayLike<GLuint>) => void;
+    uniform2uiv: (location: WebGLUniformLocation, data: ArrayLike<GLuint>) => void;
+    uniform3uiv: (location: WebGLUniformLocation, data: ArrayLike<GLuint>) => void;
+    uniform4uiv: (location: WebGLUniformLocation, data: ArrayLike<GLuint>) => void;
+
+    /**
+     * @link https://developer.mozilla.org/en-US/docs/Web/API/WebGL2RenderingContext/uniformMatrix
+     */
+    uniformMatrix2x3fv: (location: WebGLUniformLocation, transpose: GLboolean, data: ArrayLike<GLfloat>) => void;
+    uniformMatrix2x4fv: (location: WebGLUniformLocation, transpose: GLboolean, data: ArrayLike<GLfloat>) => void;
+    uniformMatrix3x2fv: (location: WebGLUniformLocation, transpose: GLboolean, data: ArrayLike<GLfloat>) => void;
+    uniformMatrix3x4fv: (location: WebGLUniformLocation, transpose: GLboolean, data: ArrayLike<GLfloat>) => void;
+    uniformMatrix4x2fv: (location: WebGLUniformLocation, transpose: GLboolean, data: ArrayLike<GLfloat>) => void;
+    uniformMatrix4x3fv: (location: WebGLUniformLocation, transpose: GLboolean, data: ArrayLike<GLfloat>) => void;
+
+    /**
+     * Unsigned integer and non-square matrix uniforms are WebGL2 only. Since these types cannot be declared in
+     * GLSL ES 1.0 shaders, the WebGL1 fallbacks are not expected to be invoked and assert.
+     */
+    protected queryUniformInterface(context: Context): void {
+        const gl = context.gl;
+
+        if (context.isWebGL2) {
+            this.uniform1uiv = (location: WebGLUniformLocation, data: ArrayLike<GLuint>) =>
+                gl.uniform1uiv(location, data);
+            this.uniform2uiv = (location: WebGLUniformLocation, data: ArrayLike<GLuint>) =>
+                gl.uniform2uiv(location, data);
+            this.uniform3uiv = (location: WebGLUniformLocation, data: ArrayLike<GLuint>) =>
+                gl.uniform3uiv(location, data);
+            this.uniform4uiv = (location: WebGLUniformLocation, data: ArrayLike<GLuint>) =>
+                gl.uniform4uiv(location, data);
+
+            this.uniformMatrix2x3fv = (location: WebGLUniformLocation, transpose: GLboolean,
+                data: ArrayLike<GLfloat>) => gl.uniformMatrix2x3fv(location, transpose, data);
+            this.uniformMatrix2x4fv = (location: WebGLUniformLocation, transpose: GLboolean,
+                data: ArrayLike<GLfloat>) => gl.uniformMatrix2x4fv(location, transpose, data);
+            this.uniformMatrix3x2fv = (location: WebGLUniformLocation, transpose: GLboolean,
+                data: ArrayLike<GLfloat>) => gl.uniformMatrix3x2fv(location, transpose, data);
+            this.uniformMatrix3x4fv = (location: WebGLUniformLocation, transpose: GLboolean,
+                data: ArrayLike<GLfloat>) => gl.uniformMatrix3x4fv(location, transpose, data);
+            this.uniformMatrix4x2fv = (location: WebGLUniformLocation, transpose: GLboolean,
+                data: ArrayLike<GLfloat>) => gl.uniformMatrix4x2fv(location, transpose, data);
+            this.uniformMatrix4x3fv = (location: WebGLUniformLocation, transpose: GLboolean,
+                data: ArrayLike<GLfloat>) => gl.uniformMatrix4x3fv(location, transpose, data);
+
+        } else {
+            const unsupported = () => assert(false, 'unsigned integer and non-square matrix uniforms not supported ' +
+                'on this context');
+
+            this.uniform1uiv = this.uniform2uiv = this.uniform3uiv = this.uniform4uiv = unsupported;
+            this.uniformMatrix2x3fv = this.uniformMatrix2x4fv = this.uniformMatrix3x2fv = unsupported;
+            this.uniformMatrix3x4fv = this.uniformMatrix4x2fv = this.uniformMatrix4x3fv = unsupported;
+        }
+    }
+
 }
@@ -0,0 +1,169 @@
+/**
+ * Type declarations of the JSON based glTF 2.0 format as far as required by the parser, see
+ * https://github.com/KhronosGroup/glTF/tree/master/specification/2.0. Only the subset of properties that are actually
+ * processed is declared here. The glTF JSON might contain additional properties (e.g., extensions and extras) that are
+ * silently ignored.
+ */
+export namespace GLTF {
+
+    /** Magic number of binary glTF containers, i.e., 'glTF' in ASCII. */
+    export const GLB_MAGIC = 0x46546C67;
+    /** Chunk type of the JSON chunk within a binary glTF container, i.e., 'JSON' in ASCII. */
+    export const GLB_CHUNK_JSON = 0x4E4F534A;
+    /** Chunk type of the binary chunk within a binary glTF container, i.e., 'BIN\0' in ASCII. */
+    export const GLB_CHUNK_BIN = 0x004E4942;
+
+
+    export enum ComponentType {
+        Byte = 5120,
+        UnsignedByte = 5121,
+        Short = 5122,
+        UnsignedShort = 5123,
+        UnsignedInt = 5125,
+        Float = 5126,
+    }
+
+    export enum PrimitiveMode {
+        Points = 0,
+        Lines = 1,
+        LineLoop = 2,
+        LineStrip = 3,
+        Triangles = 4,
+        TriangleStrip = 5,
+        TriangleFan = 6,
+    }
+
+    export enum AlphaMode {
+        Opaque = 'OPAQUE',
+        Mask = 'MASK',
+        Blend = 'BLEND',
+    }
+
+
+    export interface Asset {
+        version: string;
+        minVersion?: string;
+        generator?: string;
+    }
+
+    export interface Buffer {
+        uri?: string;
+        byteLength: number;
+        name?: string;
+    }
+
+    export interface BufferView {
+        buffer: number;
+        byteOffset?: number;
+        byteLength: number;
+        byteStride?: number;
+        target?: number;
+        name?: string;
+    }
+
+    export interface Accessor {
+        bufferView?: number;
+        byteOffset?: number;
+        componentType: ComponentType;
+        normalized?: boolean;
+        count: number;
+        type: 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4' | 'MAT2' | 'MAT3' | 'MAT4';
+        max?: Array<number>;
+        min?: Array<number>;
+        name?: string;
+    }
+
+    export interface Primitive {
+        attributes: { [semantic: string]: number };
+        indices?: number;
+        material?: number;
+        mode?: PrimitiveMode;
+    }
+
+    export interface Mesh {
+        primitives: Array<Primitive>;
+        name?: string;
+    }
+
+    export interface TextureInfo {
+        index: number;
+        texCoord?: number;
+        scale?: number; /* normal textures only */
+        strength?: number; /* occlusion textures only */
+    }
+
+    export interface PbrMetallicRoughness {
+        baseColorFactor?: [number, number, number, number];
+        baseColorTexture?: TextureInfo;
+        metallicFactor?: number;
+        roughnessFactor?: number;
+        metallicRoughnessTexture?: TextureInfo;
+    }
+
+    export interface Material {
+        name?: string;
+        pbrMetallicRoughness?: PbrMetallicRoughness;
+        normalTexture?: TextureInfo;
+        occlusionTexture?: TextureInfo;
+        emissiveTexture?: TextureInfo;
+        emissiveFactor?: [number, number, number];
+        alphaMode?: AlphaMode;
+        alphaCutoff?: number;
+        doubleSided?: boolean;
+    }
+
+    export interface Texture {
+        sampler?: number;
+        source?: number;
+        name?: string;
+    }
+
+    export interface Image {
+        uri?: string;
+        mimeType?: string;
+        bufferView?: number;
+        name?: string;
+    }
+
+    export interface Sampler {
+        magFilter?: number;
+        minFilter?: number;
+        wrapS?: number;
+        wrapT?: number;
+        name?: string;
+    }
+
+    export interface Node {
+        children?: Array<number>;
+        mesh?: number;
+        camera?: number;
+        matrix?: Array<number>;
+        rotation?: [number, number, number, number];
+        scale?: [number, number, number];
+        translation?: [number, number, number];
+        name?: string;
+    }
+
+    export interface Scene {
+        nodes?: Array<number>;
+        name?: string;
+    }
+
+    export interface Root {
+        asset: Asset;
+        scene?: number;
+        scenes?: Array<Scene>;
+        nodes?: Array<Node>;
+        meshes?: Array<Mesh>;
+        accessors?: Array<Accessor>;
+        bufferViews?: Array<BufferView>;
+        buffers?: Array<Buffer>;
+        materials?: Array<Material>;
+        textures?: Array<Texture>;
+        images?: Array<Image>;
+        samplers?: Array<Sampler>;
+        extensionsUsed?: Array<string>;
+        extensionsRequired?: Array<string>;
+    }
+
+}
@@ -0,0 +1,244 @@
+
+import { mat4, vec3, vec4 } from 'gl-matrix';
+
+import { GLTF } from './gltf';
+
+
+/**
+ * CPU-side representation of a parsed glTF 2.0 asset. All binary data referenced by accessors is resolved into
+ * tightly packed typed arrays, all defaults of the glTF specification are applied, and the local as well as the world
+ * transforms of all nodes are computed. An asset does not hold any GPU resources and can be created without a context,
+ * e.g., for testing, (@see {@link GLTFParser}). GPU resources are created from an asset by a @see {@link GLTFScene}.
+ */
+export class GLTFAsset {
+
+    /** @see {@link version} */
+    protected _version: string;
+
+    /** @see {@link accessors} */
+    protected _accessors = new Array<GLTFAsset.Accessor>();
+
+    /** @see {@link meshes} */
+    protected _meshes = new Array<GLTFAsset.Mesh>();
+
+    /** @see {@link materials} */
+    protected _materials = new Array<GLTFAsset.Material>();
+
+    /** @see {@link textures} */
+    protected _textures = new Array<GLTFAsset.Texture>();
+
+    /** @see {@link images} */
+    protected _images = new Array<GLTFAsset.Image>();
+
+    /** @see {@link nodes} */
+    protected _nodes = new Array<GLTFAsset.Node>();
+
+    /** @see {@link scenes} */
+    protected _scenes = new Array<GLTFAsset.Scene>();
+
+    /** @see {@link scene} */
+    protected _scene: number | undefined;
+
+
+    /**
+     * Creates an empty asset that is to be filled by a parser.
+     * @param version - The glTF version of the asset, e.g., '2.0'.
+     */
+    constructor(version: string) {
+        this._version = version;
+    }
+
+
+    /**
+     * Calls the given callback for every node of the given scene in depth-first order, i.e., parents are visited
+     * before their children.
+     * @param callback - Callback invoked per node with the node's index.
+     * @param scene - Index of the scene to traverse. If none is given, the default scene is used.
+     */
+    traverse(callback: (node: GLTFAsset.Node, index: number) => void, scene?: number): void {
+        const index = scene === undefined ? this.scene : scene;
+        if (index === undefined || this._scenes[index] === undefined) {
+            return;
+        }
+
+        const stack = this._scenes[index].nodes.slice().reverse();
+        while (stack.length > 0) {
+            const current = stack.pop() as number;
+            const node = this._nodes[current];
+            callback(node, current);
+
+            for (let i = node.children.length - 1; i >= 0; --i) {
+                stack.push(node.children[i]);
+            }
+        }
+    }
+
+
+    /**
+     * The glTF version of the asset.
+     */
+    get version(): string {
+        return this._version;
+    }
+
+    /**
+     * All accessors with resolved, tightly packed data.
+     */
+    get accessors(): Array<GLTFAsset.Accessor> {
+        return this._accessors;
+    }
+
+    /**
+     * All meshes with their primitives referring to accessors by reference (not index).
+     */
+    get meshes(): Array<GLTFAsset.Mesh> {
+        return this._meshes;
+    }
+
+    /**
+     * All materials with glTF defaults applied for unspecified PBR parameters.
+     */
+    get materials(): Array<GLTFAsset.Material> {
+        return this._materials;
+    }
+
+    /**
+     * All textures, i.e., pairs of image and sampler parameters.
+     */
+    get textures(): Array<GLTFAsset.Texture> {
+        return this._textures;
+    }
+
+    /**
+     * All images, either referenced by an URI or embedded as binary data.
+     */
+    get images(): Array<GLTFAsset.Image> {
+        return this._images;
+    }
+
+    /**
+     * All nodes of the asset's node hierarchy.
+     */
+    get nodes(): Array<GLTFAsset.Node> {
+        return this._nodes;
+    }
+
+    /**
+     * All scenes, i.e., sets of root nodes.
+     */
+    get scenes(): Array<GLTFAsset.Scene> {
+        return this._scenes;
+    }
+
+    /**
+     * Index of the default scene. If the asset does not specify a default scene, but specifies at least one scene,
+     * the first scene is used.
+     */
+    set scene(scene: number | undefined) {
+        this._scene = scene;
+    }
+    get scene(): number | undefined {
+        if (this._scene === undefined && this._scenes.length > 0) {
+            return 0;
+        }
+        return this._scene;
+    }
+
+}
+
+
+export namespace GLTFAsset {
+
+    export type AccessorData = Int8Array | Uint8Array | Int16Array | Uint16Array | Uint32Array | Float32Array;
+
+    export interface Accessor {
+        name: string | undefined;
+        /** Tightly packed data (count * components values) of the accessor. */
+        data: AccessorData;
+        /** GL data type of a single component, e.g., gl.FLOAT. */
+        componentType: GLTF.ComponentType;
+        /** Number of components per element, e.g., 3 for VEC3. */
+        components: number;
+        count: number;
+        normalized: boolean;
+        min: Array<number> | undefined;
+        max: Array<number> | undefined;
+    }
+
+    export interface Primitive {
+        /** Accessors per attribute semantic, e.g., 'POSITION', 'NORMAL', or 'TEXCOORD_0'. */
+        attributes: Map<string, Accessor>;
+        indices: Accessor | undefined;
+        material: Material | undefined;
+        mode: GLTF.PrimitiveMode;
+    }
+
+    export interface Mesh {
+        name: string | undefined;
+        primitives: Array<Primitive>;
+    }
+
+    export interface TextureInfo {
+        texture: Texture;
+        texCoord: number;
+    }
+
+    export interface Material {
+        name: string | undefined;
+
+        baseColorFactor: vec4;
+        baseColorTexture: TextureInfo | undefined;
+        metallicFactor: number;
+        roughnessFactor: number;
+        metallicRoughnessTexture: TextureInfo | undefined;
+
+        normalTexture: TextureInfo | undefined;
+        normalScale: number;
+        occlusionTexture: TextureInfo | undefined;
+        occlusionStrength: number;
+        emissiveTexture: TextureInfo | undefined;
+        emissiveFactor: vec3;
+
+        alphaMode: GLTF.AlphaMode;
+        alphaCutoff: number;
+        doubleSided: boolean;
+    }
+
+    export interface Image {
+        name: string | undefined;
+        /** Resolved URI (relative to the asset) or data URI, if the image is not embedded in a buffer view. */
+        uri: string | undefined;
+        mimeType: string | undefined;
+        /** Embedded image data, if the image is stored within a buffer view. */
+        data: Uint8Array | undefined;
+    }
+
+    export interface Texture {
+        name: string | undefined;
+        image: Image | undefined;
+        /** GL texture parameters, undefined values should be handled as implementation specific defaults. */
+        magFilter: GLenum | undefined;
+        minFilter: GLenum | undefined;
+        wrapS: GLenum;
+        wrapT: GLenum;
+    }
+
+    export interface Node {
+        name: string | undefined;
+        mesh: Mesh | undefined;
+        /** Index of the parent node, undefined for root nodes. */
+        parent: number | undefined;
+        children: Array<number>;
+        /** Transform relative to the parent node. */
+        local: mat4;
+        /** Transform relative to the scene, i.e., the product of all local transforms up to the root. */
+        world: mat4;
+    }
+
+    export interface Scene {
+        name: string | undefined;
+        /** Indices of the scene's root nodes. */
+        nodes: Array<number>;
+    }
+
+}
@@ -0,0 +1,81 @@
+
+import { Context } from '../context';
+import { fetchAsync } from '../fetch';
+
+import { GLTF } from './gltf';
+import { GLTFAsset } from './gltfasset';
+import { GLTFParser } from './gltfparser';
+import { GLTFScene } from './gltfscene';
+
+
+/**
+ * Loader for glTF 2.0 files, both JSON based (.gltf) and binary (.glb). The loader fetches the file as well as all
+ * external buffers and passes them to the parser. The file type is detected by the binary glTF magic, not by file
+ * extension. Loading of a GPU-ready scene including textures can be done as follows:
+ * ```
+ * GLTFLoader.load(context, '/models/box.gltf').then((scene) => this._scene = scene);
+ * ```
+ */
+export class GLTFLoader {
+
+    /**
+     * Fetches all buffers of a glTF. Buffers without URI refer to the binary chunk of a binary glTF.
+     * @param root - The glTF JSON.
+     * @param bin - The binary chunk of a binary glTF (if any).
+     * @param url - URL of the glTF file for resolving relative buffer URIs.
+     */
+    protected static fetchBuffers(root: GLTF.Root, bin: ArrayBuffer | undefined,
+        url: string): Promise<Array<ArrayBuffer>> {
+
+        return Promise.all((root.buffers || []).map((buffer, index) => {
+            if (buffer.uri === undefined) {
+                return bin !== undefined ? Promise.resolve(bin) :
+                    Promise.reject(`fetching '${url}' failed: buffer ${index} refers to a missing binary chunk`);
+            }
+            const decoded = GLTFParser.decodeDataURI(buffer.uri);
+            if (decoded !== undefined) {
+                return Promise.resolve(decoded);
+            }
+            return fetchAsync<ArrayBuffer>(GLTFParser.resolveURI(url, buffer.uri), 'arraybuffer');
+        }));
+    }
+
+
+    /**
+     * Fetches and parses a glTF file into a CPU-side asset.
+     * @param url - Uniform resource locator string referencing a .gltf or .glb file.
+     * @returns - Promise resolved with the parsed asset.
+     */
+    static loadAsset(url: string): Promise<GLTFAsset> {
+        return fetchAsync<ArrayBuffer>(url, 'arraybuffer').then((data) => {
+            let root: GLTF.Root;
+            let bin: ArrayBuffer | undefined;
+            if (GLTFParser.isGLB(data)) {
+                [root, bin] = GLTFParser.parseGLB(data);
+            } else {
+                root = JSON.parse(GLTFParser.decodeUTF8(new Uint8Array(data)));
+            }
+            return GLTFLoader.fetchBuffers(root, bin, url).then((buffers) => GLTFParser.parse(root, buffers, url));
+        });
+    }
+
+    /**
+     * Fetches and parses a glTF file and creates a scene with all GPU objects from it. The promise resolves after all
+     * textures are loaded.
+     * @param context - Valid context to create the GPU objects for.
+     * @param url - Uniform resource locator string referencing a .gltf or .glb file.
+     * @param identifier - Meaningful name for identification of the scene and its GPU objects.
+     * @param crossOrigin - Enable cross origin loading of images.
+     * @returns - Promise resolved with the initialized scene.
+     */
+    static load(context: Context, url: string, identifier?: string,
+        crossOrigin: boolean = false): Promise<GLTFScene> {
+
+        return GLTFLoader.loadAsset(url).then((asset) => {
+            const scene = new GLTFScene(context, identifier);
+            scene.initialize(asset);
+            return scene.load(crossOrigin).then(() => scene);
+        });
+    }
+
+}
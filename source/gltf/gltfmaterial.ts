@@ -0,0 +1,168 @@
+
+import { Context } from '../context';
+import { Program } from '../program';
+import { Texture2D } from '../texture2d';
+
+import { GLTF } from './gltf';
+import { GLTFAsset } from './gltfasset';
+
+
+/**
+ * Program-ready metallic-roughness material of a glTF asset. The material maps its parameters and textures to
+ * uniforms of a given program. Uniforms that are not used by the program are silently ignored, thus programs are free
+ * to support only a subset of the parameters. The following uniforms are set (the texture uniforms as sampler indices
+ * and each texture is accompanied by a boolean uniform indicating its presence, e.g., `u_hasBaseColorTexture`):
+ * ```
+ * uniform vec4 u_baseColorFactor;
+ * uniform float u_metallicFactor;
+ * uniform float u_roughnessFactor;
+ * uniform vec3 u_emissiveFactor;
+ * uniform float u_normalScale;
+ * uniform float u_occlusionStrength;
+ * uniform float u_alphaCutoff;  // negative if alpha mode is not MASK
+ *
+ * uniform sampler2D u_baseColorTexture;
+ * uniform sampler2D u_metallicRoughnessTexture;
+ * uniform sampler2D u_normalTexture;
+ * uniform sampler2D u_occlusionTexture;
+ * uniform sampler2D u_emissiveTexture;
+ * ```
+ */
+export class GLTFMaterial {
+
+    /**
+     * Sequence of textures and associated uniform names.
+     */
+    protected static readonly TEXTURES: Array<[GLTFMaterial.TextureProperty, string]> = [
+        ['baseColorTexture', 'u_baseColorTexture'],
+        ['metallicRoughnessTexture', 'u_metallicRoughnessTexture'],
+        ['normalTexture', 'u_normalTexture'],
+        ['occlusionTexture', 'u_occlusionTexture'],
+        ['emissiveTexture', 'u_emissiveTexture']];
+
+
+    /** @see {@link context} */
+    protected _context: Context;
+
+    /** @see {@link material} */
+    protected _material: GLTFAsset.Material;
+
+    /**
+     * Texture objects per glTF texture, shared among all materials of a scene.
+     */
+    protected _textures: Map<GLTFAsset.Texture, Texture2D>;
+
+
+    /**
+     * Creates a material for the parsed glTF material.
+     * @param context - Valid context the textures are created for.
+     * @param material - Parsed glTF material.
+     * @param textures - Initialized textures for all glTF textures referenced by the material.
+     */
+    constructor(context: Context, material: GLTFAsset.Material, textures: Map<GLTFAsset.Texture, Texture2D>) {
+        this._context = context;
+        this._material = material;
+        this._textures = textures;
+    }
+
+
+    /**
+     * Sets all material uniforms of the given, already bound program and binds all textures to subsequent texture
+     * units starting with the given unit.
+     * @param program - Bound program to set the material uniforms for.
+     * @param unit - Index of the first texture unit to be used, e.g., 0 for TEXTURE0.
+     * @returns - Index of the next unused texture unit.
+     */
+    bind(program: Program, unit: GLuint = 0): GLuint {
+        const gl = this._context.gl;
+        const material = this._material;
+
+        gl.uniform4fv(program.uniform('u_baseColorFactor'), material.baseColorFactor);
+        gl.uniform1f(program.uniform('u_metallicFactor'), material.metallicFactor);
+        gl.uniform1f(program.uniform('u_roughnessFactor'), material.roughnessFactor);
+        gl.uniform3fv(program.uniform('u_emissiveFactor'), material.emissiveFactor);
+        gl.uniform1f(program.uniform('u_normalScale'), material.normalScale);
+        gl.uniform1f(program.uniform('u_occlusionStrength'), material.occlusionStrength);
+        gl.uniform1f(program.uniform('u_alphaCutoff'),
+            material.alphaMode === GLTF.AlphaMode.Mask ? material.alphaCutoff : -1.0);
+
+        for (const [property, uniform] of GLTFMaterial.TEXTURES) {
+            const info = material[property];
+            const texture = info !== undefined ? this._textures.get(info.texture) : undefined;
+
+            const hasUniform = `u_has${uniform.charAt(2).toUpperCase()}${uniform.substr(3)}`;
+            gl.uniform1i(program.uniform(hasUniform), texture !== undefined ? 1 : 0);
+            if (texture === undefined) {
+                continue;
+            }
+            texture.bind(gl.TEXTURE0 + unit);
+            gl.uniform1i(program.uniform(uniform), unit);
+            ++unit;
+        }
+        return unit;
+    }
+
+    /**
+     * Unbinds all textures bound by this material.
+     * @param unit - Index of the first texture unit used on bind.
+     */
+    unbind(unit: GLuint = 0): void {
+        const gl = this._context.gl;
+        for (const [property] of GLTFMaterial.TEXTURES) {
+            const info = this._material[property];
+            const texture = info !== undefined ? this._textures.get(info.texture) : undefined;
+            if (texture === undefined) {
+                continue;
+            }
+            texture.unbind(gl.TEXTURE0 + unit);
+            ++unit;
+        }
+    }
+
+    /**
+     * Applies the material's render state, i.e., face culling depending on double sidedness and blending for the
+     * BLEND alpha mode. Blending uses premultiplied alpha.
+     */
+    applyState(): void {
+        const gl = this._context.gl;
+        if (this._material.doubleSided) {
+            gl.disable(gl.CULL_FACE);
+        } else {
+            gl.enable(gl.CULL_FACE);
+            gl.cullFace(gl.BACK);
+        }
+        if (this._material.alphaMode === GLTF.AlphaMode.Blend) {
+            gl.enable(gl.BLEND);
+            gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        } else {
+            gl.disable(gl.BLEND);
+        }
+    }
+
+
+    /**
+     * The parsed glTF material.
+     */
+    get material(): GLTFAsset.Material {
+        return this._material;
+    }
+
+    /**
+     * Whether or not the material requires blending and, thus, should be drawn after all opaque materials.
+     */
+    get transparent(): boolean {
+        return this._material.alphaMode === GLTF.AlphaMode.Blend;
+    }
+
+}
+
+
+export namespace GLTFMaterial {
+
+    /**
+     * Properties of a glTF material referring to a texture.
+     */
+    export type TextureProperty = 'baseColorTexture' | 'metallicRoughnessTexture' | 'normalTexture' |
+        'occlusionTexture' | 'emissiveTexture';
+
+}
@@ -0,0 +1,403 @@
+
+import { mat4, quat, vec3, vec4 } from 'gl-matrix';
+
+import { assert, log, LogLevel } from '../auxiliaries';
+import { m4 } from '../gl-matrix-extensions';
+
+import { GLTF } from './gltf';
+import { GLTFAsset } from './gltfasset';
+
+
+/**
+ * Pure, context-independent parser that transforms glTF 2.0 JSON and its binary buffers into a CPU-side asset (@see
+ * {@link GLTFAsset}). Binary glTF containers (.glb) can be split into JSON and binary chunk beforehand. Fetching of
+ * external resources is not done by the parser but by the loader (@see {@link GLTFLoader}), in order to keep parsing
+ * testable without network or GPU access:
+ * ```
+ * const [root, bin] = GLTFParser.parseGLB(arrayBuffer);
+ * const asset = GLTFParser.parse(root, [bin!]);
+ * ```
+ */
+export class GLTFParser {
+
+    /** Number of components per element of all accessor types. */
+    protected static readonly COMPONENTS = new Map<string, number>([
+        ['SCALAR', 1], ['VEC2', 2], ['VEC3', 3], ['VEC4', 4], ['MAT2', 4], ['MAT3', 9], ['MAT4', 16]]);
+
+    /** Default texture wrapping is REPEAT (10497) as specified by glTF 2.0. */
+    protected static readonly DEFAULT_WRAP = 10497;
+
+
+    /**
+     * Creates a typed array of the given component type viewing the given buffer.
+     * @param componentType - Component type of an accessor.
+     * @param buffer - Buffer to be viewed.
+     * @returns - Typed array matching the component type.
+     */
+    protected static typedArray(componentType: GLTF.ComponentType, buffer: ArrayBuffer): GLTFAsset.AccessorData {
+        switch (componentType) {
+            case GLTF.ComponentType.Byte:
+                return new Int8Array(buffer);
+            case GLTF.ComponentType.UnsignedByte:
+                return new Uint8Array(buffer);
+            case GLTF.ComponentType.Short:
+                return new Int16Array(buffer);
+            case GLTF.ComponentType.UnsignedShort:
+                return new Uint16Array(buffer);
+            case GLTF.ComponentType.UnsignedInt:
+                return new Uint32Array(buffer);
+            case GLTF.ComponentType.Float:
+                return new Float32Array(buffer);
+            default:
+                assert(false, `expected valid accessor component type, given ${componentType}`);
+                return new Uint8Array(buffer);
+        }
+    }
+
+    /**
+     * Resolves the data of an accessor into a tightly packed typed array. Interleaved data (byte stride larger than
+     * the element size) is de-interleaved and accessors without buffer view are initialized with zeros.
+     * @param root - The glTF JSON.
+     * @param accessor - Accessor to resolve.
+     * @param buffers - Binary data of all buffers.
+     */
+    protected static parseAccessor(root: GLTF.Root, accessor: GLTF.Accessor,
+        buffers: Array<ArrayBuffer>): GLTFAsset.Accessor {
+
+        const components = GLTFParser.COMPONENTS.get(accessor.type);
+        assert(components !== undefined, `expected valid accessor type, given ${accessor.type}`);
+
+        const elementSize = GLTFParser.byteSizeOfComponent(accessor.componentType) * (components as number);
+        const data = new ArrayBuffer(accessor.count * elementSize);
+
+        if (accessor.bufferView !== undefined) {
+            const bufferView = (root.bufferViews as Array<GLTF.BufferView>)[accessor.bufferView];
+            const buffer = buffers[bufferView.buffer];
+            assert(buffer !== undefined, `expected buffer ${bufferView.buffer} to be resolved`);
+
+            const offset = (bufferView.byteOffset || 0) + (accessor.byteOffset || 0);
+            const stride = bufferView.byteStride !== undefined && bufferView.byteStride > 0 ?
+                bufferView.byteStride : elementSize;
+
+            const source = new Uint8Array(buffer);
+            const target = new Uint8Array(data);
+            if (stride === elementSize) {
+                target.set(source.subarray(offset, offset + data.byteLength));
+            } else {
+                for (let i = 0; i < accessor.count; ++i) {
+                    const begin = offset + i * stride;
+                    target.set(source.subarray(begin, begin + elementSize), i * elementSize);
+                }
+            }
+        }
+
+        return {
+            name: accessor.name,
+            data: GLTFParser.typedArray(accessor.componentType, data),
+            componentType: accessor.componentType,
+            components: components as number,
+            count: accessor.count,
+            normalized: accessor.normalized === true,
+            min: accessor.min,
+            max: accessor.max,
+        };
+    }
+
+    /**
+     * Resolves an image either to an URI (relative to the glTF file or data URI) or to its embedded data.
+     * @param root - The glTF JSON.
+     * @param image - Image to resolve.
+     * @param buffers - Binary data of all buffers.
+     * @param base - URL of the glTF file.
+     */
+    protected static parseImage(root: GLTF.Root, image: GLTF.Image, buffers: Array<ArrayBuffer>,
+        base: string): GLTFAsset.Image {
+
+        let data: Uint8Array | undefined;
+        if (image.bufferView !== undefined) {
+            const bufferView = (root.bufferViews as Array<GLTF.BufferView>)[image.bufferView];
+            const offset = bufferView.byteOffset || 0;
+            data = new Uint8Array(buffers[bufferView.buffer].slice(offset, offset + bufferView.byteLength));
+        }
+
+        return {
+            name: image.name,
+            uri: image.uri !== undefined ? GLTFParser.resolveURI(base, image.uri) : undefined,
+            mimeType: image.mimeType,
+            data,
+        };
+    }
+
+    /**
+     * Applies the defaults of the metallic-roughness material model to a glTF material.
+     * @param material - Material to parse.
+     * @param textures - Already parsed textures.
+     */
+    protected static parseMaterial(material: GLTF.Material, textures: Array<GLTFAsset.Texture>): GLTFAsset.Material {
+        const textureInfo = (info: GLTF.TextureInfo | undefined) => info === undefined ? undefined :
+            { texture: textures[info.index], texCoord: info.texCoord || 0 } as GLTFAsset.TextureInfo;
+
+        const pbr = material.pbrMetallicRoughness || {} as GLTF.PbrMetallicRoughness;
+        return {
+            name: material.name,
+
+            baseColorFactor: pbr.baseColorFactor !== undefined ?
+                vec4.clone(pbr.baseColorFactor) : vec4.fromValues(1.0, 1.0, 1.0, 1.0),
+            baseColorTexture: textureInfo(pbr.baseColorTexture),
+            metallicFactor: pbr.metallicFactor !== undefined ? pbr.metallicFactor : 1.0,
+            roughnessFactor: pbr.roughnessFactor !== undefined ? pbr.roughnessFactor : 1.0,
+            metallicRoughnessTexture: textureInfo(pbr.metallicRoughnessTexture),
+
+            normalTexture: textureInfo(material.normalTexture),
+            normalScale: material.normalTexture !== undefined && material.normalTexture.scale !== undefined ?
+                material.normalTexture.scale : 1.0,
+            occlusionTexture: textureInfo(material.occlusionTexture),
+            occlusionStrength: material.occlusionTexture !== undefined &&
+                material.occlusionTexture.strength !== undefined ? material.occlusionTexture.strength : 1.0,
+            emissiveTexture: textureInfo(material.emissiveTexture),
+            emissiveFactor: material.emissiveFactor !== undefined ?
+                vec3.clone(material.emissiveFactor) : vec3.fromValues(0.0, 0.0, 0.0),
+
+            alphaMode: material.alphaMode !== undefined ? material.alphaMode : GLTF.AlphaMode.Opaque,
+            alphaCutoff: material.alphaCutoff !== undefined ? material.alphaCutoff : 0.5,
+            doubleSided: material.doubleSided === true,
+        };
+    }
+
+    /**
+     * Computes the local transform of a node either from its matrix or from its translation, rotation, and scale.
+     * @param node - Node to compute the local transform of.
+     */
+    protected static parseTransform(node: GLTF.Node): mat4 {
+        if (node.matrix !== undefined) {
+            assert(node.matrix.length === 16, `expected node matrix of 16 values, given ${node.matrix.length}`);
+            return mat4.copy(m4(), new Float32Array(node.matrix) as mat4);
+        }
+        const rotation = node.rotation !== undefined ? quat.fromValues(
+            node.rotation[0], node.rotation[1], node.rotation[2], node.rotation[3]) : quat.create();
+        const translation = node.translation !== undefined ? vec3.clone(node.translation) : vec3.create();
+        const scale = node.scale !== undefined ? vec3.clone(node.scale) : vec3.fromValues(1.0, 1.0, 1.0);
+        return mat4.fromRotationTranslationScale(m4(), rotation, translation, scale);
+    }
+
+
+    /**
+     * Returns the size in bytes of a single component of the given component type.
+     * @param componentType - Component type of an accessor.
+     */
+    static byteSizeOfComponent(componentType: GLTF.ComponentType): number {
+        switch (componentType) {
+            case GLTF.ComponentType.Byte:
+            case GLTF.ComponentType.UnsignedByte:
+                return 1;
+            case GLTF.ComponentType.Short:
+            case GLTF.ComponentType.UnsignedShort:
+                return 2;
+            case GLTF.ComponentType.UnsignedInt:
+            case GLTF.ComponentType.Float:
+                return 4;
+            default:
+                assert(false, `expected valid accessor component type, given ${componentType}`);
+                return 0;
+        }
+    }
+
+    /**
+     * Checks whether or not the given data starts with the binary glTF magic.
+     * @param data - Data that is either binary glTF or UTF-8 encoded JSON.
+     */
+    static isGLB(data: ArrayBuffer): boolean {
+        return data.byteLength >= 12 && new DataView(data).getUint32(0, true) === GLTF.GLB_MAGIC;
+    }
+
+    /**
+     * Splits a binary glTF container into its JSON chunk (parsed) and its optional binary chunk.
+     * @param data - Binary glTF (.glb) data.
+     * @returns - Tuple of the parsed JSON chunk and the binary chunk (if present).
+     */
+    static parseGLB(data: ArrayBuffer): [GLTF.Root, ArrayBuffer | undefined] {
+        assert(GLTFParser.isGLB(data), `expected binary glTF magic`);
+        const view = new DataView(data);
+
+        const version = view.getUint32(4, true);
+        assert(version === 2, `expected binary glTF version 2, given ${version}`);
+        const length = Math.min(view.getUint32(8, true), data.byteLength);
+
+        let root: GLTF.Root | undefined;
+        let bin: ArrayBuffer | undefined;
+
+        let offset = 12;
+        while (offset + 8 <= length) {
+            const chunkLength = view.getUint32(offset, true);
+            const chunkType = view.getUint32(offset + 4, true);
+            offset += 8;
+
+            if (chunkType === GLTF.GLB_CHUNK_JSON) {
+                root = JSON.parse(GLTFParser.decodeUTF8(new Uint8Array(data, offset, chunkLength)));
+            } else if (chunkType === GLTF.GLB_CHUNK_BIN && bin === undefined) {
+                bin = data.slice(offset, offset + chunkLength);
+            }
+            /* Chunks of unknown type are skipped as specified. */
+            offset += chunkLength;
+        }
+        assert(root !== undefined, `expected JSON chunk in binary glTF`);
+        return [root as GLTF.Root, bin];
+    }
+
+    /**
+     * Decodes UTF-8 encoded bytes to a string (without relying on TextDecoder).
+     * @param bytes - UTF-8 encoded bytes.
+     */
+    static decodeUTF8(bytes: Uint8Array): string {
+        let encoded = '';
+        /* tslint:disable-next-line:prefer-for-of */
+        for (let i = 0; i < bytes.length; ++i) {
+            encoded += String.fromCharCode(bytes[i]);
+        }
+        return decodeURIComponent(escape(encoded));
+    }
+
+    /**
+     * Decodes a base64 encoded data URI into binary data.
+     * @param uri - Data URI, e.g., 'data:application/octet-stream;base64,...'.
+     * @returns - The decoded data if the URI is a base64 data URI, undefined otherwise.
+     */
+    static decodeDataURI(uri: string): ArrayBuffer | undefined {
+        const match = uri.match(/^data:[^;,]*(;[^,]*)?;base64,(.*)$/);
+        if (match === null) {
+            return undefined;
+        }
+        const decoded = atob(match[2]);
+        const bytes = new Uint8Array(decoded.length);
+        for (let i = 0; i < decoded.length; ++i) {
+            bytes[i] = decoded.charCodeAt(i);
+        }
+        return bytes.buffer;
+    }
+
+    /**
+     * Resolves an URI referenced within a glTF relative to the URL of the glTF itself. Data URIs and absolute URIs are
+     * returned unchanged.
+     * @param base - URL of the glTF file.
+     * @param uri - URI referenced by a buffer or image.
+     */
+    static resolveURI(base: string, uri: string): string {
+        if (/^(data:|blob:|[a-z][a-z0-9+.-]*:\/\/|\/)/i.test(uri)) {
+            return uri;
+        }
+        const index = base.lastIndexOf('/');
+        return index < 0 ? uri : `${base.substr(0, index + 1)}${uri}`;
+    }
+
+    /**
+     * Updates the world transforms of all nodes based on their parents' world transforms and their local transform.
+     * @param nodes - All nodes of an asset with parents being resolved.
+     */
+    static updateWorldTransforms(nodes: Array<GLTFAsset.Node>): void {
+        const update = (index: number) => {
+            const node = nodes[index];
+            if (node.parent === undefined) {
+                mat4.copy(node.world, node.local);
+            } else {
+                mat4.multiply(node.world, nodes[node.parent].world, node.local);
+            }
+            node.children.forEach(update);
+        };
+        nodes.forEach((node, index) => {
+            if (node.parent === undefined) {
+                update(index);
+            }
+        });
+    }
+
+
+    /**
+     * Parses a glTF root object with all its buffers already being resolved.
+     * @param root - The glTF JSON, e.g., from a .gltf file or from the JSON chunk of a .glb file.
+     * @param buffers - Binary data of all buffers in the sequence of the glTF buffers.
+     * @param base - Optional URL of the glTF file used to resolve relative image URIs.
+     * @returns - CPU-side asset with all accessor data, materials, and transforms resolved.
+     */
+    static parse(root: GLTF.Root, buffers: Array<ArrayBuffer>, base: string = ''): GLTFAsset {
+        assert(root.asset !== undefined && typeof root.asset.version === 'string', `expected glTF asset version`);
+        const major = parseInt(root.asset.version.split('.')[0], 10);
+        assert(major === 2, `expected glTF version 2.x, given ${root.asset.version}`);
+
+        if (root.extensionsRequired !== undefined && root.extensionsRequired.length > 0) {
+            log(LogLevel.Warning, `glTF extensions not supported: ${root.extensionsRequired.join(', ')}`);
+        }
+
+        const asset = new GLTFAsset(root.asset.version);
+
+        const accessors = (root.accessors || []).map((accessor) =>
+            GLTFParser.parseAccessor(root, accessor, buffers));
+        asset.accessors.push(...accessors);
+
+        const images = (root.images || []).map((image) =>
+            GLTFParser.parseImage(root, image, buffers, base));
+        asset.images.push(...images);
+
+        const samplers = root.samplers || [];
+        const textures = (root.textures || []).map((texture) => {
+            const sampler = texture.sampler !== undefined ? samplers[texture.sampler] : {} as GLTF.Sampler;
+            return {
+                name: texture.name,
+                image: texture.source !== undefined ? images[texture.source] : undefined,
+                magFilter: sampler.magFilter,
+                minFilter: sampler.minFilter,
+                wrapS: sampler.wrapS !== undefined ? sampler.wrapS : GLTFParser.DEFAULT_WRAP,
+                wrapT: sampler.wrapT !== undefined ? sampler.wrapT : GLTFParser.DEFAULT_WRAP,
+            } as GLTFAsset.Texture;
+        });
+        asset.textures.push(...textures);
+
+        const materials = (root.materials || []).map((material) =>
+            GLTFParser.parseMaterial(material, textures));
+        asset.materials.push(...materials);
+
+        const meshes = (root.meshes || []).map((mesh) => {
+            return {
+                name: mesh.name,
+                primitives: mesh.primitives.map((primitive) => {
+                    const attributes = new Map<string, GLTFAsset.Accessor>();
+                    for (const semantic of Object.keys(primitive.attributes)) {
+                        attributes.set(semantic, accessors[primitive.attributes[semantic]]);
+                    }
+                    return {
+                        attributes,
+                        indices: primitive.indices !== undefined ? accessors[primitive.indices] : undefined,
+                        material: primitive.material !== undefined ? materials[primitive.material] : undefined,
+                        mode: primitive.mode !== undefined ? primitive.mode : GLTF.PrimitiveMode.Triangles,
+                    } as GLTFAsset.Primitive;
+                }),
+            } as GLTFAsset.Mesh;
+        });
+        asset.meshes.push(...meshes);
+
+        const nodes = (root.nodes || []).map((node) => {
+            return {
+                name: node.name,
+                mesh: node.mesh !== undefined ? meshes[node.mesh] : undefined,
+                parent: undefined,
+                children: node.children !== undefined ? node.children.slice() : [],
+                local: GLTFParser.parseTransform(node),
+                world: m4(),
+            } as GLTFAsset.Node;
+        });
+        nodes.forEach((node, index) => node.children.forEach((child) => {
+            assert(nodes[child].parent === undefined, `expected node ${child} to have a single parent`);
+            nodes[child].parent = index;
+        }));
+        asset.nodes.push(...nodes);
+
+        asset.scenes.push(...(root.scenes || []).map((scene) => {
+            return { name: scene.name, nodes: scene.nodes !== undefined ? scene.nodes.slice() : [] };
+        }));
+        asset.scene = root.scene;
+
+        GLTFParser.updateWorldTransforms(nodes);
+        return asset;
+    }
+
+
+}
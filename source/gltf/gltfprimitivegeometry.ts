@@ -0,0 +1,187 @@
+
+import { assert, logIf, LogLevel } from '../auxiliaries';
+
+import { Buffer } from '../buffer';
+import { Context } from '../context';
+import { Geometry } from '../geometry';
+import { Initializable } from '../initializable';
+import { VertexLayout } from '../vertexlayout';
+
+import { GLTFAsset } from './gltfasset';
+
+
+/**
+ * Geometry of a single glTF mesh primitive. One vertex buffer object is created per attribute (e.g., POSITION,
+ * NORMAL, TEXCOORD_0) and an additional index buffer object is created for indexed primitives. Attributes are bound to
+ * binding points via semantics, attributes without a binding point are uploaded but not enabled:
+ * ```
+ * const geometry = new GLTFPrimitiveGeometry(context, asset.meshes[0].primitives[0]);
+ * geometry.initialize(new Map([['POSITION', 0], ['NORMAL', 1]]));
+ * ...
+ * geometry.bind();
+ * geometry.draw();
+ * ```
+ */
+export class GLTFPrimitiveGeometry extends Geometry {
+
+    /**
+     * Attribute binding points used for initialization if none are specified.
+     */
+    static readonly DEFAULT_BINDINGS = new Map<string, GLuint>([
+        ['POSITION', 0], ['NORMAL', 1], ['TEXCOORD_0', 2], ['TANGENT', 3], ['COLOR_0', 4], ['TEXCOORD_1', 5]]);
+
+
+    /** @see {@link primitive} */
+    protected _primitive: GLTFAsset.Primitive;
+
+    /**
+     * Attribute semantics in the sequence of the vertex buffers.
+     */
+    protected _semantics = new Array<string>();
+
+    /** @see {@link bindings} */
+    protected _bindings: Map<string, GLuint>;
+
+    /**
+     * Number of vertices or indices that are drawn.
+     */
+    protected _count: GLsizei = 0;
+
+    /**
+     * GL type of the indices, e.g., gl.UNSIGNED_SHORT, if the primitive is indexed.
+     */
+    protected _indexType: GLenum | undefined;
+
+
+    /**
+     * Object constructor, requires a context, the primitive, and an optional identifier.
+     * @param context - Valid context to create the object for.
+     * @param primitive - Parsed glTF primitive providing the vertex and index data.
+     * @param identifier - Meaningful name for identification of this instance.
+     */
+    constructor(context: Context, primitive: GLTFAsset.Primitive, identifier?: string) {
+        super(context, identifier);
+
+        /* Generate identifier from constructor name if none given. */
+        identifier = identifier !== undefined && identifier !== `` ? identifier : this.constructor.name;
+
+        this._primitive = primitive;
+
+        primitive.attributes.forEach((accessor, semantic) => {
+            const buffer = new Buffer(context, `${identifier}${semantic}VBO`);
+            buffer.layout = new VertexLayout([{
+                name: semantic, size: accessor.components, type: accessor.componentType,
+                normalized: accessor.normalized,
+            }]);
+
+            this._semantics.push(semantic);
+            this._buffers.push(buffer);
+        });
+        if (primitive.indices !== undefined) {
+            this._buffers.push(new Buffer(context, `${identifier}IBO`));
+        }
+    }
+
+
+    /**
+     * Binds all vertex buffer objects with a binding point and the index buffer object (if present).
+     */
+    protected bindBuffers(indices: Array<GLuint>): void {
+        /* Please note the implicit bind in enableLayout */
+        for (let i = 0; i < this._semantics.length; ++i) {
+            this._buffers[i].enableLayout(this._bindings, true, false);
+        }
+        if (this._indexType !== undefined) {
+            this._buffers[this._semantics.length].bind();
+        }
+    }
+
+    /**
+     * Unbinds all buffer objects and disables the binding points.
+     */
+    protected unbindBuffers(indices: Array<GLuint>): void {
+        /* Please note the implicit unbind in enableLayout is skipped */
+        for (let i = 0; i < this._semantics.length; ++i) {
+            this._buffers[i].disableLayout(this._bindings, true, true);
+        }
+        if (this._indexType !== undefined) {
+            this._buffers[this._semantics.length].unbind();
+        }
+    }
+
+
+    /**
+     * Creates all buffer objects and uploads the primitive's vertex and index data.
+     * @param bindings - Attribute binding points per semantic, e.g., 'POSITION' -> 0.
+     */
+    initialize(bindings: Map<string, GLuint> = GLTFPrimitiveGeometry.DEFAULT_BINDINGS): boolean {
+        const gl = this.context.gl;
+
+        const targets = this._semantics.map(() => gl.ARRAY_BUFFER as GLenum);
+        const indices = this._semantics.map((semantic) => bindings.get(semantic) as GLuint);
+
+        const primitiveIndices = this._primitive.indices;
+        if (primitiveIndices !== undefined) {
+            targets.push(gl.ELEMENT_ARRAY_BUFFER);
+            this._indexType = primitiveIndices.componentType;
+            this._count = primitiveIndices.count;
+
+            logIf(this._indexType === gl.UNSIGNED_INT && !this.context.supportsElementIndexUint, LogLevel.Warning,
+                `unsigned int indices not supported by context, drawing ${this.constructor.name} might fail`);
+        } else {
+            const position = this._primitive.attributes.get('POSITION');
+            this._count = position !== undefined ? position.count : 0;
+        }
+        this._bindings = bindings;
+
+        const valid = super.initialize(targets, indices);
+
+        for (let i = 0; i < this._semantics.length; ++i) {
+            const accessor = this._primitive.attributes.get(this._semantics[i]) as GLTFAsset.Accessor;
+            this._buffers[i].data(accessor.data, gl.STATIC_DRAW);
+        }
+        if (primitiveIndices !== undefined) {
+            assert(this._buffers[this._semantics.length] !== undefined, `expected valid index buffer`);
+            this._buffers[this._semantics.length].data(primitiveIndices.data, gl.STATIC_DRAW);
+        }
+
+        return valid;
+    }
+
+    /**
+     * Draws the primitive using either an indexed or non-indexed draw call with the primitive's mode.
+     */
+    @Initializable.assert_initialized()
+    draw(): void {
+        const gl = this.context.gl;
+        if (this._indexType !== undefined) {
+            gl.drawElements(this._primitive.mode, this._count, this._indexType, 0);
+        } else {
+            gl.drawArrays(this._primitive.mode, 0, this._count);
+        }
+    }
+
+
+    /**
+     * The parsed primitive this geometry was created from.
+     */
+    get primitive(): GLTFAsset.Primitive {
+        return this._primitive;
+    }
+
+    /**
+     * The material referenced by the primitive (if any).
+     */
+    get material(): GLTFAsset.Material | undefined {
+        return this._primitive.material;
+    }
+
+    /**
+     * Attribute binding points per semantic as used for initialization.
+     */
+    get bindings(): Map<string, GLuint> {
+        this.assertInitialized();
+        return this._bindings;
+    }
+
+}
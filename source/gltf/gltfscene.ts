@@ -0,0 +1,249 @@
+
+import { mat4 } from 'gl-matrix';
+
+import { assert, log, LogLevel } from '../auxiliaries';
+
+import { Context } from '../context';
+import { Initializable } from '../initializable';
+import { Texture2D } from '../texture2d';
+
+import { GeometryComponent } from '../scene/geometrycomponent';
+import { SceneNode } from '../scene/scenenode';
+
+import { GLTFAsset } from './gltfasset';
+import { GLTFMaterial } from './gltfmaterial';
+import { GLTFPrimitiveGeometry } from './gltfprimitivegeometry';
+
+
+/**
+ * GPU representation of a glTF asset: a geometry per mesh primitive, a texture per glTF texture, and a program-ready
+ * material per glTF material. The scene's node hierarchy is flattened into a list of drawables, each referring to a
+ * geometry, its material, and the world transform of the node instancing the geometry's mesh:
+ * ```
+ * GLTFLoader.load(context, '/models/box.glb').then((scene) => this._scene = scene);
+ * ...
+ * for (const drawable of this._scene.drawables) {
+ *     gl.uniformMatrix4fv(uModel, false, drawable.transform);
+ *     const unit = drawable.material ? drawable.material.bind(this._program) : 0;
+ *     drawable.geometry.bind();
+ *     drawable.geometry.draw();
+ *     drawable.geometry.unbind();
+ * }
+ * ```
+ */
+export class GLTFScene extends Initializable {
+
+    /** @see {@link context} */
+    protected _context: Context;
+
+    /**
+     * Prefix for identifiers of all created GPU objects.
+     */
+    protected _identifier: string;
+
+    /** @see {@link asset} */
+    protected _asset: GLTFAsset;
+
+    /**
+     * Geometries per mesh, in sequence of the mesh's primitives.
+     */
+    protected _geometries = new Map<GLTFAsset.Mesh, Array<GLTFPrimitiveGeometry>>();
+
+    /**
+     * Textures per glTF texture.
+     */
+    protected _textures = new Map<GLTFAsset.Texture, Texture2D>();
+
+    /**
+     * Materials per glTF material.
+     */
+    protected _materials = new Map<GLTFAsset.Material, GLTFMaterial>();
+
+    /** @see {@link drawables} */
+    protected _drawables = new Array<GLTFScene.Drawable>();
+
+
+    /**
+     * Creates an uninitialized scene.
+     * @param context - Valid context to create the GPU objects for.
+     * @param identifier - Meaningful name for identification of this instance and its GPU objects.
+     */
+    constructor(context: Context, identifier?: string) {
+        super();
+        this._context = context;
+        this._identifier = identifier !== undefined && identifier !== `` ? identifier : this.constructor.name;
+    }
+
+
+    /**
+     * Creates all geometries, textures (with a 1x1 placeholder until loaded), and materials of the given asset and
+     * collects the drawables of the asset's default scene.
+     * @param asset - Parsed glTF asset.
+     * @param bindings - Attribute binding points per semantic passed to all geometries.
+     */
+    @Initializable.initialize()
+    initialize(asset: GLTFAsset,
+        bindings: Map<string, GLuint> = GLTFPrimitiveGeometry.DEFAULT_BINDINGS): boolean {
+
+        const gl = this._context.gl;
+        this._asset = asset;
+
+        let valid = true;
+        asset.textures.forEach((texture, index) => {
+            const object = new Texture2D(this._context, `${this._identifier}Texture${index}`);
+            valid = object.initialize(1, 1, this._context.isWebGL2 ? gl.RGBA8 : gl.RGBA,
+                gl.RGBA, gl.UNSIGNED_BYTE) && valid;
+            object.data(new Uint8Array([255, 255, 255, 255]));
+            object.wrap(texture.wrapS, texture.wrapT);
+            object.filter(texture.magFilter !== undefined ? texture.magFilter : gl.LINEAR,
+                texture.minFilter !== undefined ? texture.minFilter : gl.LINEAR);
+            this._textures.set(texture, object);
+        });
+
+        for (const material of asset.materials) {
+            this._materials.set(material, new GLTFMaterial(this._context, material, this._textures));
+        }
+
+        asset.meshes.forEach((mesh, meshIndex) => {
+            const geometries = mesh.primitives.map((primitive, index) => {
+                const geometry = new GLTFPrimitiveGeometry(this._context, primitive,
+                    `${this._identifier}Mesh${meshIndex}Primitive${index}`);
+                valid = geometry.initialize(bindings) && valid;
+                return geometry;
+            });
+            this._geometries.set(mesh, geometries);
+        });
+
+        asset.traverse((node) => {
+            if (node.mesh === undefined) {
+                return;
+            }
+            for (const geometry of this._geometries.get(node.mesh) as Array<GLTFPrimitiveGeometry>) {
+                this._drawables.push({
+                    geometry,
+                    material: geometry.material !== undefined ? this._materials.get(geometry.material) : undefined,
+                    transform: node.world,
+                });
+            }
+        });
+        return valid;
+    }
+
+    /**
+     * Uninitializes all geometries and textures.
+     */
+    @Initializable.uninitialize()
+    uninitialize(): void {
+        this._geometries.forEach((geometries) => geometries.forEach((geometry) => geometry.uninitialize()));
+        this._textures.forEach((texture) => texture.uninitialize());
+
+        this._geometries.clear();
+        this._textures.clear();
+        this._materials.clear();
+        this._drawables.length = 0;
+    }
+
+    /**
+     * Asynchronously loads all images into their textures. Images embedded in buffer views are loaded via object URLs,
+     * which are revoked once loading succeeded or failed. Textures with mipmap minification filters get their mipmaps
+     * generated after loading (with non-power-of-two images resized in WebGL1, @see {@link Texture2D.load}).
+     * @param crossOrigin - Enable cross origin data loading.
+     * @returns - Promise resolved when all images are loaded (failing images are logged and skipped).
+     */
+    @Initializable.assert_initialized()
+    load(crossOrigin: boolean = false): Promise<void> {
+        const gl = this._context.gl;
+        const promises = new Array<Promise<void>>();
+
+        this._textures.forEach((object, texture) => {
+            const image = texture.image;
+            if (image === undefined) {
+                return;
+            }
+
+            let url = image.uri;
+            if (image.data !== undefined) {
+                url = URL.createObjectURL(new Blob([image.data], { type: image.mimeType }));
+            }
+            assert(url !== undefined, `expected image to be referenced by URI or buffer view`);
+
+            const mipmap = texture.minFilter !== undefined && texture.minFilter !== gl.NEAREST &&
+                texture.minFilter !== gl.LINEAR;
+            promises.push(object.load(url as string, crossOrigin, mipmap)
+                .catch(() => log(LogLevel.Warning, `loading image '${image.name || url}' of glTF failed`))
+                .then(() => {
+                    if (image.data !== undefined) {
+                        URL.revokeObjectURL(url as string);
+                    }
+                }));
+        });
+        return Promise.all(promises).then(() => undefined);
+    }
+
+    /**
+     * Creates a scene graph for the asset's default scene. A node is created per glTF node (with the same local
+     * transform) and a geometry component with its material is attached per primitive of the node's mesh.
+     * @param name - Name of the root node that all glTF root nodes are added to.
+     * @returns - Root node of the created scene graph.
+     */
+    @Initializable.assert_initialized()
+    createSceneGraph(name: string = this._identifier): SceneNode {
+        const root = new SceneNode(name);
+        const nodes = new Map<number, SceneNode>();
+
+        this._asset.traverse((node, index) => {
+            const sceneNode = new SceneNode(node.name);
+            sceneNode.transform = node.local;
+
+            const parent = node.parent !== undefined ? nodes.get(node.parent) : undefined;
+            (parent !== undefined ? parent : root).addChild(sceneNode);
+            nodes.set(index, sceneNode);
+
+            if (node.mesh === undefined) {
+                return;
+            }
+            for (const geometry of this._geometries.get(node.mesh) as Array<GLTFPrimitiveGeometry>) {
+                sceneNode.addComponent(new GeometryComponent<GLTFMaterial>(geometry,
+                    geometry.material !== undefined ? this._materials.get(geometry.material) : undefined));
+            }
+        });
+        return root;
+    }
+
+
+    /**
+     * The parsed asset the scene was created from.
+     */
+    get asset(): GLTFAsset {
+        this.assertInitialized();
+        return this._asset;
+    }
+
+    /**
+     * All drawables of the asset's default scene in depth-first node order.
+     */
+    get drawables(): Array<GLTFScene.Drawable> {
+        this.assertInitialized();
+        return this._drawables;
+    }
+
+    /**
+     * Read-only access to the objects context, used to get context information and WebGL API access.
+     */
+    get context(): Context {
+        return this._context;
+    }
+
+}
+
+
+export namespace GLTFScene {
+
+    export interface Drawable {
+        geometry: GLTFPrimitiveGeometry;
+        material: GLTFMaterial | undefined;
+        /** World transform of the node instancing the geometry (shared with the asset's node). */
+        transform: mat4;
+    }
+
+}
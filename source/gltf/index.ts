@@ -0,0 +1,7 @@
+export { GLTF } from './gltf';
+export { GLTFAsset } from './gltfasset';
+export { GLTFLoader } from './gltfloader';
+export { GLTFMaterial } from './gltfmaterial';
+export { GLTFParser } from './gltfparser';
+export { GLTFPrimitiveGeometry } from './gltfprimitivegeometry';
+export { GLTFScene } from './gltfscene';
@@ -0,0 +1,283 @@
+
+import { Observable, ReplaySubject } from 'rxjs';
+
+import { assert, log, logIf, LogLevel } from './auxiliaries';
+import { GLsizei2 } from './tuples';
+
+import { Color } from './color';
+import { Context } from './context';
+import { Controller } from './controller';
+import { Renderer } from './renderer';
+import { Wizard } from './wizard';
+
+
+/**
+ * A canvas variant without DOM dependencies, backed either by an OffscreenCanvas or a context factory (e.g., providing
+ * a mock or software context). Similar to the canvas, it binds a single renderer (non owning) and sets up the
+ * communication between controller and renderer. However, there is no resize handling, no event providers are passed
+ * to the renderer, and frames are not requested via animation frames but invoked explicitly by calling `render`:
+ * ```
+ * const canvas = new HeadlessCanvas(new OffscreenCanvas(256, 256));
+ * canvas.controller.multiFrameNumber = 8;
+ * canvas.renderer = new ThumbnailRenderer();
+ * canvas.render(); // invokes update, prepare, and all eight frames and swaps synchronously
+ * ```
+ * This allows rendering in workers, e.g., for thumbnails, as well as testing the controller and renderer lifecycle in
+ * headless environments.
+ */
+export class HeadlessCanvas {
+
+    /**
+     * Default color that is used for clearing.
+     */
+    protected static readonly DEFAULT_CLEAR_COLOR: Color = new Color([0.203, 0.227, 0.250, 1.0]);
+
+
+    /** @see {@link context} */
+    protected _context: Context;
+
+    /** @see {@link controller} */
+    protected _controller: Controller;
+
+    /** @see {@link renderer} */
+    protected _renderer: Renderer | undefined;
+
+    /**
+     * Invocations requested by the controller, processed in order of request by `render`.
+     */
+    protected _requests = new Map<number, () => void>();
+
+    /**
+     * Handle of the most recent request.
+     */
+    protected _handle = 0;
+
+
+    /** @see {@link clearColor} */
+    protected _clearColor: Color = HeadlessCanvas.DEFAULT_CLEAR_COLOR;
+
+    /** @see {@link framePrecision} */
+    protected _framePrecision: Wizard.Precision = Wizard.Precision.auto;
+
+    /**
+     * @see {@link size}
+     * This property can be observed, e.g., `aCanvas.size$.subscribe()`.
+     */
+    protected _size: GLsizei2 = [1, 1];
+    protected _sizeSubject = new ReplaySubject<GLsizei2>(1);
+
+
+    /**
+     * Creates a context from the given offscreen canvas or context factory and sets up a controller whose requests
+     * are queued for explicit invocation.
+     * @param target - Offscreen canvas or factory used for context creation (@see {@link Context.requestFromFactory}).
+     * @param size - Size of the drawing buffer in pixel, defaults to the size of the context's canvas.
+     * @param backend - Requested backend, either 'auto', 'webgl', or 'webgl2'.
+     * @param attributes - Overrides the internal default attributes @see{Context.DEFAULT_ATTRIBUTES}.
+     */
+    constructor(target: Context.OffscreenCanvas | Context.Factory, size?: GLsizei2,
+        backend?: string, attributes?: WebGLContextAttributes) {
+
+        const factory: Context.Factory = typeof target === 'function' ? target :
+            (identifier: string, contextAttributes: WebGLContextAttributes) =>
+                target.getContext(identifier, contextAttributes);
+
+        /* Requesting a context asserts when no context could be created. */
+        this._context = Context.requestFromFactory(factory, backend, attributes);
+
+        this._controller = new Controller();
+        this._controller.block(); // Remain in block mode until renderer is bound and configured.
+        this._controller.scheduler = {
+            request: (callback: () => void): number => {
+                this._requests.set(++this._handle, callback);
+                return this._handle;
+            },
+            cancel: (handle: number): void => {
+                this._requests.delete(handle);
+            },
+        };
+
+        const canvas = this._context.gl.canvas;
+        this.size = size !== undefined ? size : [canvas.width, canvas.height];
+    }
+
+
+    /**
+     * Utility for communicating this._size changes to its associated subject.
+     */
+    protected sizeNext(): void {
+        this._sizeSubject.next(this._size);
+    }
+
+    /**
+     * The renderer will be initialized and connected to the controller. Requests for rendering are queued until
+     * `render` is invoked.
+     * @param renderer - Either undefined or an uninitialized renderer.
+     */
+    protected bind(renderer: Renderer | undefined): void {
+        if (this._renderer === renderer) {
+            return;
+        }
+        this.unbind(); // block controller
+        if (renderer === undefined) {
+            return;
+        }
+        assert(this._controller.blocked, `expected controller to be blocked`);
+        this._renderer = renderer;
+
+        this._renderer.initialize(this._context, (force) => this._controller.update(force), undefined, undefined);
+
+        this._renderer.frameSize = this._size;
+        this._renderer.clearColor = this._clearColor.rgba;
+        this._renderer.framePrecision = this._framePrecision;
+        this._renderer.debugTexture = -1;
+
+        this._controller.controllable = this._renderer;
+        this._controller.unblock();
+    }
+
+    /**
+     * Unbinds the current renderer from the canvas and the controller.
+     */
+    protected unbind(): void {
+        if (this._renderer === undefined) {
+            return;
+        }
+        this._controller.block();
+        this._controller.controllable = undefined;
+        this._renderer = undefined;
+    }
+
+
+    /**
+     * Processes all invocations requested by the controller (update, prepare, frames, and swaps) synchronously in
+     * order of request, including requests issued during processing, until no request is pending anymore or the
+     * limit is reached.
+     * @param limit - Maximum number of invocations to process, e.g., to bound continuously invalidating renderers.
+     * @returns - Number of invocations processed.
+     */
+    render(limit: number = Number.POSITIVE_INFINITY): number {
+        let invocations = 0;
+        while (this._requests.size > 0 && invocations < limit) {
+            const [handle, callback] = this._requests.entries().next().value;
+            this._requests.delete(handle);
+            callback();
+            ++invocations;
+        }
+        logIf(this._requests.size > 0, LogLevel.Debug, `rendering stopped with ${this._requests.size} pending request`);
+        return invocations;
+    }
+
+    /**
+     * Uninitializes the bound renderer (if any) and unbinds it.
+     */
+    dispose(): void {
+        if (this._renderer) {
+            this._renderer.uninitialize();
+            this.unbind();
+        }
+        this._requests.clear();
+    }
+
+
+    /**
+     * Whether or not invocations requested by the controller are pending.
+     */
+    get pending(): boolean {
+        return this._requests.size > 0;
+    }
+
+    /**
+     * Single controller that is managing the rendering control flow of a bound renderer.
+     */
+    get controller(): Controller {
+        return this._controller;
+    }
+
+    /**
+     * The currently bound renderer, undefined if none is bound.
+     */
+    get renderer(): Renderer | undefined {
+        return this._renderer;
+    }
+
+    /**
+     * Binds a renderer to the canvas. A previously bound renderer will be unbound (see bind and unbind).
+     * @param renderer - A renderer object or undefined.
+     */
+    set renderer(renderer: Renderer | undefined) {
+        this.bind(renderer);
+    }
+
+    /**
+     * Provides access to the WebGL context (leaky abstraction).
+     */
+    get context(): Context {
+        return this._context;
+    }
+
+    /**
+     * Size of the drawing buffer in pixel, which also is the frame size of the bound renderer.
+     */
+    get size(): GLsizei2 {
+        return this._size;
+    }
+
+    /**
+     * Resizes the context's canvas and, thus, the drawing buffer as well as the bound renderer's frame size.
+     * @param size - Width and height in pixel, each at least 1.
+     */
+    set size(size: GLsizei2) {
+        if (!(size[0] >= 1 && size[1] >= 1)) {
+            log(LogLevel.Warning, `expected size of at least [1, 1], resize ignored, given [${size}]`);
+            return;
+        }
+        this._size = [Math.round(size[0]), Math.round(size[1])];
+
+        const canvas = this._context.gl.canvas;
+        canvas.width = this._size[0];
+        canvas.height = this._size[1];
+        this.sizeNext();
+
+        if (this._renderer) {
+            this._renderer.frameSize = this._size;
+        }
+    }
+
+    /**
+     * Observable that can be used to subscribe to size changes.
+     */
+    get size$(): Observable<GLsizei2> {
+        return this._sizeSubject.asObservable();
+    }
+
+    /**
+     * Color passed to any renderer bound to this canvas.
+     */
+    get clearColor(): Color {
+        return this._clearColor;
+    }
+
+    set clearColor(clearColor: Color) {
+        this._clearColor = clearColor;
+        if (this._renderer) {
+            this._renderer.clearColor = this._clearColor.rgba;
+        }
+    }
+
+    /**
+     * Targeted frame precision passed to any renderer bound to this canvas, e.g., for frame accumulation.
+     */
+    get framePrecision(): Wizard.Precision {
+        return this._framePrecision;
+    }
+
+    set framePrecision(precision: Wizard.Precision) {
+        this._framePrecision = precision;
+        if (this._renderer) {
+            this._renderer.framePrecision = this._framePrecision;
+            this._framePrecision = this._renderer.framePrecision; // might change due to missing support
+        }
+    }
+
+}
@@ -0,0 +1,364 @@
+
+import { assert } from './auxiliaries';
+
+
+namespace mesh_generators {
+
+    /**
+     * Indexed triangle mesh with per-vertex positions, normals, and texture coordinates. All triangles are wound
+     * counter-clockwise when seen from the side the normals point to.
+     */
+    export interface Mesh {
+        /** Three components per vertex. */
+        positions: Float32Array;
+        /** Three components per vertex, normalized. */
+        normals: Float32Array;
+        /** Two components per vertex, within [0.0, 1.0]. */
+        uvs: Float32Array;
+        /** Three indices per triangle. */
+        indices: Uint32Array;
+    }
+
+
+    /**
+     * Accumulates vertices and triangles and creates a mesh with typed arrays.
+     */
+    class MeshBuilder {
+
+        positions = new Array<number>();
+        normals = new Array<number>();
+        uvs = new Array<number>();
+        indices = new Array<number>();
+
+        /**
+         * Adds a vertex (normalizing the given normal) and returns its index.
+         */
+        vertex(x: number, y: number, z: number, nx: number, ny: number, nz: number, u: number, v: number): number {
+            const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+            const scale = length > 0.0 ? 1.0 / length : 0.0;
+
+            this.positions.push(x, y, z);
+            this.normals.push(nx * scale, ny * scale, nz * scale);
+            this.uvs.push(u, v);
+            return this.positions.length / 3 - 1;
+        }
+
+        triangle(a: number, b: number, c: number): void {
+            this.indices.push(a, b, c);
+        }
+
+        mesh(): Mesh {
+            return {
+                positions: new Float32Array(this.positions),
+                normals: new Float32Array(this.normals),
+                uvs: new Float32Array(this.uvs),
+                indices: new Uint32Array(this.indices),
+            };
+        }
+    }
+
+    /**
+     * Creates the side and (optional) caps of a frustum of a cone around the y-axis, centered at the origin. Triangles
+     * degenerated by a zero radius are omitted.
+     */
+    function frustum(radiusTop: number, radiusBottom: number, height: number,
+        radialSegments: number, heightSegments: number, capped: boolean): Mesh {
+
+        assert(radialSegments >= 3 && heightSegments >= 1, `expected at least 3 radial and 1 height segment`);
+        const builder = new MeshBuilder();
+
+        /* The normal's y-component accounts for the slope of the side. */
+        const slope = (radiusBottom - radiusTop) / height;
+
+        for (let iy = 0; iy <= heightSegments; ++iy) {
+            const v = iy / heightSegments;
+            const radius = radiusBottom + (radiusTop - radiusBottom) * v;
+            const y = (v - 0.5) * height;
+
+            for (let ix = 0; ix <= radialSegments; ++ix) {
+                const u = ix / radialSegments;
+                const sin = Math.sin(u * 2.0 * Math.PI);
+                const cos = Math.cos(u * 2.0 * Math.PI);
+                builder.vertex(radius * sin, y, radius * cos, sin, slope, cos, u, v);
+            }
+        }
+        for (let iy = 0; iy < heightSegments; ++iy) {
+            for (let ix = 0; ix < radialSegments; ++ix) {
+                const a = iy * (radialSegments + 1) + ix;
+                const b = a + 1;
+                const c = b + radialSegments + 1;
+                const d = a + radialSegments + 1;
+
+                if (iy > 0 || radiusBottom > 0.0) {
+                    builder.triangle(a, b, c);
+                }
+                if (iy < heightSegments - 1 || radiusTop > 0.0) {
+                    builder.triangle(a, c, d);
+                }
+            }
+        }
+
+        if (!capped) {
+            return builder.mesh();
+        }
+        for (const top of [true, false]) {
+            const radius = top ? radiusTop : radiusBottom;
+            if (radius <= 0.0) {
+                continue;
+            }
+            const y = (top ? 0.5 : -0.5) * height;
+            const ny = top ? 1.0 : -1.0;
+
+            const center = builder.vertex(0.0, y, 0.0, 0.0, ny, 0.0, 0.5, 0.5);
+            for (let ix = 0; ix <= radialSegments; ++ix) {
+                const sin = Math.sin(ix / radialSegments * 2.0 * Math.PI);
+                const cos = Math.cos(ix / radialSegments * 2.0 * Math.PI);
+                const index = builder.vertex(radius * sin, y, radius * cos, 0.0, ny, 0.0,
+                    sin * 0.5 + 0.5, cos * ny * 0.5 + 0.5);
+                if (ix === 0) {
+                    continue;
+                }
+                if (top) {
+                    builder.triangle(center, index - 1, index);
+                } else {
+                    builder.triangle(center, index, index - 1);
+                }
+            }
+        }
+        return builder.mesh();
+    }
+
+
+    /**
+     * Creates an axis-aligned box centered at the origin with four distinct vertices per face (flat normals) and
+     * texture coordinates spanning each face.
+     * @param width - Extent along the x-axis.
+     * @param height - Extent along the y-axis.
+     * @param depth - Extent along the z-axis.
+     */
+    export function box(width: number = 1.0, height: number = 1.0, depth: number = 1.0): Mesh {
+        const builder = new MeshBuilder();
+        const extents = [width * 0.5, height * 0.5, depth * 0.5];
+
+        /* Normal, u-axis, and v-axis per face, with u cross v equal to the normal (counter-clockwise winding). */
+        const faces = [
+            [[+1, 0, 0], [0, 0, -1], [0, 1, 0]], [[-1, 0, 0], [0, 0, +1], [0, 1, 0]],
+            [[0, +1, 0], [1, 0, 0], [0, 0, -1]], [[0, -1, 0], [1, 0, 0], [0, 0, +1]],
+            [[0, 0, +1], [+1, 0, 0], [0, 1, 0]], [[0, 0, -1], [-1, 0, 0], [0, 1, 0]]];
+        const corners = [[0, 0], [1, 0], [1, 1], [0, 1]];
+
+        for (const [n, u, v] of faces) {
+            const first = builder.positions.length / 3;
+            for (const [cu, cv] of corners) {
+                const p = [0, 1, 2].map((i) => (n[i] + (cu * 2 - 1) * u[i] + (cv * 2 - 1) * v[i]) * extents[i]);
+                builder.vertex(p[0], p[1], p[2], n[0], n[1], n[2], cu, cv);
+            }
+            builder.triangle(first, first + 1, first + 2);
+            builder.triangle(first, first + 2, first + 3);
+        }
+        return builder.mesh();
+    }
+
+    /**
+     * Creates a sphere centered at the origin by a grid of longitudes and latitudes. The texture coordinates map
+     * equirectangularly, with u around the y-axis and v from the south (v = 0) to the north pole (v = 1).
+     * @param radius - Radius of the sphere.
+     * @param widthSegments - Number of longitudinal segments, at least 3.
+     * @param heightSegments - Number of latitudinal segments, at least 2.
+     */
+    export function uvSphere(radius: number = 0.5, widthSegments: number = 32, heightSegments: number = 16): Mesh {
+        assert(widthSegments >= 3 && heightSegments >= 2, `expected at least 3 width and 2 height segments`);
+        const builder = new MeshBuilder();
+
+        for (let iy = 0; iy <= heightSegments; ++iy) {
+            const v = iy / heightSegments;
+            const theta = v * Math.PI;
+
+            for (let ix = 0; ix <= widthSegments; ++ix) {
+                const u = ix / widthSegments;
+                const phi = u * 2.0 * Math.PI;
+
+                const x = -Math.cos(phi) * Math.sin(theta);
+                const y = Math.cos(theta);
+                const z = Math.sin(phi) * Math.sin(theta);
+                builder.vertex(x * radius, y * radius, z * radius, x, y, z, u, 1.0 - v);
+            }
+        }
+        /* Triangles at the poles would be degenerated and are omitted. */
+        for (let iy = 0; iy < heightSegments; ++iy) {
+            for (let ix = 0; ix < widthSegments; ++ix) {
+                const a = iy * (widthSegments + 1) + ix + 1;
+                const b = iy * (widthSegments + 1) + ix;
+                const c = (iy + 1) * (widthSegments + 1) + ix;
+                const d = (iy + 1) * (widthSegments + 1) + ix + 1;
+
+                if (iy > 0) {
+                    builder.triangle(a, b, d);
+                }
+                if (iy < heightSegments - 1) {
+                    builder.triangle(b, c, d);
+                }
+            }
+        }
+        return builder.mesh();
+    }
+
+    /**
+     * Creates a sphere centered at the origin by recursive subdivision of an icosahedron, resulting in evenly
+     * distributed vertices (10 * 4^subdivisions + 2 vertices). Texture coordinates are mapped equirectangularly, but
+     * are not duplicated at the seam, i.e., triangles crossing the seam interpolate across the whole texture.
+     * @param radius - Radius of the sphere.
+     * @param subdivisions - Number of recursive subdivisions, 0 results in an icosahedron.
+     */
+    export function icosphere(radius: number = 0.5, subdivisions: number = 2): Mesh {
+        assert(subdivisions >= 0 && subdivisions % 1 === 0, `expected non-negative integer subdivisions`);
+
+        const t = (1.0 + Math.sqrt(5.0)) * 0.5;
+        const vertices: Array<[number, number, number]> = [
+            [-1, t, 0], [1, t, 0], [-1, -t, 0], [1, -t, 0], [0, -1, t], [0, 1, t],
+            [0, -1, -t], [0, 1, -t], [t, 0, -1], [t, 0, 1], [-t, 0, -1], [-t, 0, 1]];
+        let faces: Array<[number, number, number]> = [
+            [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11], [1, 5, 9], [5, 11, 4], [11, 10, 2],
+            [10, 7, 6], [7, 1, 8], [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9], [4, 9, 5],
+            [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1]];
+
+        for (let s = 0; s < subdivisions; ++s) {
+            /* Midpoints are shared by adjacent faces, thus, cached by edge. */
+            const midpoints = new Map<string, number>();
+            const midpoint = (a: number, b: number): number => {
+                const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+                let index = midpoints.get(key);
+                if (index === undefined) {
+                    const [ax, ay, az] = vertices[a];
+                    const [bx, by, bz] = vertices[b];
+                    index = vertices.push([(ax + bx) * 0.5, (ay + by) * 0.5, (az + bz) * 0.5]) - 1;
+                    midpoints.set(key, index);
+                }
+                return index;
+            };
+
+            const subdivided = new Array<[number, number, number]>();
+            for (const [a, b, c] of faces) {
+                const ab = midpoint(a, b);
+                const bc = midpoint(b, c);
+                const ca = midpoint(c, a);
+                subdivided.push([a, ab, ca], [b, bc, ab], [c, ca, bc], [ab, bc, ca]);
+            }
+            faces = subdivided;
+        }
+
+        const builder = new MeshBuilder();
+        for (const [x, y, z] of vertices) {
+            const length = Math.sqrt(x * x + y * y + z * z);
+            const [nx, ny, nz] = [x / length, y / length, z / length];
+            /* Inverse of the uv-sphere's parametrization. */
+            const u = Math.atan2(nz, -nx) / (2.0 * Math.PI);
+            const v = 0.5 + Math.asin(ny) / Math.PI;
+            builder.vertex(nx * radius, ny * radius, nz * radius, nx, ny, nz, u < 0.0 ? u + 1.0 : u, v);
+        }
+        for (const [a, b, c] of faces) {
+            builder.triangle(a, b, c);
+        }
+        return builder.mesh();
+    }
+
+    /**
+     * Creates a subdivided plane within the xz-plane centered at the origin, facing the positive y-axis.
+     * @param width - Extent along the x-axis.
+     * @param depth - Extent along the z-axis.
+     * @param widthSegments - Number of segments along the x-axis.
+     * @param depthSegments - Number of segments along the z-axis.
+     */
+    export function plane(width: number = 1.0, depth: number = 1.0,
+        widthSegments: number = 1, depthSegments: number = 1): Mesh {
+
+        assert(widthSegments >= 1 && depthSegments >= 1, `expected at least 1 segment per axis`);
+        const builder = new MeshBuilder();
+
+        for (let iz = 0; iz <= depthSegments; ++iz) {
+            for (let ix = 0; ix <= widthSegments; ++ix) {
+                const u = ix / widthSegments;
+                const v = iz / depthSegments;
+                builder.vertex((u - 0.5) * width, 0.0, (v - 0.5) * depth, 0.0, 1.0, 0.0, u, 1.0 - v);
+            }
+        }
+        for (let iz = 0; iz < depthSegments; ++iz) {
+            for (let ix = 0; ix < widthSegments; ++ix) {
+                const a = iz * (widthSegments + 1) + ix;
+                const b = a + widthSegments + 1;
+                builder.triangle(a, b, b + 1);
+                builder.triangle(a, b + 1, a + 1);
+            }
+        }
+        return builder.mesh();
+    }
+
+    /**
+     * Creates a cylinder around the y-axis centered at the origin. Caps have distinct vertices (flat normals).
+     * @param radius - Radius of the cylinder.
+     * @param height - Extent along the y-axis.
+     * @param radialSegments - Number of segments around the y-axis, at least 3.
+     * @param heightSegments - Number of segments along the y-axis.
+     * @param capped - Whether or not to create top and bottom caps.
+     */
+    export function cylinder(radius: number = 0.5, height: number = 1.0,
+        radialSegments: number = 32, heightSegments: number = 1, capped: boolean = true): Mesh {
+        return frustum(radius, radius, height, radialSegments, heightSegments, capped);
+    }
+
+    /**
+     * Creates a cone around the y-axis centered at the origin, with its apex pointing towards the positive y-axis.
+     * @param radius - Radius of the cone's base.
+     * @param height - Extent along the y-axis.
+     * @param radialSegments - Number of segments around the y-axis, at least 3.
+     * @param heightSegments - Number of segments along the y-axis.
+     * @param capped - Whether or not to create the base cap.
+     */
+    export function cone(radius: number = 0.5, height: number = 1.0,
+        radialSegments: number = 32, heightSegments: number = 1, capped: boolean = true): Mesh {
+        return frustum(0.0, radius, height, radialSegments, heightSegments, capped);
+    }
+
+    /**
+     * Creates a torus around the y-axis centered at the origin.
+     * @param radius - Distance from the center of the torus to the center of the tube.
+     * @param tube - Radius of the tube.
+     * @param radialSegments - Number of segments around the tube, at least 3.
+     * @param tubularSegments - Number of segments around the y-axis, at least 3.
+     */
+    export function torus(radius: number = 0.4, tube: number = 0.1,
+        radialSegments: number = 16, tubularSegments: number = 32): Mesh {
+
+        assert(radialSegments >= 3 && tubularSegments >= 3, `expected at least 3 radial and tubular segments`);
+        const builder = new MeshBuilder();
+
+        for (let j = 0; j <= radialSegments; ++j) {
+            const v = j / radialSegments;
+            const sinV = Math.sin(v * 2.0 * Math.PI);
+            const cosV = Math.cos(v * 2.0 * Math.PI);
+
+            for (let i = 0; i <= tubularSegments; ++i) {
+                const u = i / tubularSegments;
+                const sinU = Math.sin(u * 2.0 * Math.PI);
+                const cosU = Math.cos(u * 2.0 * Math.PI);
+
+                const distance = radius + tube * cosV;
+                builder.vertex(distance * cosU, tube * sinV, distance * sinU, cosV * cosU, sinV, cosV * sinU, u, v);
+            }
+        }
+        for (let j = 0; j < radialSegments; ++j) {
+            for (let i = 0; i < tubularSegments; ++i) {
+                const a = j * (tubularSegments + 1) + i;
+                const b = a + 1;
+                const c = b + tubularSegments + 1;
+                const d = a + tubularSegments + 1;
+                builder.triangle(a, d, c);
+                builder.triangle(a, c, b);
+            }
+        }
+        return builder.mesh();
+    }
+
+}
+
+export = mesh_generators;
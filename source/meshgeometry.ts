@@ -0,0 +1,192 @@
+
+import { assert, log, LogLevel } from './auxiliaries';
+
+import { Buffer } from './buffer';
+import { Context } from './context';
+import { Geometry } from './geometry';
+import { Initializable } from './initializable';
+import { VertexLayout } from './vertexlayout';
+
+import * as mesh_generators from './meshgenerators';
+
+
+/**
+ * Geometry of an indexed triangle mesh with a vertex buffer for positions, normals, and texture coordinates each, as
+ * well as an index buffer. Meshes can be created using the generators (box, sphere, plane, ...) or specified
+ * directly. Indices are uploaded as unsigned shorts if possible and as unsigned ints otherwise (if supported):
+ * ```
+ * this._sphere = new MeshGeometry(this._context, 'Sphere');
+ * this._sphere.initialize(mesh_generators.icosphere(1.0, 3), new Map([['a_vertex', 0], ['a_normal', 1]]));
+ * ...
+ * this._sphere.bind();
+ * this._sphere.draw();
+ * ```
+ */
+export class MeshGeometry extends Geometry {
+
+    /**
+     * Attribute binding points used for initialization if none are specified.
+     */
+    static readonly DEFAULT_BINDINGS = new Map<string, GLuint>([['a_vertex', 0], ['a_normal', 1], ['a_uv', 2]]);
+
+
+    /** @see {@link bindings} */
+    protected _bindings: Map<string, GLuint>;
+
+    /**
+     * Number of indices that are drawn.
+     */
+    protected _count: GLsizei = 0;
+
+    /** @see {@link indexType} */
+    protected _indexType: GLenum;
+
+
+    /**
+     * Selects the index type for the given number of vertices: unsigned shorts are used for up to 65535 vertices,
+     * unsigned ints otherwise (requires OES_element_index_uint or a WebGL2 context). The index 65535 is avoided for
+     * unsigned shorts, since it is the fixed primitive restart index in WebGL2.
+     * @param context - Context the indices are to be drawn in.
+     * @param vertices - Number of vertices referenced by the indices.
+     * @returns - Either gl.UNSIGNED_SHORT or gl.UNSIGNED_INT, undefined if unsigned ints are not supported.
+     */
+    static indexType(context: Context, vertices: number): GLenum | undefined {
+        const gl = context.gl;
+        if (vertices <= 65535) {
+            return gl.UNSIGNED_SHORT;
+        }
+        return context.isWebGL2 || context.supportsElementIndexUint ? gl.UNSIGNED_INT : undefined;
+    }
+
+
+    /**
+     * Object constructor, requires a context and an optional identifier.
+     * @param context - Valid context to create the object for.
+     * @param identifier - Meaningful name for identification of this instance.
+     */
+    constructor(context: Context, identifier?: string) {
+        super(context, identifier);
+
+        /* Generate identifier from constructor name if none given. */
+        identifier = identifier !== undefined && identifier !== `` ? identifier : this.constructor.name;
+
+        const gl = context.gl;
+        const names = ['a_vertex', 'a_normal', 'a_uv'];
+        ['Vertex', 'Normal', 'UV'].forEach((suffix, index) => {
+            const buffer = new Buffer(context, `${identifier}${suffix}VBO`);
+            buffer.layout = new VertexLayout([{ name: names[index], size: index < 2 ? 3 : 2, type: gl.FLOAT }]);
+            this._buffers.push(buffer);
+        });
+        this._buffers.push(new Buffer(context, `${identifier}IBO`));
+    }
+
+
+    /**
+     * Binds all vertex buffer objects to their binding points as well as the index buffer object.
+     */
+    protected bindBuffers(indices: Array<GLuint>): void {
+        /* Please note the implicit bind in enableLayout */
+        for (let i = 0; i < 3; ++i) {
+            this._buffers[i].enableLayout(this._bindings, true, false);
+        }
+        this._buffers[3].bind();
+    }
+
+    /**
+     * Unbinds all buffer objects and disables the binding points.
+     */
+    protected unbindBuffers(indices: Array<GLuint>): void {
+        for (let i = 0; i < 3; ++i) {
+            this._buffers[i].disableLayout(this._bindings, true, true);
+        }
+        this._buffers[3].unbind();
+    }
+
+
+    /**
+     * Creates all buffer objects and uploads the mesh's vertex and index data.
+     * @param mesh - Mesh providing positions, normals, texture coordinates, and indices.
+     * @param bindings - Attribute binding points per attribute ('a_vertex', 'a_normal', and 'a_uv'). Attributes
+     * without binding point are uploaded but not enabled.
+     * @returns - False if the mesh's indices cannot be drawn in this context or buffer initialization failed.
+     */
+    initialize(mesh: mesh_generators.Mesh,
+        bindings: Map<string, GLuint> = MeshGeometry.DEFAULT_BINDINGS): boolean {
+
+        const gl = this.context.gl;
+        this._bindings = bindings;
+
+        const targets = [gl.ARRAY_BUFFER, gl.ARRAY_BUFFER, gl.ARRAY_BUFFER, gl.ELEMENT_ARRAY_BUFFER];
+        const valid = super.initialize(targets, [0, 1, 2]);
+
+        this.data(mesh);
+        return valid && this._count > 0;
+    }
+
+    /**
+     * Replaces the vertex and index data with the given mesh. The index type is chosen by the number of vertices
+     * (@see {@link MeshGeometry.indexType}).
+     * @param mesh - Mesh providing positions, normals, texture coordinates, and indices.
+     * @param usage - Usage pattern of the data stores.
+     */
+    @Initializable.assert_initialized()
+    data(mesh: mesh_generators.Mesh, usage?: GLenum): void {
+        const gl = this.context.gl;
+
+        const vertices = mesh.positions.length / 3;
+        assert(mesh.normals.length === vertices * 3 && mesh.uvs.length === vertices * 2,
+            `expected normals and uvs for all ${vertices} vertices`);
+
+        const indexType = MeshGeometry.indexType(this.context, vertices);
+        if (indexType === undefined) {
+            log(LogLevel.Error, `unsigned int indices required for ${vertices} vertices, ` +
+                `but not supported by context (${this.constructor.name})`);
+            this._count = 0;
+            return;
+        }
+        this._indexType = indexType;
+        const indices = indexType === gl.UNSIGNED_SHORT ? new Uint16Array(mesh.indices) : mesh.indices;
+        this._count = indices.length;
+
+        const pattern = usage !== undefined ? usage : gl.STATIC_DRAW;
+        this._buffers[0].data(mesh.positions, pattern);
+        this._buffers[1].data(mesh.normals, pattern);
+        this._buffers[2].data(mesh.uvs, pattern);
+        this._buffers[3].data(indices, pattern);
+    }
+
+    /**
+     * Draws all triangles of the mesh using an indexed draw call.
+     */
+    @Initializable.assert_initialized()
+    draw(): void {
+        const gl = this.context.gl;
+        gl.drawElements(gl.TRIANGLES, this._count, this._indexType, 0);
+    }
+
+
+    /**
+     * Attribute binding points per attribute as used for initialization.
+     */
+    get bindings(): Map<string, GLuint> {
+        this.assertInitialized();
+        return this._bindings;
+    }
+
+    /**
+     * GL type of the indices, either gl.UNSIGNED_SHORT or gl.UNSIGNED_INT.
+     */
+    get indexType(): GLenum {
+        this.assertInitialized();
+        return this._indexType;
+    }
+
+    /**
+     * Number of indices drawn, i.e., three times the number of triangles.
+     */
+    get count(): GLsizei {
+        this.assertInitialized();
+        return this._count;
+    }
+
+}
@@ -0,0 +1,150 @@
+
+import { assert, log, LogLevel } from './auxiliaries';
+
+import { Context } from './context';
+
+
+/** Namespace that comprises mipmap and texture filtering utils shared by all texture objects. */
+namespace mipmapping {
+
+    /**
+     * Checks whether or not a size is a power of two, which is required for mipmapping in WebGL1.
+     * @param size - Size in px.
+     */
+    export function isPowerOfTwo(size: GLsizei): boolean {
+        return size > 0 && (size & (size - 1)) === 0;
+    }
+
+    /**
+     * Computes the smallest power of two that is greater than or equal to the given size.
+     * @param size - Size in px.
+     */
+    export function upperPowerOfTwo(size: GLsizei): GLsizei {
+        return size <= 1 ? 1 : Math.pow(2, Math.ceil(Math.log2(size)));
+    }
+
+    /**
+     * Computes the number of levels of a complete mip chain, i.e., including the base level and the 1x1 level.
+     * @param width - Width of the base level in px.
+     * @param height - Height of the base level in px.
+     * @param depth - Depth of the base level in px (for 3D textures).
+     */
+    export function levelCount(width: GLsizei, height: GLsizei, depth: GLsizei = 1): GLsizei {
+        return Math.floor(Math.log2(Math.max(width, height, depth, 1))) + 1;
+    }
+
+    /**
+     * Computes the size of a mipmap level along one dimension.
+     * @param size - Size of the base level in px.
+     * @param level - Mipmap level, 0 being the base level.
+     */
+    export function levelSize(size: GLsizei, level: GLint): GLsizei {
+        return Math.max(size >> level, 1);
+    }
+
+    /**
+     * Computes the number of texels of the given number of levels, starting with the base level. The result is used
+     * for tracking GPU storage of mip chains, which is about a third (2D) or a seventh (3D) more than the base level.
+     * @param width - Width of the base level in px.
+     * @param height - Height of the base level in px.
+     * @param depth - Depth of the base level in px (for 3D textures).
+     * @param levels - Number of levels to account for.
+     */
+    export function texels(width: GLsizei, height: GLsizei, depth: GLsizei, levels: GLsizei): number {
+        let texels = 0;
+        for (let level = 0; level < levels; ++level) {
+            texels += levelSize(width, level) * levelSize(height, level) * levelSize(depth, level);
+        }
+        return texels;
+    }
+
+    /**
+     * Checks whether or not mipmaps can be generated for a texture of the given size, i.e., always in WebGL2 and only
+     * for power-of-two sizes in WebGL1.
+     * @param context - Context to check the WebGL version of.
+     * @param width - Width of the base level in px.
+     * @param height - Height of the base level in px.
+     */
+    export function mipmappable(context: Context, width: GLsizei, height: GLsizei): boolean {
+        return context.isWebGL2 || (isPowerOfTwo(width) && isPowerOfTwo(height));
+    }
+
+    /**
+     * Draws an image into a canvas of the next larger power-of-two size, e.g., for mipmap generation in WebGL1.
+     * Power-of-two images are returned as is.
+     * @param image - Image to resize.
+     * @returns - The image if power-of-two sized, a canvas of power-of-two size comprising the stretched image
+     * otherwise.
+     */
+    export function resizeToPowerOfTwo(image: HTMLImageElement | HTMLCanvasElement | ImageBitmap):
+        HTMLImageElement | HTMLCanvasElement | ImageBitmap {
+
+        if (isPowerOfTwo(image.width) && isPowerOfTwo(image.height)) {
+            return image;
+        }
+        const canvas = document.createElement('canvas');
+        canvas.width = upperPowerOfTwo(image.width);
+        canvas.height = upperPowerOfTwo(image.height);
+
+        const context2D = canvas.getContext('2d');
+        assert(context2D !== null, `expected 2D context for resizing image to power-of-two`);
+        context2D!.drawImage(image, 0, 0, canvas.width, canvas.height);
+        return canvas;
+    }
+
+    /**
+     * Queries the maximum degree of anisotropy supported by the hardware.
+     * @param context - Context to query the maximum of.
+     * @returns - Maximum degree of anisotropy, 1 if anisotropic filtering is not supported.
+     */
+    export function maxAnisotropy(context: Context): GLfloat {
+        if (!context.supportsTextureFilterAnisotropic) {
+            return 1.0;
+        }
+        const extension = context.textureFilterAnisotropic;
+        return context.gl.getParameter(extension.MAX_TEXTURE_MAX_ANISOTROPY_EXT);
+    }
+
+    /**
+     * Sets the degree of anisotropic filtering of the texture bound to the given target, clamped to the hardware
+     * maximum. Anisotropic filtering is most effective in combination with mipmapping.
+     * @param context - Context to set the texture parameter with.
+     * @param target - Texture target, e.g., TEXTURE_2D.
+     * @param anisotropy - Requested degree of anisotropy, 1 disables anisotropic filtering.
+     * @returns - The degree of anisotropy set, 1 if anisotropic filtering is not supported.
+     */
+    export function anisotropy(context: Context, target: GLenum, anisotropy: GLfloat): GLfloat {
+        if (!context.supportsTextureFilterAnisotropic) {
+            log(LogLevel.Warning, `anisotropic filtering not supported, given ${anisotropy}`);
+            return 1.0;
+        }
+        const value = Math.min(Math.max(anisotropy, 1.0), maxAnisotropy(context));
+        context.gl.texParameterf(target, context.textureFilterAnisotropic.TEXTURE_MAX_ANISOTROPY_EXT, value);
+        return value;
+    }
+
+    /**
+     * Restricts level of detail and accessible mipmap levels of the texture bound to the given target (WebGL2 only).
+     * @param context - Context to set the texture parameters with.
+     * @param target - Texture target, e.g., TEXTURE_2D.
+     * @param min - Value for the TEXTURE_MIN_LOD parameter.
+     * @param max - Value for the TEXTURE_MAX_LOD parameter.
+     * @param baseLevel - Value for the TEXTURE_BASE_LEVEL parameter.
+     * @param maxLevel - Value for the TEXTURE_MAX_LEVEL parameter.
+     */
+    export function lod(context: Context, target: GLenum, min: GLfloat, max: GLfloat,
+        baseLevel: GLint, maxLevel: GLint): void {
+        assert(context.isWebGL2, `expected WebGL2 for clamping level of detail`);
+        assert(min <= max && baseLevel <= maxLevel, `expected min to be less or equal max, given lod ` +
+            `[${min}, ${max}] and levels [${baseLevel}, ${maxLevel}]`);
+
+        const gl = context.gl;
+        gl.texParameterf(target, gl.TEXTURE_MIN_LOD, min);
+        gl.texParameterf(target, gl.TEXTURE_MAX_LOD, max);
+        gl.texParameteri(target, gl.TEXTURE_BASE_LEVEL, baseLevel);
+        gl.texParameteri(target, gl.TEXTURE_MAX_LEVEL, maxLevel);
+    }
+
+}
+
+export = mipmapping;
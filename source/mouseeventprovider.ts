@@ -38,6 +38,9 @@ export class MouseEventProvider {
     protected _wheelListener: { (event: WheelEvent): void };
     protected _wheelSubject: ReplaySubject<WheelEvent>;
 
+    protected _contextMenuListener: { (event: MouseEvent): void };
+    protected _contextMenuSubject: ReplaySubject<MouseEvent>;
+
     /** @see {@link pointerLock} */
     protected _pointerLockRequestPending = false;
 
@@ -120,6 +123,8 @@ export class MouseEventProvider {
                 return this.move$;
             case MouseEventProvider.Type.Wheel:
                 return this.wheel$;
+            case MouseEventProvider.Type.ContextMenu:
+                return this.contextMenu$;
             default:
                 return undefined;
         }
@@ -224,6 +229,18 @@ export class MouseEventProvider {
         return this._wheelSubject.asObservable();
     }
 
+    get contextMenu$(): Observable<MouseEvent> {
+        if (this._contextMenuSubject === undefined) {
+            this._contextMenuSubject = new ReplaySubject<MouseEvent>(undefined, this._timeframe);
+            this._contextMenuListener = (event: MouseEvent) => {
+                this.preventDefaultOnEvent(MouseEventProvider.Type.ContextMenu, event);
+                this._contextMenuSubject.next(event);
+            };
+            this._element.addEventListener('contextmenu', this._contextMenuListener);
+        }
+        return this._contextMenuSubject.asObservable();
+    }
+
 }
 
 
@@ -237,6 +254,7 @@ export namespace MouseEventProvider {
         Move = 1 << 4,
         Down = 1 << 5,
         Up = 1 << 6,
+        ContextMenu = 1 << 7,
     }
 
 }
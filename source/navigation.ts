@@ -1,15 +1,23 @@
 
-import { vec2 } from 'gl-matrix';
+import { mat4, vec2, vec3 } from 'gl-matrix';
+
+import { m4, v3 } from './gl-matrix-extensions';
 
 import { Camera } from './camera';
-import { EventHandler } from './eventhandler';
+import { EventHandler, MouseEventHandler, PointerEventHandler } from './eventhandler';
+import { GestureRecognizer } from './gesturerecognizer';
 import { MouseEventProvider } from './mouseeventprovider';
+import { PointerEventProvider } from './pointereventprovider';
 import { PointerLock } from './pointerlock';
 import { Invalidate } from './renderer';
+import { TouchEventProvider } from './toucheventprovider';
 
 import { FirstPersonModifier } from './firstpersonmodifier';
+import { PanModifier } from './panmodifier';
+import { ReadbackPass } from './readbackpass';
 import { TrackballModifier } from './trackballmodifier';
 import { TurntableModifier } from './turntablemodifier';
+import { ZoomModifier } from './zoommodifier';
 
 
 /**
@@ -20,6 +28,12 @@ import { TurntableModifier } from './turntablemodifier';
  */
 export class Navigation {
 
+    /**
+     * Zoom factor exponent per wheel delta in pixel, i.e., a wheel delta of 100 pixel zooms by a factor of 2^0.25.
+     */
+    protected static readonly WHEEL_SENSITIVITY = 0.0025;
+
+
     /**
      * The navigation's invalidation callback. This should usually be setup by the owning renderer and invoke the
      * same callback the renderer has been given by the canvas. This invalidation is required, when continuous
@@ -60,37 +74,129 @@ export class Navigation {
      */
     protected _turntable: TurntableModifier | undefined;
 
+    /** @see {@link zoomModifier} */
+    protected _zoom = new ZoomModifier();
+
+    /** @see {@link panModifier} */
+    protected _pan = new PanModifier();
+
+    /**
+     * Scale of the ongoing pinch gesture, used to derive the zoom factor relative to the previous change.
+     */
+    protected _pinchScale = 1.0;
+
     /**
      * Even handler used to forward/map events to specific camera modifiers.
      */
     protected _eventHandler: EventHandler;
 
+    /**
+     * Whether or not touches are handled by gesture recognition (touch event provider given).
+     */
+    protected _recognizeGestures = false;
+
+    /** @see {@link gestureRecognizer} */
+    protected _gestureRecognizer = new GestureRecognizer();
+
+    /**
+     * Handle of the timeout invalidating when a resting touch might become a long-press, 0 if none is scheduled.
+     */
+    protected _longPressTimeout = 0;
+
+    /**
+     * Touch events of all types since last update, buffered in order to be processed in order of occurrence.
+     */
+    protected _touchEvents = new Array<TouchEvent>();
+
+    /**
+     * Eye and up vector of the camera when a twist gesture began.
+     */
+    protected _twistReference: [vec3, vec3] | undefined;
+
 
-    constructor(invalidate: Invalidate, mouseEventProvider: MouseEventProvider) {
+    /**
+     * Creates a navigation listening to either mouse or pointer events. If a pointer event provider is given, down,
+     * up, and move events of the primary pointer (mouse, pen, or first touch) are used instead of mouse events, which
+     * allows consistent navigation on pen tablets and hybrid devices. The mouse event provider is still used for clicks
+     * and pointer lock requests (if given). If a touch event provider is given, touches are passed to a gesture
+     * recognizer instead (and touch pointer events are ignored): dragging a single finger rotates, pinch zooms,
+     * two-finger pan pans, twist rotates around the up axis, and double-tap zooms in by a step.
+     * @param invalidate - Invalidation callback, usually the one of the owning renderer.
+     * @param mouseEventProvider - Provider for mouse events referring to the canvas element.
+     * @param pointerEventProvider - Optional provider for pointer events referring to the canvas element.
+     * @param touchEventProvider - Optional provider for touch events used for gesture recognition.
+     */
+    constructor(invalidate: Invalidate, mouseEventProvider: MouseEventProvider | undefined,
+        pointerEventProvider?: PointerEventProvider, touchEventProvider?: TouchEventProvider) {
         this._invalidate = invalidate;
 
-        /* Create event handler that listens to mouse events. */
-        this._eventHandler = new EventHandler(invalidate, mouseEventProvider, undefined);
+        /* Create event handler that listens to mouse, pointer, or touch events. */
+        this._eventHandler = new EventHandler(invalidate, mouseEventProvider, touchEventProvider,
+            pointerEventProvider);
+
+        if (pointerEventProvider !== undefined) {
+            /* Listen to pointer events (pointer events are mouse events as well). */
+            this._eventHandler.pushPointerEventHandler(PointerEventProvider.Type.Down,
+                this.primary((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                    this.onMouseDown(latests, previous)));
+            this._eventHandler.pushPointerEventHandler(PointerEventProvider.Type.Up,
+                this.primary((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                    this.onMouseUp(latests, previous)));
+            this._eventHandler.pushPointerEventHandler(PointerEventProvider.Type.Move,
+                this.primary((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                    this.onMouseMove(latests, previous)));
+        } else {
+            /* Listen to mouse events. */
+            this._eventHandler.pushMouseDownHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onMouseDown(latests, previous));
+            this._eventHandler.pushMouseUpHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onMouseUp(latests, previous));
+            this._eventHandler.pushMouseMoveHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onMouseMove(latests, previous));
+        }
 
-        /* Listen to mouse events. */
-        this._eventHandler.pushMouseDownHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
-            this.onMouseDown(latests, previous));
-        this._eventHandler.pushMouseUpHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
-            this.onMouseUp(latests, previous));
-        this._eventHandler.pushMouseMoveHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
-            this.onMouseMove(latests, previous));
+        if (touchEventProvider !== undefined) {
+            this._recognizeGestures = true;
+            /* The event handler invokes touch handlers per type, thus, events are merged and processed on update. */
+            const onTouch = (latests: Array<TouchEvent>, previous: Array<TouchEvent>) =>
+                this._touchEvents.push(...latests);
+            this._eventHandler.pushTouchStartHandler(onTouch);
+            this._eventHandler.pushTouchMoveHandler(onTouch);
+            this._eventHandler.pushTouchEndHandler(onTouch);
+            this._eventHandler.pushTouchCancelHandler(onTouch);
+        }
 
-        this._eventHandler.pushClickHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
-            this.onClick(latests, previous));
+        if (mouseEventProvider !== undefined) {
+            this._eventHandler.pushClickHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onClick(latests, previous));
+        }
 
-        // this._eventHandler.pushMouseWheelHandler((latests: Array<WheelEvent>, previous: Array<WheelEvent>) =>
-        //     this.onWheel(latests, previous));
+        if (mouseEventProvider !== undefined) {
+            this._eventHandler.pushContextMenuHandler((event: MouseEvent) => this.onContextMenu(event));
+            this._eventHandler.pushMouseWheelHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onWheel(latests as Array<WheelEvent>, previous as Array<WheelEvent>));
+        }
 
         /* Explicitly use the setter here to create the appropriate modifier. */
         this.metaphor = Navigation.Metaphor.Turntable;
     }
 
 
+    /**
+     * Wraps a mouse event handler for use with pointer events of the primary pointer only, such that additional
+     * touches or pointers do not interfere with single pointer navigation.
+     * @param handler - Handler to be invoked iff at least a single event of the primary pointer occurred.
+     */
+    protected primary(handler: MouseEventHandler): PointerEventHandler {
+        return (latests: Array<PointerEvent>, previous: Array<PointerEvent>) => {
+            const primary = latests.filter((event) => event.isPrimary &&
+                (!this._recognizeGestures || event.pointerType !== 'touch'));
+            if (primary.length > 0) {
+                handler(primary, previous);
+            }
+        };
+    }
+
     /**
      * Resolves the event to camera modifier mapping by returning the responsible camera modifier.
      * @param event - Event to retrieve navigation mode for.
@@ -98,21 +204,24 @@ export class Navigation {
     protected mode(event: MouseEvent | TouchEvent | KeyboardEvent): Navigation.Modes | undefined {
 
         const isPrimaryButtonDown = (event as MouseEvent).buttons & 1;
-        const isMouseDown = event.type === 'mousedown';
-        const isMouseMove = event.type === 'mousemove';
+        const isSecondaryButtonDown = (event as MouseEvent).buttons & 2;
+        const isAuxiliaryButtonDown = (event as MouseEvent).buttons & 4;
+        const isMouseDown = event.type === 'mousedown' || event.type === 'pointerdown';
+        const isMouseMove = event.type === 'mousemove' || event.type === 'pointermove';
 
         const isPointerLockedRotate = PointerLock.active() && this._alwaysRotateOnMove;
 
         if (isPointerLockedRotate || ((isMouseDown || isMouseMove) && isPrimaryButtonDown)) {
             return Navigation.Modes.Rotate;
 
-            // } else if ((event.type === 'mousedown' || event.type === 'mousemove')
-            //     && ((event as MouseEvent).buttons & 2)) {
-            //     return Navigation.Modes.Zoom;
+        } else if ((isMouseDown || isMouseMove) && isSecondaryButtonDown) {
+            return Navigation.Modes.Zoom;
 
-            // } else if (event.type === 'wheel') {
-            //     return Navigation.Modes.ZoomStep;
-            // }
+        } else if ((isMouseDown || isMouseMove) && isAuxiliaryButtonDown) {
+            return Navigation.Modes.Pan;
+
+        } else if (event.type === 'wheel') {
+            return Navigation.Modes.ZoomStep;
         }
         return undefined;
     }
@@ -120,27 +229,35 @@ export class Navigation {
     protected rotate(event: MouseEvent | TouchEvent, start: boolean): void {
         const point = this._eventHandler.offsets(event)[0];
 
+        let movement: vec2 | undefined;
+        if (PointerLock.active() && event instanceof MouseEvent) {
+            movement = vec2.fromValues((event as MouseEvent).movementX, (event as MouseEvent).movementY);
+        }
+        this.rotateAt(point, start, movement);
+        event.preventDefault();
+    }
+
+    /**
+     * Initiates or continues the rotation of the active metaphor at the given point.
+     * @param point - Position in pixel to initiate or process the rotation with.
+     * @param start - Whether to initiate a new rotation or to continue the current one.
+     * @param movement - Optional pointer movement, e.g., when the pointer is locked (first-person only).
+     */
+    protected rotateAt(point: vec2, start: boolean, movement?: vec2): void {
         switch (this._metaphor) {
             case Navigation.Metaphor.FirstPerson:
                 const firstPerson = this._firstPerson as FirstPersonModifier;
-                let movement: vec2 | undefined;
-                if (PointerLock.active() && event instanceof MouseEvent) {
-                    movement = vec2.fromValues((event as MouseEvent).movementX, (event as MouseEvent).movementY);
-                }
                 start ? firstPerson.initiate(point) : firstPerson.process(point, movement);
-                event.preventDefault();
                 break;
 
             case Navigation.Metaphor.Trackball:
                 const trackball = this._trackball as TrackballModifier;
                 start ? trackball.initiate(point) : trackball.process(point);
-                event.preventDefault();
                 break;
 
             case Navigation.Metaphor.Turntable:
                 const turntable = this._turntable as TurntableModifier;
                 start ? turntable.initiate(point) : turntable.process(point);
-                event.preventDefault();
                 break;
 
             default:
@@ -148,6 +265,100 @@ export class Navigation {
         }
     }
 
+    /**
+     * Rotates the camera around the vertical axis through its center by the twist gesture's rotation (the scene
+     * follows the fingers).
+     * @param gesture - Twist gesture providing the rotation since it began.
+     */
+    protected twist(gesture: GestureRecognizer.Gesture): void {
+        if (this._camera === undefined) {
+            return;
+        }
+        if (gesture.phase === GestureRecognizer.Phase.Begin || this._twistReference === undefined) {
+            this._twistReference = [vec3.clone(this._camera.eye), vec3.clone(this._camera.up)];
+        }
+        const center = this._camera.center;
+        const rotation = mat4.fromYRotation(m4(), gesture.rotation);
+
+        const T = mat4.fromTranslation(m4(), center);
+        mat4.multiply(T, T, rotation);
+        mat4.translate(T, T, vec3.negate(v3(), center));
+
+        this._camera.eye = vec3.transformMat4(v3(), this._twistReference[0], T);
+        this._camera.up = vec3.transformMat4(v3(), this._twistReference[1], rotation);
+
+        if (gesture.phase === GestureRecognizer.Phase.End) {
+            this._twistReference = undefined;
+        }
+    }
+
+    /**
+     * Resolves the gesture to navigation mode mapping.
+     * @param gesture - Recognized gesture to retrieve navigation mode for.
+     */
+    protected gestureMode(gesture: GestureRecognizer.Gesture): Navigation.Modes | undefined {
+        switch (gesture.type) {
+            case GestureRecognizer.Type.Drag:
+                return Navigation.Modes.Rotate;
+            case GestureRecognizer.Type.Pinch:
+                return Navigation.Modes.Zoom;
+            case GestureRecognizer.Type.Pan:
+                return Navigation.Modes.Pan;
+            case GestureRecognizer.Type.Twist:
+                return Navigation.Modes.Twist;
+            case GestureRecognizer.Type.DoubleTap:
+                return Navigation.Modes.ZoomStep;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Maps recognized gestures to navigation modes and applies them.
+     * @param gestures - Gestures in order of recognition.
+     */
+    protected onGestures(gestures: Array<GestureRecognizer.Gesture>): void {
+        for (const gesture of gestures) {
+            const mode = this.gestureMode(gesture);
+            this._mode = gesture.phase === GestureRecognizer.Phase.End ? undefined : mode;
+
+            switch (mode) {
+                case Navigation.Modes.Rotate:
+                    if (gesture.phase === GestureRecognizer.Phase.Begin) {
+                        this.rotateAt(vec2.subtract(vec2.create(), gesture.center, gesture.delta), true);
+                    }
+                    this.rotateAt(gesture.center, false);
+                    break;
+
+                case Navigation.Modes.Twist:
+                    this.twist(gesture);
+                    break;
+
+                case Navigation.Modes.Zoom:
+                    if (gesture.phase === GestureRecognizer.Phase.Begin) {
+                        this._pinchScale = 1.0;
+                    }
+                    this._zoom.step(gesture.center, gesture.scale / this._pinchScale);
+                    this._pinchScale = gesture.scale;
+                    break;
+
+                case Navigation.Modes.ZoomStep:
+                    this._zoom.step(gesture.center, 2.0);
+                    break;
+
+                case Navigation.Modes.Pan:
+                    if (gesture.phase === GestureRecognizer.Phase.Begin) {
+                        this._pan.initiate(vec2.subtract(vec2.create(), gesture.center, gesture.delta));
+                    }
+                    this._pan.process(gesture.center);
+                    break;
+
+                default:
+                    break;
+            }
+        }
+    }
+
 
     protected onMouseDown(latests: Array<MouseEvent>, previous: Array<MouseEvent>): void {
         const event: MouseEvent = latests[latests.length - 1];
@@ -156,7 +367,13 @@ export class Navigation {
         this._mode = this.mode(event);
         switch (this._mode) {
             case Navigation.Modes.Zoom:
-                // this.startZoom(event);
+                this._zoom.initiate(this._eventHandler.offsets(event)[0]);
+                event.preventDefault();
+                break;
+
+            case Navigation.Modes.Pan:
+                this._pan.initiate(this._eventHandler.offsets(event)[0]);
+                event.preventDefault();
                 break;
 
             case Navigation.Modes.Rotate:
@@ -177,6 +394,7 @@ export class Navigation {
             return;
         }
         event.preventDefault();
+        this._mode = undefined;
         // }
     }
 
@@ -186,10 +404,15 @@ export class Navigation {
 
         const modeWasUndefined = (this._mode === undefined);
         this._mode = this.mode(event);
+        const point = this._eventHandler.offsets(event)[0];
         switch (this._mode) {
-            // case Navigation.Modes.Zoom:
-            //     // modeWasUndefined ? this.startZoom(event) : this.updateZoom(event);
-            //     break;
+            case Navigation.Modes.Zoom:
+                modeWasUndefined ? this._zoom.initiate(point) : this._zoom.process(point);
+                break;
+
+            case Navigation.Modes.Pan:
+                modeWasUndefined ? this._pan.initiate(point) : this._pan.process(point);
+                break;
 
             case Navigation.Modes.Rotate:
                 this.rotate(event, modeWasUndefined);
@@ -201,10 +424,69 @@ export class Navigation {
         }
     }
 
+    /**
+     * Suppresses the context menu while zooming with the secondary button. Since the secondary button down event might
+     * not yet be processed when the context menu is requested (on button down for most platforms), the context menu is
+     * suppressed as well if the secondary button is held, i.e., a zoom is about to be initiated. Context menus
+     * requested otherwise, e.g., by keyboard or on button up without a zoom in progress, are not affected.
+     */
+    protected onContextMenu(event: MouseEvent): void {
+        if (this._mode === Navigation.Modes.Zoom || (event.buttons & 2) !== 0) {
+            event.preventDefault();
+        }
+    }
+
     protected onClick(latests: Array<MouseEvent>, previous: Array<MouseEvent>): void {
         // const event: MouseEvent = latests[latests.length - 1];
     }
 
+    /**
+     * Zooms stepwise towards the cursor for all wheel events since last update. Scrolling upwards zooms in.
+     */
+    protected onWheel(latests: Array<WheelEvent>, previous: Array<WheelEvent>): void {
+        for (const event of latests) {
+            if (this.mode(event) !== Navigation.Modes.ZoomStep) {
+                continue;
+            }
+            /* Wheel deltas given in lines or pages are approximated in pixel. */
+            const scale = event.deltaMode === 1 ? 16.0 : event.deltaMode === 2 ? 800.0 : 1.0;
+            const factor = Math.pow(2.0, -event.deltaY * scale * Navigation.WHEEL_SENSITIVITY);
+            this._zoom.step(this._eventHandler.offsets(event)[0], factor);
+            event.preventDefault();
+        }
+    }
+
+    /**
+     * Feeds the active touches of all touch events since last update to the gesture recognizer. If a single touch
+     * rests, an invalidation is scheduled for long-press recognition on update.
+     * @param events - Touch events of all types, in order of occurrence.
+     */
+    protected onTouch(events: Array<TouchEvent>): void {
+        for (const event of events) {
+            if (event.type === 'touchcancel') {
+                this.onGestures(this._gestureRecognizer.cancel());
+                continue;
+            }
+            const offsets = this._eventHandler.offsets(event);
+            const touches = offsets.map((offset, index) => ({
+                identifier: event.touches.item(index)!.identifier, x: offset[0], y: offset[1],
+            }));
+            this.onGestures(this._gestureRecognizer.process(touches, event.timeStamp));
+            event.preventDefault();
+        }
+
+        if (this._longPressTimeout !== 0) {
+            window.clearTimeout(this._longPressTimeout);
+            this._longPressTimeout = 0;
+        }
+        if (this._gestureRecognizer.state === GestureRecognizer.State.Pressed) {
+            this._longPressTimeout = window.setTimeout(() => {
+                this._longPressTimeout = 0;
+                this._invalidate(false);
+            }, this._gestureRecognizer.thresholds.longPressDuration);
+        }
+    }
+
 
     /**
      * Update should invoke navigation specific event processing. When using, e.g., an event handler, the event handlers
@@ -212,6 +494,48 @@ export class Navigation {
      */
     update(): void {
         this._eventHandler.update();
+        if (this._touchEvents.length > 0) {
+            this.onTouch(this._touchEvents.sort((a, b) => a.timeStamp - b.timeStamp));
+            this._touchEvents.length = 0;
+        }
+        this.onGestures(this._gestureRecognizer.tick(performance.now()));
+
+        /* Continue zooming and panning with inertia (if configured) until coasting stops. */
+        const zoomCoasting = this._mode !== Navigation.Modes.Zoom && this._zoom.coast();
+        const panCoasting = this._mode !== Navigation.Modes.Pan && this._pan.coast();
+        if (zoomCoasting || panCoasting) {
+            this._invalidate(false);
+        }
+    }
+
+    /**
+     * Gesture recognizer used for touch events, e.g., for configuring its thresholds.
+     */
+    get gestureRecognizer(): GestureRecognizer {
+        return this._gestureRecognizer;
+    }
+
+    /**
+     * Zoom camera modifier, e.g., for configuring zoom mode, limits, and inertia.
+     */
+    get zoomModifier(): ZoomModifier {
+        return this._zoom;
+    }
+
+    /**
+     * Pan camera modifier, e.g., for configuring inertia.
+     */
+    get panModifier(): PanModifier {
+        return this._pan;
+    }
+
+    /**
+     * Readback pass used by zooming and panning to retrieve the grabbed point from depth. If none is set or no depth
+     * is available at the event position, the camera's focal plane (through its center) is used instead.
+     */
+    set readbackPass(readbackPass: ReadbackPass | undefined) {
+        this._zoom.readbackPass = readbackPass;
+        this._pan.readbackPass = readbackPass;
     }
 
     /**
@@ -219,6 +543,8 @@ export class Navigation {
      */
     set camera(camera: Camera) {
         this._camera = camera;
+        this._zoom.camera = camera;
+        this._pan.camera = camera;
         if (this._firstPerson) {
             this._firstPerson.camera = camera;
         }
@@ -291,6 +617,7 @@ export namespace Navigation {
         Rotate,
         Zoom,
         ZoomStep,
+        Twist,
     }
 
     /**
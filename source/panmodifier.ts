@@ -1,11 +1,137 @@
 
+import { vec2, vec3 } from 'gl-matrix';
+
+import { v3 } from './gl-matrix-extensions';
+
 import { CameraModifier } from './cameramodifier';
 
+import * as rayMath from './raymath';
 
+
+/**
+ * Math for panning the camera such that the grabbed point remains below the event position, e.g., the cursor. The
+ * grabbed point (anchor) is retrieved from depth if a readback pass is assigned (@see {@link readbackPass}) and falls
+ * back to the focal plane otherwise. On subsequent event positions (@see process), eye and center are translated
+ * within the plane through the anchor parallel to the view plane. With inertia, the last translation is continued with
+ * decreasing velocity on subsequent updates (@see coast).
+ */
 export class PanModifier extends CameraModifier {
 
+    /**
+     * Translation length below which coasting stops.
+     */
+    protected static readonly COAST_EPSILON = 1e-6;
+
+
+    /**
+     * Grabbed point in world space, undefined if neither depth nor the focal plane could be hit.
+     */
+    protected _anchor: vec3 | undefined;
+
+    /**
+     * Current translation of eye and center with respect to the reference camera.
+     */
+    protected _translation = v3();
+
+    /**
+     * Translation of the last update relative to the previous one, used for coasting.
+     */
+    protected _velocity = v3();
+
+    /** @see {@link inertia} */
+    protected _inertia = 0.0;
+
+
+    /**
+     * Initiate a new pan at a specific event position. Coasting of a previous pan is stopped.
+     * @param point - Position of the current event to grab the anchor at.
+     */
+    initiate(point: vec2): void {
+        Object.assign(this._reference, this._camera);
+        vec3.set(this._velocity, 0.0, 0.0, 0.0);
+        vec3.set(this._translation, 0.0, 0.0, 0.0);
+
+        /* Retrieve initial event position. */
+        this._initialPoint = point;
+        this._anchor = this.anchor(point, this._reference);
+    }
+
+    /**
+     * Update the pan w.r.t. a specific event position, keeping the anchor below it.
+     * @param point - Position of the current event to move the anchor to.
+     */
+    process(point: vec2): void {
+        /* Retrieve current event positions. */
+        this._currentPoint = point;
+
+        const ray = this.ray(point, this._reference);
+        if (this._anchor === undefined || ray === undefined) {
+            return;
+        }
+
+        /* Intersect with the plane through the anchor parallel to the view plane (of the reference camera). */
+        const normal = vec3.normalize(v3(), vec3.subtract(v3(), this._reference.eye, this._reference.center));
+        const hit = rayMath.rayPlaneIntersection(ray[0], ray[1], this._anchor, normal);
+        if (hit === undefined) {
+            return;
+        }
+        const translation = vec3.subtract(v3(), this._anchor, hit);
+        vec3.subtract(this._velocity, translation, this._translation);
+        this._translation = translation;
+
+        this.update();
+    }
+
+    /**
+     * Continues the last translation with its velocity decreased by the inertia. This should be invoked on every
+     * update after a pan was processed.
+     * @returns - Whether or not the pan is still coasting, i.e., further updates are required.
+     */
+    coast(): boolean {
+        if (this._camera === undefined) {
+            return false;
+        }
+        /* Translations are continued relative to the current camera, which might have been modified meanwhile. */
+        Object.assign(this._reference, this._camera);
+        vec3.scale(this._velocity, this._velocity, this._inertia);
+        if (vec3.length(this._velocity) < PanModifier.COAST_EPSILON) {
+            vec3.set(this._velocity, 0.0, 0.0, 0.0);
+            vec3.set(this._translation, 0.0, 0.0, 0.0);
+            return false;
+        }
+        vec3.copy(this._translation, this._velocity);
+        this.update();
+        return true;
+    }
+
+    /**
+     * Stops coasting immediately.
+     */
+    stop(): void {
+        vec3.set(this._velocity, 0.0, 0.0, 0.0);
+    }
+
+    /**
+     * Actually applies the translation to the given camera.
+     */
     update(): void {
+        if (this._camera === undefined) {
+            return;
+        }
+        this._camera.eye = vec3.add(v3(), this._reference.eye, this._translation);
+        this._camera.center = vec3.add(v3(), this._reference.center, this._translation);
+    }
+
+
+    /**
+     * Fraction of the pan velocity retained per update when coasting, in [0.0, 1.0). Zero disables inertia.
+     */
+    set inertia(inertia: number) {
+        this._inertia = Math.min(Math.max(inertia, 0.0), 0.99);
+    }
 
+    get inertia(): number {
+        return this._inertia;
     }
 
 }
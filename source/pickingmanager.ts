@@ -0,0 +1,380 @@
+
+import { vec2, vec3, vec4 } from 'gl-matrix';
+
+import { Observable, Subject } from 'rxjs';
+
+import { assert } from './auxiliaries';
+import { encode_uint32_to_rgba8 } from './gl-matrix-extensions';
+import { GLclampf4 } from './tuples';
+
+import { Camera } from './camera';
+import { EventHandler } from './eventhandler';
+import { MouseEventProvider } from './mouseeventprovider';
+import { ReadbackPass } from './readbackpass';
+import { Invalidate } from './renderer';
+
+
+/**
+ * Maps object ids rendered into an id attachment back to application objects. Ids (or contiguous id ranges, e.g.,
+ * for instances) are allocated on registration, with id 0 reserved for no object (an id attachment is expected to be
+ * cleared to zero). Ids are written by shaders via the `pickingid` chunk (`#include <pickingid>`), e.g., using the
+ * encoded id of an object as uniform:
+ * ```
+ * // fragment shader
+ * uniform float u_id;
+ * ...
+ * fragID = encode_uint32_to_rgba8(u_id);
+ * ```
+ * Picking is performed on click and, throttled, on hover using the assigned readback pass. Results are published via
+ * {@link pick$} and {@link hover$} and comprise the object, its world space position, and depth:
+ * ```
+ * this._picking = new PickingManager<SceneNode>(this._invalidate, mouseEventProvider);
+ * this._picking.readbackPass = this._readbackPass;
+ * this._picking.camera = this._camera;
+ * const id = this._picking.register(node);
+ * this._picking.pick$.subscribe((pick) => console.log(pick.object, pick.position));
+ * ...
+ * // within onUpdate
+ * this._picking.update();
+ * ```
+ */
+export class PickingManager<T = unknown> {
+
+    /**
+     * Largest id that can be allocated. Decoding of ids from rgba8 is limited to signed 32 bit integers.
+     */
+    static readonly MAX_ID = 0x7FFFFFFF;
+
+
+    /**
+     * Invalidation callback, used for requesting updates for throttled hover picks.
+     */
+    protected _invalidate: Invalidate;
+
+    protected _eventHandler: EventHandler;
+
+    /** @see {@link readbackPass} */
+    protected _readbackPass: ReadbackPass | undefined;
+
+    /** @see {@link camera} */
+    protected _camera: Camera | undefined;
+
+    /**
+     * Allocated id ranges sorted by their first id.
+     */
+    protected _ranges = new Array<PickingManager.Range<T>>();
+
+    /** @see {@link hoverInterval} */
+    protected _hoverInterval = 50.0;
+
+    /** @see {@link hoverEnabled} */
+    protected _hoverEnabled = true;
+
+    /**
+     * Time of the last hover pick and the event position of a hover pick deferred by throttling.
+     */
+    protected _lastHover = Number.NEGATIVE_INFINITY;
+    protected _pendingHover: vec2 | undefined;
+
+    /** @see {@link hovered} */
+    protected _hovered: PickingManager.Pick<T> | undefined;
+
+    protected _pickSubject = new Subject<PickingManager.Pick<T>>();
+    protected _hoverSubject = new Subject<PickingManager.Pick<T>>();
+
+
+    /**
+     * Encodes an id as normalized rgba, e.g., for passing it as vec4 uniform and writing it to an id attachment as is.
+     * @param id - Id to encode.
+     */
+    static encode(id: number): GLclampf4 {
+        const bytes = encode_uint32_to_rgba8(vec4.create(), id);
+        return [bytes[0] / 255.0, bytes[1] / 255.0, bytes[2] / 255.0, bytes[3] / 255.0];
+    }
+
+
+    /**
+     * Creates a picking manager listening to click and move events of the given mouse event provider (if any).
+     * @param invalidate - Invalidation callback, usually the one of the owning renderer.
+     * @param mouseEventProvider - Provider for mouse events referring to the canvas element.
+     */
+    constructor(invalidate: Invalidate, mouseEventProvider: MouseEventProvider | undefined) {
+        this._invalidate = invalidate;
+
+        this._eventHandler = new EventHandler(invalidate, mouseEventProvider, undefined);
+        if (mouseEventProvider !== undefined) {
+            this._eventHandler.pushClickHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onClick(latests, previous));
+            this._eventHandler.pushMouseMoveHandler((latests: Array<MouseEvent>, previous: Array<MouseEvent>) =>
+                this.onMouseMove(latests, previous));
+        }
+    }
+
+
+    /**
+     * Index of the range containing the given id, -1 if none does.
+     */
+    protected rangeIndex(id: number): number {
+        let lower = 0;
+        let upper = this._ranges.length - 1;
+        while (lower <= upper) {
+            const middle = (lower + upper) >> 1;
+            const range = this._ranges[middle];
+            if (id < range.first) {
+                upper = middle - 1;
+            } else if (id >= range.first + range.count) {
+                lower = middle + 1;
+            } else {
+                return middle;
+            }
+        }
+        return -1;
+    }
+
+    protected onClick(latests: Array<MouseEvent>, previous: Array<MouseEvent>): void {
+        const event = latests[latests.length - 1];
+        const pick = this.pickAt(this._eventHandler.offsets(event)[0]);
+        if (pick !== undefined) {
+            this._pickSubject.next(pick);
+        }
+    }
+
+    protected onMouseMove(latests: Array<MouseEvent>, previous: Array<MouseEvent>): void {
+        if (!this._hoverEnabled) {
+            return;
+        }
+        const event = latests[latests.length - 1];
+        this._pendingHover = this._eventHandler.offsets(event)[0];
+    }
+
+    /**
+     * Performs a deferred hover pick if the hover interval has passed since the last one, otherwise requests another
+     * update.
+     */
+    protected hover(): void {
+        if (this._pendingHover === undefined) {
+            return;
+        }
+        const now = performance.now();
+        if (now - this._lastHover < this._hoverInterval) {
+            this._invalidate(false);
+            return;
+        }
+        const pick = this.pickAt(this._pendingHover);
+        this._pendingHover = undefined;
+        this._lastHover = now;
+
+        if (pick !== undefined) {
+            this._hovered = pick;
+            this._hoverSubject.next(pick);
+        }
+    }
+
+
+    /**
+     * Allocates a single id for the given object.
+     * @param object - Object to allocate the id for.
+     * @returns - Allocated id.
+     */
+    register(object: T): number {
+        return this.registerRange(object, 1);
+    }
+
+    /**
+     * Allocates a contiguous range of ids for the given object, e.g., one per instance. The first gap between
+     * allocated ranges that fits is reused.
+     * @param object - Object to allocate the ids for.
+     * @param count - Number of ids to allocate.
+     * @returns - First id of the range.
+     */
+    registerRange(object: T, count: number): number {
+        assert(count > 0, `expected at least one id to be allocated, given ${count}`);
+
+        let first = 1;
+        let index = 0;
+        for (; index < this._ranges.length; ++index) {
+            if (this._ranges[index].first - first >= count) {
+                break;
+            }
+            first = this._ranges[index].first + this._ranges[index].count;
+        }
+        assert(first + count - 1 <= PickingManager.MAX_ID, `expected ids to be available, requested ${count}`);
+
+        this._ranges.splice(index, 0, { first, count, object });
+        return first;
+    }
+
+    /**
+     * Releases all ids allocated for the given object.
+     * @param object - Object to release the ids of.
+     * @returns - Whether or not ids were allocated for the object.
+     */
+    unregister(object: T): boolean {
+        const length = this._ranges.length;
+        this._ranges = this._ranges.filter((range) => range.object !== object);
+        return this._ranges.length !== length;
+    }
+
+    /**
+     * Releases all allocated ids.
+     */
+    clear(): void {
+        this._ranges.length = 0;
+    }
+
+    /**
+     * Retrieves the object an id was allocated for.
+     * @param id - Id, e.g., as read from an id attachment.
+     * @returns - The object and the id's index within the object's range, undefined if the id is not allocated.
+     */
+    lookup(id: number): [T, number] | undefined {
+        const index = this.rangeIndex(id);
+        if (index === -1) {
+            return undefined;
+        }
+        const range = this._ranges[index];
+        return [range.object, id - range.first];
+    }
+
+    /**
+     * Reads id and depth at the given position using the readback pass and maps the id to its object.
+     * @param point - Position in px with the origin at the upper left, e.g., as derived from an event.
+     * @returns - Pick result, undefined if no readback pass is assigned.
+     */
+    pickAt(point: vec2): PickingManager.Pick<T> | undefined {
+        if (this._readbackPass === undefined || !this._readbackPass.initialized) {
+            return undefined;
+        }
+        const x = Math.round(point[0]);
+        const y = Math.round(point[1]);
+
+        const id = this._readbackPass.idAt(x, y);
+        const found = id === undefined || id === 0 ? undefined : this.lookup(id);
+
+        const depth = this._readbackPass.depthAt(x, y);
+        const viewProjectionInverse = this._camera !== undefined ? this._camera.viewProjectionInverse : undefined;
+        const position = depth === undefined || !viewProjectionInverse ? undefined :
+            this._readbackPass.coordsAt(x, y, depth, viewProjectionInverse);
+
+        return {
+            object: found !== undefined ? found[0] : undefined,
+            index: found !== undefined ? found[1] : undefined,
+            id: found !== undefined ? id : undefined,
+            point: vec2.fromValues(x, y),
+            position, depth,
+        };
+    }
+
+    /**
+     * Processes the latest click and move events and performs pending hover picks. This should be invoked on every
+     * update of the owning renderer.
+     */
+    update(): void {
+        this._eventHandler.update();
+        this.hover();
+    }
+
+    /**
+     * Releases event subscriptions and completes the observables.
+     */
+    dispose(): void {
+        this._eventHandler.dispose();
+        this._pickSubject.complete();
+        this._hoverSubject.complete();
+    }
+
+
+    /**
+     * Readback pass used to read ids and depth, expected to be configured with the renderer's id and depth
+     * framebuffers.
+     */
+    set readbackPass(readbackPass: ReadbackPass | undefined) {
+        this._readbackPass = readbackPass;
+    }
+
+    get readbackPass(): ReadbackPass | undefined {
+        return this._readbackPass;
+    }
+
+    /**
+     * Camera used to derive world space positions from depth.
+     */
+    set camera(camera: Camera | undefined) {
+        this._camera = camera;
+    }
+
+    get camera(): Camera | undefined {
+        return this._camera;
+    }
+
+    /**
+     * Minimum time in ms between subsequent hover picks (throttling), since each pick reads back from the GPU.
+     */
+    set hoverInterval(interval: number) {
+        this._hoverInterval = Math.max(interval, 0.0);
+    }
+
+    get hoverInterval(): number {
+        return this._hoverInterval;
+    }
+
+    /**
+     * Whether or not picking is performed on hover.
+     */
+    set hoverEnabled(enabled: boolean) {
+        this._hoverEnabled = enabled;
+        if (!enabled) {
+            this._pendingHover = undefined;
+        }
+    }
+
+    get hoverEnabled(): boolean {
+        return this._hoverEnabled;
+    }
+
+    /**
+     * Result of the last hover pick, undefined if none was performed yet.
+     */
+    get hovered(): PickingManager.Pick<T> | undefined {
+        return this._hovered;
+    }
+
+    /**
+     * Observable emitting the result of every pick on click.
+     */
+    get pick$(): Observable<PickingManager.Pick<T>> {
+        return this._pickSubject.asObservable();
+    }
+
+    /**
+     * Observable emitting the result of every (throttled) hover pick.
+     */
+    get hover$(): Observable<PickingManager.Pick<T>> {
+        return this._hoverSubject.asObservable();
+    }
+
+}
+
+
+export namespace PickingManager {
+
+    export interface Range<T> {
+        first: number;
+        count: number;
+        object: T;
+    }
+
+    /**
+     * Result of a pick. Object, index within the object's id range, and id are undefined if no registered object was
+     * hit. Position and depth are undefined if nothing was rendered at the point (or no camera is assigned).
+     */
+    export interface Pick<T> {
+        object: T | undefined;
+        index: number | undefined;
+        id: number | undefined;
+        point: vec2;
+        position: vec3 | undefined;
+        depth: number | undefined;
+    }
+
+}
@@ -0,0 +1,335 @@
+
+import { Observable, ReplaySubject } from 'rxjs';
+
+import { assert, bitInBitfield } from './auxiliaries';
+
+
+/**
+ * Pointer event providing coalesced events, which is not part of the DOM typings yet and not supported by all browsers.
+ */
+interface CoalescedPointerEvent extends PointerEvent {
+    getCoalescedEvents?: () => Array<PointerEvent>;
+}
+
+/**
+ * Event provider based on the Pointer Events API, unifying mouse, pen, and touch input. In contrast to the mouse and
+ * touch event providers, every pointer is tracked individually by its pointer id, i.e., the latest event of each
+ * active pointer (e.g., multiple fingers or a pen hovering the canvas) can be queried at any time via `pointers`.
+ * Pointer events carry pressure, tilt, and contact geometry which are passed on as is. Listeners are registered
+ * lazily, i.e., not before an observable or the active pointers are requested. Optionally, pointers can be captured on
+ * pointer down, such that dragging beyond the canvas still yields move and up events for the canvas. Furthermore,
+ * coalesced events (high-frequency input that was merged by the browser into a single move event) can be emitted
+ * individually, e.g., for drawing or precise pen input:
+ * ```
+ * const provider = new PointerEventProvider(canvas.element as HTMLCanvasElement, 200);
+ * provider.capture = true;
+ * provider.coalesced = true;
+ * provider.move$.subscribe((event) => console.log(event.pointerType, event.pressure, event.tiltX, event.tiltY));
+ * ```
+ */
+export class PointerEventProvider {
+
+    /**
+     * HTML canvas element within the HTML5 document to register event listeners to.
+     */
+    protected _element: HTMLCanvasElement;
+
+    /**
+     * Time frame for events to be buffered (windowTime in rxjs per ReplaySubject).
+     */
+    protected _timeframe: number | undefined;
+
+    /** @see {@link pointers} */
+    protected _pointers = new Map<number, PointerEvent>();
+
+    /**
+     * Listener tracking the active pointers and capturing pointers on pointer down (registered on first request).
+     */
+    protected _trackListener: { (event: PointerEvent): void } | undefined;
+
+    /** @see {@link capture} */
+    protected _capture = false;
+
+    /** @see {@link coalesced} */
+    protected _coalesced = false;
+
+    protected _enterListener: { (event: PointerEvent): void };
+    protected _enterSubject: ReplaySubject<PointerEvent>;
+
+    protected _leaveListener: { (event: PointerEvent): void };
+    protected _leaveSubject: ReplaySubject<PointerEvent>;
+
+    protected _downListener: { (event: PointerEvent): void };
+    protected _downSubject: ReplaySubject<PointerEvent>;
+    protected _upListener: { (event: PointerEvent): void };
+    protected _upSubject: ReplaySubject<PointerEvent>;
+
+    protected _moveListener: { (event: PointerEvent): void };
+    protected _moveSubject: ReplaySubject<PointerEvent>;
+
+    protected _cancelListener: { (event: PointerEvent): void };
+    protected _cancelSubject: ReplaySubject<PointerEvent>;
+
+    /**
+     * This mask saves for which types of events, event.preventDefault should be called. This is useful to disallow
+     * some kinds of standard events like scrolling or text selection.
+     */
+    protected _preventDefaultMask: PointerEventProvider.Type;
+
+
+    constructor(element: HTMLCanvasElement, timeframe?: number) {
+        assert(element !== undefined, `expected valid canvas element on initialization, given ${element}`);
+        this._element = element;
+        this._timeframe = timeframe;
+    }
+
+    /**
+     * Registers the tracking listeners (once). This is invoked before registering any other listener, thus, active
+     * pointers are updated before any event is emitted.
+     */
+    protected listen(): void {
+        if (this._trackListener !== undefined) {
+            return;
+        }
+        this._trackListener = (event: PointerEvent) => this.track(event);
+        for (const type of ['pointerdown', 'pointermove', 'pointerup', 'pointercancel', 'pointerleave']) {
+            this._element.addEventListener(type, this._trackListener as EventListener);
+        }
+    }
+
+    /**
+     * Updates the active pointers with the given event. Pointers are added on pointer down, updated on move (while
+     * active or hovering), and removed on pointer up, cancel, and leave. If enabled, pointers are captured on down.
+     * @param event - Pointer event to track.
+     */
+    protected track(event: PointerEvent): void {
+        switch (event.type) {
+            case 'pointerdown':
+                this._pointers.set(event.pointerId, event);
+                if (this._capture && this._element.setPointerCapture) {
+                    this._element.setPointerCapture(event.pointerId);
+                }
+                break;
+            case 'pointermove':
+                this._pointers.set(event.pointerId, event);
+                break;
+            case 'pointerleave':
+                /* Captured pointers still yield events when leaving the element and, thus, remain active. */
+                if (this._element.hasPointerCapture && this._element.hasPointerCapture(event.pointerId)) {
+                    break;
+                }
+                this._pointers.delete(event.pointerId);
+                break;
+            default:
+                this._pointers.delete(event.pointerId);
+                break;
+        }
+    }
+
+    /**
+     * Checks whether or not to prevent the default handling of the given event. This depends on the internal
+     * `preventDefaultMask` which can be modified using `preventDefault` function @see{@link prevenDefault}.
+     * @param type - Internal event type of the incoming event.
+     * @param event - Actual event to prevent default handling on (if masked).
+     */
+    protected preventDefaultOnEvent(type: PointerEventProvider.Type, event: PointerEvent): void {
+        if (bitInBitfield(this._preventDefaultMask, type)) {
+            event.preventDefault();
+        }
+    }
+
+    /**
+     * Prevent default event handling on specific event types (using prevenDefault on the event).
+     * @param types - Event types to prevent default handling on.
+     */
+    preventDefault(...types: PointerEventProvider.Type[]): void {
+        for (const type of types) {
+            if (!bitInBitfield(this._preventDefaultMask, type)) {
+                this._preventDefaultMask |= type;
+            }
+        }
+    }
+
+    /**
+     * Allow default event handling on specific event types (not calling preventDefault on the event).
+     * @param types - Event types to allow default handling on.
+     */
+    allowDefault(...types: PointerEventProvider.Type[]): void {
+        for (const type of types) {
+            if (bitInBitfield(this._preventDefaultMask, type)) {
+                this._preventDefaultMask &= ~type;
+            }
+        }
+    }
+
+    observable(type: PointerEventProvider.Type): Observable<PointerEvent> {
+        /* tslint:disable-next-line:switch-default */
+        switch (type) {
+            case PointerEventProvider.Type.Enter:
+                return this.enter$;
+            case PointerEventProvider.Type.Leave:
+                return this.leave$;
+            case PointerEventProvider.Type.Down:
+                return this.down$;
+            case PointerEventProvider.Type.Up:
+                return this.up$;
+            case PointerEventProvider.Type.Move:
+                return this.move$;
+            case PointerEventProvider.Type.Cancel:
+                return this.cancel$;
+        }
+
+        assert(false, 'Encountered unknown pointer event.');
+        return new Observable<PointerEvent>();
+    }
+
+
+    /**
+     * Latest event of every active pointer by pointer id, e.g., for multi-touch gestures or pen hovering. A pointer is
+     * active from pointer down (or when hovering, from its first move) until pointer up, cancel, or leave.
+     */
+    get pointers(): ReadonlyMap<number, PointerEvent> {
+        this.listen();
+        return this._pointers;
+    }
+
+    /**
+     * Whether or not pointers are captured by the canvas element on pointer down (disabled by default). When captured,
+     * all events of the pointer are targeted at the canvas until the pointer is released, even when it leaves the
+     * canvas.
+     */
+    get capture(): boolean {
+        return this._capture;
+    }
+
+    set capture(capture: boolean) {
+        this._capture = capture;
+        if (capture) {
+            this.listen();
+        }
+    }
+
+    /**
+     * Whether or not coalesced events are emitted individually by `move$` (if supported by the browser). If not,
+     * only the dispatched move event (usually the last of the coalesced events) is emitted.
+     */
+    get coalesced(): boolean {
+        return this._coalesced;
+    }
+
+    set coalesced(coalesced: boolean) {
+        this._coalesced = coalesced;
+    }
+
+    get enter$(): Observable<PointerEvent> {
+        if (this._enterSubject === undefined) {
+            this.listen();
+            this._enterSubject = new ReplaySubject<PointerEvent>(undefined, this._timeframe);
+            this._enterListener = (event: PointerEvent) => {
+                this.preventDefaultOnEvent(PointerEventProvider.Type.Enter, event);
+                this._enterSubject.next(event);
+            };
+            this._element.addEventListener('pointerenter', this._enterListener);
+        }
+        return this._enterSubject.asObservable();
+    }
+
+    get leave$(): Observable<PointerEvent> {
+        if (this._leaveSubject === undefined) {
+            this.listen();
+            this._leaveSubject = new ReplaySubject<PointerEvent>(undefined, this._timeframe);
+            this._leaveListener = (event: PointerEvent) => {
+                this.preventDefaultOnEvent(PointerEventProvider.Type.Leave, event);
+                this._leaveSubject.next(event);
+            };
+            this._element.addEventListener('pointerleave', this._leaveListener);
+        }
+        return this._leaveSubject.asObservable();
+    }
+
+    get down$(): Observable<PointerEvent> {
+        if (this._downSubject === undefined) {
+            this.listen();
+            this._downSubject = new ReplaySubject<PointerEvent>(undefined, this._timeframe);
+            this._downListener = (event: PointerEvent) => {
+                this.preventDefaultOnEvent(PointerEventProvider.Type.Down, event);
+                this._downSubject.next(event);
+            };
+            this._element.addEventListener('pointerdown', this._downListener);
+        }
+        return this._downSubject.asObservable();
+    }
+
+    get up$(): Observable<PointerEvent> {
+        if (this._upSubject === undefined) {
+            this.listen();
+            this._upSubject = new ReplaySubject<PointerEvent>(undefined, this._timeframe);
+            this._upListener = (event: PointerEvent) => {
+                this.preventDefaultOnEvent(PointerEventProvider.Type.Up, event);
+                this._upSubject.next(event);
+            };
+            this._element.addEventListener('pointerup', this._upListener);
+        }
+        return this._upSubject.asObservable();
+    }
+
+    get move$(): Observable<PointerEvent> {
+        if (this._moveSubject === undefined) {
+            this.listen();
+            this._moveSubject = new ReplaySubject<PointerEvent>(undefined, this._timeframe);
+            this._moveListener = (event: CoalescedPointerEvent) => {
+                this.preventDefaultOnEvent(PointerEventProvider.Type.Move, event);
+
+                const coalesced: Array<PointerEvent> = this._coalesced && event.getCoalescedEvents !== undefined ?
+                    event.getCoalescedEvents() : [];
+
+                if (coalesced.length === 0) {
+                    this._moveSubject.next(event);
+                    return;
+                }
+                for (const coalescedEvent of coalesced) {
+                    this._moveSubject.next(coalescedEvent);
+                }
+            };
+            this._element.addEventListener('pointermove', this._moveListener);
+        }
+        return this._moveSubject.asObservable();
+    }
+
+    get cancel$(): Observable<PointerEvent> {
+        if (this._cancelSubject === undefined) {
+            this.listen();
+            this._cancelSubject = new ReplaySubject<PointerEvent>(undefined, this._timeframe);
+            this._cancelListener = (event: PointerEvent) => {
+                this.preventDefaultOnEvent(PointerEventProvider.Type.Cancel, event);
+                this._cancelSubject.next(event);
+            };
+            this._element.addEventListener('pointercancel', this._cancelListener);
+        }
+        return this._cancelSubject.asObservable();
+    }
+
+}
+
+
+export namespace PointerEventProvider {
+
+    export enum Type {
+        Enter = 1 << 0,
+        Leave = 1 << 1,
+        Move = 1 << 2,
+        Down = 1 << 3,
+        Up = 1 << 4,
+        Cancel = 1 << 5,
+    }
+
+    /**
+     * Pointer device types as provided by `PointerEvent.pointerType`.
+     */
+    export enum PointerType {
+        Mouse = 'mouse',
+        Pen = 'pen',
+        Touch = 'touch',
+    }
+
+}
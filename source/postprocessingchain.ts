@@ -0,0 +1,303 @@
+
+import { assert, logIf, LogLevel } from './auxiliaries';
+import { GLsizei2 } from './tuples';
+
+import { Camera } from './camera';
+import { Context } from './context';
+import { Framebuffer } from './framebuffer';
+import { Initializable } from './initializable';
+import { NdcFillingTriangle } from './ndcfillingtriangle';
+import { PostProcessingPass } from './postprocessingpass';
+import { Texture2D } from './texture2d';
+import { Wizard } from './wizard';
+
+
+/**
+ * Runs an ordered sequence of post-processing passes on a color texture, e.g., the result of an accumulation pass.
+ * Two rgba-framebuffers sized to the frame size are used for ping-ponging between passes. Passes are applied in order
+ * of insertion; a sensible order is ambient occlusion, depth of field, and bloom on linear (high dynamic range) color,
+ * followed by tone mapping and, finally, anti-aliasing on display color. Passes can be enabled and disabled at runtime
+ * without any reallocation, since disabled passes are skipped but retain their resources.
+ *
+ * The chain can be used as follows:
+ * ```
+ * this._postProcessing.initialize(this._ndcTriangle);
+ * this._postProcessing.push(new SSAOPass(this._context));
+ * this._postProcessing.push(new ToneMappingPass(this._context));
+ * this._postProcessing.push(new FXAAPass(this._context));
+ * ...
+ * // within onPrepare
+ * this._postProcessing.frameSize = this._frameSize;
+ * ...
+ * // within onFrame
+ * this._postProcessing.depthTexture = this._depthTexture;
+ * this._postProcessing.camera = this._camera;
+ * this._postProcessing.frame(this._accumulate.framebuffer!.texture(gl2facade.COLOR_ATTACHMENT0)!);
+ * ...
+ * // within onSwap
+ * this._blit.framebuffer = this._postProcessing.framebuffer || this._accumulate.framebuffer;
+ * ```
+ */
+export class PostProcessingChain extends Initializable {
+
+    /**
+     * Read-only access to the objects context, used to get context information and WebGL API access.
+     */
+    protected _context: Context;
+
+    /** @see {@link passes} */
+    protected _passes = new Array<PostProcessingPass>();
+
+    /** @see {@link frameSize} */
+    protected _frameSize: GLsizei2 = [1, 1];
+
+    /** @see {@link precision} */
+    protected _precision: Wizard.Precision = Wizard.Precision.half;
+
+    /** @see {@link depthTexture} */
+    protected _depthTexture: Texture2D | undefined;
+
+    /** @see {@link camera} */
+    protected _camera: Camera | undefined;
+
+    /**
+     * Two rgba-framebuffers used for ping-ponging between passes.
+     */
+    protected _framebuffers: [Framebuffer, Framebuffer];
+    protected _textures: [Texture2D, Texture2D];
+
+    /**
+     * Index of the last framebuffer written to, undefined if no pass was applied in the last frame.
+     */
+    protected _write: GLuint | undefined;
+
+    /**
+     * Geometry used to draw on, shared with all passes. If no triangle is given, the ndc triangle will be created and
+     * managed internally.
+     */
+    protected _ndcTriangle: NdcFillingTriangle;
+
+    /**
+     * Tracks ownership of the ndc-filling triangle.
+     */
+    protected _ndcTriangleShared = false;
+
+
+    constructor(context: Context) {
+        super();
+        this._context = context;
+    }
+
+
+    /**
+     * Initializes the given pass using the shared geometry and adapts it to the current frame size.
+     */
+    protected initializePass(pass: PostProcessingPass): void {
+        if (!pass.initialized) {
+            pass.initialize(this._ndcTriangle);
+        }
+        pass.resize(this._frameSize);
+    }
+
+
+    /**
+     * Initializes the ping-pong framebuffers as well as all passes added so far.
+     * @param ndcTriangle - If specified, assumed to be used as shared geometry. If none is specified, a ndc-filling
+     * triangle will be created internally.
+     */
+    @Initializable.initialize()
+    initialize(ndcTriangle?: NdcFillingTriangle): boolean {
+        const gl = this._context.gl;
+        const gl2facade = this._context.gl2facade;
+
+        if (ndcTriangle === undefined) {
+            this._ndcTriangle = new NdcFillingTriangle(this._context, 'NdcFillingTriangle-PostProcessing');
+        } else {
+            this._ndcTriangle = ndcTriangle;
+            this._ndcTriangleShared = true;
+        }
+        if (!this._ndcTriangle.initialized) {
+            this._ndcTriangle.initialize(0);
+        }
+
+        this._textures = [
+            new Texture2D(this._context, 'PostProcessingPingTexture'),
+            new Texture2D(this._context, 'PostProcessingPongTexture')];
+        this._framebuffers = [
+            new Framebuffer(this._context, 'PostProcessingPingFBO'),
+            new Framebuffer(this._context, 'PostProcessingPongFBO')];
+
+        const internalFormat = Wizard.queryInternalTextureFormat(this._context, gl.RGBA, this._precision);
+        for (let i = 0; i < 2; ++i) {
+            this._textures[i].initialize(this._frameSize[0], this._frameSize[1],
+                internalFormat[0], gl.RGBA, internalFormat[1]);
+            this._textures[i].filter(gl.LINEAR, gl.LINEAR);
+            this._textures[i].wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+            this._framebuffers[i].initialize([[gl2facade.COLOR_ATTACHMENT0, this._textures[i]]]);
+        }
+
+        for (const pass of this._passes) {
+            this.initializePass(pass);
+        }
+        return true;
+    }
+
+    /**
+     * Uninitializes all passes, the ping-pong framebuffers, and the geometry (if not shared).
+     */
+    @Initializable.uninitialize()
+    uninitialize(): void {
+        for (const pass of this._passes) {
+            if (pass.initialized) {
+                pass.uninitialize();
+            }
+        }
+        if (!this._ndcTriangleShared && this._ndcTriangle.initialized) {
+            this._ndcTriangle.uninitialize();
+        }
+
+        this._framebuffers[0].uninitialize();
+        this._framebuffers[1].uninitialize();
+        this._textures[0].uninitialize();
+        this._textures[1].uninitialize();
+
+        this._write = undefined;
+    }
+
+    /**
+     * Appends a pass to the chain. If the chain is initialized, the pass is initialized (if not already) as well.
+     * The chain takes ownership of the pass, i.e., it is uninitialized with the chain.
+     * @param pass - Pass to append.
+     */
+    push(pass: PostProcessingPass): void {
+        assert(this._passes.indexOf(pass) === -1, `expected pass not to be contained in the chain already`);
+        this._passes.push(pass);
+        if (this.initialized) {
+            this.initializePass(pass);
+        }
+    }
+
+    /**
+     * Removes a pass from the chain. The pass is not uninitialized, i.e., ownership is returned to the caller.
+     * @param pass - Pass to remove.
+     * @returns - Whether or not the pass was contained in the chain.
+     */
+    remove(pass: PostProcessingPass): boolean {
+        const index = this._passes.indexOf(pass);
+        if (index === -1) {
+            return false;
+        }
+        this._passes.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Applies all enabled passes in order, starting with the given color texture as source. Each pass renders into
+     * the framebuffer not read from by the pass. The result is available via {@link framebuffer}.
+     * @param texture - Texture to post-process, expected to be of the chain's frame size.
+     * @returns - Texture holding the result, the given texture if no pass was applied.
+     */
+    @Initializable.assert_initialized()
+    frame(texture: Texture2D): Texture2D {
+        logIf(texture.width !== this._frameSize[0] || texture.height !== this._frameSize[1], LogLevel.Warning,
+            `expected texture to match the frame size ${this._frameSize}, given [${texture.width}, ${texture.height}]`);
+
+        const inputs: PostProcessingPass.Inputs = { depth: this._depthTexture, camera: this._camera };
+
+        this._write = undefined;
+        let source = texture;
+        for (const pass of this._passes) {
+            if (!pass.enabled) {
+                continue;
+            }
+            const write: GLuint = this._write === undefined ? 0 : 1 - this._write;
+            if (!pass.frame(source, this._framebuffers[write], inputs)) {
+                continue;
+            }
+            this._write = write;
+            source = this._textures[write];
+        }
+        return source;
+    }
+
+
+    /**
+     * All passes of the chain in order of application.
+     */
+    get passes(): Array<PostProcessingPass> {
+        return this._passes;
+    }
+
+    /**
+     * Size of the ping-pong framebuffers, which should match the canvas's frame size. All passes are resized, enabled
+     * or not.
+     */
+    set frameSize(size: GLsizei2) {
+        this.assertInitialized();
+        if (this._frameSize[0] === size[0] && this._frameSize[1] === size[1]) {
+            return;
+        }
+        this._frameSize = [size[0], size[1]];
+
+        this._framebuffers[0].resize(size[0], size[1]);
+        this._framebuffers[1].resize(size[0], size[1]);
+        for (const pass of this._passes) {
+            pass.resize(this._frameSize);
+        }
+    }
+
+    get frameSize(): GLsizei2 {
+        return this._frameSize;
+    }
+
+    /**
+     * Precision of the ping-pong framebuffers, which should allow for high dynamic range if tone mapping is used.
+     */
+    set precision(precision: Wizard.Precision) {
+        this.assertInitialized();
+        if (this._precision === precision) {
+            return;
+        }
+        this._precision = precision;
+
+        const gl = this._context.gl;
+        const internalFormat = Wizard.queryInternalTextureFormat(this._context, gl.RGBA, this._precision);
+        this._textures[0].reformat(internalFormat[0], gl.RGBA, internalFormat[1]);
+        this._textures[1].reformat(internalFormat[0], gl.RGBA, internalFormat[1]);
+    }
+
+    get precision(): Wizard.Precision {
+        return this._precision;
+    }
+
+    /**
+     * Depth of the current frame in [0, 1] (red channel), required by depth-based passes, e.g., ambient occlusion and
+     * depth of field.
+     */
+    set depthTexture(texture: Texture2D | undefined) {
+        this._depthTexture = texture;
+    }
+
+    get depthTexture(): Texture2D | undefined {
+        return this._depthTexture;
+    }
+
+    /**
+     * Camera the current frame was rendered with, required by depth-based passes.
+     */
+    set camera(camera: Camera | undefined) {
+        this._camera = camera;
+    }
+
+    get camera(): Camera | undefined {
+        return this._camera;
+    }
+
+    /**
+     * Framebuffer holding the result of the last frame, undefined if no pass was applied.
+     */
+    get framebuffer(): Framebuffer | undefined {
+        return this._write === undefined ? undefined : this._framebuffers[this._write];
+    }
+
+}
@@ -0,0 +1,174 @@
+
+import { GLsizei2 } from './tuples';
+
+import { Camera } from './camera';
+import { Context } from './context';
+import { Framebuffer } from './framebuffer';
+import { Initializable } from './initializable';
+import { NdcFillingTriangle } from './ndcfillingtriangle';
+import { Program } from './program';
+import { Shader } from './shader';
+import { Texture2D } from './texture2d';
+
+
+/**
+ * Base for passes run by a post-processing chain (@see {@link PostProcessingChain}). A pass reads the result of its
+ * predecessor (or the chain's input) from a source texture and renders into a target framebuffer, both provided by
+ * the chain. Additional inputs such as depth and camera are passed on every frame. All passes of a chain share the
+ * chain's ndc-filling triangle. Passes can be disabled at runtime, in which case the chain skips them but retains
+ * their resources, e.g., for re-enabling without reallocation.
+ */
+export abstract class PostProcessingPass extends Initializable {
+
+    /**
+     * Read-only access to the objects context, used to get context information and WebGL API access.
+     */
+    protected _context: Context;
+
+    /**
+     * Shared geometry of the chain used to draw on.
+     */
+    protected _ndcTriangle: NdcFillingTriangle;
+
+    /** @see {@link enabled} */
+    protected _enabled = true;
+
+    /**
+     * Size of the chain's targets, updated on resize.
+     */
+    protected _size: GLsizei2 = [1, 1];
+
+
+    constructor(context: Context) {
+        super();
+        this._context = context;
+    }
+
+
+    /**
+     * Creates a program comprising the ndc vertex shader and the given fragment shader and binds its vertex attribute
+     * to the shared ndc-filling triangle's location.
+     * @param identifier - Identifier of the fragment shader, e.g., its file name.
+     * @param source - Source of the fragment shader.
+     * @param program - Identifier of the program.
+     */
+    protected createProgram(identifier: string, source: string, program: string): Program {
+        const gl = this._context.gl;
+
+        const vert = new Shader(this._context, gl.VERTEX_SHADER, `ndcvertices.vert (${identifier})`);
+        vert.initialize(require('./shaders/ndcvertices.vert'));
+        const frag = new Shader(this._context, gl.FRAGMENT_SHADER, identifier);
+        frag.initialize(source);
+
+        const result = new Program(this._context, program);
+        result.initialize([vert, frag]);
+        result.attribute('a_vertex', this._ndcTriangle.aVertex);
+        return result;
+    }
+
+    /**
+     * Draws the ndc-filling triangle into the full target using the currently bound program, with the given textures
+     * bound to consecutive texture units starting at unit 0.
+     * @param target - Framebuffer to render into.
+     * @param textures - Textures to bind, in order of their texture units.
+     */
+    protected draw(target: Framebuffer, textures: Array<Texture2D>): void {
+        const gl = this._context.gl;
+
+        textures.forEach((texture, index) => texture.bind(gl.TEXTURE0 + index));
+
+        target.bind(gl.DRAW_FRAMEBUFFER); // bind draw only does not work for IE and EDGE
+        gl.viewport(0, 0, target.width, target.height);
+        this._ndcTriangle.bind();
+        this._ndcTriangle.draw();
+        this._ndcTriangle.unbind();
+        target.unbind(gl.DRAW_FRAMEBUFFER);
+
+        textures.forEach((texture, index) => texture.unbind(gl.TEXTURE0 + index));
+    }
+
+    /**
+     * Specializes the pass's initialization, e.g., creation of programs and intermediate targets. The shared
+     * ndc-filling triangle is available at this point.
+     * @returns - Whether or not initialization was successful.
+     */
+    protected abstract onInitialize(): boolean;
+
+    /**
+     * Specializes the pass's uninitialization, i.e., all resources created on initialization should be released.
+     */
+    protected abstract onUninitialize(): void;
+
+    /**
+     * Invoked on resize of the chain's targets, e.g., for resizing intermediate targets. Nothing to do by default.
+     */
+    protected onResize(): void {
+    }
+
+
+    /**
+     * Initializes the pass using the chain's ndc-filling triangle.
+     * @param ndcTriangle - Initialized ndc-filling triangle shared among all passes of a chain.
+     */
+    @Initializable.initialize()
+    initialize(ndcTriangle: NdcFillingTriangle): boolean {
+        this._ndcTriangle = ndcTriangle;
+        return this.onInitialize();
+    }
+
+    /**
+     * Releases all resources of the pass. The shared ndc-filling triangle is not uninitialized.
+     */
+    @Initializable.uninitialize()
+    uninitialize(): void {
+        this.onUninitialize();
+    }
+
+    /**
+     * Adapts the pass to the size of the chain's targets. This is invoked by the chain, regardless of whether or not
+     * the pass is enabled.
+     * @param size - Width and height of the chain's targets.
+     */
+    @Initializable.assert_initialized()
+    resize(size: GLsizei2): void {
+        this._size = [size[0], size[1]];
+        this.onResize();
+    }
+
+    /**
+     * Renders the pass's effect of the source into the target.
+     * @param source - Texture to read the input color from.
+     * @param target - Framebuffer to render into, sized as the source.
+     * @param inputs - Additional per-frame inputs of the chain.
+     * @returns - Whether or not the target was written, false if required inputs are missing. In this case, the
+     * chain continues with the source as is.
+     */
+    abstract frame(source: Texture2D, target: Framebuffer, inputs: PostProcessingPass.Inputs): boolean;
+
+
+    /**
+     * Whether or not the pass is applied by the chain. Toggling does not affect the pass's resources.
+     */
+    set enabled(enabled: boolean) {
+        this._enabled = enabled;
+    }
+
+    get enabled(): boolean {
+        return this._enabled;
+    }
+
+}
+
+
+export namespace PostProcessingPass {
+
+    /**
+     * Per-frame inputs of a post-processing chain. Depth is expected in [0, 1] in the red channel of the depth
+     * texture, generated with the camera's view projection.
+     */
+    export interface Inputs {
+        depth?: Texture2D;
+        camera?: Camera;
+    }
+
+}
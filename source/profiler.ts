@@ -0,0 +1,350 @@
+
+import { Observable, ReplaySubject } from 'rxjs';
+
+import {
+    addPerformanceMeasureListener, assert, log, LogLevel, PerformanceMeasureListener,
+    removePerformanceMeasureListener,
+} from './auxiliaries';
+
+import { Context } from './context';
+
+
+/**
+ * Profiler for measuring GPU timings of named sections within frames using disjoint timer queries
+ * (EXT_disjoint_timer_query or EXT_disjoint_timer_query_webgl2). Query results become available asynchronously, thus,
+ * a frame's report is published via `report$` as soon as all of its queries are resolved, which is usually a few
+ * frames later. If the GPU signals a disjoint operation (e.g., a context switch or throttling), all pending GPU
+ * timings are discarded. CPU timings measured via `logPerformanceStart` and `logPerformanceStop` are merged into the
+ * report of the frame they were measured in (or the next frame if measured in between frames). Frames are delimited
+ * by the controller the profiler is assigned to:
+ * ```
+ * this._profiler = new Profiler(context);
+ * canvas.controller.profiler = this._profiler;
+ * this._profiler.report$.subscribe((report) => console.log(report.timings));
+ * ...
+ * // within onFrame
+ * this._profiler.begin('accumulate');
+ * this._accumulatePass.frame(frameNumber);
+ * this._profiler.end();
+ * ```
+ * Please note that timer queries cannot be nested, i.e., sections have to be ended before another one begins.
+ */
+export class Profiler {
+
+    /**
+     * Interval in milliseconds for polling pending query results when no further frames are rendered.
+     */
+    protected static readonly POLL_INTERVAL = 16;
+
+
+    /** @see {@link context} */
+    protected _context: Context;
+
+    /**
+     * Timer query extension object, undefined if timer queries are not supported.
+     */
+    protected _extension: any;
+
+    /**
+     * Query objects that are not in use anymore and can be reused.
+     */
+    protected _pool = new Array<any>();
+
+    /**
+     * Record of the frame that is currently rendered, if any.
+     */
+    protected _frame: Profiler.FrameRecord | undefined;
+
+    /**
+     * Name of the section currently measured, if any.
+     */
+    protected _section: string | undefined;
+
+    /**
+     * Records of all ended frames in order, waiting for their queries to be resolved.
+     */
+    protected _pending = new Array<Profiler.FrameRecord>();
+
+    /**
+     * CPU timings measured in between frames, merged into the next frame's record.
+     */
+    protected _cpuTimings = new Array<[string, number]>();
+
+    /**
+     * Handle of the pending poll timeout, 0 if none is scheduled.
+     */
+    protected _poll = 0;
+
+    protected _listener: PerformanceMeasureListener;
+
+    /**
+     * @see {@link report$}
+     */
+    protected _reportSubject = new ReplaySubject<Profiler.Report>(1);
+
+
+    /**
+     * Creates a profiler for the given context and starts listening to CPU performance measures.
+     * @param context - Context to measure GPU timings for.
+     */
+    constructor(context: Context) {
+        this._context = context;
+
+        if (context.isWebGL2 && context.supportsDisjointTimerQueryWebGL2) {
+            this._extension = context.disjointTimerQueryWebGL2;
+        } else if (context.isWebGL1 && context.supportsDisjointTimerQuery) {
+            this._extension = context.disjointTimerQuery;
+        } else {
+            log(LogLevel.Info, `timer queries not supported, profiler reports CPU timings only`);
+        }
+
+        this._listener = (mark: string, duration: number) => this.cpu(mark, duration);
+        addPerformanceMeasureListener(this._listener);
+    }
+
+
+    /**
+     * Provides a query object, either reused from the pool or newly created.
+     */
+    protected createQuery(): any {
+        if (this._pool.length > 0) {
+            return this._pool.pop();
+        }
+        return this._context.isWebGL2 ? this._context.gl.createQuery() : this._extension.createQueryEXT();
+    }
+
+    protected deleteQuery(query: any): void {
+        if (this._context.isWebGL2) {
+            this._context.gl.deleteQuery(query);
+        } else {
+            this._extension.deleteQueryEXT(query);
+        }
+    }
+
+    /**
+     * Returns whether or not the result of the given query is available.
+     */
+    protected available(query: any): boolean {
+        const gl = this._context.gl;
+        return this._context.isWebGL2 ? gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE) :
+            this._extension.getQueryObjectEXT(query, this._extension.QUERY_RESULT_AVAILABLE_EXT);
+    }
+
+    /**
+     * Returns the result of the given query in nanoseconds.
+     */
+    protected result(query: any): number {
+        const gl = this._context.gl;
+        return this._context.isWebGL2 ? gl.getQueryParameter(query, gl.QUERY_RESULT) :
+            this._extension.getQueryObjectEXT(query, this._extension.QUERY_RESULT_EXT);
+    }
+
+    /**
+     * Returns the timing of the given section within the frame record, created on first access.
+     */
+    protected timing(frame: Profiler.FrameRecord, name: string): Profiler.Timing {
+        let timing = frame.timings.find((value) => value.name === name);
+        if (timing === undefined) {
+            timing = { name, gpu: undefined, cpu: undefined };
+            frame.timings.push(timing);
+        }
+        return timing;
+    }
+
+    /**
+     * Merges a CPU timing into the current frame or, if in between frames, keeps it for the next frame.
+     */
+    protected cpu(mark: string, duration: number): void {
+        if (this._frame === undefined) {
+            this._cpuTimings.push([mark, duration]);
+            return;
+        }
+        const timing = this.timing(this._frame, mark);
+        timing.cpu = (timing.cpu === undefined ? 0.0 : timing.cpu) + duration;
+    }
+
+    /**
+     * Publishes the reports of all pending frames whose queries are resolved, in order.
+     */
+    protected publish(disjoint: boolean): void {
+        while (this._pending.length > 0) {
+            const frame = this._pending[0];
+            const resolved = frame.queries.every(([, query]) => disjoint || this.available(query));
+            if (!resolved) {
+                break;
+            }
+            this._pending.shift();
+
+            for (const [name, query] of frame.queries) {
+                if (!disjoint) {
+                    const timing = this.timing(frame, name);
+                    timing.gpu = (timing.gpu === undefined ? 0.0 : timing.gpu) + this.result(query) * 1e-6;
+                }
+                this._pool.push(query);
+            }
+            this._reportSubject.next({
+                frameNumber: frame.frameNumber, disjoint: disjoint && frame.queries.length > 0,
+                timings: frame.timings,
+            });
+        }
+    }
+
+    /**
+     * Schedules polling of pending query results if required (and not already scheduled).
+     */
+    protected schedule(): void {
+        if (this._poll !== 0 || this._pending.length === 0) {
+            return;
+        }
+        this._poll = setTimeout(() => {
+            this._poll = 0;
+            this.resolve();
+        }, Profiler.POLL_INTERVAL) as any;
+    }
+
+
+    /**
+     * Starts recording of a frame. All sections and CPU timings until `endFrame` are associated with this frame.
+     * @param frameNumber - Number of the frame, e.g., the controller's intermediate frame number.
+     */
+    beginFrame(frameNumber: number): void {
+        assert(this._frame === undefined, `expected previous frame to be ended before beginning a new one`);
+        this._frame = { frameNumber, timings: new Array<Profiler.Timing>(), queries: new Array<[string, any]>() };
+
+        for (const [mark, duration] of this._cpuTimings) {
+            this.cpu(mark, duration);
+        }
+        this._cpuTimings.length = 0;
+    }
+
+    /**
+     * Ends recording of the current frame and resolves all pending query results available so far.
+     */
+    endFrame(): void {
+        assert(this._frame !== undefined, `expected a frame to be begun before ending it`);
+        assert(this._section === undefined, `expected section '${this._section}' to be ended before the frame`);
+
+        this._pending.push(this._frame!);
+        this._frame = undefined;
+        this.resolve();
+    }
+
+    /**
+     * Begins measuring the GPU time of a named section within the current frame. Sections of the same name within a
+     * frame are accumulated.
+     * @param section - Name of the section, e.g., the pass being rendered.
+     */
+    begin(section: string): void {
+        assert(this._frame !== undefined, `expected section '${section}' to be begun within a frame`);
+        assert(this._section === undefined,
+            `expected section '${this._section}' to be ended before beginning '${section}' (no nesting)`);
+        this._section = section;
+
+        if (this._extension === undefined) {
+            return;
+        }
+        const query = this.createQuery();
+        if (this._context.isWebGL2) {
+            this._context.gl.beginQuery(this._extension.TIME_ELAPSED_EXT, query);
+        } else {
+            this._extension.beginQueryEXT(this._extension.TIME_ELAPSED_EXT, query);
+        }
+        this._frame!.queries.push([section, query]);
+    }
+
+    /**
+     * Ends measuring the GPU time of the current section.
+     */
+    end(): void {
+        assert(this._section !== undefined, `expected a section to be begun before ending it`);
+        this._section = undefined;
+
+        if (this._extension === undefined) {
+            return;
+        }
+        if (this._context.isWebGL2) {
+            this._context.gl.endQuery(this._extension.TIME_ELAPSED_EXT);
+        } else {
+            this._extension.endQueryEXT(this._extension.TIME_ELAPSED_EXT);
+        }
+    }
+
+    /**
+     * Checks for a disjoint operation and publishes reports of all frames whose query results are available. If
+     * results are still pending, polling is scheduled. This is invoked on `endFrame` and needs not be called
+     * explicitly.
+     */
+    resolve(): void {
+        const disjoint = this._extension !== undefined &&
+            this._context.gl.getParameter(this._extension.GPU_DISJOINT_EXT) === true;
+        if (disjoint) {
+            log(LogLevel.Debug, `disjoint timer query operation, discarding ${this._pending.length} frame timings`);
+        }
+        this.publish(disjoint);
+        this.schedule();
+    }
+
+    /**
+     * Stops listening to CPU measures, cancels polling, and deletes all query objects. Pending frames are discarded.
+     */
+    delete(): void {
+        removePerformanceMeasureListener(this._listener);
+        if (this._poll !== 0) {
+            clearTimeout(this._poll);
+            this._poll = 0;
+        }
+        if (this._extension !== undefined) {
+            for (const frame of this._pending) {
+                frame.queries.forEach(([, query]) => this.deleteQuery(query));
+            }
+            this._pool.forEach((query) => this.deleteQuery(query));
+        }
+        this._pending.length = 0;
+        this._pool.length = 0;
+    }
+
+
+    /**
+     * Whether or not GPU timings can be measured (timer queries are supported).
+     */
+    get supported(): boolean {
+        return this._extension !== undefined;
+    }
+
+    /**
+     * Observable that can be used to subscribe to frame reports, published once all timings of a frame are resolved.
+     */
+    get report$(): Observable<Profiler.Report> {
+        return this._reportSubject.asObservable();
+    }
+
+}
+
+
+export namespace Profiler {
+
+    export interface Timing {
+        /** Name of the section or performance mark. */
+        name: string;
+        /** GPU time in milliseconds, undefined if not measured or discarded due to a disjoint operation. */
+        gpu: number | undefined;
+        /** CPU time in milliseconds as measured by `logPerformanceStop`, undefined if not measured. */
+        cpu: number | undefined;
+    }
+
+    export interface Report {
+        frameNumber: number;
+        /** True if GPU timings of this frame were discarded due to a disjoint operation. */
+        disjoint: boolean;
+        /** Timings in order of their first occurrence within the frame. */
+        timings: Array<Timing>;
+    }
+
+    export interface FrameRecord {
+        frameNumber: number;
+        timings: Array<Timing>;
+        /** Section names and their timer queries in order of issue. */
+        queries: Array<[string, any]>;
+    }
+
+}
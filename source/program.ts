@@ -5,11 +5,13 @@ import { Bindable } from './bindable';
 import { Initializable } from './initializable';
 import { AbstractObject } from './object';
 import { Shader } from './shader';
+import { UniformReflection } from './uniformreflection';
 
 
 /**
  * WebGL Program wrapper encapsulating program creation, shader attachment, linking, binding, as well as attribute and
- * uniform location retrieval. A program is intended to be used as follows:
+ * uniform location retrieval. After linking, all active uniforms and attributes are reflected, which allows for typed
+ * uniform uploads via `setUniform` (redundant uploads are skipped). A program is intended to be used as follows:
  *
  * ```
  * const vert = new Shader(this._context, gl.VERTEX_SHADER, 'ndcvertices.vert (blit)');
@@ -25,6 +27,7 @@ import { Shader } from './shader';
  *
  * this._program.bind();
  * gl.uniform1i(uTexture, 0);
+ * this._program.setUniform('u_linearize', [near, far]); // alternatively, dispatched on the reflected type
  * // ... draw
  * this._program.unbind();
  * ```
@@ -43,6 +46,22 @@ export class Program extends AbstractObject<WebGLProgram> implements Bindable {
     /** @see {@link linked} */
     protected _linked = false;
 
+    /** @see {@link uniforms} */
+    protected _uniforms = new Map<string, Program.UniformInfo>();
+
+    /** @see {@link attributes} */
+    protected _attributes = new Map<string, Program.AttributeInfo>();
+
+    /**
+     * Values of the last uniform uploads via setUniform by uniform name, used to skip redundant uploads.
+     */
+    protected _values = new Map<string, UniformReflection.Value>();
+
+    /**
+     * Names of uniforms a warning was logged for (warnings are logged once per uniform and linking).
+     */
+    protected _warned = new Set<string>();
+
 
     /**
      * Creates a WebGLProgram object and attaches, and references all shaders to it. The program is then linked. All
@@ -99,6 +118,142 @@ export class Program extends AbstractObject<WebGLProgram> implements Bindable {
         this._context.gl.deleteProgram(this._object);
         this._object = undefined;
         this._valid = false;
+
+        this.reflect();
+    }
+
+    /**
+     * Queries all active uniforms and attributes of the linked program. Uniforms without location, e.g., members of
+     * uniform blocks, are omitted. All cached uniform values are invalidated, since linking resets all uniforms.
+     */
+    protected reflect(): void {
+        this._uniforms.clear();
+        this._attributes.clear();
+        this._values.clear();
+        this._warned.clear();
+
+        if (!this._linked || this._object === undefined) {
+            return;
+        }
+        const gl = this._context.gl;
+
+        const numUniforms: GLint = gl.getProgramParameter(this._object, gl.ACTIVE_UNIFORMS);
+        for (let index = 0; index < numUniforms; ++index) {
+            const info = gl.getActiveUniform(this._object, index);
+            const location = info ? gl.getUniformLocation(this._object, info.name) : undefined;
+            if (!info || !location) {
+                continue;
+            }
+            const [name, array] = UniformReflection.parseName(info.name);
+            const descriptor = UniformReflection.descriptor(info.type);
+            logIf(descriptor === undefined, LogLevel.Warning,
+                `unsupported type '${info.type}' of uniform '${name}' (${this._identifier})`);
+
+            this._uniforms.set(name, {
+                name, type: info.type, size: descriptor ? descriptor.components : 0,
+                arrayLength: array ? info.size : 1, location,
+            });
+        }
+
+        const numAttributes: GLint = gl.getProgramParameter(this._object, gl.ACTIVE_ATTRIBUTES);
+        for (let index = 0; index < numAttributes; ++index) {
+            const info = gl.getActiveAttrib(this._object, index);
+            if (!info) {
+                continue;
+            }
+            const [name, array] = UniformReflection.parseName(info.name);
+            const descriptor = UniformReflection.descriptor(info.type);
+
+            this._attributes.set(name, {
+                name, type: info.type, size: descriptor ? descriptor.components : 0,
+                arrayLength: array ? info.size : 1, location: gl.getAttribLocation(this._object, info.name),
+            });
+        }
+    }
+
+    /**
+     * Logs a warning for the given uniform, once per uniform until the next linking.
+     * @param uniform - Name of the uniform the warning refers to.
+     * @param message - Warning to log.
+     */
+    protected warnOnce(uniform: string, message: string): void {
+        if (this._warned.has(uniform)) {
+            return;
+        }
+        this._warned.add(uniform);
+        log(LogLevel.Warning, `${message} (${this._identifier})`);
+    }
+
+    /**
+     * Uploads a validated value using the uniform function matching the uniform's type. Unsigned integer and
+     * non-square matrix types are uploaded via the gl2facade.
+     * @param location - Location of the uniform.
+     * @param descriptor - Descriptor of the uniform's type.
+     * @param value - Value to upload.
+     */
+    protected upload(location: WebGLUniformLocation, descriptor: UniformReflection.Descriptor,
+        value: UniformReflection.Value): void {
+
+        const gl = this._context.gl;
+        const gl2facade = this._context.gl2facade;
+
+        const values: ArrayLike<number> = typeof value === 'object' ? value :
+            [typeof value === 'boolean' ? (value ? 1 : 0) : value];
+        const index = descriptor.components - 1;
+
+        switch (descriptor.kind) {
+            case UniformReflection.Kind.Float:
+                [gl.uniform1fv, gl.uniform2fv, gl.uniform3fv, gl.uniform4fv][index].call(gl, location, values);
+                break;
+
+            case UniformReflection.Kind.Int:
+            case UniformReflection.Kind.Bool:
+            case UniformReflection.Kind.Sampler:
+                [gl.uniform1iv, gl.uniform2iv, gl.uniform3iv, gl.uniform4iv][index].call(gl, location, values);
+                break;
+
+            case UniformReflection.Kind.Uint:
+                [gl2facade.uniform1uiv, gl2facade.uniform2uiv, gl2facade.uniform3uiv, gl2facade.uniform4uiv]
+                [index](location, values);
+                break;
+
+            case UniformReflection.Kind.Matrix:
+                switch (descriptor.name) {
+                    case 'mat2':
+                        gl.uniformMatrix2fv(location, false, values);
+                        break;
+                    case 'mat3':
+                        gl.uniformMatrix3fv(location, false, values);
+                        break;
+                    case 'mat4':
+                        gl.uniformMatrix4fv(location, false, values);
+                        break;
+                    case 'mat2x3':
+                        gl2facade.uniformMatrix2x3fv(location, false, values);
+                        break;
+                    case 'mat2x4':
+                        gl2facade.uniformMatrix2x4fv(location, false, values);
+                        break;
+                    case 'mat3x2':
+                        gl2facade.uniformMatrix3x2fv(location, false, values);
+                        break;
+                    case 'mat3x4':
+                        gl2facade.uniformMatrix3x4fv(location, false, values);
+                        break;
+                    case 'mat4x2':
+                        gl2facade.uniformMatrix4x2fv(location, false, values);
+                        break;
+                    case 'mat4x3':
+                        gl2facade.uniformMatrix4x3fv(location, false, values);
+                        break;
+                    default:
+                        assert(false, `unknown matrix type '${descriptor.name}'`);
+                }
+                break;
+
+            default:
+                assert(false, `unknown uniform kind '${descriptor.kind}'`);
+        }
     }
 
 
@@ -171,6 +326,7 @@ export class Program extends AbstractObject<WebGLProgram> implements Bindable {
         } else {
             this._linked = true;
         }
+        this.reflect();
         return this._linked;
     }
 
@@ -221,6 +377,63 @@ export class Program extends AbstractObject<WebGLProgram> implements Bindable {
         }
     }
 
+    /**
+     * Uploads a value to an active uniform using the uniform function matching the uniform's reflected type, e.g.,
+     * uniform3fv for vec3, uniform1iv for samplers, or uniformMatrix4fv for mat4. Array uniforms can be set (partially)
+     * using their name without array suffix. If the value equals the last value set, the upload is skipped. Unknown
+     * (or inactive) uniforms and values mismatching the uniform's type are not uploaded and a warning is logged once.
+     * Note that the program is expected to be bound and that uniforms set by other means are not cached.
+     * @param uniform - Name of an active uniform, e.g., 'u_kernel' or 'u_light.color'.
+     * @param value - Value to upload: numbers, booleans (bool types only), or array-likes such as gl-matrix types.
+     * @returns - True if the uniform has the given value (uploaded or cached), false otherwise.
+     */
+    @Initializable.assert_initialized()
+    setUniform(uniform: string, value: UniformReflection.Value): boolean {
+        const info = this._uniforms.get(uniform);
+        if (info === undefined) {
+            this.warnOnce(uniform, `uniform '${uniform}' is unknown or inactive`);
+            return false;
+        }
+        const descriptor = UniformReflection.descriptor(info.type);
+        if (descriptor === undefined) {
+            this.warnOnce(uniform, `uniform '${uniform}' is of unsupported type '${info.type}'`);
+            return false;
+        }
+
+        const mismatch = UniformReflection.validate(descriptor, info.arrayLength, value);
+        if (mismatch !== undefined) {
+            this.warnOnce(uniform, `value mismatches uniform '${uniform}': ${mismatch}`);
+            return false;
+        }
+
+        if (UniformReflection.equals(this._values.get(uniform), value)) {
+            return true;
+        }
+        this.upload(info.location, descriptor, value);
+        this._values.set(uniform, UniformReflection.clone(value));
+        return true;
+    }
+
+    /**
+     * Associates a uniform block of the program with a uniform buffer binding point (WebGL2 only).
+     * @param block - Name of the uniform block as declared in GLSL, e.g., 'Camera'.
+     * @param bindingPoint - Index of the binding point a uniform buffer is bound to (@see {@link UniformBuffer}).
+     * @returns - True if the block is active and was associated, false otherwise.
+     */
+    @Initializable.assert_initialized()
+    uniformBlockBinding(block: string, bindingPoint: GLuint): boolean {
+        assert(this._context.isWebGL2, `uniform blocks require a WebGL2 context`);
+        const gl = this._context.gl;
+
+        const index: GLuint = gl.getUniformBlockIndex(this._object, block);
+        if (index === gl.INVALID_INDEX) {
+            log(LogLevel.Warning, `uniform block '${block}' is unknown or inactive (${this._identifier})`);
+            return false;
+        }
+        gl.uniformBlockBinding(this._object, index, bindingPoint);
+        return true;
+    }
+
 
     /**
      * Provides access (leaky abstraction) to all shaders attached to this program.
@@ -236,4 +449,45 @@ export class Program extends AbstractObject<WebGLProgram> implements Bindable {
         return this._linked;
     }
 
+    /**
+     * All active uniforms of the linked program by name (without array suffix).
+     */
+    get uniforms(): Map<string, Program.UniformInfo> {
+        return this._uniforms;
+    }
+
+    /**
+     * All active attributes of the linked program by name (without array suffix).
+     */
+    get attributes(): Map<string, Program.AttributeInfo> {
+        return this._attributes;
+    }
+
+}
+
+
+export namespace Program {
+
+    export interface UniformInfo {
+        name: string;
+        /** Type enum as reported by getActiveUniform, e.g., gl.FLOAT_VEC3. */
+        type: GLenum;
+        /** Number of components per element, e.g., 3 for vec3 (0 for unsupported types). */
+        size: GLsizei;
+        /** Number of array elements (1 for non-array uniforms). */
+        arrayLength: GLsizei;
+        location: WebGLUniformLocation;
+    }
+
+    export interface AttributeInfo {
+        name: string;
+        /** Type enum as reported by getActiveAttrib, e.g., gl.FLOAT_VEC3. */
+        type: GLenum;
+        /** Number of components per element, e.g., 3 for vec3 (0 for unsupported types). */
+        size: GLsizei;
+        /** Number of array elements (1 for non-array attributes). */
+        arrayLength: GLsizei;
+        location: GLint;
+    }
+
 }
@@ -66,6 +66,14 @@ export class ReadbackPass extends Initializable {
         this._idAttachment = attachment;
     }
 
+    /**
+     * Whether or not depth is reversed (@see {@link Camera.reversedZ}), i.e., cleared to 0.0 instead of 1.0. If set,
+     * a depth of [0, 0, 0] is considered cleared and results in undefined depth and coordinates.
+     */
+    set reversedZ(reversed: boolean) {
+        this._reversedZ = reversed;
+    }
+
     /**
      * Sets the coordinate-reference size that is, if not undefined, used to scale incomming x and y coordinates.
      * @param size - Size of the output, e.g., the canvas, the buffer is rendered to.
@@ -90,6 +98,9 @@ export class ReadbackPass extends Initializable {
     /** @see {@link depthAttachment} */
     protected _depthAttachment: GLenum = 0;
 
+    /** @see {@link reversedZ} */
+    protected _reversedZ = false;
+
     /**
      * Cache providing previously read depth values for a given position hash.
      */
@@ -375,8 +386,9 @@ export class ReadbackPass extends Initializable {
 
         const buffer: Uint8Array = this.readDepthAt(x, y);
 
-        /* See notes above for more info on this weird convention. */
-        const depth: GLfloat | undefined = buffer[0] === 255 && buffer[1] === 255 && buffer[2] === 255 ?
+        /* See notes above for more info on this weird convention (reversed depth is cleared to 0.0 instead). */
+        const cleared = this._reversedZ ? 0 : 255;
+        const depth: GLfloat | undefined = buffer[0] === cleared && buffer[1] === cleared && buffer[2] === cleared ?
             undefined : decode_float24x1_from_uint8x3(vec3.fromValues(buffer[0], buffer[1], buffer[2]));
 
         if (this._cache) {
@@ -387,7 +399,8 @@ export class ReadbackPass extends Initializable {
     }
 
     /**
-     * Retrieving the world space coordinate of a fragment.
+     * Retrieving the world space coordinate of a fragment. The depth is unprojected using the given inverse view
+     * projection, thus, this works for perspective as well as orthographic (and off-axis) projections.
      * @param x - Horizontal coordinate for the upper left corner of the viewport origin.
      * @param y - Vertical coordinate for the upper left corner of the viewport origin.
      * @param zInNDC - optional depth parameter (e.g., from previous query).
@@ -1,7 +1,7 @@
 
 import { Observable, ReplaySubject } from 'rxjs';
 
-import { vec2, vec4 } from 'gl-matrix';
+import { mat4, vec2, vec4 } from 'gl-matrix';
 
 import { assert, logIf, LogLevel } from './auxiliaries';
 import { clamp, v2 } from './gl-matrix-extensions';
@@ -9,8 +9,10 @@ import { clamp, v2 } from './gl-matrix-extensions';
 import { ChangeLookup } from './changelookup';
 import { Context } from './context';
 import { Controllable } from './controller';
+import { Framebuffer } from './framebuffer';
 import { Initializable } from './initializable';
 import { MouseEventProvider } from './mouseeventprovider';
+import { PointerEventProvider } from './pointereventprovider';
 import { TouchEventProvider } from './toucheventprovider';
 import { GLclampf4, GLfloat2, GLsizei2, tuple2 } from './tuples';
 import { Wizard } from './wizard';
@@ -59,7 +61,7 @@ export abstract class Renderer extends Initializable implements Controllable {
      */
     protected readonly _altered = Object.assign(new ChangeLookup(), {
         any: false, multiFrameNumber: false, frameSize: false, canvasSize: false, framePrecision: false,
-        clearColor: false, debugTexture: false,
+        clearColor: false, debugTexture: false, tileTransform: false,
     });
 
 
@@ -94,6 +96,13 @@ export abstract class Renderer extends Initializable implements Controllable {
      */
     protected _clearColor: GLclampf4 = [0.0, 0.0, 0.0, 1.0];
 
+    /**
+     * Transform from normalized device coordinates of the full image to the ones of the tile currently rendered, e.g.,
+     * when capturing frames that exceed the maximum viewport size. This is the identity if no tile is rendered and
+     * should be applied after projection by inheritors that support tiled rendering (@see {@link supportsTiles}).
+     */
+    protected _tileTransform: mat4 = mat4.create();
+
 
     /**
      * List of textures for debugging purposes such as normals, ids, depth, masks, etc. that can be populated by the
@@ -156,7 +165,8 @@ export abstract class Renderer extends Initializable implements Controllable {
     protected abstract onInitialize(context: Context, callback: Invalidate,
         mouseEventProvider: MouseEventProvider | undefined,
         /* keyEventProvider: KeyEventProvider | undefined, */
-        touchEventProvider: TouchEventProvider | undefined): boolean;
+        touchEventProvider: TouchEventProvider | undefined,
+        pointerEventProvider?: PointerEventProvider): boolean;
 
     /**
      * Actual uninitialize call specified by inheritor.
@@ -206,19 +216,22 @@ export abstract class Renderer extends Initializable implements Controllable {
      * @param context - Wrapped gl context for function resolution (passed to all stages).
      * @param callback - Functions that is invoked when the renderer (or any stage) is invalidated.
      * @param mouseEventProvider - Provider for mouse events referring to the canvas element.
+     * @param touchEventProvider - Provider for touch events referring to the canvas element.
+     * @param pointerEventProvider - Provider for pointer events (mouse, pen, and touch) referring to the canvas.
      */
     @Initializable.initialize()
     initialize(context: Context, callback: Invalidate,
         mouseEventProvider: MouseEventProvider | undefined,
         /* keyEventProvider: KeyEventProvider | undefined, */
-        touchEventProvider: TouchEventProvider | undefined): boolean {
+        touchEventProvider: TouchEventProvider | undefined,
+        pointerEventProvider?: PointerEventProvider): boolean {
 
         assert(context !== undefined, `valid webgl context required`);
         this._context = context;
         assert(callback !== undefined, `valid multi-frame update callback required`);
         this._invalidate = callback;
 
-        return this.onInitialize(context, callback, mouseEventProvider, touchEventProvider);
+        return this.onInitialize(context, callback, mouseEventProvider, touchEventProvider, pointerEventProvider);
     }
 
     /**
@@ -311,6 +324,13 @@ export abstract class Renderer extends Initializable implements Controllable {
     // abstract idAt(x: GLint, y: GLint): GLsizei | undefined;
 
 
+    /**
+     * Targeted resolution for image synthesis as set by the canvas (or temporarily by a frame capture).
+     */
+    get frameSize(): GLsizei2 {
+        return this._frameSize;
+    }
+
     /**
      * Changes the frame size for rendering. This setter should only be used by the canvas this renderer is bound to.
      * Changing the frame size invalidates the renderer.
@@ -359,6 +379,38 @@ export abstract class Renderer extends Initializable implements Controllable {
         this.invalidate();
     }
 
+    /**
+     * Sets the transform from normalized device coordinates of the full image to the ones of the tile to be rendered.
+     * Changing the tile transform invalidates the renderer.
+     * @param transform - Tile transform, identity if the full image is rendered.
+     */
+    set tileTransform(transform: mat4) {
+        this.assertInitialized();
+        if (mat4.equals(this._tileTransform, transform)) {
+            return;
+        }
+        mat4.copy(this._tileTransform, transform);
+        this._altered.alter('tileTransform');
+        this.invalidate();
+    }
+
+    /**
+     * Whether or not the renderer applies the tile transform, i.e., supports rendering of tiles of a larger image.
+     * Inheritors that apply the tile transform after projection should override this to return true.
+     */
+    get supportsTiles(): boolean {
+        return false;
+    }
+
+    /**
+     * Framebuffer and color attachment providing the final (accumulated) frame in frame size, used for capturing.
+     * Inheritors should override this to support frame capture, e.g., returning the accumulation pass's framebuffer.
+     * By default, undefined is returned, i.e., capturing is not supported.
+     */
+    get captureTarget(): [Framebuffer, GLenum] | undefined {
+        return undefined;
+    }
+
     /**
      * Read only access to the renderers registered render textures that can be blit to the back buffer for debugging.
      * @returns - Array of render texture identifiers.
@@ -0,0 +1,179 @@
+
+import { assert } from './auxiliaries';
+
+
+/**
+ * Decoder for Radiance .hdr images (RGBE). Each texel is stored as 8 bit mantissas for red, green, and blue sharing an
+ * 8 bit exponent, with scanlines being run-length encoded (new RLE) or flat. The decoder is independent of any context:
+ * decoded RGBE bytes can be uploaded as is into RGBA8 textures and decoded in shaders, or converted to floats:
+ * ```
+ * const image = RGBEDecoder.decode(buffer);
+ * const rgb = RGBEDecoder.toFloat(image.data);
+ * ```
+ * Scanlines are provided top to bottom, i.e., the first texel is the upper left one of the image.
+ */
+export class RGBEDecoder {
+
+    /**
+     * Maximum length of a line within the textual header.
+     */
+    protected static readonly MAX_LINE_LENGTH = 1024;
+
+
+    /**
+     * Reads a line of the textual header, excluding the line feed.
+     * @param bytes - Content of the file.
+     * @param offset - Offset of the first character of the line.
+     * @returns - Line and offset of the subsequent line.
+     */
+    protected static readLine(bytes: Uint8Array, offset: number): [string, number] {
+        let line = '';
+        const end = Math.min(bytes.length, offset + RGBEDecoder.MAX_LINE_LENGTH);
+        for (let i = offset; i < end; ++i) {
+            if (bytes[i] === 0x0A) {
+                return [line, i + 1];
+            }
+            line += String.fromCharCode(bytes[i]);
+        }
+        assert(false, `expected line feed within ${RGBEDecoder.MAX_LINE_LENGTH} characters of the RGBE header`);
+        return [line, end];
+    }
+
+    /**
+     * Decodes a single run-length encoded scanline (new RLE): the four components are encoded consecutively, each
+     * as sequence of runs (count above 128) and literal spans.
+     * @returns - Offset subsequent to the scanline.
+     */
+    protected static decodeScanline(bytes: Uint8Array, offset: number, width: number, out: Uint8Array,
+        outOffset: number): number {
+
+        for (let component = 0; component < 4; ++component) {
+            let x = 0;
+            while (x < width) {
+                assert(offset < bytes.length, `expected RGBE scanline data in range`);
+                let count = bytes[offset++];
+                if (count > 128) {
+                    count -= 128;
+                    assert(count > 0 && x + count <= width, `expected RGBE run within scanline`);
+                    const value = bytes[offset++];
+                    for (let i = 0; i < count; ++i, ++x) {
+                        out[outOffset + x * 4 + component] = value;
+                    }
+                } else {
+                    assert(count > 0 && x + count <= width, `expected RGBE span within scanline`);
+                    for (let i = 0; i < count; ++i, ++x) {
+                        out[outOffset + x * 4 + component] = bytes[offset++];
+                    }
+                }
+            }
+        }
+        return offset;
+    }
+
+    /**
+     * Checks for the Radiance signature ('#?RADIANCE' or '#?RGBE').
+     * @param data - Content of the file.
+     */
+    static isRGBE(data: ArrayBuffer): boolean {
+        const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 10));
+        let signature = '';
+        bytes.forEach((byte) => signature += String.fromCharCode(byte));
+        return signature.indexOf('#?RADIANCE') === 0 || signature.indexOf('#?RGBE') === 0;
+    }
+
+    /**
+     * Decodes a Radiance .hdr image into RGBE bytes.
+     * @param data - Content of the file.
+     * @returns - Decoded image with four bytes (RGBE) per texel, top scanline first.
+     */
+    static decode(data: ArrayBuffer): RGBEDecoder.Image {
+        assert(RGBEDecoder.isRGBE(data), `expected Radiance signature`);
+        const bytes = new Uint8Array(data);
+
+        let exposure = 1.0;
+        let gamma = 1.0;
+
+        /* The header is terminated by an empty line, followed by the resolution string. */
+        let [line, offset] = RGBEDecoder.readLine(bytes, 0); /* signature */
+        [line, offset] = RGBEDecoder.readLine(bytes, offset);
+        while (line.length > 0) {
+            if (line.indexOf('FORMAT=') === 0) {
+                assert(line === 'FORMAT=32-bit_rle_rgbe', `expected RGBE format, given '${line.substr(7)}'`);
+            } else if (line.indexOf('EXPOSURE=') === 0) {
+                exposure *= parseFloat(line.substr(9));
+            } else if (line.indexOf('GAMMA=') === 0) {
+                gamma = parseFloat(line.substr(6));
+            }
+            [line, offset] = RGBEDecoder.readLine(bytes, offset);
+        }
+
+        [line, offset] = RGBEDecoder.readLine(bytes, offset);
+        const resolution = line.trim().split(/\s+/);
+        assert(resolution.length === 4 && (resolution[0] === '-Y' || resolution[0] === '+Y') && resolution[2] === '+X',
+            `expected resolution of '-Y height +X width' or '+Y height +X width', given '${line}'`);
+        const height = parseInt(resolution[1], 10);
+        const width = parseInt(resolution[3], 10);
+        assert(width > 0 && height > 0, `expected valid RGBE image size, given ${width}x${height}`);
+
+        const rgbe = new Uint8Array(width * height * 4);
+        const bytesPerScanline = width * 4;
+        for (let y = 0; y < height; ++y) {
+            /* Scanlines of '+Y' images are stored bottom to top. */
+            const outOffset = (resolution[0] === '-Y' ? y : height - y - 1) * bytesPerScanline;
+
+            const rle = width >= 8 && width < 0x8000 && bytes[offset] === 2 && bytes[offset + 1] === 2
+                && (bytes[offset + 2] & 0x80) === 0;
+            if (rle) {
+                assert(((bytes[offset + 2] << 8) | bytes[offset + 3]) === width, `expected RGBE scanline width to ` +
+                    `match the image width ${width}`);
+                offset = RGBEDecoder.decodeScanline(bytes, offset + 4, width, rgbe, outOffset);
+            } else { /* flat scanline */
+                assert(offset + bytesPerScanline <= bytes.length, `expected RGBE scanline data in range`);
+                rgbe.set(bytes.subarray(offset, offset + bytesPerScanline), outOffset);
+                offset += bytesPerScanline;
+            }
+        }
+        return { width, height, exposure, gamma, data: rgbe };
+    }
+
+    /**
+     * Converts RGBE bytes to linear floating point RGB, i.e., each mantissa scaled by two to the power of the shared
+     * exponent (biased by 128 + 8). Texels with zero exponent are black.
+     * @param rgbe - Four bytes per texel.
+     * @param exposure - Optional scale of the converted values, e.g., to compensate the image's exposure.
+     * @returns - Three floats per texel.
+     */
+    static toFloat(rgbe: Uint8Array, exposure: number = 1.0): Float32Array {
+        const count = Math.floor(rgbe.length / 4);
+        const rgb = new Float32Array(count * 3);
+        for (let i = 0; i < count; ++i) {
+            const exponent = rgbe[i * 4 + 3];
+            if (exponent === 0) {
+                continue;
+            }
+            const scale = Math.pow(2.0, exponent - 136) * exposure;
+            rgb[i * 3 + 0] = rgbe[i * 4 + 0] * scale;
+            rgb[i * 3 + 1] = rgbe[i * 4 + 1] * scale;
+            rgb[i * 3 + 2] = rgbe[i * 4 + 2] * scale;
+        }
+        return rgb;
+    }
+
+}
+
+
+export namespace RGBEDecoder {
+
+    /**
+     * Decoded image. Exposure and gamma are provided as specified in the header (1.0 if not specified), i.e., they
+     * are not applied to the data.
+     */
+    export interface Image {
+        width: number;
+        height: number;
+        exposure: number;
+        gamma: number;
+        data: Uint8Array;
+    }
+
+}
@@ -0,0 +1,112 @@
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { v3 } from '../gl-matrix-extensions';
+
+import { Camera } from '../camera';
+
+import { SceneNodeComponent } from './scenenodecomponent';
+
+
+/**
+ * Component that drives a camera by the world transform of the node it is attached to. The camera's eye, center, and
+ * up are specified in the node's local space (by default the camera's settings at construction) and transformed into
+ * world space on every world transform change. Note that the camera should not be modified by, e.g., a navigation
+ * while attached, since its eye, center, and up are overridden on update (modify the node's transform instead).
+ */
+export class CameraComponent extends SceneNodeComponent {
+
+    /** @see {@link camera} */
+    protected _camera: Camera;
+
+    /** @see {@link eye} */
+    protected _eye: vec3;
+
+    /** @see {@link center} */
+    protected _center: vec3;
+
+    /** @see {@link up} */
+    protected _up: vec3;
+
+
+    /**
+     * Creates a component for the given camera, using the camera's current eye, center, and up as local settings.
+     * @param camera - Camera to be driven by the node's world transform.
+     */
+    constructor(camera: Camera) {
+        super();
+        this._camera = camera;
+
+        this._eye = vec3.clone(camera.eye);
+        this._center = vec3.clone(camera.center);
+        this._up = vec3.clone(camera.up);
+    }
+
+
+    /**
+     * Transforms the local eye, center, and up into world space and applies them to the camera.
+     */
+    protected onWorldChanged(world: mat4): void {
+        const eye = vec3.transformMat4(v3(), this._eye, world);
+        const center = vec3.transformMat4(v3(), this._center, world);
+
+        /* Up is a direction, thus, transform the point at the tip of up (relative to eye) instead. */
+        const up = vec3.transformMat4(v3(), vec3.add(v3(), this._eye, this._up), world);
+        vec3.normalize(up, vec3.subtract(up, up, eye));
+
+        this._camera.eye = eye;
+        this._camera.center = center;
+        this._camera.up = up;
+    }
+
+    /**
+     * Applies altered local settings immediately, if attached to a node.
+     */
+    protected reapply(): void {
+        if (this._node !== undefined) {
+            this.onWorldChanged(this._node.world);
+        }
+    }
+
+
+    /**
+     * The camera driven by this component.
+     */
+    get camera(): Camera {
+        return this._camera;
+    }
+
+    /**
+     * Eye in the node's local space.
+     */
+    set eye(eye: vec3) {
+        this._eye = vec3.clone(eye);
+        this.reapply();
+    }
+    get eye(): vec3 {
+        return this._eye;
+    }
+
+    /**
+     * Center in the node's local space.
+     */
+    set center(center: vec3) {
+        this._center = vec3.clone(center);
+        this.reapply();
+    }
+    get center(): vec3 {
+        return this._center;
+    }
+
+    /**
+     * Up vector in the node's local space.
+     */
+    set up(up: vec3) {
+        this._up = vec3.clone(up);
+        this.reapply();
+    }
+    get up(): vec3 {
+        return this._up;
+    }
+
+}
@@ -0,0 +1,57 @@
+
+import { mat4 } from 'gl-matrix';
+
+import { Geometry } from '../geometry';
+
+import { SceneNodeComponent } from './scenenodecomponent';
+
+
+/**
+ * Component referencing a geometry that is to be drawn using the world transform of the node it is attached to. An
+ * optional material can be associated with the geometry, its interpretation is left to the renderer.
+ */
+export class GeometryComponent<M = any> extends SceneNodeComponent {
+
+    /** @see {@link geometry} */
+    protected _geometry: Geometry;
+
+    /** @see {@link material} */
+    protected _material: M | undefined;
+
+
+    /**
+     * Creates a component for the given geometry.
+     * @param geometry - Geometry to be drawn (initialization is left to the owner).
+     * @param material - Optional material, e.g., a @see {@link GLTFMaterial}.
+     */
+    constructor(geometry: Geometry, material?: M) {
+        super();
+        this._geometry = geometry;
+        this._material = material;
+    }
+
+
+    /**
+     * Geometries do not depend on the world transform, the renderer is expected to pass it to its program.
+     */
+    protected onWorldChanged(world: mat4): void { }
+
+
+    /**
+     * The geometry to be drawn.
+     */
+    get geometry(): Geometry {
+        return this._geometry;
+    }
+
+    /**
+     * Material associated with the geometry, if any.
+     */
+    set material(material: M | undefined) {
+        this._material = material;
+    }
+    get material(): M | undefined {
+        return this._material;
+    }
+
+}
@@ -0,0 +1,6 @@
+export { CameraComponent } from './cameracomponent';
+export { GeometryComponent } from './geometrycomponent';
+export { LabelComponent } from './labelcomponent';
+export { LightComponent } from './lightcomponent';
+export { SceneNode } from './scenenode';
+export { SceneNodeComponent } from './scenenodecomponent';
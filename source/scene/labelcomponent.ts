@@ -0,0 +1,109 @@
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { v3 } from '../gl-matrix-extensions';
+
+import { Position3DLabel } from '../text/position3dlabel';
+
+import { SceneNodeComponent } from './scenenodecomponent';
+
+
+/**
+ * Component that places a 3D label at the node it is attached to. The label's position, direction, and up are
+ * specified in the node's local space (by default the origin, the x-axis, and the y-axis) and transformed into world
+ * space on every world transform change. The label is re-typeset by the label render pass due to its alteration.
+ * Please note that only translation and rotation of the node are applied; scaling is expected to be done via the
+ * label's font size.
+ */
+export class LabelComponent extends SceneNodeComponent {
+
+    /** @see {@link label} */
+    protected _label: Position3DLabel;
+
+    /** @see {@link position} */
+    protected _position: vec3 = v3();
+
+    /** @see {@link direction} */
+    protected _direction: vec3 = vec3.fromValues(1.0, 0.0, 0.0);
+
+    /** @see {@link up} */
+    protected _up: vec3 = vec3.fromValues(0.0, 1.0, 0.0);
+
+
+    /**
+     * Creates a component for the given label.
+     * @param label - Label to be positioned by the node's world transform.
+     */
+    constructor(label: Position3DLabel) {
+        super();
+        this._label = label;
+    }
+
+
+    /**
+     * Transforms the local position, direction, and up into world space and applies them to the label.
+     */
+    protected onWorldChanged(world: mat4): void {
+        const position = vec3.transformMat4(v3(), this._position, world);
+
+        const direction = vec3.transformMat4(v3(), vec3.add(v3(), this._position, this._direction), world);
+        vec3.subtract(direction, direction, position);
+        const up = vec3.transformMat4(v3(), vec3.add(v3(), this._position, this._up), world);
+        vec3.subtract(up, up, position);
+
+        this._label.position = position;
+        this._label.direction = direction; /* Normalized by label. */
+        this._label.up = up;
+    }
+
+    /**
+     * Applies altered local settings immediately, if attached to a node.
+     */
+    protected reapply(): void {
+        if (this._node !== undefined) {
+            this.onWorldChanged(this._node.world);
+        }
+    }
+
+
+    /**
+     * The label positioned by this component.
+     */
+    get label(): Position3DLabel {
+        return this._label;
+    }
+
+    /**
+     * Position of the label's reference point in the node's local space.
+     */
+    set position(position: vec3) {
+        this._position = vec3.clone(position);
+        this.reapply();
+    }
+    get position(): vec3 {
+        return this._position;
+    }
+
+    /**
+     * Baseline direction of the label in the node's local space.
+     */
+    set direction(direction: vec3) {
+        this._direction = vec3.clone(direction);
+        this.reapply();
+    }
+    get direction(): vec3 {
+        return this._direction;
+    }
+
+    /**
+     * Up vector of the label in the node's local space.
+     */
+    set up(up: vec3) {
+        this._up = vec3.clone(up);
+        this.reapply();
+    }
+    get up(): vec3 {
+        return this._up;
+    }
+
+}
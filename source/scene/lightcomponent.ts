@@ -0,0 +1,147 @@
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { v3 } from '../gl-matrix-extensions';
+
+import { SceneNodeComponent } from './scenenodecomponent';
+
+
+/**
+ * Component describing a punctual light source (directional, point, or spot light as in KHR_lights_punctual) located
+ * at the origin of the node it is attached to and pointing towards the node's local negative z-axis. The light's world
+ * space position and direction are derived on world transform change and can be passed to a program directly.
+ */
+export class LightComponent extends SceneNodeComponent {
+
+    /** @see {@link type} */
+    protected _type: LightComponent.Type;
+
+    /** @see {@link color} */
+    protected _color: vec3 = vec3.fromValues(1.0, 1.0, 1.0);
+
+    /** @see {@link intensity} */
+    protected _intensity = 1.0;
+
+    /** @see {@link range} */
+    protected _range: number | undefined;
+
+    /** @see {@link innerConeAngle} */
+    protected _innerConeAngle = 0.0;
+
+    /** @see {@link outerConeAngle} */
+    protected _outerConeAngle = Math.PI * 0.25;
+
+    /** @see {@link position} */
+    protected _position: vec3 = v3();
+
+    /** @see {@link direction} */
+    protected _direction: vec3 = vec3.fromValues(0.0, 0.0, -1.0);
+
+
+    /**
+     * Creates a light component of the given type.
+     * @param type - Type of the light source.
+     */
+    constructor(type: LightComponent.Type = LightComponent.Type.Directional) {
+        super();
+        this._type = type;
+    }
+
+
+    /**
+     * Derives world space position and direction of the light.
+     */
+    protected onWorldChanged(world: mat4): void {
+        vec3.transformMat4(this._position, [0.0, 0.0, 0.0], world);
+
+        const tip = vec3.transformMat4(v3(), [0.0, 0.0, -1.0], world);
+        vec3.normalize(this._direction, vec3.subtract(tip, tip, this._position));
+    }
+
+
+    /**
+     * Type of the light source.
+     */
+    set type(type: LightComponent.Type) {
+        this._type = type;
+    }
+    get type(): LightComponent.Type {
+        return this._type;
+    }
+
+    /**
+     * Linear RGB color of the light.
+     */
+    set color(color: vec3) {
+        this._color = vec3.clone(color);
+    }
+    get color(): vec3 {
+        return this._color;
+    }
+
+    /**
+     * Brightness of the light (unit depends on the renderer, e.g., lux for directional and candela for point lights).
+     */
+    set intensity(intensity: number) {
+        this._intensity = intensity;
+    }
+    get intensity(): number {
+        return this._intensity;
+    }
+
+    /**
+     * Distance cutoff of point and spot lights, undefined for infinite range.
+     */
+    set range(range: number | undefined) {
+        this._range = range;
+    }
+    get range(): number | undefined {
+        return this._range;
+    }
+
+    /**
+     * Angle in radians from the spot direction at which the falloff begins.
+     */
+    set innerConeAngle(angle: number) {
+        this._innerConeAngle = angle;
+    }
+    get innerConeAngle(): number {
+        return this._innerConeAngle;
+    }
+
+    /**
+     * Angle in radians from the spot direction at which the falloff ends.
+     */
+    set outerConeAngle(angle: number) {
+        this._outerConeAngle = angle;
+    }
+    get outerConeAngle(): number {
+        return this._outerConeAngle;
+    }
+
+    /**
+     * Position of the light in world space (as of the last update).
+     */
+    get position(): vec3 {
+        return this._position;
+    }
+
+    /**
+     * Normalized direction of the light in world space (as of the last update).
+     */
+    get direction(): vec3 {
+        return this._direction;
+    }
+
+}
+
+
+export namespace LightComponent {
+
+    export enum Type {
+        Directional = 'directional',
+        Point = 'point',
+        Spot = 'spot',
+    }
+
+}
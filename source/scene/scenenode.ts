@@ -0,0 +1,308 @@
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { assert } from '../auxiliaries';
+import { m4, v3 } from '../gl-matrix-extensions';
+
+import { ChangeLookup } from '../changelookup';
+
+import { SceneNodeComponent } from './scenenodecomponent';
+
+
+/**
+ * Node of a scene graph with a local transform (relative to its parent), a lazily computed world transform, a
+ * parent/child hierarchy, and an arbitrary number of components (e.g., geometry, camera, light, or label). Alterations
+ * are tracked using a change lookup: altering a node's local transform invalidates the world transforms of its
+ * subtree and marks all its ancestors as having an altered subtree. Thus, a renderer can check the root node for
+ * alterations in `onUpdate`, update all world transforms and components in `onPrepare` and traverse the graph in
+ * `onFrame`:
+ * ```
+ * protected onUpdate(): boolean {
+ *     return this._altered.any || this._camera.altered || this._scene.altered;
+ * }
+ * protected onPrepare(): void {
+ *     this._scene.update();
+ * }
+ * protected onFrame(frameNumber: number): void {
+ *     this._scene.traverse((node) => {
+ *         for (const component of node.componentsOfType(GeometryComponent)) {
+ *             gl.uniformMatrix4fv(this._uModel, false, node.world);
+ *             component.geometry.bind();
+ *             component.geometry.draw();
+ *         }
+ *     });
+ * }
+ * ```
+ */
+export class SceneNode {
+
+    /** @see {@link name} */
+    protected _name: string;
+
+    /** @see {@link parent} */
+    protected _parent: SceneNode | undefined;
+
+    /** @see {@link children} */
+    protected _children = new Array<SceneNode>();
+
+    /** @see {@link components} */
+    protected _components = new Array<SceneNodeComponent>();
+
+    /** @see {@link transform} */
+    protected _local: mat4 = m4();
+
+    /** @see {@link world} */
+    protected _world: mat4 = m4();
+
+    /**
+     * Whether or not the cached world transform is valid. If invalid, the world transforms of all descendants are
+     * invalid as well.
+     */
+    protected _worldValid = true;
+
+    /**
+     * Alterations of the node since the last update: its local transform, its world transform, its components, or any
+     * node in its subtree (children).
+     */
+    protected readonly _altered = Object.assign(new ChangeLookup(), {
+        any: false, local: false, world: false, components: false, children: false,
+    });
+
+
+    /**
+     * Creates a node with identity transform.
+     * @param name - Optional name for identification, e.g., when searching the graph.
+     */
+    constructor(name: string = '') {
+        this._name = name;
+    }
+
+
+    /**
+     * Marks the world transform of this node and all its descendants as invalid.
+     */
+    protected invalidateWorld(): void {
+        this._altered.alter('world');
+        this.alterAncestors();
+
+        if (!this._worldValid) {
+            /* Descendants were already invalidated when this node's world was invalidated. */
+            return;
+        }
+        this._worldValid = false;
+        this._children.forEach((child) => child.invalidateWorld());
+    }
+
+    /**
+     * Propagates an alteration of this node bottom-up by marking the subtree of all ancestors as altered.
+     */
+    protected alterAncestors(): void {
+        let ancestor = this._parent;
+        while (ancestor !== undefined && !ancestor._altered.children) {
+            ancestor._altered.alter('children');
+            ancestor = ancestor._parent;
+        }
+    }
+
+
+    /**
+     * Appends a node to this node's children. The node is required to not have a parent already.
+     * @param node - Node to be added as child.
+     * @returns - The added node (for chaining, e.g., `const child = root.addChild(new SceneNode())`).
+     */
+    addChild(node: SceneNode): SceneNode {
+        assert(node._parent === undefined, `expected node without parent, given '${node.name}'`);
+
+        let ancestor: SceneNode | undefined = this;
+        while (ancestor !== undefined) {
+            assert(ancestor !== node, `expected node not to be an ancestor, given '${node.name}'`);
+            ancestor = ancestor._parent;
+        }
+
+        node._parent = this;
+        this._children.push(node);
+
+        node.invalidateWorld();
+        return node;
+    }
+
+    /**
+     * Removes a node from this node's children. The removed node keeps its subtree and components.
+     * @param node - Child node to be removed.
+     */
+    removeChild(node: SceneNode): void {
+        const index = this._children.indexOf(node);
+        assert(index > -1, `expected node to be a child, given '${node.name}'`);
+
+        this._children.splice(index, 1);
+        node._parent = undefined;
+        node.invalidateWorld();
+
+        this._altered.alter('children');
+        this.alterAncestors();
+    }
+
+    /**
+     * Attaches a component to this node. The component is updated with the node's world transform on next update.
+     * @param component - Component not yet attached to any node.
+     * @returns - The attached component (for chaining).
+     */
+    addComponent<T extends SceneNodeComponent>(component: T): T {
+        component.attach(this);
+        this._components.push(component);
+
+        this._altered.alter('components');
+        this.alterAncestors();
+        return component;
+    }
+
+    /**
+     * Detaches a component from this node.
+     * @param component - Component attached to this node.
+     */
+    removeComponent(component: SceneNodeComponent): void {
+        const index = this._components.indexOf(component);
+        assert(index > -1, `expected component to be attached to this node`);
+
+        this._components.splice(index, 1);
+        component.attach(undefined);
+
+        this._altered.alter('components');
+        this.alterAncestors();
+    }
+
+    /**
+     * Returns all components of this node that are instances of the given component class.
+     * @param type - Component class, e.g., `GeometryComponent`.
+     */
+    componentsOfType<T extends SceneNodeComponent>(type: new (...args: any[]) => T): Array<T> {
+        return this._components.filter((component) => component instanceof type) as Array<T>;
+    }
+
+    /**
+     * Visits this node and all its descendants in depth-first order (parents before children).
+     * @param callback - Invoked per node. If false is returned, the node's subtree is skipped.
+     */
+    traverse(callback: (node: SceneNode) => boolean | void): void {
+        if (callback(this) === false) {
+            return;
+        }
+        for (const child of this._children) {
+            child.traverse(callback);
+        }
+    }
+
+    /**
+     * Searches this node and its descendants (depth-first) for the first node of the given name.
+     * @param name - Name of the node to find.
+     */
+    find(name: string): SceneNode | undefined {
+        let result: SceneNode | undefined;
+        this.traverse((node) => {
+            if (result === undefined && node._name === name) {
+                result = node;
+            }
+            return result === undefined;
+        });
+        return result;
+    }
+
+    /**
+     * Updates the world transforms of all altered nodes of this subtree, notifies the components of nodes with
+     * changed world transform (or new components), and resets all alterations. This is intended to be invoked on the
+     * root node once per frame, e.g., in a renderer's `onPrepare`.
+     */
+    update(): void {
+        if (!this._altered.any) {
+            return;
+        }
+        const world = this.world;
+        if (this._altered.world || this._altered.components) {
+            this._components.forEach((component) => component.update(world));
+        }
+        const updateChildren = this._altered.children || this._altered.world;
+        this._altered.reset();
+
+        if (updateChildren) {
+            this._children.forEach((child) => child.update());
+        }
+    }
+
+
+    /**
+     * Name of this node for identification.
+     */
+    get name(): string {
+        return this._name;
+    }
+
+    /**
+     * The parent node, undefined for root nodes.
+     */
+    get parent(): SceneNode | undefined {
+        return this._parent;
+    }
+
+    /**
+     * Read-only access to the children of this node.
+     */
+    get children(): Array<SceneNode> {
+        return this._children;
+    }
+
+    /**
+     * Read-only access to the components attached to this node.
+     */
+    get components(): Array<SceneNodeComponent> {
+        return this._components;
+    }
+
+    /**
+     * Local transform of this node relative to its parent. Setting the transform invalidates the world transforms of
+     * the subtree. Note that the returned matrix should not be modified directly (use the setter instead).
+     */
+    set transform(transform: mat4) {
+        if (mat4.equals(this._local, transform)) {
+            return;
+        }
+        mat4.copy(this._local, transform);
+
+        this._altered.alter('local');
+        this.invalidateWorld();
+    }
+    get transform(): mat4 {
+        return this._local;
+    }
+
+    /**
+     * World transform of this node, i.e., the product of all local transforms from the root down to this node. This
+     * is computed lazily and cached until the local transform of this node or of any ancestor changes.
+     */
+    get world(): mat4 {
+        if (this._worldValid) {
+            return this._world;
+        }
+        if (this._parent === undefined) {
+            mat4.copy(this._world, this._local);
+        } else {
+            mat4.multiply(this._world, this._parent.world, this._local);
+        }
+        this._worldValid = true;
+        return this._world;
+    }
+
+    /**
+     * Translation of the world transform, i.e., the position of the node's origin in world space.
+     */
+    get worldPosition(): vec3 {
+        return mat4.getTranslation(v3(), this.world);
+    }
+
+    /**
+     * Whether or not this node or any node of its subtree was altered since the last update.
+     */
+    get altered(): boolean {
+        return this._altered.any;
+    }
+
+}
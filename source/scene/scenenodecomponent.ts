@@ -0,0 +1,55 @@
+
+import { mat4 } from 'gl-matrix';
+
+import { assert } from '../auxiliaries';
+
+import { SceneNode } from './scenenode';
+
+
+/**
+ * Base class for all components that can be attached to a scene node (@see {@link SceneNode}), e.g., geometries,
+ * cameras, lights, or labels. A component is attached to at most one node and gets notified whenever the world
+ * transform of its node has changed on scene update. Specialized components are expected to apply the world transform
+ * to their payload (e.g., derive a camera's eye from it) in `onWorldChanged`.
+ */
+export abstract class SceneNodeComponent {
+
+    /** @see {@link node} */
+    protected _node: SceneNode | undefined;
+
+
+    /**
+     * Invoked on scene update whenever the world transform of the node the component is attached to has changed, as
+     * well as once after the component was attached.
+     * @param world - World transform of the node.
+     */
+    protected abstract onWorldChanged(world: mat4): void;
+
+
+    /**
+     * Associates this component with a node. This is intended to be called by the node only.
+     * @param node - Node this component is attached to, undefined if detached.
+     */
+    attach(node: SceneNode | undefined): void {
+        assert(node === undefined || this._node === undefined, `expected component to be attached to a single node`);
+        this._node = node;
+    }
+
+    /**
+     * Notifies the component that the world transform of its node was updated. This is intended to be called by the
+     * node on scene update only.
+     * @param world - World transform of the node.
+     */
+    update(world: mat4): void {
+        this.onWorldChanged(world);
+    }
+
+
+    /**
+     * The node this component is attached to (if any).
+     */
+    get node(): SceneNode | undefined {
+        return this._node;
+    }
+
+}
@@ -3,6 +3,8 @@ import { assert, log, LogLevel } from './auxiliaries';
 
 import { Context } from './context';
 import { AbstractObject } from './object';
+import { registerShaderChunks } from './shaderchunks';
+import { ShaderPreprocessor } from './shaderpreprocessor';
 
 
 /**
@@ -22,9 +24,19 @@ import { AbstractObject } from './object';
  * var prog = new gloperate.Program(context, 'EmptyProgram');
  * prog.initialize([frag, vert]);
  * ```
+ *
+ * Before compilation, the source is preprocessed (@see {@link ShaderPreprocessor}): include directives such as
+ * `#include <float_pack>` are resolved against the registered chunks and the shader's defines are injected. Compile
+ * errors are reported with locations mapped to the originating source or chunk and line.
  */
 export class Shader extends AbstractObject<WebGLShader> {
 
+    /**
+     * Whether or not the library's own chunks are registered with the preprocessor (done on first compilation).
+     */
+    protected static chunksRegistered = false;
+
+
     /** @see {@link type} */
     protected _type: GLenum;
 
@@ -39,6 +51,9 @@ export class Shader extends AbstractObject<WebGLShader> {
      */
     protected _replacements: undefined | Map<string, string>;
 
+    /** @see {@link defines} */
+    protected _defines: undefined | ShaderPreprocessor.Defines;
+
 
     /**
      * Object constructor, requires a context and a valid identifier.
@@ -114,7 +129,13 @@ export class Shader extends AbstractObject<WebGLShader> {
     compile(): void {
         const gl = this._context.gl;
 
-        let source = this.sourceWithReplacements;
+        if (!Shader.chunksRegistered) {
+            registerShaderChunks();
+            Shader.chunksRegistered = true;
+        }
+        const preprocessed = ShaderPreprocessor.process(this.sourceWithReplacements, this._defines, this._identifier);
+
+        let source = preprocessed.source;
         if (this._context.isWebGL2) {
             source = `#version 300 es\n${source}`;
         }
@@ -124,7 +145,8 @@ export class Shader extends AbstractObject<WebGLShader> {
 
         this._compiled = gl.getShaderParameter(this._object, gl.COMPILE_STATUS);
         if (!this._compiled) {
-            const infoLog: string = gl.getShaderInfoLog(this._object);
+            const infoLog = ShaderPreprocessor.mapInfoLog(gl.getShaderInfoLog(this._object), preprocessed,
+                this._context.isWebGL2 ? 1 : 0);
             log(LogLevel.Error, `compilation of shader '${this._identifier}' failed: ${infoLog}`);
         }
     }
@@ -143,6 +165,29 @@ export class Shader extends AbstractObject<WebGLShader> {
         this._replacements.set(searchValue, replaceValue);
     }
 
+    /**
+     * Adds or changes a define that is injected into the source every time the shader is recompiled. Note that
+     * recompilation has to be triggered manually.
+     * @param name - Name of the define, e.g., 'SHADOWS'.
+     * @param value - Value of the define, an empty string defines the name only.
+     */
+    define(name: string, value: string | number | boolean = ''): void {
+        if (this._defines === undefined) {
+            this._defines = new Map<string, string>();
+        }
+        this._defines.set(name, typeof value === 'boolean' ? (value ? '1' : '0') : value.toString());
+    }
+
+    /**
+     * Removes a define. Note that recompilation has to be triggered manually.
+     * @param name - Name of the define.
+     */
+    undefine(name: string): void {
+        if (this._defines !== undefined) {
+            this._defines.delete(name);
+        }
+    }
+
     /**
      * Either VERTEX_SHADER or FRAGMENT_SHADER.
      */
@@ -186,6 +231,27 @@ export class Shader extends AbstractObject<WebGLShader> {
         return source;
     }
 
+    /**
+     * Set of defines of the shader's current program variant (@see {@link define}). Setting the defines replaces all
+     * defines, which allows to switch between variants. Note that this will not recompile the shader.
+     */
+    set defines(defines: ShaderPreprocessor.Defines) {
+        this._defines = new Map<string, string>(defines);
+    }
+    get defines(): ShaderPreprocessor.Defines {
+        if (this._defines === undefined) {
+            this._defines = new Map<string, string>();
+        }
+        return this._defines;
+    }
+
+    /**
+     * Key identifying the shader's program variant, i.e., all defines sorted by name.
+     */
+    get variant(): string {
+        return ShaderPreprocessor.variant(this._defines);
+    }
+
     /**
      * Read access the the shader's compile status. True if last compilation was successful.
      */
@@ -0,0 +1,21 @@
+
+import { ShaderPreprocessor } from './shaderpreprocessor';
+
+
+/**
+ * Registers the library's own GLSL chunks (shaders/*.glsl) for inclusion, e.g., `#include <float_pack>`. The chunks
+ * are named by their file name without the glsl extension. This is invoked lazily by the shader on first compilation,
+ * keeping the preprocessor itself independent of the shader loader.
+ */
+export function registerShaderChunks(): void {
+    ShaderPreprocessor.register('colorscale', require('./shaders/colorscale.glsl'));
+    ShaderPreprocessor.register('environmentmap', require('./shaders/environmentmap.glsl'));
+    ShaderPreprocessor.register('facade.frag', require('./shaders/facade.frag.glsl'));
+    ShaderPreprocessor.register('facade.vert', require('./shaders/facade.vert.glsl'));
+    ShaderPreprocessor.register('float_pack', require('./shaders/float_pack.glsl'));
+    ShaderPreprocessor.register('linearizedepth', require('./shaders/linearizedepth.glsl'));
+    ShaderPreprocessor.register('ndcoffset', require('./shaders/ndcoffset.glsl'));
+    ShaderPreprocessor.register('pickingid', require('./shaders/pickingid.glsl'));
+    ShaderPreprocessor.register('shadowmap', require('./shaders/shadowmap.glsl'));
+    ShaderPreprocessor.register('snormoct', require('./shaders/snormoct.glsl'));
+}
@@ -0,0 +1,200 @@
+
+import { assert } from './auxiliaries';
+
+
+/**
+ * Pure GLSL source preprocessor that resolves `#include` directives against a registry of named chunks and injects
+ * `#define` directives for a specific program variant. Every line of the processed source keeps track of its origin
+ * (chunk or file name and line number), which allows to map shader info logs back to the original sources. Note that
+ * conditional directives (`#if`, `#ifdef`, ...) are left to the GLSL compiler. Each chunk is included at most once per
+ * processed source (implicit include guard), recursive includes are not allowed.
+ * ```
+ * ShaderPreprocessor.register('lighting', 'vec3 lambert(...) { ... }');
+ *
+ * const result = ShaderPreprocessor.process('#include <lighting>\nvoid main() { ... }',
+ *     new Map([['SHADOWS', '1']]), 'mesh.frag');
+ * gl.shaderSource(shader, result.source);
+ * ...
+ * log(LogLevel.Error, ShaderPreprocessor.mapInfoLog(gl.getShaderInfoLog(shader), result));
+ * ```
+ */
+export class ShaderPreprocessor {
+
+    /**
+     * Matches include directives of the forms `#include <name>` and `#include "name"`.
+     */
+    protected static readonly INCLUDE = /^\s*#\s*include\s+[<"]([^>"]+)[>"]\s*(\/\/.*)?$/;
+
+    /**
+     * Matches version directives, which are required to remain the very first directive of a source.
+     */
+    protected static readonly VERSION = /^\s*#\s*version\s/;
+
+    /**
+     * Matches source string and line number references of compiler messages, e.g., 'ERROR: 0:12:'.
+     */
+    protected static readonly INFO_LOG_LOCATION = /(\d+):(\d+):/;
+
+    /**
+     * Registry of named source chunks that can be included.
+     */
+    protected static chunks = new Map<string, string>();
+
+
+    /**
+     * Normalizes chunk names by removing relative path prefix and glsl file extension, e.g., './float_pack.glsl'
+     * results in 'float_pack'. This allows include directives to be compatible with import paths.
+     * @param name - Name of a chunk as used on registration or within an include directive.
+     */
+    protected static normalize(name: string): string {
+        return name.trim().replace(/^\.\//, '').replace(/\.glsl$/, '');
+    }
+
+    /**
+     * Recursively resolves all include directives of the given source and appends the resulting lines to the result.
+     * @param source - Source to resolve includes of.
+     * @param file - Name of the file or chunk the source originates from.
+     * @param lines - Resulting lines the resolved lines are appended to.
+     * @param included - Set of all chunks included so far (include guard).
+     * @param stack - Chunks currently being included (for cycle detection).
+     */
+    protected static resolve(source: string, file: string, lines: Array<ShaderPreprocessor.Line>,
+        included: Set<string>, stack: Array<string>): void {
+
+        source.split(/\r?\n/).forEach((text, index) => {
+            const match = text.match(ShaderPreprocessor.INCLUDE);
+            if (match === null) {
+                lines.push({ text, file, line: index + 1 });
+                return;
+            }
+
+            const name = ShaderPreprocessor.normalize(match[1]);
+            assert(stack.indexOf(name) === -1, `expected non-recursive include of '${name}' in ${file}:${index + 1}`);
+
+            const chunk = ShaderPreprocessor.chunks.get(name);
+            assert(chunk !== undefined, `expected chunk '${name}' to be registered, included in ${file}:${index + 1}`);
+
+            /* Keep a comment instead of the include in order to retain the line count of the including source. */
+            lines.push({ text: `// #include <${name}>`, file, line: index + 1 });
+            if (included.has(name)) {
+                return;
+            }
+            included.add(name);
+
+            stack.push(name);
+            ShaderPreprocessor.resolve(chunk as string, name, lines, included, stack);
+            stack.pop();
+        });
+    }
+
+
+    /**
+     * Registers a named chunk that can be included by `#include <name>`. An existing chunk of the same name is
+     * replaced.
+     * @param name - Name of the chunk, e.g., 'float_pack'.
+     * @param source - GLSL source of the chunk.
+     */
+    static register(name: string, source: string): void {
+        ShaderPreprocessor.chunks.set(ShaderPreprocessor.normalize(name), source);
+    }
+
+    /**
+     * Removes a named chunk from the registry.
+     * @param name - Name of the chunk.
+     */
+    static unregister(name: string): void {
+        ShaderPreprocessor.chunks.delete(ShaderPreprocessor.normalize(name));
+    }
+
+    /**
+     * Whether or not a chunk of the given name is registered.
+     * @param name - Name of the chunk.
+     */
+    static registered(name: string): boolean {
+        return ShaderPreprocessor.chunks.has(ShaderPreprocessor.normalize(name));
+    }
+
+    /**
+     * Creates an order-independent key for a set of defines, e.g., for caching programs per variant.
+     * @param defines - Defines of a program variant.
+     * @returns - Key with all defines sorted by name, e.g., 'A=1;B'.
+     */
+    static variant(defines: ShaderPreprocessor.Defines | undefined): string {
+        if (defines === undefined) {
+            return '';
+        }
+        const entries = new Array<string>();
+        defines.forEach((value, name) => entries.push(value === '' ? name : `${name}=${value}`));
+        return entries.sort().join(';');
+    }
+
+    /**
+     * Resolves all include directives and adds the given defines to a source. The defines are inserted after the
+     * version directive (if present) or at the very beginning otherwise.
+     * @param source - GLSL source to process.
+     * @param defines - Defines of the program variant, e.g., 'SHADOWS' -> '1'. Empty values define names only.
+     * @param file - Name of the file or shader the source originates from, used for mapping of info logs.
+     * @returns - The processed source with line origins.
+     */
+    static process(source: string, defines?: ShaderPreprocessor.Defines,
+        file: string = 'source'): ShaderPreprocessor.Result {
+
+        const resolved = new Array<ShaderPreprocessor.Line>();
+        ShaderPreprocessor.resolve(source, file, resolved, new Set<string>(), []);
+
+        const lines = new Array<ShaderPreprocessor.Line>();
+        const version = resolved.findIndex((line) => ShaderPreprocessor.VERSION.test(line.text));
+        if (version > -1) {
+            lines.push(...resolved.splice(0, version + 1));
+        }
+        if (defines !== undefined) {
+            let line = 0;
+            defines.forEach((value, name) => lines.push({
+                text: value === '' ? `#define ${name}` : `#define ${name} ${value}`, file: 'defines', line: ++line,
+            }));
+        }
+        lines.push(...resolved);
+
+        return { source: lines.map((line) => line.text).join('\n'), lines };
+    }
+
+    /**
+     * Maps all source string and line number references (e.g., 'ERROR: 0:12: ...') of a shader info log to the
+     * original file or chunk and line (e.g., 'ERROR: float_pack:3: ...').
+     * @param infoLog - Info log as returned by getShaderInfoLog.
+     * @param result - Preprocessing result of the compiled source.
+     * @param offset - Number of lines prepended to the processed source before compilation, e.g., a version directive.
+     * @returns - The info log with mapped locations, unknown locations are left as is.
+     */
+    static mapInfoLog(infoLog: string, result: ShaderPreprocessor.Result, offset: number = 0): string {
+        return infoLog.split('\n').map((message) => message.replace(ShaderPreprocessor.INFO_LOG_LOCATION,
+            (location: string, index: string, line: string) => {
+                const origin = result.lines[parseInt(line, 10) - 1 - offset];
+                return origin === undefined ? location : `${origin.file}:${origin.line}:`;
+            })).join('\n');
+    }
+
+}
+
+
+export namespace ShaderPreprocessor {
+
+    /**
+     * Defines of a program variant by name, e.g., 'SHADOWS' -> '1'. Empty values define names only.
+     */
+    export type Defines = Map<string, string>;
+
+    export interface Line {
+        text: string;
+        /** Name of the file or chunk the line originates from. */
+        file: string;
+        /** One-based line number within the file or chunk. */
+        line: number;
+    }
+
+    export interface Result {
+        source: string;
+        lines: Array<Line>;
+    }
+
+}
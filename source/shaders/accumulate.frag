@@ -1,7 +1,7 @@
 
 precision lowp float;
 
-@import ./facade.frag;
+#include <facade.frag>
 
 
 #if __VERSION__ == 100
@@ -0,0 +1,53 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform float u_weight;
+uniform sampler2D u_accumulationTexture;
+uniform sampler2D u_currentFrameTexture;
+uniform sampler2D u_depthTexture;
+
+/* Maps current normalized device coordinates to those of the previous frame. */
+uniform mat4 u_reprojection;
+uniform vec2 u_texelSize;
+
+varying vec2 v_uv;
+
+
+void main(void)
+{
+    vec4 currentFrameColor = texture(u_currentFrameTexture, v_uv);
+
+    /* Reproject the fragment into the previous frame using its depth. */
+    float depth = texture(u_depthTexture, v_uv).r;
+    vec4 previous = u_reprojection * vec4(v_uv * 2.0 - 1.0, depth * 2.0 - 1.0, 1.0);
+    vec2 uv = previous.xy / previous.w * 0.5 + 0.5;
+
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+        fragColor = currentFrameColor;
+        return;
+    }
+
+    /* Reject disoccluded history by clamping it to the current frame's 3x3 neighborhood. */
+    vec4 minColor = currentFrameColor;
+    vec4 maxColor = currentFrameColor;
+    for (int y = -1; y <= 1; ++y) {
+        for (int x = -1; x <= 1; ++x) {
+            vec4 color = texture(u_currentFrameTexture, v_uv + vec2(float(x), float(y)) * u_texelSize);
+            minColor = min(minColor, color);
+            maxColor = max(maxColor, color);
+        }
+    }
+    vec4 accumulationColor = clamp(texture(u_accumulationTexture, uv), minColor, maxColor);
+
+    fragColor = mix(accumulationColor, currentFrameColor, u_weight);
+}
@@ -1,7 +1,7 @@
 
 precision highp float;
 
-@import ./facade.frag;
+#include <facade.frag>
 
 
 #if __VERSION__ == 100
@@ -1,10 +1,10 @@
 
 precision highp float;
 
-@import ./facade.frag;
+#include <facade.frag>
 
-@import ./float_pack;
-@import ./linearizedepth;
+#include <float_pack>
+#include <linearizedepth>
 
 
 #if __VERSION__ == 100
@@ -0,0 +1,26 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_source;
+uniform sampler2D u_bloom;
+
+uniform float u_intensity;
+
+varying vec2 v_uv;
+
+
+void main(void)
+{
+    vec4 color = texture(u_source, v_uv);
+    fragColor = vec4(color.rgb + texture(u_bloom, v_uv).rgb * u_intensity, color.a);
+}
@@ -0,0 +1,36 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_source;
+
+uniform float u_threshold;
+uniform float u_knee;
+
+varying vec2 v_uv;
+
+
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+
+void main(void)
+{
+    vec3 color = texture(u_source, v_uv).rgb;
+    float luma = dot(color, LUMA);
+
+    /* Soft threshold: quadratic transition within the knee below the threshold, linear above. */
+    float soft = clamp(luma - u_threshold + u_knee, 0.0, 2.0 * u_knee);
+    soft = soft * soft / (4.0 * u_knee + 1e-4);
+    float contribution = max(soft, luma - u_threshold) / max(luma, 1e-4);
+
+    fragColor = vec4(color * contribution, 1.0);
+}
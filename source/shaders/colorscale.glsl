@@ -0,0 +1,17 @@
+
+/* Lookup of colors in color scale textures (@see ColorScale.texture) and atlases of stacked color scales (@see
+ * ColorScale.atlas) by normalized value. Values are mapped to texel centers, such that 0 and 1 yield the first and
+ * last entry, and clamped to [0, 1]. */
+
+
+/* Color of a color scale texture of the given number of entries. */
+vec4 colorScale(const in sampler2D scale, const in float size, const in float value) {
+    float u = (clamp(value, 0.0, 1.0) * (size - 1.0) + 0.5) / size;
+    return texture(scale, vec2(u, 0.5));
+}
+
+/* Color of the indexed scale of an atlas, given the number of entries per scale (x) and the number of scales (y). */
+vec4 colorScaleAtlas(const in sampler2D atlas, const in vec2 size, const in float index, const in float value) {
+    float u = (clamp(value, 0.0, 1.0) * (size.x - 1.0) + 0.5) / size.x;
+    return texture(atlas, vec2(u, (index + 0.5) / size.y));
+}
@@ -0,0 +1,70 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_source;
+uniform sampler2D u_depth;
+
+uniform mat4 u_inverseProjection;
+
+uniform float u_focusDistance;
+uniform float u_focusRange;
+uniform float u_maxRadius;
+uniform vec2 u_texelSize;
+
+varying vec2 v_uv;
+
+
+const int SAMPLES = 32;
+const float GOLDEN_ANGLE = 2.39996323;
+
+
+/* Distance of the fragment at the given uv to the eye along the view direction. */
+float viewDepth(vec2 uv)
+{
+    float depth = texture(u_depth, uv).r;
+    vec4 position = u_inverseProjection * vec4(uv * 2.0 - 1.0, depth * 2.0 - 1.0, 1.0);
+    return -position.z / position.w;
+}
+
+/* Circle of confusion in [0, 1], relative to the maximum radius. */
+float circleOfConfusion(vec2 uv)
+{
+    return clamp(abs(viewDepth(uv) - u_focusDistance) / u_focusRange, 0.0, 1.0);
+}
+
+
+/* Gathers samples on a golden angle spiral within the fragment's circle of confusion. Samples are weighted by
+ * whether or not their own circle of confusion covers the fragment, which avoids in-focus regions to bleed into
+ * out-of-focus ones. */
+void main(void)
+{
+    vec4 color = texture(u_source, v_uv);
+    float radius = circleOfConfusion(v_uv) * u_maxRadius;
+    if (radius < 0.5) {
+        fragColor = color;
+        return;
+    }
+
+    vec3 sum = color.rgb;
+    float weights = 1.0;
+    for (int i = 0; i < SAMPLES; ++i) {
+        float offset = sqrt((float(i) + 0.5) / float(SAMPLES)) * radius;
+        float angle = float(i) * GOLDEN_ANGLE;
+        vec2 uv = v_uv + vec2(cos(angle), sin(angle)) * offset * u_texelSize;
+
+        float weight = clamp(circleOfConfusion(uv) * u_maxRadius - offset + 1.0, 0.0, 1.0);
+        sum += texture(u_source, uv).rgb * weight;
+        weights += weight;
+    }
+    fragColor = vec4(sum / weights, color.a);
+}
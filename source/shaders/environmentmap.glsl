@@ -0,0 +1,78 @@
+
+/* Cube map sampling and importance sampling utils for environment map conversion and prefiltering (@see
+ * EnvironmentMap). */
+
+
+#if __VERSION__ == 100
+    #define textureCubeMap(sampler, direction) textureCube(sampler, direction)
+#else
+    #define textureCubeMap(sampler, direction) texture(sampler, direction)
+#endif
+
+
+const float ENVIRONMENT_PI = 3.141592653589793;
+
+
+/* Direction through the given uv coordinates of a cube map face, ordered as the face targets, i.e., +x, -x, +y, -y,
+ * +z, and -z. This is the inverse of the face selection of cube map lookups. */
+vec3 cubeFaceDirection(const in int face, const in vec2 uv) {
+    vec2 st = uv * 2.0 - 1.0;
+    vec3 direction;
+    if (face == 0) {
+        direction = vec3(1.0, -st.y, -st.x);
+    } else if (face == 1) {
+        direction = vec3(-1.0, -st.y, st.x);
+    } else if (face == 2) {
+        direction = vec3(st.x, 1.0, st.y);
+    } else if (face == 3) {
+        direction = vec3(st.x, -1.0, -st.y);
+    } else if (face == 4) {
+        direction = vec3(st.x, -st.y, 1.0);
+    } else {
+        direction = vec3(-st.x, -st.y, -1.0);
+    }
+    return normalize(direction);
+}
+
+/* Van der Corput radical inverse in base 2. Bit operations are not available in GLSL 1.0, thus, the bits are
+ * mirrored arithmetically (sufficient for up to 2^16 samples). */
+float radicalInverse(const in int index) {
+    float result = 0.0;
+    float value = float(index);
+    float scale = 0.5;
+    for (int i = 0; i < 16; ++i) {
+        if (value < 1.0) {
+            break;
+        }
+        result += mod(value, 2.0) * scale;
+        value = floor(value * 0.5);
+        scale *= 0.5;
+    }
+    return result;
+}
+
+/* Low-discrepancy point of the Hammersley set in [0, 1]^2. */
+vec2 hammersley(const in int index, const in int count) {
+    return vec2(float(index) / float(count), radicalInverse(index));
+}
+
+/* Normal distribution function of the GGX (Trowbridge-Reitz) microfacet model. */
+float distributionGGX(const in float NdotH, const in float roughness) {
+    float a2 = roughness * roughness * roughness * roughness;
+    float d = NdotH * NdotH * (a2 - 1.0) + 1.0;
+    return a2 / (ENVIRONMENT_PI * d * d);
+}
+
+/* Samples a half vector around the given normal, distributed according to GGX for the given (perceptual)
+ * roughness. */
+vec3 importanceSampleGGX(const in vec2 xi, const in vec3 normal, const in float roughness) {
+    float a = roughness * roughness;
+    float phi = 2.0 * ENVIRONMENT_PI * xi.x;
+    float cosTheta = sqrt((1.0 - xi.y) / (1.0 + (a * a - 1.0) * xi.y));
+    float sinTheta = sqrt(1.0 - cosTheta * cosTheta);
+
+    vec3 up = abs(normal.z) < 0.999 ? vec3(0.0, 0.0, 1.0) : vec3(1.0, 0.0, 0.0);
+    vec3 tangent = normalize(cross(up, normal));
+    vec3 bitangent = cross(normal, tangent);
+    return normalize(tangent * cos(phi) * sinTheta + bitangent * sin(phi) * sinTheta + normal * cosTheta);
+}
@@ -0,0 +1,61 @@
+
+precision highp float;
+
+#include <facade.frag>
+#include <environmentmap>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform int u_samples;
+
+varying vec2 v_uv;
+
+
+const int MAX_SAMPLES = 4096;
+
+
+/* Schlick-GGX geometry term with k remapped for image-based lighting. */
+float geometrySchlickGGX(const in float NdotX, const in float roughness) {
+    float k = roughness * roughness * 0.5;
+    return NdotX / (NdotX * (1.0 - k) + k);
+}
+
+
+void main(void)
+{
+    /* Integrates the specular BRDF for N dot V (u) and roughness (v), yielding scale (r) and bias (g) to the fresnel
+     * reflectance at normal incidence (split sum approximation). */
+    float NdotV = max(v_uv.x, 1e-3);
+    float roughness = v_uv.y;
+
+    vec3 normal = vec3(0.0, 0.0, 1.0);
+    vec3 view = vec3(sqrt(1.0 - NdotV * NdotV), 0.0, NdotV);
+
+    vec2 scaleBias = vec2(0.0);
+    for (int i = 0; i < MAX_SAMPLES; ++i) {
+        if (i >= u_samples) {
+            break;
+        }
+        vec3 h = importanceSampleGGX(hammersley(i, u_samples), normal, roughness);
+        vec3 l = normalize(2.0 * dot(view, h) * h - view);
+
+        float NdotL = max(l.z, 0.0);
+        if (NdotL <= 0.0) {
+            continue;
+        }
+        float NdotH = max(h.z, 0.0);
+        float VdotH = max(dot(view, h), 0.0);
+
+        float g = geometrySchlickGGX(NdotV, roughness) * geometrySchlickGGX(NdotL, roughness);
+        float visibility = g * VdotH / (NdotH * NdotV);
+        float fresnel = pow(1.0 - VdotH, 5.0);
+        scaleBias += vec2((1.0 - fresnel) * visibility, fresnel * visibility);
+    }
+    fragColor = vec4(scaleBias / float(u_samples), 0.0, 1.0);
+}
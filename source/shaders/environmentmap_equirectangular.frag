@@ -0,0 +1,58 @@
+
+precision highp float;
+
+#include <facade.frag>
+#include <environmentmap>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_panorama;
+uniform vec2 u_texelSize;
+
+/* 0: linear, 1: sRGB, 2: RGBE (@see EnvironmentMap.Encoding). */
+uniform int u_encoding;
+uniform float u_exposure;
+
+uniform int u_face;
+
+varying vec2 v_uv;
+
+
+vec3 decode(const in vec4 texel) {
+    if (u_encoding == 2) {
+        return texel.a == 0.0 ? vec3(0.0) : texel.rgb * 255.0 * exp2(texel.a * 255.0 - 136.0);
+    } else if (u_encoding == 1) {
+        return pow(texel.rgb, vec3(2.2));
+    }
+    return texel.rgb;
+}
+
+vec3 fetch(const in vec2 uv) {
+    return decode(texture(u_panorama, vec2(fract(uv.x), clamp(uv.y, 0.0, 1.0))));
+}
+
+
+void main(void)
+{
+    vec3 direction = cubeFaceDirection(u_face, v_uv);
+    vec2 uv = vec2(atan(direction.z, direction.x) / (2.0 * ENVIRONMENT_PI) + 0.5,
+        acos(clamp(direction.y, -1.0, 1.0)) / ENVIRONMENT_PI);
+
+    /* Interpolate decoded texels manually (the panorama is sampled nearest), since RGBE cannot be interpolated by
+     * texture filtering. This also wraps horizontally at the panorama's seam. */
+    vec2 texel = uv / u_texelSize - 0.5;
+    vec2 f = fract(texel);
+    vec2 base = (floor(texel) + 0.5) * u_texelSize;
+
+    vec3 color = mix(
+        mix(fetch(base), fetch(base + vec2(u_texelSize.x, 0.0)), f.x),
+        mix(fetch(base + vec2(0.0, u_texelSize.y)), fetch(base + u_texelSize), f.x), f.y);
+
+    fragColor = vec4(color * u_exposure, 1.0);
+}
@@ -0,0 +1,42 @@
+
+precision highp float;
+
+#include <facade.frag>
+#include <environmentmap>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform samplerCube u_environment;
+uniform int u_face;
+
+varying vec2 v_uv;
+
+
+const float DELTA = 0.025;
+
+
+void main(void)
+{
+    vec3 normal = cubeFaceDirection(u_face, v_uv);
+    vec3 up = abs(normal.y) < 0.999 ? vec3(0.0, 1.0, 0.0) : vec3(0.0, 0.0, 1.0);
+    vec3 right = normalize(cross(up, normal));
+    up = cross(normal, right);
+
+    /* Cosine weighted integration of the radiance over the hemisphere in uniform steps of polar coordinates. */
+    vec3 irradiance = vec3(0.0);
+    float count = 0.0;
+    for (float phi = 0.0; phi < 2.0 * ENVIRONMENT_PI; phi += DELTA) {
+        for (float theta = 0.0; theta < 0.5 * ENVIRONMENT_PI; theta += DELTA) {
+            vec3 direction = sin(theta) * (cos(phi) * right + sin(phi) * up) + cos(theta) * normal;
+            irradiance += textureCubeMap(u_environment, direction).rgb * cos(theta) * sin(theta);
+            count += 1.0;
+        }
+    }
+    fragColor = vec4(ENVIRONMENT_PI * irradiance / count, 1.0);
+}
@@ -0,0 +1,61 @@
+
+precision highp float;
+
+#include <facade.frag>
+#include <environmentmap>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform samplerCube u_environment;
+uniform float u_environmentSize;
+
+uniform float u_roughness;
+uniform int u_samples;
+uniform int u_face;
+
+varying vec2 v_uv;
+
+
+const int MAX_SAMPLES = 4096;
+
+
+void main(void)
+{
+    /* Assume view and reflection direction to be aligned with the normal (split sum approximation). */
+    vec3 normal = cubeFaceDirection(u_face, v_uv);
+
+    vec3 color = vec3(0.0);
+    float weight = 0.0;
+    for (int i = 0; i < MAX_SAMPLES; ++i) {
+        if (i >= u_samples) {
+            break;
+        }
+        vec3 h = importanceSampleGGX(hammersley(i, u_samples), normal, u_roughness);
+        vec3 l = normalize(2.0 * dot(normal, h) * h - normal);
+
+        float NdotL = dot(normal, l);
+        if (NdotL <= 0.0) {
+            continue;
+        }
+#if __VERSION__ >= 300
+        /* Filtered importance sampling: samples of low probability read from coarser levels of the environment,
+         * which reduces noise for few samples at high roughness. */
+        float NdotH = max(dot(normal, h), 0.0);
+        float pdf = distributionGGX(NdotH, u_roughness) * 0.25 + 1e-4;
+        float texelSolidAngle = 4.0 * ENVIRONMENT_PI / (6.0 * u_environmentSize * u_environmentSize);
+        float sampleSolidAngle = 1.0 / (float(u_samples) * pdf + 1e-4);
+        float lod = u_roughness == 0.0 ? 0.0 : max(0.5 * log2(sampleSolidAngle / texelSolidAngle) + 1.0, 0.0);
+        color += textureLod(u_environment, l, lod).rgb * NdotL;
+#else
+        color += textureCubeMap(u_environment, l).rgb * NdotL;
+#endif
+        weight += NdotL;
+    }
+    fragColor = vec4(color / max(weight, 1e-4), 1.0);
+}
@@ -0,0 +1,60 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_source;
+uniform vec2 u_texelSize;
+
+varying vec2 v_uv;
+
+
+const float FXAA_REDUCE_MIN = 1.0 / 128.0;
+const float FXAA_REDUCE_MUL = 1.0 / 8.0;
+const float FXAA_SPAN_MAX = 8.0;
+
+const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+
+
+/* Fast approximate anti-aliasing based on FXAA by Timothy Lottes: blurs along the edge direction estimated from the
+ * luma gradient of the 2x2 diagonal neighborhood. Expects display (non-linear, tone mapped) color. */
+void main(void)
+{
+    vec4 center = texture(u_source, v_uv);
+
+    float lumaNW = dot(texture(u_source, v_uv + vec2(-1.0, +1.0) * u_texelSize).rgb, LUMA);
+    float lumaNE = dot(texture(u_source, v_uv + vec2(+1.0, +1.0) * u_texelSize).rgb, LUMA);
+    float lumaSW = dot(texture(u_source, v_uv + vec2(-1.0, -1.0) * u_texelSize).rgb, LUMA);
+    float lumaSE = dot(texture(u_source, v_uv + vec2(+1.0, -1.0) * u_texelSize).rgb, LUMA);
+    float lumaM = dot(center.rgb, LUMA);
+
+    float lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+    float lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+
+    vec2 direction = vec2(
+        (lumaSW + lumaSE) - (lumaNW + lumaNE),
+        (lumaNW + lumaSW) - (lumaNE + lumaSE));
+
+    float reduce = max((lumaNW + lumaNE + lumaSW + lumaSE) * 0.25 * FXAA_REDUCE_MUL, FXAA_REDUCE_MIN);
+    float scale = 1.0 / (min(abs(direction.x), abs(direction.y)) + reduce);
+    direction = clamp(direction * scale, vec2(-FXAA_SPAN_MAX), vec2(FXAA_SPAN_MAX)) * u_texelSize;
+
+    vec3 rgbA = 0.5 * (
+        texture(u_source, v_uv + direction * (1.0 / 3.0 - 0.5)).rgb +
+        texture(u_source, v_uv + direction * (2.0 / 3.0 - 0.5)).rgb);
+    vec3 rgbB = rgbA * 0.5 + 0.25 * (
+        texture(u_source, v_uv + direction * -0.5).rgb +
+        texture(u_source, v_uv + direction * +0.5).rgb);
+
+    /* Fall back to the narrower blur if the wider one samples beyond the local luma range. */
+    float lumaB = dot(rgbB, LUMA);
+    fragColor = vec4((lumaB < lumaMin || lumaB > lumaMax) ? rgbA : rgbB, center.a);
+}
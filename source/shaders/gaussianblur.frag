@@ -0,0 +1,31 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_source;
+
+/* Texel offset along the blur direction, i.e., either horizontal or vertical. */
+uniform vec2 u_direction;
+
+varying vec2 v_uv;
+
+
+/* Separable 9-tap gaussian blur using linear filtering to sample two texels per fetch. */
+void main(void)
+{
+    vec4 color = texture(u_source, v_uv) * 0.2270270270;
+    color += texture(u_source, v_uv + u_direction * 1.3846153846) * 0.3162162162;
+    color += texture(u_source, v_uv - u_direction * 1.3846153846) * 0.3162162162;
+    color += texture(u_source, v_uv + u_direction * 3.2307692308) * 0.0702702703;
+    color += texture(u_source, v_uv - u_direction * 3.2307692308) * 0.0702702703;
+    fragColor = color;
+}
@@ -1,7 +1,7 @@
 
 precision lowp float;
 
-@import ./facade.vert;
+#include <facade.vert>
 
 
 #if __VERSION__ == 100
@@ -0,0 +1,13 @@
+
+/* GLSL counterparts of encode_uint32_to_rgba8 for writing object ids allocated by a PickingManager into an rgba8 id
+ * attachment (@see ReadbackPass.idAt). Ids given as float are exact up to 2^24 (single precision). */
+
+vec4 encode_uint32_to_rgba8(const in float id) {
+    return mod(floor(id / vec4(1.0, 256.0, 65536.0, 16777216.0)), 256.0) / 255.0;
+}
+
+#if __VERSION__ >= 300
+vec4 encode_uint32_to_rgba8(const in uint id) {
+    return vec4(uvec4(id, id >> 8u, id >> 16u, id >> 24u) & 0xFFu) / 255.0;
+}
+#endif
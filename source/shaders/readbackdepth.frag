@@ -1,8 +1,8 @@
 
 precision highp float;
 
-@import ./facade.frag;
-@import ./float_pack;
+#include <facade.frag>
+#include <float_pack>
 
 
 #if __VERSION__ == 100
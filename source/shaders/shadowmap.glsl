@@ -0,0 +1,44 @@
+
+#include <float_pack>
+
+/* Shadow map encoding and lookup for shadow maps rendered by a ShadowPass. If depth textures are not supported, depth
+ * is packed into rgb bytes instead (define SHADOW_PACKED_DEPTH in this case, @see ShadowPass.depthPacked). */
+
+
+/* Encodes the given depth in [0, 1], e.g., gl_FragCoord.z, for rendering into packed shadow maps. */
+vec4 packShadowDepth(const in float depth) {
+    return vec4(float24x1_to_uint8x3(depth), 1.0);
+}
+
+float shadowDepth(const in sampler2D shadowMap, const in vec2 uv) {
+#ifdef SHADOW_PACKED_DEPTH
+    return uint8x3_to_float24x1(texture(shadowMap, uv).rgb);
+#else
+    return texture(shadowMap, uv).r;
+#endif
+}
+
+/* Index of the cascade the given view space distance falls into, given the far distances of the first four
+ * cascades (@see ShadowPass.splits). Samplers cannot be indexed dynamically, thus, select the map by comparison. */
+int shadowCascade(const in float viewDepth, const in vec4 splits) {
+    return int(dot(step(splits, vec4(viewDepth)), vec4(1.0)));
+}
+
+/* Fraction of light reaching the given shadow coordinates in [0, 1] (@see ShadowPass.shadowMatrices), filtered by
+ * percentage-closer filtering (PCF) of 3x3 texels. The jitter offsets the filter footprint in texels, e.g., per frame
+ * of a multi-frame for soft shadows (@see ShadowPass.jitter). Coordinates outside the shadow map are lit. */
+float shadowPCF(const in sampler2D shadowMap, const in vec3 coord, const in vec2 texelSize, const in vec2 jitter,
+    const in float bias) {
+
+    if (any(lessThan(coord, vec3(0.0))) || any(greaterThan(coord, vec3(1.0)))) {
+        return 1.0;
+    }
+    float lit = 0.0;
+    for (int y = -1; y <= 1; ++y) {
+        for (int x = -1; x <= 1; ++x) {
+            vec2 uv = coord.xy + (vec2(float(x), float(y)) + jitter) * texelSize;
+            lit += step(coord.z - bias, shadowDepth(shadowMap, uv));
+        }
+    }
+    return lit / 9.0;
+}
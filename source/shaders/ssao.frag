@@ -0,0 +1,89 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+const int KERNEL_SIZE = 16;
+const float BIAS = 0.025;
+
+
+uniform sampler2D u_source;
+uniform sampler2D u_depth;
+uniform sampler2D u_noise;
+
+uniform mat4 u_projection;
+uniform mat4 u_inverseProjection;
+
+/* Sample offsets within the unit hemisphere around +z, rotated per fragment by the noise texture. */
+uniform vec3 u_kernel[KERNEL_SIZE];
+
+uniform float u_radius;
+uniform float u_intensity;
+uniform float u_clearDepth;
+
+uniform vec2 u_texelSize;
+uniform vec2 u_noiseScale;
+
+varying vec2 v_uv;
+
+
+vec3 viewPosition(vec2 uv, float depth)
+{
+    vec4 position = u_inverseProjection * vec4(uv * 2.0 - 1.0, depth * 2.0 - 1.0, 1.0);
+    return position.xyz / position.w;
+}
+
+vec3 viewPosition(vec2 uv)
+{
+    return viewPosition(uv, texture(u_depth, uv).r);
+}
+
+
+void main(void)
+{
+    vec4 color = texture(u_source, v_uv);
+    float depth = texture(u_depth, v_uv).r;
+    if (depth == u_clearDepth) {
+        fragColor = color;
+        return;
+    }
+    vec3 position = viewPosition(v_uv, depth);
+
+    /* Reconstruct the normal from the neighbors with the smaller depth difference to reduce artifacts at edges. */
+    vec3 right = viewPosition(v_uv + vec2(u_texelSize.x, 0.0)) - position;
+    vec3 left = position - viewPosition(v_uv - vec2(u_texelSize.x, 0.0));
+    vec3 top = viewPosition(v_uv + vec2(0.0, u_texelSize.y)) - position;
+    vec3 bottom = position - viewPosition(v_uv - vec2(0.0, u_texelSize.y));
+    vec3 dx = abs(right.z) < abs(left.z) ? right : left;
+    vec3 dy = abs(top.z) < abs(bottom.z) ? top : bottom;
+    vec3 normal = normalize(cross(dx, dy));
+
+    /* Orient the kernel along the normal, randomly rotated about it (Gram-Schmidt). */
+    vec3 random = vec3(texture(u_noise, v_uv * u_noiseScale).xy * 2.0 - 1.0, 0.0);
+    vec3 tangent = normalize(random - normal * dot(random, normal));
+    mat3 tbn = mat3(tangent, cross(normal, tangent), normal);
+
+    float occlusion = 0.0;
+    for (int i = 0; i < KERNEL_SIZE; ++i) {
+        vec3 samplePosition = position + tbn * u_kernel[i] * u_radius;
+
+        vec4 offset = u_projection * vec4(samplePosition, 1.0);
+        vec2 uv = offset.xy / offset.w * 0.5 + 0.5;
+        float occluder = viewPosition(uv).z;
+
+        /* Ignore occluders far outside the sampling radius. */
+        float range = smoothstep(0.0, 1.0, u_radius / abs(position.z - occluder));
+        occlusion += (occluder >= samplePosition.z + BIAS ? 1.0 : 0.0) * range;
+    }
+    float ambient = clamp(1.0 - occlusion / float(KERNEL_SIZE) * u_intensity, 0.0, 1.0);
+
+    fragColor = vec4(color.rgb * ambient, color.a);
+}
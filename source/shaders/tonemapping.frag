@@ -0,0 +1,42 @@
+
+precision highp float;
+
+#include <facade.frag>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler2D u_source;
+
+uniform float u_exposure;
+uniform float u_whitePoint;
+uniform float u_gamma;
+
+varying vec2 v_uv;
+
+
+/* Filmic curve by John Hable (Uncharted 2), mapping linear color to [0, 1] with a toe and a shoulder. */
+vec3 filmic(vec3 x)
+{
+    const float A = 0.15; // shoulder strength
+    const float B = 0.50; // linear strength
+    const float C = 0.10; // linear angle
+    const float D = 0.20; // toe strength
+    const float E = 0.02; // toe numerator
+    const float F = 0.30; // toe denominator
+    return ((x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F)) - E / F;
+}
+
+
+void main(void)
+{
+    vec4 color = texture(u_source, v_uv);
+
+    vec3 mapped = filmic(color.rgb * u_exposure) / filmic(vec3(u_whitePoint));
+    fragColor = vec4(pow(clamp(mapped, 0.0, 1.0), vec3(1.0 / u_gamma)), color.a);
+}
@@ -0,0 +1,123 @@
+
+precision highp float;
+precision highp sampler3D;
+
+#include <facade.frag>
+#include <colorscale>
+
+
+#if __VERSION__ == 100
+    #define fragColor gl_FragColor
+#else
+    layout(location = 0) out vec4 fragColor;
+#endif
+
+
+uniform sampler3D u_volume;
+uniform sampler2D u_transferFunction;
+
+/* Maps ndc to volume space, i.e., the unit cube [-0.5, +0.5]^3 transformed by the model matrix. */
+uniform mat4 u_inverseModelViewProjection;
+/* Depth of the near plane in ndc, i.e., +1 for reversed depth and -1 otherwise. */
+uniform float u_ndcNear;
+
+uniform vec3 u_volumeSize;
+uniform float u_stepCount;
+uniform float u_jitter;
+
+/* 0: compositing via transfer function, 1: first hit isosurface (@see VolumePass.Mode). */
+uniform int u_mode;
+uniform float u_isoValue;
+uniform float u_opacityThreshold;
+
+varying vec2 v_uv;
+
+
+const int MAX_STEPS = 2048;
+
+
+/* Entry and exit distance of the ray and the volume's texture coordinate space [0, 1]^3. */
+vec2 intersectVolume(const in vec3 origin, const in vec3 direction) {
+    vec3 inverse = 1.0 / direction;
+    vec3 t0 = (vec3(0.0) - origin) * inverse;
+    vec3 t1 = (vec3(1.0) - origin) * inverse;
+    vec3 tmin = min(t0, t1);
+    vec3 tmax = max(t0, t1);
+    return vec2(max(max(tmin.x, tmin.y), tmin.z), min(min(tmax.x, tmax.y), tmax.z));
+}
+
+/* Interleaved gradient noise in [0, 1) for per pixel ray start offsets. */
+float noise(const in vec2 fragCoord) {
+    return fract(52.9829189 * fract(dot(fragCoord, vec2(0.06711056, 0.00583715))));
+}
+
+vec4 classify(const in float value) {
+    return colorScale(u_transferFunction, float(textureSize(u_transferFunction, 0).x), value);
+}
+
+vec3 gradient(const in vec3 position) {
+    vec3 h = 1.0 / u_volumeSize;
+    return vec3(
+        texture(u_volume, position + vec3(h.x, 0.0, 0.0)).r - texture(u_volume, position - vec3(h.x, 0.0, 0.0)).r,
+        texture(u_volume, position + vec3(0.0, h.y, 0.0)).r - texture(u_volume, position - vec3(0.0, h.y, 0.0)).r,
+        texture(u_volume, position + vec3(0.0, 0.0, h.z)).r - texture(u_volume, position - vec3(0.0, 0.0, h.z)).r);
+}
+
+
+void main(void)
+{
+    vec2 ndc = v_uv * 2.0 - 1.0;
+    vec4 near = u_inverseModelViewProjection * vec4(ndc, u_ndcNear, 1.0);
+    vec4 far = u_inverseModelViewProjection * vec4(ndc, 0.0, 1.0);
+
+    vec3 origin = near.xyz / near.w + 0.5;
+    vec3 direction = normalize(far.xyz / far.w + 0.5 - origin);
+
+    vec2 t = intersectVolume(origin, direction);
+    t.x = max(t.x, 0.0);
+    if (t.x >= t.y) {
+        discard;
+    }
+
+    /* Steps are sized such that the volume's diagonal is covered by the step count. Opacity is specified per texel
+     * and corrected for the step size. */
+    float stepSize = sqrt(3.0) / u_stepCount;
+    float opacityExponent = stepSize * max(u_volumeSize.x, max(u_volumeSize.y, u_volumeSize.z));
+
+    /* Jitter the ray start per pixel and frame, which trades banding for noise that vanishes on accumulation. */
+    float rayDistance = t.x + fract(noise(gl_FragCoord.xy) + u_jitter) * stepSize;
+
+    vec4 color = vec4(0.0);
+    float previous = 0.0;
+    for (int i = 0; i < MAX_STEPS; ++i) {
+        if (rayDistance > t.y) {
+            break;
+        }
+        vec3 position = origin + direction * rayDistance;
+        float value = texture(u_volume, position).r;
+
+        if (u_mode == 1) {
+            if (i > 0 && (value - u_isoValue) * (previous - u_isoValue) <= 0.0 && value != previous) {
+                /* Refine the hit linearly between the last two samples and shade with a headlight. */
+                position -= direction * stepSize * (value - u_isoValue) / (value - previous);
+                vec3 normal = normalize(gradient(position) + 1e-6);
+                vec3 albedo = classify(u_isoValue).rgb;
+                color = vec4(albedo * (0.2 + 0.8 * abs(dot(normal, direction))), 1.0);
+                break;
+            }
+            previous = value;
+
+        } else {
+            vec4 classified = classify(value);
+            classified.a = 1.0 - pow(1.0 - clamp(classified.a, 0.0, 0.9999), opacityExponent);
+
+            /* Front-to-back compositing with premultiplied alpha and early ray termination. */
+            color += (1.0 - color.a) * vec4(classified.rgb * classified.a, classified.a);
+            if (color.a >= u_opacityThreshold) {
+                break;
+            }
+        }
+        rayDistance += stepSize;
+    }
+    fragColor = color;
+}
@@ -0,0 +1,543 @@
+
+import { mat4, vec3, vec4 } from 'gl-matrix';
+
+import { assert, DEG2RAD, logIf, LogLevel } from './auxiliaries';
+import { m4, v3, v4 } from './gl-matrix-extensions';
+import { GLfloat2 } from './tuples';
+
+import { Camera } from './camera';
+import { Context } from './context';
+import { Framebuffer } from './framebuffer';
+import { Initializable } from './initializable';
+import { RandomSquareKernel } from './randomsquarekernel';
+import { Renderbuffer } from './renderbuffer';
+import { LightComponent } from './scene/lightcomponent';
+import { Texture2D } from './texture2d';
+
+
+/**
+ * This pass renders depth from the point of view of a directional or spot light into shadow maps. For directional
+ * lights, the view frustum of the camera is split into cascades (cascaded shadow maps), each covered by its own
+ * orthographic shadow map. For spot lights, a single perspective shadow map covering the light's cone is used. Depth
+ * is rendered into depth textures if supported (@see {@link Context.supportsDepthTexture}) and packed into rgb bytes
+ * otherwise (@see {@link depthPacked}). The light space matrices are exposed for use in custom shaders, which can
+ * sample the shadow maps via the `shadowmap` chunk (`#include <shadowmap>`), e.g., with percentage-closer filtering
+ * jittered per frame for soft shadows in multi-frame rendering:
+ * ```
+ * // within onUpdate
+ * this._shadowPass.camera = this._camera;
+ * this._shadowPass.update();
+ * ...
+ * // within onFrame
+ * if (frameNumber === 0) {
+ *     this._shadowPass.frame((viewProjection, cascade) => {
+ *         // render all shadow casters using the given light view projection (packing depth if depthPacked)
+ *     });
+ * }
+ * program.setUniform('u_shadowMatrices', this._shadowPass.shadowMatrices[0]);
+ * program.setUniform('u_shadowJitter', this._shadowPass.jitter(frameNumber));
+ * this._shadowPass.textures[0].bind(gl.TEXTURE1);
+ * ```
+ */
+export class ShadowPass extends Initializable {
+
+    /**
+     * Transforms normalized device coordinates to [0, 1] for shadow map lookup.
+     */
+    protected static readonly BIAS = mat4.fromValues(
+        0.5, 0.0, 0.0, 0.0,
+        0.0, 0.5, 0.0, 0.0,
+        0.0, 0.0, 0.5, 0.0,
+        0.5, 0.5, 0.5, 1.0);
+
+    /**
+     * Maximum number of cascades for directional lights, matching the split vector of the shadow map chunk.
+     */
+    static readonly MAX_CASCADES = 4;
+
+
+    /**
+     * Read-only access to the objects context, used to get context information and WebGL API access.
+     */
+    protected _context: Context;
+
+    /** @see {@link type} */
+    protected _type: LightComponent.Type = LightComponent.Type.Directional;
+
+    /** @see {@link position} */
+    protected _position: vec3 = v3();
+
+    /** @see {@link direction} */
+    protected _direction: vec3 = vec3.fromValues(0.0, 0.0, -1.0);
+
+    /** @see {@link coneAngle} */
+    protected _coneAngle = Math.PI * 0.25;
+
+    /** @see {@link near} */
+    protected _near = 0.1;
+
+    /** @see {@link far} */
+    protected _far = 100.0;
+
+    /** @see {@link camera} */
+    protected _camera: Camera | undefined;
+
+    /** @see {@link cascades} */
+    protected _cascades = ShadowPass.MAX_CASCADES;
+
+    /** @see {@link splitLambda} */
+    protected _splitLambda = 0.5;
+
+    /** @see {@link casterDistance} */
+    protected _casterDistance = 100.0;
+
+    /** @see {@link resolution} */
+    protected _resolution = 1024;
+
+    /** @see {@link softness} */
+    protected _softness = 1.0;
+
+    /**
+     * Filter offsets in [-0.5, +0.5] texels per frame of a multi-frame (@see {@link jitter}).
+     */
+    protected _jitterKernel = new RandomSquareKernel(1);
+
+    /** @see {@link depthPacked} */
+    protected _depthPacked: boolean;
+
+    /** @see {@link textures} */
+    protected _textures = new Array<Texture2D>();
+
+    /**
+     * Framebuffers per shadow map and, if depth is packed, depth renderbuffers used for depth testing.
+     */
+    protected _framebuffers = new Array<Framebuffer>();
+    protected _renderbuffers = new Array<Renderbuffer>();
+
+    /** @see {@link viewProjections} */
+    protected _viewProjections = new Array<mat4>();
+
+    /** @see {@link splits} */
+    protected _splits = new Array<number>();
+
+
+    /**
+     * Derives an up vector for a light view that is not parallel to the light direction.
+     */
+    protected static up(direction: vec3): vec3 {
+        return Math.abs(direction[1]) > 0.99 ? vec3.fromValues(0.0, 0.0, 1.0) : vec3.fromValues(0.0, 1.0, 0.0);
+    }
+
+    /**
+     * Computes the far distances of all cascades using the practical split scheme, i.e., a blend of logarithmic and
+     * uniform splits of the view distance range.
+     * @param near - Distance of the camera's near plane.
+     * @param far - Distance up to which shadows are cast.
+     * @param count - Number of cascades.
+     * @param lambda - Blend weight in [0, 1], one for logarithmic and zero for uniform splits.
+     * @returns - Far distance of each cascade, the last one being the far distance.
+     */
+    static splits(near: number, far: number, count: number, lambda: number): Array<number> {
+        const splits = new Array<number>(count);
+        for (let i = 1; i <= count; ++i) {
+            const fraction = i / count;
+            const logarithmic = near * Math.pow(far / near, fraction);
+            const uniform = near + (far - near) * fraction;
+            splits[i - 1] = lambda * logarithmic + (1.0 - lambda) * uniform;
+        }
+        return splits;
+    }
+
+    /**
+     * Computes the eight world space corners of the camera's view frustum between two distances along its view
+     * direction, i.e., four corners at the near and four corners at the far distance.
+     * @param camera - Camera to retrieve the frustum of.
+     * @param near - Distance of the first four corners.
+     * @param far - Distance of the last four corners.
+     */
+    static frustumCorners(camera: Camera, near: number, far: number): Array<vec3> {
+        const viewInverse = camera.viewInverse;
+        assert(viewInverse !== null, `expected camera view to be invertible`);
+
+        const w = camera.frustumWindow;
+        const corners = new Array<vec3>();
+        for (const distance of [near, far]) {
+            const top = camera.mode === Camera.ProjectionMode.Orthographic ? camera.orthographicHeight * 0.5 :
+                distance * Math.tan(camera.fovy * DEG2RAD * 0.5);
+            const right = top * camera.aspect;
+            for (const [x, y] of [[w[0], w[2]], [w[1], w[2]], [w[1], w[3]], [w[0], w[3]]]) {
+                corners.push(vec3.transformMat4(v3(), [right * x, top * y, -distance], viewInverse!));
+            }
+        }
+        return corners;
+    }
+
+    /**
+     * Computes an orthographic light view projection covering the bounding sphere of the given points. The sphere
+     * (instead of a tight box) keeps the shadow map's extent constant when the camera rotates, and the projection is
+     * snapped to texels, which avoids shimmering shadow edges when the camera moves.
+     * @param direction - Normalized direction of the light.
+     * @param corners - Points that are to be covered, e.g., the corners of a cascade.
+     * @param resolution - Width and height of the shadow map in px.
+     * @param casterDistance - Distance towards the light beyond the sphere within which casters are rendered.
+     */
+    static directional(direction: vec3, corners: Array<vec3>, resolution: number, casterDistance: number): mat4 {
+        const center = v3();
+        corners.forEach((corner) => vec3.add(center, center, corner));
+        vec3.scale(center, center, 1.0 / corners.length);
+
+        let radius = 0.0;
+        corners.forEach((corner) => radius = Math.max(radius, vec3.distance(center, corner)));
+        radius = Math.ceil(radius * 16.0) / 16.0;
+
+        const view = mat4.lookAt(m4(), center, vec3.add(v3(), center, direction), ShadowPass.up(direction));
+        const projection = mat4.ortho(m4(), -radius, radius, -radius, radius, -radius - casterDistance, radius);
+        const viewProjection = mat4.multiply(m4(), projection, view);
+
+        /* Snap the world origin to texels of the shadow map. */
+        const origin = vec4.transformMat4(v4(), [0.0, 0.0, 0.0, 1.0], viewProjection);
+        const scale = resolution * 0.5;
+        projection[12] += (Math.round(origin[0] * scale) - origin[0] * scale) / scale;
+        projection[13] += (Math.round(origin[1] * scale) - origin[1] * scale) / scale;
+
+        return mat4.multiply(viewProjection, projection, view);
+    }
+
+    /**
+     * Computes a perspective light view projection covering the cone of a spot light.
+     * @param position - Position of the light.
+     * @param direction - Normalized direction of the light.
+     * @param coneAngle - Outer cone angle of the light in radians.
+     * @param near - Distance of the near plane.
+     * @param far - Distance of the far plane.
+     */
+    static spot(position: vec3, direction: vec3, coneAngle: number, near: number, far: number): mat4 {
+        const view = mat4.lookAt(m4(), position, vec3.add(v3(), position, direction), ShadowPass.up(direction));
+        const projection = mat4.perspective(m4(), Math.min(coneAngle * 2.0, Math.PI * 0.99), 1.0, near, far);
+        return mat4.multiply(projection, projection, view);
+    }
+
+
+    constructor(context: Context) {
+        super();
+        this._context = context;
+    }
+
+
+    /**
+     * Creates or deletes shadow maps such that there is one per cascade.
+     */
+    protected allocate(count: number): void {
+        const gl = this._context.gl;
+        const gl2facade = this._context.gl2facade;
+        const size = this._resolution;
+
+        while (this._textures.length > count) {
+            this._framebuffers.pop()!.uninitialize();
+            this._textures.pop()!.uninitialize();
+            if (this._depthPacked) {
+                this._renderbuffers.pop()!.uninitialize();
+            }
+        }
+
+        while (this._textures.length < count) {
+            const index = this._textures.length;
+            const texture = new Texture2D(this._context, `ShadowMapTexture-${index}`);
+            const framebuffer = new Framebuffer(this._context, `ShadowMapFBO-${index}`);
+
+            if (this._depthPacked) {
+                const renderbuffer = new Renderbuffer(this._context, `ShadowMapDepthRenderbuffer-${index}`);
+                renderbuffer.initialize(size, size, gl.DEPTH_COMPONENT16);
+                texture.initialize(size, size, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE);
+                framebuffer.initialize([[gl2facade.COLOR_ATTACHMENT0, texture], [gl.DEPTH_ATTACHMENT, renderbuffer]]);
+                framebuffer.clearColor([1.0, 1.0, 1.0, 1.0]);
+                this._renderbuffers.push(renderbuffer);
+            } else {
+                const internalFormat = this._context.isWebGL2 ? gl.DEPTH_COMPONENT24 : gl.DEPTH_COMPONENT;
+                texture.initialize(size, size, internalFormat, gl.DEPTH_COMPONENT, gl.UNSIGNED_INT);
+                framebuffer.initialize([[gl.DEPTH_ATTACHMENT, texture]]);
+            }
+            texture.filter(gl.NEAREST, gl.NEAREST);
+            texture.wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+            framebuffer.clearDepth(1.0);
+
+            this._textures.push(texture);
+            this._framebuffers.push(framebuffer);
+        }
+    }
+
+
+    /**
+     * Initializes the pass. Depth textures are used if supported, packed depth otherwise.
+     */
+    @Initializable.initialize()
+    initialize(): boolean {
+        this._depthPacked = !this._context.supportsDepthTexture;
+        if (!this._depthPacked && this._context.isWebGL1) {
+            /* tslint:disable-next-line:no-unused-expression */
+            this._context.depthTexture; // enable extension
+        }
+        return true;
+    }
+
+    /**
+     * Releases all shadow maps.
+     */
+    @Initializable.uninitialize()
+    uninitialize(): void {
+        this.allocate(0);
+        this._viewProjections = [];
+        this._splits = [];
+    }
+
+    /**
+     * Derives the light view projections of all cascades (and allocates shadow maps if required). For directional
+     * lights, this requires a camera and should be invoked whenever the camera or the light changes.
+     */
+    @Initializable.assert_initialized()
+    update(): void {
+        if (this._type === LightComponent.Type.Spot) {
+            this.allocate(1);
+            this._viewProjections = [ShadowPass.spot(this._position, this._direction, this._coneAngle,
+                this._near, this._far)];
+            this._splits = [this._far];
+            return;
+        }
+
+        assert(this._type === LightComponent.Type.Directional,
+            `expected directional or spot light, given ${this._type}`);
+        logIf(this._camera === undefined, LogLevel.Warning, `camera expected for cascaded shadow maps`);
+        if (this._camera === undefined) {
+            return;
+        }
+        this.allocate(this._cascades);
+
+        const near = this._camera.near;
+        const far = Math.min(this._far, this._camera.infiniteFar ? this._far : this._camera.far);
+        this._splits = ShadowPass.splits(near, far, this._cascades, this._splitLambda);
+        this._viewProjections = this._splits.map((split, index) => {
+            const from = index === 0 ? near : this._splits[index - 1];
+            const corners = ShadowPass.frustumCorners(this._camera!, from, split);
+            return ShadowPass.directional(this._direction, corners, this._resolution, this._casterDistance);
+        });
+    }
+
+    /**
+     * Renders all shadow maps by invoking the given callback once per cascade with the shadow map's framebuffer bound,
+     * cleared, and its viewport set. The callback is expected to render all shadow casters with depth test enabled,
+     * using the given light view projection. For packed depth, fragments are expected to be encoded via
+     * `packShadowDepth(gl_FragCoord.z)` of the shadow map chunk.
+     * @param render - Callback rendering all shadow casters for a cascade.
+     */
+    @Initializable.assert_initialized()
+    frame(render: (viewProjection: mat4, cascade: number) => void): void {
+        const gl = this._context.gl;
+        const mask = gl.DEPTH_BUFFER_BIT | (this._depthPacked ? gl.COLOR_BUFFER_BIT : 0);
+
+        for (let i = 0; i < this._viewProjections.length; ++i) {
+            const framebuffer = this._framebuffers[i];
+            framebuffer.bind();
+            gl.viewport(0, 0, this._resolution, this._resolution);
+            framebuffer.clear(mask, false, false);
+
+            render(this._viewProjections[i], i);
+            framebuffer.unbind();
+        }
+    }
+
+    /**
+     * Filter offset in texels for the given frame of a multi-frame, scaled by the softness.
+     * @param frameNumber - Frame number to retrieve the offset for.
+     */
+    jitter(frameNumber: number): GLfloat2 {
+        const offset = this._jitterKernel.get(frameNumber % this._jitterKernel.width);
+        return [offset[0] * this._softness, offset[1] * this._softness];
+    }
+
+
+    /**
+     * Type of the light, either directional or spot (point lights are not supported).
+     */
+    set type(type: LightComponent.Type) {
+        this._type = type;
+    }
+
+    get type(): LightComponent.Type {
+        return this._type;
+    }
+
+    /**
+     * Position of a spot light in world space, e.g., of a light component.
+     */
+    set position(position: vec3) {
+        this._position = vec3.clone(position);
+    }
+
+    get position(): vec3 {
+        return this._position;
+    }
+
+    /**
+     * Normalized direction of the light in world space, e.g., of a light component.
+     */
+    set direction(direction: vec3) {
+        this._direction = vec3.normalize(v3(), direction);
+    }
+
+    get direction(): vec3 {
+        return this._direction;
+    }
+
+    /**
+     * Outer cone angle of a spot light in radians.
+     */
+    set coneAngle(angle: number) {
+        this._coneAngle = angle;
+    }
+
+    get coneAngle(): number {
+        return this._coneAngle;
+    }
+
+    /**
+     * Near distance of a spot light's shadow map.
+     */
+    set near(near: number) {
+        this._near = near;
+    }
+
+    get near(): number {
+        return this._near;
+    }
+
+    /**
+     * Far distance of a spot light's shadow map and maximum view distance up to which directional lights cast
+     * shadows (further limited by the camera's far plane).
+     */
+    set far(far: number) {
+        this._far = far;
+    }
+
+    get far(): number {
+        return this._far;
+    }
+
+    /**
+     * Camera whose view frustum is covered by the cascades of a directional light.
+     */
+    set camera(camera: Camera | undefined) {
+        this._camera = camera;
+    }
+
+    get camera(): Camera | undefined {
+        return this._camera;
+    }
+
+    /**
+     * Number of cascades for directional lights in [1, {@link MAX_CASCADES}].
+     */
+    set cascades(cascades: number) {
+        this._cascades = Math.min(Math.max(Math.floor(cascades), 1), ShadowPass.MAX_CASCADES);
+    }
+
+    get cascades(): number {
+        return this._cascades;
+    }
+
+    /**
+     * Blend between uniform (zero) and logarithmic (one) cascade splits.
+     */
+    set splitLambda(lambda: number) {
+        this._splitLambda = Math.min(Math.max(lambda, 0.0), 1.0);
+    }
+
+    get splitLambda(): number {
+        return this._splitLambda;
+    }
+
+    /**
+     * Distance towards a directional light beyond a cascade within which shadow casters are still rendered.
+     */
+    set casterDistance(distance: number) {
+        this._casterDistance = distance;
+    }
+
+    get casterDistance(): number {
+        return this._casterDistance;
+    }
+
+    /**
+     * Width and height of each shadow map in px. Existing shadow maps are resized.
+     */
+    set resolution(resolution: number) {
+        if (this._resolution === resolution) {
+            return;
+        }
+        this._resolution = resolution;
+        this._framebuffers.forEach((framebuffer) => framebuffer.resize(resolution, resolution));
+    }
+
+    get resolution(): number {
+        return this._resolution;
+    }
+
+    /**
+     * Radius of the jittered filter offsets in texels, i.e., the penumbra size of soft shadows when accumulated over
+     * multiple frames.
+     */
+    set softness(softness: number) {
+        this._softness = Math.max(softness, 0.0);
+    }
+
+    get softness(): number {
+        return this._softness;
+    }
+
+    /**
+     * Number of frames the filter offsets are generated for, e.g., the multi-frame number.
+     */
+    set multiFrameNumber(multiFrameNumber: number) {
+        this._jitterKernel.width = Math.max(multiFrameNumber, 1);
+    }
+
+    get multiFrameNumber(): number {
+        return this._jitterKernel.width;
+    }
+
+    /**
+     * Whether or not depth is packed into the rgb bytes of the shadow maps, i.e., depth textures are not supported.
+     * Shaders sampling the shadow maps should define SHADOW_PACKED_DEPTH in this case.
+     */
+    get depthPacked(): boolean {
+        return this._depthPacked;
+    }
+
+    /**
+     * Shadow maps, one per cascade.
+     */
+    get textures(): Array<Texture2D> {
+        return this._textures;
+    }
+
+    /**
+     * Light view projections, one per cascade, as of the last update.
+     */
+    get viewProjections(): Array<mat4> {
+        return this._viewProjections;
+    }
+
+    /**
+     * Light space matrices mapping world space to shadow map coordinates and depth in [0, 1], one per cascade.
+     */
+    get shadowMatrices(): Array<mat4> {
+        return this._viewProjections.map((viewProjection) => mat4.multiply(m4(), ShadowPass.BIAS, viewProjection));
+    }
+
+    /**
+     * Far view distances of the cascades as of the last update, e.g., for cascade selection in shaders.
+     */
+    get splits(): Array<number> {
+        return this._splits;
+    }
+
+}
@@ -0,0 +1,159 @@
+
+import { vec3 } from 'gl-matrix';
+
+import { log, LogLevel, rand } from './auxiliaries';
+import { mix, v3 } from './gl-matrix-extensions';
+
+import { Framebuffer } from './framebuffer';
+import { KernelF32 } from './kernel';
+import { PostProcessingPass } from './postprocessingpass';
+import { Program } from './program';
+import { RandomSquareKernel } from './randomsquarekernel';
+import { Texture2D } from './texture2d';
+
+
+/**
+ * Screen space ambient occlusion (SSAO) darkening the color by the occlusion of the fragment's view space hemisphere.
+ * Positions are reconstructed from depth and normals from neighboring positions. The hemisphere is sampled by a
+ * kernel of offsets (@see {@link hemisphere}) rotated per fragment by a tiled noise texture (@see {@link noise}).
+ * Depth and camera inputs are required; without them, the pass is skipped. This pass should be applied to linear
+ * color, i.e., before tone mapping.
+ */
+export class SSAOPass extends PostProcessingPass {
+
+    /**
+     * Number of hemisphere samples, matching the kernel size of the shader.
+     */
+    protected static readonly KERNEL_SIZE = 16;
+
+    /**
+     * Width and height of the tiled noise texture in px.
+     */
+    protected static readonly NOISE_SIZE = 4;
+
+
+    /** @see {@link radius} */
+    protected _radius = 0.5;
+
+    /** @see {@link intensity} */
+    protected _intensity = 1.0;
+
+    protected _program: Program;
+    protected _noiseTexture: Texture2D;
+
+
+    /**
+     * Generates sample offsets within the unit hemisphere around +z. Samples are distributed such that more samples
+     * are close to the origin, i.e., occlusion by nearby geometry is weighted higher.
+     * @param size - Number of samples.
+     * @returns - Kernel of three-component samples.
+     */
+    static hemisphere(size: GLsizei): KernelF32 {
+        const kernel = new KernelF32(3, size);
+        for (let i = 0; i < size; ++i) {
+            const sample = vec3.normalize(v3(), vec3.fromValues(rand(-1.0, +1.0), rand(-1.0, +1.0), rand(0.0, 1.0)));
+            const t = i / size;
+            vec3.scale(sample, sample, rand(0.0, 1.0) * mix(0.1, 1.0, t * t));
+            kernel.set([sample[0], sample[1], sample[2]], i);
+        }
+        return kernel;
+    }
+
+    /**
+     * Encodes the samples of a random square kernel as normalized rotation vectors into rgba bytes, e.g., for use as
+     * a tiled noise texture. Zero samples, e.g., the kernel's first sample, are mapped to +x.
+     * @param kernel - Kernel providing random two-component samples.
+     * @returns - Four bytes per sample with the rotation vector mapped to [0, 255] in red and green.
+     */
+    static noise(kernel: RandomSquareKernel): Uint8Array {
+        const bytes = new Uint8Array(kernel.width * 4);
+        for (let i = 0; i < kernel.width; ++i) {
+            const sample = kernel.get(i);
+            const length = Math.sqrt(sample[0] * sample[0] + sample[1] * sample[1]);
+            const x = length > 0.0 ? sample[0] / length : 1.0;
+            const y = length > 0.0 ? sample[1] / length : 0.0;
+
+            bytes[i * 4 + 0] = Math.round((x * 0.5 + 0.5) * 255.0);
+            bytes[i * 4 + 1] = Math.round((y * 0.5 + 0.5) * 255.0);
+            bytes[i * 4 + 2] = 0;
+            bytes[i * 4 + 3] = 255;
+        }
+        return bytes;
+    }
+
+
+    protected onInitialize(): boolean {
+        const gl = this._context.gl;
+
+        this._program = this.createProgram('ssao.frag', require('./shaders/ssao.frag'), 'SSAOProgram');
+
+        this._program.bind();
+        this._program.setUniform('u_source', 0);
+        this._program.setUniform('u_depth', 1);
+        this._program.setUniform('u_noise', 2);
+        this._program.setUniform('u_kernel', SSAOPass.hemisphere(SSAOPass.KERNEL_SIZE).samples);
+        this._program.unbind();
+
+        const size = SSAOPass.NOISE_SIZE;
+        this._noiseTexture = new Texture2D(this._context, 'SSAONoiseTexture');
+        this._noiseTexture.initialize(size, size, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE);
+        this._noiseTexture.filter(gl.NEAREST, gl.NEAREST);
+        this._noiseTexture.wrap(gl.REPEAT, gl.REPEAT);
+        this._noiseTexture.data(SSAOPass.noise(new RandomSquareKernel(size * size)));
+        return true;
+    }
+
+    protected onUninitialize(): void {
+        this._program.uninitialize();
+        this._noiseTexture.uninitialize();
+    }
+
+
+    frame(source: Texture2D, target: Framebuffer, inputs: PostProcessingPass.Inputs): boolean {
+        const camera = inputs.camera;
+        if (inputs.depth === undefined || camera === undefined) {
+            log(LogLevel.Debug, `ambient occlusion skipped, depth texture and camera expected`);
+            return false;
+        }
+        const inverseProjection = camera.projectionInverse;
+        if (inverseProjection === null) {
+            return false;
+        }
+
+        this._program.bind();
+        this._program.setUniform('u_projection', camera.projection);
+        this._program.setUniform('u_inverseProjection', inverseProjection);
+        this._program.setUniform('u_radius', this._radius);
+        this._program.setUniform('u_intensity', this._intensity);
+        this._program.setUniform('u_clearDepth', camera.reversedZ ? 0.0 : 1.0);
+        this._program.setUniform('u_texelSize', [1.0 / source.width, 1.0 / source.height]);
+        this._program.setUniform('u_noiseScale',
+            [source.width / SSAOPass.NOISE_SIZE, source.height / SSAOPass.NOISE_SIZE]);
+        this.draw(target, [source, inputs.depth, this._noiseTexture]);
+        return true;
+    }
+
+
+    /**
+     * Radius of the sampled hemisphere in world space units.
+     */
+    set radius(radius: number) {
+        this._radius = radius;
+    }
+
+    get radius(): number {
+        return this._radius;
+    }
+
+    /**
+     * Scale of the occlusion, e.g., zero for no and one for full darkening of fully occluded fragments.
+     */
+    set intensity(intensity: number) {
+        this._intensity = intensity;
+    }
+
+    get intensity(): number {
+        return this._intensity;
+    }
+
+}
@@ -0,0 +1,273 @@
+
+import { vec3 } from 'gl-matrix';
+
+import { assert, DEG2RAD } from './auxiliaries';
+import { v3 } from './gl-matrix-extensions';
+
+import { BlitPass } from './blitpass';
+import { Camera } from './camera';
+import { Framebuffer } from './framebuffer';
+import { GLsizei2, GLsizei4 } from './tuples';
+
+
+/**
+ * Stereo rig deriving left and right eye cameras from a monocular camera and composing per-eye renderings into
+ * side-by-side, top-bottom, or anaglyph (red-cyan) output. For perspective cameras, the eyes are offset by half the
+ * interocular distance along the camera's right vector with parallel view directions, and off-axis frusta (@see
+ * {@link Camera.frustumWindow}) make both frusta converge at the convergence distance (zero parallax). For orthographic
+ * cameras, which lack parallax, both eyes look at the convergence point instead (toe-in).
+ *
+ * Each eye is expected to be rendered into its own framebuffer of size {@link eyeSize}, e.g., with one accumulation
+ * pass per eye for multi-frame rendering:
+ * ```
+ * // within onUpdate
+ * this._stereo.update();
+ * ...
+ * // within onFrame
+ * for (const eye of [Stereo.Eye.Left, Stereo.Eye.Right]) {
+ *     const camera = this._stereo.eyeCamera(eye);
+ *     // ... render the scene using camera into this._intermediateFBOs[eye]
+ *     this._accumulatePasses[eye].frame(frameNumber, this._stereo.eyeSize(this._frameSize));
+ * }
+ * ...
+ * // within onSwap
+ * this._stereo.frame(this._blitPass, [this._accumulatePasses[0].framebuffer!, this._accumulatePasses[1].framebuffer!],
+ *     this._defaultFBO);
+ * ```
+ */
+export class Stereo {
+
+    protected static readonly DEFAULT_INTEROCULAR_DISTANCE = 0.065;
+
+
+    /** @see {@link camera} */
+    protected _camera: Camera | undefined;
+
+    /** @see {@link mode} */
+    protected _mode: Stereo.Mode = Stereo.Mode.SideBySide;
+
+    /** @see {@link interocularDistance} */
+    protected _interocularDistance: GLfloat = Stereo.DEFAULT_INTEROCULAR_DISTANCE;
+
+    /** @see {@link convergence} */
+    protected _convergence: GLfloat | undefined;
+
+    /**
+     * Left and right eye cameras, derived on update.
+     */
+    protected _cameras: [Camera, Camera] = [new Camera(), new Camera()];
+
+
+    /**
+     * Computes the size each eye is to be rendered at for the given output size.
+     * @param mode - Stereo output mode.
+     * @param size - Size of the output, e.g., the canvas's frame size.
+     */
+    static eyeSize(mode: Stereo.Mode, size: GLsizei2): GLsizei2 {
+        switch (mode) {
+            case Stereo.Mode.SideBySide:
+                return [Math.max(Math.floor(size[0] / 2), 1), size[1]];
+            case Stereo.Mode.TopBottom:
+                return [size[0], Math.max(Math.floor(size[1] / 2), 1)];
+            default:
+                return [size[0], size[1]];
+        }
+    }
+
+    /**
+     * Computes the bounds [x0, y0, x1, y1] within the output an eye is composed into (lower left origin). For
+     * top-bottom output, the left eye is placed at the top.
+     * @param mode - Stereo output mode.
+     * @param eye - Eye to retrieve the bounds for.
+     * @param size - Size of the output.
+     */
+    static bounds(mode: Stereo.Mode, eye: Stereo.Eye, size: GLsizei2): GLsizei4 {
+        const eyeSize = Stereo.eyeSize(mode, size);
+        const left = eye === Stereo.Eye.Left;
+        switch (mode) {
+            case Stereo.Mode.SideBySide:
+                return left ? [0, 0, eyeSize[0], size[1]] : [size[0] - eyeSize[0], 0, size[0], size[1]];
+            case Stereo.Mode.TopBottom:
+                return left ? [0, size[1] - eyeSize[1], size[0], size[1]] : [0, 0, size[0], eyeSize[1]];
+            default:
+                return [0, 0, size[0], size[1]];
+        }
+    }
+
+    /**
+     * Color channels an eye is composed into, i.e., red for the left and green and blue for the right eye in anaglyph
+     * mode and undefined (all channels) otherwise.
+     * @param mode - Stereo output mode.
+     * @param eye - Eye to retrieve the color mask for.
+     */
+    static colorMask(mode: Stereo.Mode, eye: Stereo.Eye): [boolean, boolean, boolean, boolean] | undefined {
+        if (mode !== Stereo.Mode.Anaglyph) {
+            return undefined;
+        }
+        return eye === Stereo.Eye.Left ? [true, false, false, true] : [false, true, true, false];
+    }
+
+
+    /**
+     * Creates a stereo rig for the given monocular camera.
+     * @param camera - Camera to derive the eye cameras from.
+     */
+    constructor(camera?: Camera) {
+        this._camera = camera;
+    }
+
+
+    /**
+     * Derives both eye cameras from the monocular camera. This should be invoked on every update, e.g., after
+     * navigation, so that both eyes follow the monocular camera.
+     */
+    update(): void {
+        if (this._camera === undefined) {
+            return;
+        }
+        const camera = this._camera;
+        const eyeSize = this.eyeSize(camera.viewport);
+        const aspect = camera.aspect * (eyeSize[0] / eyeSize[1]) / (camera.viewport[0] / camera.viewport[1]);
+
+        const forward = vec3.normalize(v3(), vec3.subtract(v3(), camera.center, camera.eye));
+        const right = vec3.normalize(v3(), vec3.cross(v3(), forward, camera.up));
+        const convergence = this._convergence !== undefined ? this._convergence :
+            vec3.distance(camera.eye, camera.center);
+        const halfDistance = this._interocularDistance * 0.5;
+
+        const perspective = camera.mode === Camera.ProjectionMode.Perspective;
+
+        /* Horizontal shift of the frusta in units of their half width, such that they overlap at convergence. */
+        const shift = perspective ? halfDistance / (convergence * Math.tan(camera.fovy * DEG2RAD * 0.5) * aspect) :
+            0.0;
+        const frustumWindow = camera.frustumWindow;
+
+        for (const eye of [Stereo.Eye.Left, Stereo.Eye.Right]) {
+            const sign = eye === Stereo.Eye.Left ? -1.0 : +1.0;
+            const target = this._cameras[eye];
+
+            const offset = vec3.scale(v3(), right, sign * halfDistance);
+            target.eye = vec3.add(v3(), camera.eye, offset);
+            target.center = perspective ? vec3.add(v3(), camera.center, offset) :
+                vec3.scaleAndAdd(v3(), camera.eye, forward, convergence);
+            target.up = camera.up;
+
+            target.mode = camera.mode;
+            target.fovy = camera.fovy;
+            target.orthographicHeight = camera.orthographicHeight;
+            target.far = camera.far;
+            target.near = camera.near;
+            target.reversedZ = camera.reversedZ;
+            target.infiniteFar = camera.infiniteFar;
+
+            target.viewport = eyeSize;
+            target.aspect = aspect;
+            target.frustumWindow = [frustumWindow[0] - sign * shift, frustumWindow[1] - sign * shift,
+                frustumWindow[2], frustumWindow[3]];
+        }
+    }
+
+    /**
+     * Eye camera, derived from the monocular camera on update.
+     * @param eye - Eye to retrieve the camera for.
+     */
+    eyeCamera(eye: Stereo.Eye): Camera {
+        return this._cameras[eye];
+    }
+
+    /**
+     * Computes the size each eye is to be rendered at for the given output size in the current mode.
+     * @param size - Size of the output, e.g., the canvas's frame size.
+     */
+    eyeSize(size: GLsizei2): GLsizei2 {
+        return Stereo.eyeSize(this._mode, size);
+    }
+
+    /**
+     * Composes the renderings of both eyes into the target using the given blit pass. Read and draw buffers are
+     * expected to be configured on the blit pass. Bounds and color mask of the blit pass are reset afterwards.
+     * @param blit - Initialized blit pass used for composition.
+     * @param framebuffers - Framebuffers of the left and right eye to blit from.
+     * @param target - Framebuffer to compose the output into.
+     */
+    frame(blit: BlitPass, framebuffers: [Framebuffer, Framebuffer], target: Framebuffer): void {
+        assert(blit.initialized, `expected an initialized blit pass`);
+        const size: GLsizei2 = [target.width, target.height];
+
+        blit.target = target;
+        for (const eye of [Stereo.Eye.Left, Stereo.Eye.Right]) {
+            blit.framebuffer = framebuffers[eye];
+            blit.bounds = Stereo.bounds(this._mode, eye, size);
+            blit.colorMask = Stereo.colorMask(this._mode, eye);
+            blit.frame();
+        }
+        blit.bounds = undefined;
+        blit.colorMask = undefined;
+    }
+
+
+    /**
+     * Monocular camera the eye cameras are derived from.
+     */
+    set camera(camera: Camera | undefined) {
+        this._camera = camera;
+    }
+
+    get camera(): Camera | undefined {
+        return this._camera;
+    }
+
+    /**
+     * Output mode, i.e., how both eyes are composed.
+     */
+    set mode(mode: Stereo.Mode) {
+        this._mode = mode;
+    }
+
+    get mode(): Stereo.Mode {
+        return this._mode;
+    }
+
+    /**
+     * Distance between both eyes in world space units (defaults to 0.065, i.e., meters for metric scenes).
+     */
+    set interocularDistance(distance: GLfloat) {
+        this._interocularDistance = distance;
+    }
+
+    get interocularDistance(): GLfloat {
+        return this._interocularDistance;
+    }
+
+    /**
+     * Distance from the eye to the plane of zero parallax. Objects in front of this plane appear in front of the
+     * display. If undefined, the distance between the camera's eye and center is used.
+     */
+    set convergence(convergence: GLfloat | undefined) {
+        this._convergence = convergence;
+    }
+
+    get convergence(): GLfloat | undefined {
+        if (this._convergence !== undefined || this._camera === undefined) {
+            return this._convergence;
+        }
+        return vec3.distance(this._camera.eye, this._camera.center);
+    }
+
+}
+
+
+export namespace Stereo {
+
+    export enum Mode {
+        SideBySide = 'sidebyside',
+        TopBottom = 'topbottom',
+        Anaglyph = 'anaglyph',
+    }
+
+    export enum Eye {
+        Left = 0,
+        Right = 1,
+    }
+
+}
@@ -1,6 +1,6 @@
 precision mediump float;
 
-@import ./../shaders/facade.frag;
+#include <facade.frag>
 
 
 #if __VERSION__ == 100
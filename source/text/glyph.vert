@@ -1,7 +1,7 @@
 precision mediump float;
 precision lowp int;
 
-@import ./../shaders/facade.vert;
+#include <facade.vert>
 
 
 #if __VERSION__ == 100
@@ -27,7 +27,7 @@ uniform vec2 u_ndcOffset;
 
 varying vec2 v_uv;
 
-@import ./../shaders/ndcoffset;
+#include <ndcoffset>
 
 
 void main(void)
@@ -1,9 +1,19 @@
 
 import { assert, log, LogLevel } from './auxiliaries';
 import { byteSizeOfFormat } from './formatbytesizes';
+import {
+    anisotropy as anisotropyParameter,
+    levelCount,
+    levelSize,
+    lod as lodParameters,
+    mipmappable,
+    resizeToPowerOfTwo,
+    texels,
+} from './mipmapping';
 import { GLsizei2 } from './tuples';
 
 import { Bindable } from './bindable';
+import { CompressedTexture } from './compressedtexture';
 import { TexImage2DData } from './gl2facade';
 import { Initializable } from './initializable';
 import { AbstractObject } from './object';
@@ -18,6 +28,11 @@ import { AbstractObject } from './object';
  * texture.initialize(1, 1, gl.RGB8, gl.RGB, gl.UNSIGNED_BYTE);
  * texture.load('/img/webgl-operate-logo.png', true)
  * ```
+ * Block compressed texel data including all mipmap levels can be loaded from KTX, KTX2, or DDS containers, with the
+ * container selected by the compression families supported by the context (@see {@link CompressedTexture}):
+ * ```
+ * texture.loadCompressed({ astc: '/img/logo.astc.ktx2', s3tc: '/img/logo.dxt5.dds' });
+ * ```
  */
 export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable {
 
@@ -41,6 +56,14 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
     /** @see {@link type} */
     protected _type: GLenum = 0;
 
+    /** @see {@link levels} */
+    protected _levels: GLsizei = 1;
+
+    /**
+     * Exact size of compressed texel data of all levels in bytes, undefined for uncompressed texel data.
+     */
+    protected _compressedBytes: GLsizei | undefined;
+
 
     /**
      * Create a texture object on the GPU.
@@ -98,13 +121,28 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
 
         this._width = 0;
         this._height = 0;
+        this._levels = 1;
+        this._compressedBytes = undefined;
     }
 
     protected reallocate(): void {
         const gl = this.context.gl;
         const gl2facade = this._context.gl2facade;
 
-        let bytes: GLsizei = this._width * this._height * byteSizeOfFormat(this.context, this._internalFormat);
+        if (this._compressedBytes !== undefined) {
+            this.context.allocationRegister.reallocate(this._identifier, this._compressedBytes);
+            return;
+        }
+
+        const count = texels(this._width, this._height, 1, this._levels);
+        // Unsized depth formats (e.g., in webgl with depth texture support) are sized by their type.
+        if (this._internalFormat === gl.DEPTH_COMPONENT || this._internalFormat === gl.DEPTH_STENCIL) {
+            this.context.allocationRegister.reallocate(this._identifier,
+                count * (this._type === gl.UNSIGNED_SHORT ? 2 : 4));
+            return;
+        }
+
+        let bytes: GLsizei = count * byteSizeOfFormat(this.context, this._internalFormat);
         // Fix in case of implicit float and half-float texture generation (e.g., in webgl with half_float support).
         if (this._type === gl2facade.HALF_FLOAT && this._internalFormat !== gl.RGBA16F) {
             bytes *= 2;
@@ -142,10 +180,12 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
      * Asynchronous load of an image via URL or data URI.
      * @param url - Uniform resource locator string referencing the image that should be loaded (data URI supported).
      * @param crossOrigin - Enable cross origin data loading.
+     * @param mipmap - Generate mipmaps after loading. In WebGL1, non-power-of-two images are resized to the next
+     * larger power-of-two size on the CPU in advance.
      * @returns - Promise for handling image load status.
      */
     @Initializable.assert_initialized()
-    load(url: string, crossOrigin: boolean = false): Promise<void> {
+    load(url: string, crossOrigin: boolean = false, mipmap: boolean = false): Promise<void> {
         return new Promise((resolve, reject) => {
             const image = new Image();
             image.onerror = () => {
@@ -154,8 +194,13 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
             };
 
             image.onload = () => {
-                this.resize(image.width, image.height);
-                this.data(image);
+                const source = mipmap && !mipmappable(this.context, image.width, image.height) ?
+                    resizeToPowerOfTwo(image) : image;
+                this.resize(source.width, source.height);
+                this.data(source);
+                if (mipmap) {
+                    this.generateMipmap();
+                }
                 resolve();
             };
 
@@ -171,9 +216,11 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
      * @param data - Texel data that will be copied into the objects data store.
      * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
      * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     * @param level - Mipmap level the data is passed to, with the data expected to match the level's size. Please
+     * note that for mipmap filtering all levels down to 1x1 are required (or a restricted maximum level in WebGL2).
      */
     @Initializable.assert_initialized()
-    data(data: TexImage2DData, bind: boolean = true, unbind: boolean = true): void {
+    data(data: TexImage2DData, bind: boolean = true, unbind: boolean = true, level: GLint = 0): void {
         const gl = this.context.gl;
         const gl2facade = this._context.gl2facade;
 
@@ -181,12 +228,70 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
             this.bind();
         }
 
-        gl2facade.texImage2D(gl.TEXTURE_2D, 0, this._internalFormat,
-            this._width, this._height, 0, this._format, this._type, data);
+        gl2facade.texImage2D(gl.TEXTURE_2D, level, this._internalFormat,
+            levelSize(this._width, level), levelSize(this._height, level), 0, this._format, this._type, data);
+        this._levels = Math.max(this._levels, level + 1);
 
         if (unbind) {
             this.unbind();
         }
+        this._compressedBytes = undefined;
+        this.reallocate();
+    }
+
+    /**
+     * Asynchronous load of block compressed texel data from a KTX, KTX2, or DDS container.
+     * @param sources - URL of a single container or URLs of containers per compression family, of which the one
+     * preferred and supported by the context is loaded.
+     * @returns - Promise for handling load status.
+     */
+    @Initializable.assert_initialized()
+    loadCompressed(sources: CompressedTexture.Sources | string): Promise<void> {
+        return CompressedTexture.load(this.context, sources).then((texture) => this.compressedData(texture))
+            .catch((reason) => {
+                log(LogLevel.Error, `loading compressed texture failed: ${reason}`);
+                return Promise.reject(reason);
+            });
+    }
+
+    /**
+     * Pass block compressed texel data of all levels to the texture object. The texture adopts the size and internal
+     * format of the compressed texture. The extension of the compression family is enabled on upload. Please note
+     * that in WebGL1 an incomplete mipmap chain renders the texture incomplete when using mipmap filtering, whereas in
+     * WebGL2 the maximum level is restricted to the levels provided. Subsequent resize or reformat should be avoided,
+     * since these re-specify the texture with uncompressed (undefined) data.
+     * @param texture - Compressed texel data of a single face.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    compressedData(texture: CompressedTexture, bind: boolean = true, unbind: boolean = true): void {
+        assert(texture.faces === 1, `expected compressed texture of a single face, given ${texture.faces}`);
+        const gl = this.context.gl;
+
+        CompressedTexture.enable(this.context, texture.family);
+
+        if (bind) {
+            this.bind();
+        }
+
+        texture.levels.forEach((images, level) => {
+            const size = texture.levelSize(level);
+            gl.compressedTexImage2D(gl.TEXTURE_2D, level, texture.internalFormat, size[0], size[1], 0, images[0]);
+        });
+        if (this.context.isWebGL2) {
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAX_LEVEL, texture.levels.length - 1);
+        }
+
+        if (unbind) {
+            this.unbind();
+        }
+
+        this._width = texture.width;
+        this._height = texture.height;
+        this._internalFormat = texture.internalFormat;
+        this._levels = texture.levels.length;
+        this._compressedBytes = texture.byteSize;
         this.reallocate();
     }
 
@@ -211,6 +316,72 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
         }
     }
 
+    /**
+     * Generates all mipmap levels from the base level. In WebGL1, this requires the texture to be of power-of-two
+     * size (@see {@link load} for resizing images on load). Note that the minification filter needs to be set to one
+     * of the mipmap filters, e.g., LINEAR_MIPMAP_LINEAR, for mipmaps to be used.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    generateMipmap(bind: boolean = true, unbind: boolean = true): void {
+        assert(this._compressedBytes === undefined, `expected uncompressed texture for mipmap generation`);
+        assert(mipmappable(this.context, this._width, this._height),
+            `expected power-of-two size for mipmap generation in WebGL1, given [${this._width}, ${this._height}]`);
+        const gl = this.context.gl;
+
+        if (bind) {
+            this.bind();
+        }
+        gl.generateMipmap(gl.TEXTURE_2D);
+        if (unbind) {
+            this.unbind();
+        }
+
+        this._levels = levelCount(this._width, this._height);
+        this.reallocate();
+    }
+
+    /**
+     * Sets the texture object's degree of anisotropic filtering, clamped to the hardware maximum.
+     * @param anisotropy - Requested degree of anisotropy, 1 disables anisotropic filtering.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     * @returns - The degree of anisotropy set, 1 if anisotropic filtering is not supported.
+     */
+    @Initializable.assert_initialized()
+    anisotropy(anisotropy: GLfloat, bind: boolean = true, unbind: boolean = true): GLfloat {
+        if (bind) {
+            this.bind();
+        }
+        const value = anisotropyParameter(this.context, this.context.gl.TEXTURE_2D, anisotropy);
+        if (unbind) {
+            this.unbind();
+        }
+        return value;
+    }
+
+    /**
+     * Restricts the texture object's level of detail and accessible mipmap levels (WebGL2 only).
+     * @param min - Value for the TEXTURE_MIN_LOD parameter.
+     * @param max - Value for the TEXTURE_MAX_LOD parameter.
+     * @param baseLevel - Value for the TEXTURE_BASE_LEVEL parameter.
+     * @param maxLevel - Value for the TEXTURE_MAX_LEVEL parameter, defaulted to the last level.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    lod(min: GLfloat, max: GLfloat, baseLevel: GLint = 0, maxLevel: GLint = this._levels - 1,
+        bind: boolean = true, unbind: boolean = true): void {
+        if (bind) {
+            this.bind();
+        }
+        lodParameters(this.context, this.context.gl.TEXTURE_2D, min, max, baseLevel, maxLevel);
+        if (unbind) {
+            this.unbind();
+        }
+    }
+
     /**
      * Sets the texture object's wrapping function for s and t coordinates.
      * @param wrap_s - Value for the TEXTURE_WRAP_S parameter, defaulted to CLAMP_TO_EDGE.
@@ -235,7 +406,8 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
 
     /**
      * This can be used to reformat the texture image without creating a new texture object. Please note that this
-     * resets the texture's image data to undefined. @see {@link data} for setting new image data.
+     * resets the texture's image data to undefined and mipmaps need to be regenerated. @see {@link data} for setting
+     * new image data.
      * @param internalFormat - Internal format of the texture object.
      * @param format - Format of the texture data even though no data is passed.
      * @param type - Data type of the texel data.
@@ -261,11 +433,12 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
             this._type = type;
         }
 
+        this._levels = 1;
         this.data(undefined, bind, unbind);
     }
 
     /**
-     * This should be used to implement efficient resize the texture.
+     * This should be used to implement efficient resize the texture. Please note that mipmaps need to be regenerated.
      * @param width - Targeted/new width of the texture in px.
      * @param height - Targeted/new height of the texture in px.
      * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
@@ -279,12 +452,13 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
         this._width = width;
         this._height = height;
 
+        this._levels = 1;
         this.data(undefined, bind, unbind);
     }
 
     /**
-     * Returns the number of bytes this object approximately allocates on the GPU. The size will be zero when no
-     * image data was passed to the texture object.
+     * Returns the number of bytes this object approximately allocates on the GPU, including all specified mipmap
+     * levels. The size will be zero when no image data was passed to the texture object.
      */
     get bytes(): GLsizei {
         this.assertInitialized();
@@ -317,6 +491,14 @@ export class Texture2D extends AbstractObject<WebGLTexture> implements Bindable
         return this._type!;
     }
 
+    /**
+     * Number of mipmap levels specified, either by mipmap generation or per-level data, starting with the base level.
+     */
+    get levels(): GLsizei {
+        this.assertInitialized();
+        return this._levels;
+    }
+
     /**
      * The width of the texture object in px.
      */
@@ -1,12 +1,20 @@
 
-import { assert } from './auxiliaries';
+import { assert, log, LogLevel } from './auxiliaries';
 import { byteSizeOfFormat } from './formatbytesizes';
+import {
+    anisotropy as anisotropyParameter,
+    levelCount,
+    levelSize,
+    lod as lodParameters,
+    texels,
+} from './mipmapping';
 import { GLsizei3 } from './tuples';
 
 import { Bindable } from './bindable';
 import { TexImage3DData } from './gl2facade';
 import { Initializable } from './initializable';
 import { AbstractObject } from './object';
+import { Volume } from './volume';
 
 
 /**
@@ -45,6 +53,9 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
     /** @see {@link type} */
     protected _type: GLenum = 0;
 
+    /** @see {@link levels} */
+    protected _levels: GLsizei = 1;
+
 
     /**
      * Create a texture object on the GPU.
@@ -108,18 +119,21 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
         this._width = 0;
         this._height = 0;
         this._depth = 0;
+        this._levels = 1;
     }
 
     protected reallocate(): void {
         const gl = this.context.gl;
         const gl2facade = this._context.gl2facade;
 
-        let bytes: GLsizei = this._width * this._height * this._depth
+        let bytes: GLsizei = texels(this._width, this._height, this._depth, this._levels)
             * byteSizeOfFormat(this.context, this._internalFormat);
         // Fix in case of implicit float and half-float texture generation (e.g., in webgl with half_float support).
-        if (this._type === gl2facade.HALF_FLOAT && this._internalFormat !== gl.RGBA16F) {
+        // Sized internal formats, e.g., R16F specified with float data, already account for their precision.
+        const sized = this._internalFormat !== this._format;
+        if (this._type === gl2facade.HALF_FLOAT && this._internalFormat !== gl.RGBA16F && !sized) {
             bytes *= 2;
-        } else if (this._type === gl.FLOAT && this._internalFormat !== gl.RGBA16F) {
+        } else if (this._type === gl.FLOAT && this._internalFormat !== gl.RGBA16F && !sized) {
             bytes *= 4;
         }
         this.context.allocationRegister.reallocate(this._identifier, bytes);
@@ -214,9 +228,10 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
      * @param data - Texel data that will be copied into the objects data store.
      * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
      * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     * @param level - Mipmap level the data is passed to, with the data expected to match the level's size.
      */
     @Initializable.assert_initialized()
-    data(data: TexImage3DData, bind: boolean = true, unbind: boolean = true): void {
+    data(data: TexImage3DData, bind: boolean = true, unbind: boolean = true, level: GLint = 0): void {
         const gl = this.context.gl;
         const gl2facade = this._context.gl2facade;
 
@@ -224,8 +239,9 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
             this.bind();
         }
 
-        gl2facade.texImage3D(gl.TEXTURE_3D, 0, this._internalFormat,
-            this._width, this._height, this._depth, 0, this._format, this._type, data);
+        gl2facade.texImage3D(gl.TEXTURE_3D, level, this._internalFormat, levelSize(this._width, level),
+            levelSize(this._height, level), levelSize(this._depth, level), 0, this._format, this._type, data);
+        this._levels = Math.max(this._levels, level + 1);
 
         if (unbind) {
             this.unbind();
@@ -233,6 +249,57 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
         this.reallocate();
     }
 
+    /**
+     * Asynchronous load of a volume from a NRRD file or a raw file with JSON header (@see {@link Volume.load}).
+     * @param url - URL of the NRRD (.nrrd) or raw file.
+     * @param header - Optional header of a raw file, fetched from the JSON file of the same name otherwise.
+     * @returns - Promise resolving on the volume, e.g., for accessing its spacing and value range.
+     */
+    @Initializable.assert_initialized()
+    loadVolume(url: string, header?: Volume.Header): Promise<Volume> {
+        return Volume.load(url, header).then((volume) => {
+            this.volumeData(volume);
+            return volume;
+        }).catch((reason) => {
+            log(LogLevel.Error, `loading volume failed: ${reason}`);
+            return Promise.reject(reason);
+        });
+    }
+
+    /**
+     * Pass scalar volume data to the texture object, adopting the volume's size. Values of 8 bit volumes are stored
+     * as is (R8), all other types are mapped from their value range to [0, 1] and stored as half float (R16F), which
+     * can be filtered linearly in contrast to integer formats.
+     * @param volume - Volume to upload.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    volumeData(volume: Volume, bind: boolean = true, unbind: boolean = true): void {
+        assert(this.context.isWebGL2, `expected WebGL2 for single channel volume textures`);
+        const gl = this.context.gl;
+
+        const uint8 = volume.type === Volume.Type.Uint8;
+        this._internalFormat = uint8 ? gl.R8 : gl.R16F;
+        this._format = gl.RED;
+        this._type = uint8 ? gl.UNSIGNED_BYTE : gl.FLOAT;
+        this._width = volume.size[0];
+        this._height = volume.size[1];
+        this._depth = volume.size[2];
+        this._levels = 1;
+
+        if (bind) {
+            this.bind();
+        }
+        /* Rows of single channel volumes are not necessarily aligned to four bytes. */
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+        this.data(uint8 ? volume.data : volume.normalized(), false, false);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+        if (unbind) {
+            this.unbind();
+        }
+    }
+
     /**
      * Sets the texture object's magnification and minification filter.
      * @param mag - Value for the TEXTURE_MAG_FILTER parameter.
@@ -254,6 +321,68 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
         }
     }
 
+    /**
+     * Generates all mipmap levels from the base level. Note that the minification filter needs to be set to one of the
+     * mipmap filters, e.g., LINEAR_MIPMAP_LINEAR, for mipmaps to be used.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    generateMipmap(bind: boolean = true, unbind: boolean = true): void {
+        const gl = this.context.gl;
+
+        if (bind) {
+            this.bind();
+        }
+        gl.generateMipmap(gl.TEXTURE_3D);
+        if (unbind) {
+            this.unbind();
+        }
+
+        this._levels = levelCount(this._width, this._height, this._depth);
+        this.reallocate();
+    }
+
+    /**
+     * Sets the texture object's degree of anisotropic filtering, clamped to the hardware maximum.
+     * @param anisotropy - Requested degree of anisotropy, 1 disables anisotropic filtering.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     * @returns - The degree of anisotropy set, 1 if anisotropic filtering is not supported.
+     */
+    @Initializable.assert_initialized()
+    anisotropy(anisotropy: GLfloat, bind: boolean = true, unbind: boolean = true): GLfloat {
+        if (bind) {
+            this.bind();
+        }
+        const value = anisotropyParameter(this.context, this.context.gl.TEXTURE_3D, anisotropy);
+        if (unbind) {
+            this.unbind();
+        }
+        return value;
+    }
+
+    /**
+     * Restricts the texture object's level of detail and accessible mipmap levels.
+     * @param min - Value for the TEXTURE_MIN_LOD parameter.
+     * @param max - Value for the TEXTURE_MAX_LOD parameter.
+     * @param baseLevel - Value for the TEXTURE_BASE_LEVEL parameter.
+     * @param maxLevel - Value for the TEXTURE_MAX_LEVEL parameter, defaulted to the last level.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    lod(min: GLfloat, max: GLfloat, baseLevel: GLint = 0, maxLevel: GLint = this._levels - 1,
+        bind: boolean = true, unbind: boolean = true): void {
+        if (bind) {
+            this.bind();
+        }
+        lodParameters(this.context, this.context.gl.TEXTURE_3D, min, max, baseLevel, maxLevel);
+        if (unbind) {
+            this.unbind();
+        }
+    }
+
     /**
      * Sets the texture object's wrapping function for s and t coordinates.
      * @param wrap_s - Value for the TEXTURE_WRAP_S parameter, defaulted to CLAMP_TO_EDGE.
@@ -280,7 +409,8 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
 
     /**
      * This can be used to reformat the texture image without creating a new texture object. Please note that this
-     * resets the texture's image data to undefined. @see {@link data} for setting new image data.
+     * resets the texture's image data to undefined and mipmaps need to be regenerated. @see {@link data} for setting
+     * new image data.
      * @param internalFormat - Internal format of the texture object.
      * @param format - Format of the texture data even though no data is passed.
      * @param type - Data type of the texel data.
@@ -306,11 +436,12 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
             this._type = type;
         }
 
+        this._levels = 1;
         this.data(undefined, bind, unbind);
     }
 
     /**
-     * This should be used to implement efficient resize the texture.
+     * This should be used to implement efficient resize the texture. Please note that mipmaps need to be regenerated.
      * @param width - Targeted/new width of the texture in px.
      * @param height - Targeted/new height of the texture in px.
      * @param depth - Targeted/new depth of the texture in px.
@@ -326,12 +457,13 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
         this._height = height;
         this._depth = depth;
 
+        this._levels = 1;
         this.data(undefined, bind, unbind);
     }
 
     /**
-     * Returns the number of bytes this object approximately allocates on the GPU. The size will be zero when no
-     * image data was passed to the texture object.
+     * Returns the number of bytes this object approximately allocates on the GPU, including all specified mipmap
+     * levels. The size will be zero when no image data was passed to the texture object.
      */
     get bytes(): GLsizei {
         this.assertInitialized();
@@ -364,6 +496,14 @@ export class Texture3D extends AbstractObject<WebGLTexture> implements Bindable
         return this._type!;
     }
 
+    /**
+     * Number of mipmap levels specified, either by mipmap generation or per-level data, starting with the base level.
+     */
+    get levels(): GLsizei {
+        this.assertInitialized();
+        return this._levels;
+    }
+
     /**
      * The width of the texture object in px.
      */
@@ -1,8 +1,17 @@
 
 import { assert, log, LogLevel } from './auxiliaries';
 import { byteSizeOfFormat } from './formatbytesizes';
+import {
+    anisotropy as anisotropyParameter,
+    levelCount,
+    levelSize,
+    lod as lodParameters,
+    mipmappable,
+    texels,
+} from './mipmapping';
 
 import { Bindable } from './bindable';
+import { CompressedTexture } from './compressedtexture';
 import { TexImage2DData } from './gl2facade';
 import { Initializable } from './initializable';
 import { AbstractObject } from './object';
@@ -21,6 +30,10 @@ import { AbstractObject } from './object';
  *     positiveZ: 'data/cubemap.pz.png', negativeZ: 'data/cubemap.nz.png',
  * }).then(() => this.invalidate(true);
  * ```
+ * Block compressed cube maps can be loaded from KTX, KTX2, or DDS containers (@see {@link CompressedTexture}):
+ * ```
+ * cubeMap.loadCompressed({ etc: 'data/cubemap.etc2.ktx', s3tc: 'data/cubemap.dxt1.dds' });
+ * ```
  * Please note that each of the six textures of a texture cube is required to be of the exact same, square dimensions.
  * This is reflected within this classes interface by providing a single size property in favor to width and height.
  */
@@ -43,8 +56,11 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
     /** @see {@link type} */
     protected _type: GLenum = 0;
 
+    /** @see {@link levels} */
+    protected _levels: GLsizei = 1;
+
     /**
-     * For tracking approximate use of GPU storage in bytes per face.
+     * For tracking approximate use of GPU storage in bytes per face (including all specified mipmap levels).
      */
     protected _bytes: Array<GLsizei> = [0, 0, 0, 0, 0, 0];
 
@@ -78,6 +94,21 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
         }
     }
 
+    /**
+     * Approximate GPU storage of a single face in bytes, including all specified mipmap levels.
+     */
+    protected faceBytes(): GLsizei {
+        let bytes = texels(this._size, this._size, 1, this._levels)
+            * byteSizeOfFormat(this.context, this._internalFormat as GLenum);
+        // Fix in case of implicit float and half-float texture generation (e.g., in webgl with half_float support).
+        if (this._type === this.context.gl2facade.HALF_FLOAT && this._internalFormat !== this.context.gl.RGBA16F) {
+            bytes *= 2;
+        } else if (this._type === this.context.gl.FLOAT && this._internalFormat !== this.context.gl.RGBA16F) {
+            bytes *= 4;
+        }
+        return bytes;
+    }
+
 
     /**
      * Create a texture object on the GPU.
@@ -142,6 +173,7 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
         this._type = 0;
 
         this._size = 0;
+        this._levels = 1;
     }
 
 
@@ -242,27 +274,26 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
      * or as tuple, providing the data associated to the targeted face (as GLenum).
      * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
      * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     * @param level - Mipmap level the data is passed to, with the data expected to match the level's size.
      */
     @Initializable.assert_initialized()
-    data(data: TextureCube.PerFaceData | [GLenum, TexImage2DData], bind: boolean = true, unbind: boolean = true): void {
+    data(data: TextureCube.PerFaceData | [GLenum, TexImage2DData], bind: boolean = true, unbind: boolean = true,
+        level: GLint = 0): void {
         const gl = this.context.gl;
         const gl2facade = this.context.gl2facade;
 
-        let bytesPerFace = this._size * this._size * byteSizeOfFormat(this.context, this._internalFormat as GLenum);
-        // Fix in case of implicit float and half-float texture generation (e.g., in webgl with half_float support).
-        if (this._type === this.context.gl2facade.HALF_FLOAT && this._internalFormat !== this.context.gl.RGBA16F) {
-            bytesPerFace *= 2;
-        } else if (this._type === this.context.gl.FLOAT && this._internalFormat !== this.context.gl.RGBA16F) {
-            bytesPerFace *= 4;
-        }
+        const size = levelSize(this._size, level);
+        this._levels = Math.max(this._levels, level + 1);
+
+        const bytesPerFace = this.faceBytes();
 
         if (bind) {
             this.bind();
         }
 
         if (data instanceof Array && data.length === 2) { /* if tuple is provided... */
-            gl2facade.texImage2D(data[0], 0, this._internalFormat,
-                this._size, this._size, 0, this._format, this._type, data[1]);
+            gl2facade.texImage2D(data[0], level, this._internalFormat,
+                size, size, 0, this._format, this._type, data[1]);
             const id = this.faceID(data[0]);
             this.context.allocationRegister.deallocate(this._identifier, this._bytes[id]);
             this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
@@ -272,43 +303,43 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
             const perFaceData = data as TextureCube.PerFaceData;
 
             if (perFaceData.positiveX !== undefined) {
-                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_X, 0, this._internalFormat,
-                    this._size, this._size, 0, this._format, this._type, perFaceData.positiveX);
+                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_X, level, this._internalFormat,
+                    size, size, 0, this._format, this._type, perFaceData.positiveX);
                 this.context.allocationRegister.deallocate(this._identifier, this._bytes[0]);
                 this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
                 this._bytes[0] = bytesPerFace;
             }
             if (perFaceData.negativeX !== undefined) {
-                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_NEGATIVE_X, 0, this._internalFormat,
-                    this._size, this._size, 0, this._format, this._type, perFaceData.negativeX);
+                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_NEGATIVE_X, level, this._internalFormat,
+                    size, size, 0, this._format, this._type, perFaceData.negativeX);
                 this.context.allocationRegister.deallocate(this._identifier, this._bytes[1]);
                 this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
                 this._bytes[1] = bytesPerFace;
             }
             if (perFaceData.positiveY !== undefined) {
-                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_Y, 0, this._internalFormat,
-                    this._size, this._size, 0, this._format, this._type, perFaceData.positiveY);
+                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_Y, level, this._internalFormat,
+                    size, size, 0, this._format, this._type, perFaceData.positiveY);
                 this.context.allocationRegister.deallocate(this._identifier, this._bytes[2]);
                 this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
                 this._bytes[2] = bytesPerFace;
             }
             if (perFaceData.negativeY !== undefined) {
-                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_NEGATIVE_Y, 0, this._internalFormat,
-                    this._size, this._size, 0, this._format, this._type, perFaceData.negativeY);
+                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_NEGATIVE_Y, level, this._internalFormat,
+                    size, size, 0, this._format, this._type, perFaceData.negativeY);
                 this.context.allocationRegister.deallocate(this._identifier, this._bytes[3]);
                 this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
                 this._bytes[3] = bytesPerFace;
             }
             if (perFaceData.positiveZ !== undefined) {
-                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_Z, 0, this._internalFormat,
-                    this._size, this._size, 0, this._format, this._type, perFaceData.positiveZ);
+                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_Z, level, this._internalFormat,
+                    size, size, 0, this._format, this._type, perFaceData.positiveZ);
                 this.context.allocationRegister.deallocate(this._identifier, this._bytes[4]);
                 this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
                 this._bytes[4] = bytesPerFace;
             }
             if (perFaceData.negativeZ !== undefined) {
-                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_NEGATIVE_Z, 0, this._internalFormat,
-                    this._size, this._size, 0, this._format, this._type, perFaceData.negativeZ);
+                gl2facade.texImage2D(gl.TEXTURE_CUBE_MAP_NEGATIVE_Z, level, this._internalFormat,
+                    size, size, 0, this._format, this._type, perFaceData.negativeZ);
                 this.context.allocationRegister.deallocate(this._identifier, this._bytes[5]);
                 this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
                 this._bytes[5] = bytesPerFace;
@@ -320,6 +351,138 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
         }
     }
 
+    /**
+     * Asynchronous load of a block compressed cube map from a KTX, KTX2, or DDS container.
+     * @param sources - URL of a single container or URLs of containers per compression family, of which the one
+     * preferred and supported by the context is loaded.
+     * @returns - Promise for handling load status.
+     */
+    @Initializable.assert_initialized()
+    loadCompressed(sources: CompressedTexture.Sources | string): Promise<void> {
+        return CompressedTexture.load(this.context, sources).then((texture) => this.compressedData(texture))
+            .catch((reason) => {
+                log(LogLevel.Error, `loading compressed texture cube failed: ${reason}`);
+                return Promise.reject(reason);
+            });
+    }
+
+    /**
+     * Pass block compressed texel data of all levels and faces to the texture cube object. The texture cube adopts the
+     * size and internal format of the compressed texture and the extension of the compression family is enabled on
+     * upload. @see {@link Texture2D.compressedData} for restrictions on mipmap levels, resize, and reformat.
+     * @param texture - Compressed texel data of six square faces.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    compressedData(texture: CompressedTexture, bind: boolean = true, unbind: boolean = true): void {
+        assert(texture.faces === 6, `expected compressed texture of six faces, given ${texture.faces}`);
+        assert(texture.width === texture.height, `expected square faces, given ${texture.width}x${texture.height}`);
+        const gl = this.context.gl;
+
+        CompressedTexture.enable(this.context, texture.family);
+
+        if (bind) {
+            this.bind();
+        }
+
+        const bytesPerFace = [0, 0, 0, 0, 0, 0];
+        texture.levels.forEach((images, level) => {
+            const size = texture.levelSize(level);
+            images.forEach((image, face) => {
+                gl.compressedTexImage2D(gl.TEXTURE_CUBE_MAP_POSITIVE_X + face, level, texture.internalFormat,
+                    size[0], size[1], 0, image);
+                bytesPerFace[face] += image.byteLength;
+            });
+        });
+        if (this.context.isWebGL2) {
+            gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAX_LEVEL, texture.levels.length - 1);
+        }
+
+        if (unbind) {
+            this.unbind();
+        }
+
+        this._size = texture.width;
+        this._internalFormat = texture.internalFormat;
+        this._levels = texture.levels.length;
+        for (let face = 0; face < 6; ++face) {
+            this.context.allocationRegister.deallocate(this._identifier, this._bytes[face]);
+            this.context.allocationRegister.allocate(this._identifier, bytesPerFace[face]);
+            this._bytes[face] = bytesPerFace[face];
+        }
+    }
+
+    /**
+     * Generates all mipmap levels of all faces from their base levels. In WebGL1, this requires the texture cube to be
+     * of power-of-two size. Note that the minification filter needs to be set to one of the mipmap filters, e.g.,
+     * LINEAR_MIPMAP_LINEAR, for mipmaps to be used.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    generateMipmap(bind: boolean = true, unbind: boolean = true): void {
+        assert(mipmappable(this.context, this._size, this._size),
+            `expected power-of-two size for mipmap generation in WebGL1, given ${this._size}`);
+        const gl = this.context.gl;
+
+        if (bind) {
+            this.bind();
+        }
+        gl.generateMipmap(gl.TEXTURE_CUBE_MAP);
+        if (unbind) {
+            this.unbind();
+        }
+
+        this._levels = levelCount(this._size, this._size);
+        const bytesPerFace = this.faceBytes();
+        for (let face = 0; face < 6; ++face) {
+            this.context.allocationRegister.deallocate(this._identifier, this._bytes[face]);
+            this.context.allocationRegister.allocate(this._identifier, bytesPerFace);
+            this._bytes[face] = bytesPerFace;
+        }
+    }
+
+    /**
+     * Sets the texture object's degree of anisotropic filtering, clamped to the hardware maximum.
+     * @param anisotropy - Requested degree of anisotropy, 1 disables anisotropic filtering.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     * @returns - The degree of anisotropy set, 1 if anisotropic filtering is not supported.
+     */
+    @Initializable.assert_initialized()
+    anisotropy(anisotropy: GLfloat, bind: boolean = true, unbind: boolean = true): GLfloat {
+        if (bind) {
+            this.bind();
+        }
+        const value = anisotropyParameter(this.context, this.context.gl.TEXTURE_CUBE_MAP, anisotropy);
+        if (unbind) {
+            this.unbind();
+        }
+        return value;
+    }
+
+    /**
+     * Restricts the texture object's level of detail and accessible mipmap levels (WebGL2 only).
+     * @param min - Value for the TEXTURE_MIN_LOD parameter.
+     * @param max - Value for the TEXTURE_MAX_LOD parameter.
+     * @param baseLevel - Value for the TEXTURE_BASE_LEVEL parameter.
+     * @param maxLevel - Value for the TEXTURE_MAX_LEVEL parameter, defaulted to the last level.
+     * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
+     */
+    @Initializable.assert_initialized()
+    lod(min: GLfloat, max: GLfloat, baseLevel: GLint = 0, maxLevel: GLint = this._levels - 1,
+        bind: boolean = true, unbind: boolean = true): void {
+        if (bind) {
+            this.bind();
+        }
+        lodParameters(this.context, this.context.gl.TEXTURE_CUBE_MAP, min, max, baseLevel, maxLevel);
+        if (unbind) {
+            this.unbind();
+        }
+    }
+
     /**
      * Sets the texture object's magnification and minification filter.
      * @param mag - Value for the TEXTURE_MAG_FILTER parameter.
@@ -365,7 +528,8 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
 
     /**
      * This can be used to reformat the texture image without creating a new texture object. Please note that this
-     * resets the texture's image data to undefined. @see {@link data} for setting new image data.
+     * resets the texture's image data to undefined and mipmaps need to be regenerated. @see {@link data} for setting
+     * new image data.
      * @param internalFormat - Internal format of the texture object.
      * @param format - Format of the texture data even though no data is passed.
      * @param type - Data type of the texel data.
@@ -391,11 +555,12 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
             this._type = type;
         }
 
+        this._levels = 1;
         this.data({ clearOnUndefined: true }, bind, unbind);
     }
 
     /**
-     * This should be used to efficiently resize the texture.
+     * This should be used to efficiently resize the texture. Please note that mipmaps need to be regenerated.
      * @param size - Targeted/new size (width/height) of the texture in px.
      * @param bind - Allows to skip binding the texture (e.g., when binding is handled outside).
      * @param unbind - Allows to skip unbinding the texture (e.g., when binding is handled outside).
@@ -407,12 +572,13 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
         }
         this._size = size;
 
+        this._levels = 1;
         this.data({ clearOnUndefined: true }, bind, unbind);
     }
 
     /**
-     * Returns the number of bytes this object approximately allocates on the GPU. The size will be zero when no
-     * image data was passed to the texture object.
+     * Returns the number of bytes this object approximately allocates on the GPU, including all specified mipmap
+     * levels. The size will be zero when no image data was passed to the texture object.
      */
     get bytes(): GLsizei {
         this.assertInitialized();
@@ -445,6 +611,14 @@ export class TextureCube extends AbstractObject<WebGLTexture> implements Bindabl
         return this._type as GLenum;
     }
 
+    /**
+     * Number of mipmap levels specified, either by mipmap generation or per-level data, starting with the base level.
+     */
+    get levels(): GLsizei {
+        this.assertInitialized();
+        return this._levels;
+    }
+
     /**
      * The width/height of the texture object (each cube map face is required to be a square).
      */
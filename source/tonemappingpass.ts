@@ -0,0 +1,84 @@
+
+import { Framebuffer } from './framebuffer';
+import { PostProcessingPass } from './postprocessingpass';
+import { Program } from './program';
+import { Texture2D } from './texture2d';
+
+
+/**
+ * Maps linear high dynamic range color to display color using a filmic curve (Hable) followed by gamma encoding.
+ * The exposure scales the linear color before mapping, the white point is the linear value mapped to white.
+ */
+export class ToneMappingPass extends PostProcessingPass {
+
+    /** @see {@link exposure} */
+    protected _exposure = 1.0;
+
+    /** @see {@link whitePoint} */
+    protected _whitePoint = 11.2;
+
+    /** @see {@link gamma} */
+    protected _gamma = 2.2;
+
+    protected _program: Program;
+
+
+    protected onInitialize(): boolean {
+        this._program = this.createProgram('tonemapping.frag', require('./shaders/tonemapping.frag'),
+            'ToneMappingProgram');
+
+        this._program.bind();
+        this._program.setUniform('u_source', 0);
+        this._program.unbind();
+        return true;
+    }
+
+    protected onUninitialize(): void {
+        this._program.uninitialize();
+    }
+
+
+    frame(source: Texture2D, target: Framebuffer): boolean {
+        this._program.bind();
+        this._program.setUniform('u_exposure', this._exposure);
+        this._program.setUniform('u_whitePoint', this._whitePoint);
+        this._program.setUniform('u_gamma', this._gamma);
+        this.draw(target, [source]);
+        return true;
+    }
+
+
+    /**
+     * Scale applied to the linear color before tone mapping.
+     */
+    set exposure(exposure: number) {
+        this._exposure = exposure;
+    }
+
+    get exposure(): number {
+        return this._exposure;
+    }
+
+    /**
+     * Linear color value that is mapped to white.
+     */
+    set whitePoint(whitePoint: number) {
+        this._whitePoint = whitePoint;
+    }
+
+    get whitePoint(): number {
+        return this._whitePoint;
+    }
+
+    /**
+     * Display gamma used for encoding the tone mapped color.
+     */
+    set gamma(gamma: number) {
+        this._gamma = gamma;
+    }
+
+    get gamma(): number {
+        return this._gamma;
+    }
+
+}
@@ -0,0 +1,320 @@
+
+import { assert } from './auxiliaries';
+
+
+/**
+ * CPU-side data of a uniform block in std140 layout. The layout is declared by a sequence of members (in the order
+ * of the block's declaration in GLSL) for which the std140 offsets, array strides, and matrix strides are computed.
+ * Values are packed into the block's data respecting the layout's padding, e.g., vec3 arrays are padded to vec4
+ * elements and mat3 columns are padded to vec4 columns. The range of altered bytes is tracked for partial uploads:
+ * ```
+ * const block = new UniformBlock([
+ *     { name: 'u_viewProjection', type: UniformBlock.Type.Mat4 },
+ *     { name: 'u_eye', type: UniformBlock.Type.Vec3 },
+ *     { name: 'u_ndcOffsets', type: UniformBlock.Type.Vec2, arrayLength: 4 },
+ * ]);
+ * block.set('u_viewProjection', camera.viewProjection);
+ * block.set('u_eye', camera.eye);
+ * ```
+ * The above corresponds to the following GLSL declaration:
+ * ```
+ * layout(std140) uniform Camera { mat4 u_viewProjection; vec3 u_eye; vec2 u_ndcOffsets[4]; };
+ * ```
+ * Note that nested structs are not supported, but can be declared by means of their flattened members.
+ */
+export class UniformBlock {
+
+    /** @see {@link entries} */
+    protected _entries = new Map<string, UniformBlock.Entry>();
+
+    /** @see {@link byteSize} */
+    protected _byteSize: GLsizei;
+
+    /** @see {@link data} */
+    protected _data: ArrayBuffer;
+
+    protected _float32: Float32Array;
+    protected _int32: Int32Array;
+    protected _uint32: Uint32Array;
+
+    /**
+     * Begin (inclusive) and end (exclusive) of altered bytes since last reset. @see {@link dirty}
+     */
+    protected _dirty: [GLintptr, GLintptr] | undefined;
+
+
+    /**
+     * Rounds a byte offset up to the next multiple of the given alignment.
+     */
+    protected static align(offset: GLsizei, alignment: GLsizei): GLsizei {
+        return Math.ceil(offset / alignment) * alignment;
+    }
+
+
+    /**
+     * Computes the std140 layout of a sequence of members, i.e., the offset of every member as well as its array and
+     * matrix stride. Scalars are aligned to 4 bytes, two-component vectors to 8 bytes, and three- and four-component
+     * vectors to 16 bytes. Array elements and matrix columns are aligned to 16 bytes (vec4) each.
+     * @param members - Members of the uniform block in declaration order.
+     * @returns - Tuple of all members' layout entries and the overall size of the block in bytes.
+     */
+    static layout(members: Array<UniformBlock.Member>): [Array<UniformBlock.Entry>, GLsizei] {
+        const entries = new Array<UniformBlock.Entry>();
+        let offset = 0;
+
+        for (const member of members) {
+            const [kind, components, columns] = UniformBlock.describe(member.type);
+            const arrayLength = member.arrayLength !== undefined ? member.arrayLength : 0;
+            assert(arrayLength >= 0 && arrayLength % 1 === 0,
+                `expected non-negative integer array length for '${member.name}', given ${arrayLength}`);
+
+            /* Matrices are stored like arrays of column vectors. */
+            const matrixStride = columns > 1 ? 16 : 0;
+            const elementSize = columns > 1 ? columns * matrixStride : components * 4;
+
+            let alignment = components === 1 ? 4 : components === 2 ? 8 : 16;
+            if (columns > 1 || arrayLength > 0) {
+                alignment = 16;
+            }
+            const arrayStride = arrayLength > 0 ? UniformBlock.align(elementSize, 16) : 0;
+
+            offset = UniformBlock.align(offset, alignment);
+            entries.push({
+                name: member.name, type: member.type, kind, components, columns,
+                arrayLength, offset, arrayStride, matrixStride,
+            });
+            offset += arrayLength > 0 ? arrayStride * arrayLength : elementSize;
+        }
+        return [entries, UniformBlock.align(offset, 16)];
+    }
+
+    /**
+     * Provides the scalar kind, the number of components per column, and the number of columns of a member type.
+     * @param type - Type of a uniform block member.
+     * @returns - Tuple of scalar kind, components per column, and number of columns (1 for non-matrix types).
+     */
+    static describe(type: UniformBlock.Type): [UniformBlock.Kind, GLsizei, GLsizei] {
+        const Type = UniformBlock.Type;
+        const Kind = UniformBlock.Kind;
+
+        switch (type) {
+            case Type.Float:
+                return [Kind.Float, 1, 1];
+            case Type.Vec2:
+                return [Kind.Float, 2, 1];
+            case Type.Vec3:
+                return [Kind.Float, 3, 1];
+            case Type.Vec4:
+                return [Kind.Float, 4, 1];
+            case Type.Int:
+                return [Kind.Int, 1, 1];
+            case Type.IVec2:
+                return [Kind.Int, 2, 1];
+            case Type.IVec3:
+                return [Kind.Int, 3, 1];
+            case Type.IVec4:
+                return [Kind.Int, 4, 1];
+            case Type.Uint:
+                return [Kind.Uint, 1, 1];
+            case Type.UVec2:
+                return [Kind.Uint, 2, 1];
+            case Type.UVec3:
+                return [Kind.Uint, 3, 1];
+            case Type.UVec4:
+                return [Kind.Uint, 4, 1];
+            case Type.Bool:
+                return [Kind.Bool, 1, 1];
+            case Type.BVec2:
+                return [Kind.Bool, 2, 1];
+            case Type.BVec3:
+                return [Kind.Bool, 3, 1];
+            case Type.BVec4:
+                return [Kind.Bool, 4, 1];
+            case Type.Mat2:
+                return [Kind.Float, 2, 2];
+            case Type.Mat3:
+                return [Kind.Float, 3, 3];
+            case Type.Mat4:
+                return [Kind.Float, 4, 4];
+            default:
+                assert(false, `unknown uniform block member type '${type}'`);
+                return [Kind.Float, 0, 0];
+        }
+    }
+
+
+    /**
+     * Computes the std140 layout of the given members and allocates the block's (zero-initialized) data.
+     * @param members - Members of the uniform block in declaration order.
+     */
+    constructor(members: Array<UniformBlock.Member>) {
+        const [entries, byteSize] = UniformBlock.layout(members);
+        for (const entry of entries) {
+            assert(!this._entries.has(entry.name), `expected unique member names, given '${entry.name}' twice`);
+            this._entries.set(entry.name, entry);
+        }
+        this._byteSize = byteSize;
+
+        this._data = new ArrayBuffer(byteSize);
+        this._float32 = new Float32Array(this._data);
+        this._int32 = new Int32Array(this._data);
+        this._uint32 = new Uint32Array(this._data);
+
+        this._dirty = byteSize > 0 ? [0, byteSize] : undefined;
+    }
+
+
+    /**
+     * Packs a value into the block's data at the offset of the given member. Array members expect their elements
+     * tightly packed (e.g., 6 values for two vec3) and can be set partially, matrices expect tightly packed column-
+     * major values (e.g., a gl-matrix mat3). Padding as required by the std140 layout is applied while packing.
+     * @param name - Name of the member as declared in the layout.
+     * @param value - Number, boolean, or array-like of numbers or booleans to pack.
+     */
+    set(name: string, value: number | boolean | ArrayLike<number> | Array<boolean>): void {
+        const entry = this._entries.get(name);
+        assert(entry !== undefined, `expected member '${name}' to be declared in the uniform block`);
+
+        const { kind, components, columns, arrayLength, offset, arrayStride, matrixStride } = entry!;
+        const values: ArrayLike<number | boolean> = typeof value === 'object' ? value : [value];
+
+        const elementComponents = components * columns;
+        const elements = Math.max(arrayLength, 1);
+        assert(values.length > 0 && values.length % elementComponents === 0 &&
+            values.length <= elementComponents * elements,
+            `expected ${elementComponents} values (per element) for '${name}', given ${values.length}`);
+
+        const columnStride = columns > 1 ? matrixStride : components * 4;
+        const elementStride = arrayLength > 0 ? arrayStride : columns * columnStride;
+
+        const view = kind === UniformBlock.Kind.Float ? this._float32 :
+            kind === UniformBlock.Kind.Uint ? this._uint32 : this._int32;
+
+        for (let i = 0; i < values.length; ++i) {
+            const element = Math.floor(i / elementComponents);
+            const column = Math.floor((i % elementComponents) / components);
+            const component = i % components;
+
+            const byteOffset = offset + element * elementStride + column * columnStride + component * 4;
+            const v = values[i];
+            view[byteOffset / 4] = typeof v === 'boolean' ? (v ? 1 : 0) : v;
+        }
+
+        const count = values.length / elementComponents;
+        const end = offset + (count - 1) * elementStride + (columns - 1) * columnStride + components * 4;
+        this._dirty = this._dirty === undefined ? [offset, end] :
+            [Math.min(this._dirty[0], offset), Math.max(this._dirty[1], end)];
+    }
+
+    /**
+     * Provides the layout entry of a member.
+     * @param name - Name of the member as declared in the layout.
+     * @returns - The member's layout entry or undefined if no such member is declared.
+     */
+    entry(name: string): UniformBlock.Entry | undefined {
+        return this._entries.get(name);
+    }
+
+    /**
+     * Resets the range of altered bytes, e.g., after the data was uploaded.
+     */
+    reset(): void {
+        this._dirty = undefined;
+    }
+
+
+    /**
+     * Layout entries of all members by name.
+     */
+    get entries(): Map<string, UniformBlock.Entry> {
+        return this._entries;
+    }
+
+    /**
+     * Size of the block's data in bytes (a multiple of 16 bytes).
+     */
+    get byteSize(): GLsizei {
+        return this._byteSize;
+    }
+
+    /**
+     * The block's data in std140 layout.
+     */
+    get data(): ArrayBuffer {
+        return this._data;
+    }
+
+    /**
+     * Begin (inclusive) and end (exclusive) byte offset of the data altered since construction or last reset.
+     * Undefined if no data was altered.
+     */
+    get dirty(): [GLintptr, GLintptr] | undefined {
+        return this._dirty;
+    }
+
+}
+
+
+export namespace UniformBlock {
+
+    /**
+     * Supported GLSL types of uniform block members.
+     */
+    export enum Type {
+        Float = 'float',
+        Vec2 = 'vec2',
+        Vec3 = 'vec3',
+        Vec4 = 'vec4',
+        Int = 'int',
+        IVec2 = 'ivec2',
+        IVec3 = 'ivec3',
+        IVec4 = 'ivec4',
+        Uint = 'uint',
+        UVec2 = 'uvec2',
+        UVec3 = 'uvec3',
+        UVec4 = 'uvec4',
+        Bool = 'bool',
+        BVec2 = 'bvec2',
+        BVec3 = 'bvec3',
+        BVec4 = 'bvec4',
+        Mat2 = 'mat2',
+        Mat3 = 'mat3',
+        Mat4 = 'mat4',
+    }
+
+    /**
+     * Scalar kind of a member type, i.e., how its components are stored (booleans are stored as 32bit integers).
+     */
+    export enum Kind {
+        Float = 'float',
+        Int = 'int',
+        Uint = 'uint',
+        Bool = 'bool',
+    }
+
+    export interface Member {
+        name: string;
+        type: Type;
+        /** Number of array elements, omit (or 0) for non-array members. */
+        arrayLength?: GLsizei;
+    }
+
+    export interface Entry {
+        name: string;
+        type: Type;
+        kind: Kind;
+        /** Number of components per column, e.g., 3 for vec3 and mat3. */
+        components: GLsizei;
+        /** Number of columns (1 for non-matrix types). */
+        columns: GLsizei;
+        /** Number of array elements (0 for non-array members). */
+        arrayLength: GLsizei;
+        /** Offset in bytes from the beginning of the block. */
+        offset: GLintptr;
+        /** Offset in bytes between consecutive array elements (0 for non-array members). */
+        arrayStride: GLsizei;
+        /** Offset in bytes between consecutive matrix columns (0 for non-matrix types). */
+        matrixStride: GLsizei;
+    }
+
+}
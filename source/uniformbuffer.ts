@@ -0,0 +1,167 @@
+
+import { assert, log, LogLevel } from './auxiliaries';
+
+import { Bindable } from './bindable';
+import { Initializable } from './initializable';
+import { AbstractObject } from './object';
+import { UniformBlock } from './uniformblock';
+
+
+/**
+ * Wrapper around a WebGL2 uniform buffer object, storing the data of a uniform block in std140 layout. A uniform
+ * buffer can be shared by multiple programs (e.g., for camera matrices), each associating its uniform block with the
+ * binding point the buffer is bound to:
+ * ```
+ * this._uniforms = new UniformBuffer(this._context, 'CameraUniforms');
+ * this._uniforms.initialize(new UniformBlock([
+ *     { name: 'u_viewProjection', type: UniformBlock.Type.Mat4 },
+ *     { name: 'u_eye', type: UniformBlock.Type.Vec3 }]));
+ * this._uniforms.bindBase(0);
+ * this._program.uniformBlockBinding('Camera', 0);
+ * ...
+ * this._uniforms.block.set('u_viewProjection', this._camera.viewProjection);
+ * this._uniforms.update(); // uploads altered data only
+ * ```
+ */
+export class UniformBuffer extends AbstractObject<WebGLBuffer> implements Bindable {
+
+    /**
+     * Default buffer, e.g., used for unbind.
+     */
+    static readonly DEFAULT_BUFFER = undefined;
+
+
+    /** @see {@link block} */
+    protected _block: UniformBlock;
+
+    /** @see {@link bindingPoint} */
+    protected _bindingPoint: GLuint | undefined;
+
+
+    /**
+     * Create a uniform buffer object on the GPU and its data store with the block's data. Requires a WebGL2 context.
+     * @param block - Uniform block providing the layout and initial data of the buffer.
+     * @param usage - Usage pattern of the data store.
+     */
+    protected create(block: UniformBlock, usage?: GLenum): WebGLBuffer | undefined {
+        const gl = this._context.gl;
+
+        if (!this._context.isWebGL2) {
+            log(LogLevel.Error, `uniform buffers require a WebGL2 context (${this._identifier})`);
+            return undefined;
+        }
+
+        this._object = gl.createBuffer();
+        this._valid = this._object instanceof WebGLBuffer;
+
+        if (this._valid) {
+            this._block = block;
+
+            gl.bindBuffer(gl.UNIFORM_BUFFER, this._object);
+            gl.bufferData(gl.UNIFORM_BUFFER, block.data, usage !== undefined ? usage : gl.DYNAMIC_DRAW);
+            gl.bindBuffer(gl.UNIFORM_BUFFER, UniformBuffer.DEFAULT_BUFFER);
+
+            this._valid = gl.getError() === gl.NO_ERROR;
+            this._context.allocationRegister.reallocate(this._identifier, this._valid ? block.byteSize : 0);
+            block.reset();
+        }
+        return this._object;
+    }
+
+    /**
+     * Delete the uniform buffer object on the GPU. This should have the reverse effect of `create`.
+     */
+    protected delete(): void {
+        assert(this._object instanceof WebGLBuffer, `expected WebGLBuffer object`);
+        this._context.gl.deleteBuffer(this._object);
+
+        this._object = undefined;
+        this._valid = false;
+
+        this._bindingPoint = undefined;
+    }
+
+
+    /**
+     * Binds the buffer object to the uniform buffer target, e.g., for updating its data.
+     */
+    @Initializable.assert_initialized()
+    bind(): void {
+        const gl = this._context.gl;
+        gl.bindBuffer(gl.UNIFORM_BUFFER, this._object);
+    }
+
+    /**
+     * Binds the default buffer to the uniform buffer target.
+     */
+    @Initializable.assert_initialized()
+    unbind(): void {
+        const gl = this._context.gl;
+        gl.bindBuffer(gl.UNIFORM_BUFFER, UniformBuffer.DEFAULT_BUFFER);
+    }
+
+    /**
+     * Binds the buffer object to an indexed binding point. Programs access the buffer by associating their uniform
+     * block with the same binding point (@see {@link Program.uniformBlockBinding}).
+     * @param index - Index of the binding point, less than MAX_UNIFORM_BUFFER_BINDINGS.
+     */
+    @Initializable.assert_initialized()
+    bindBase(index: GLuint): void {
+        const gl = this._context.gl;
+        gl.bindBufferBase(gl.UNIFORM_BUFFER, index, this._object);
+        this._bindingPoint = index;
+    }
+
+    /**
+     * Uploads all data of the block altered since the last update (if any).
+     * @param bind - Allows to skip binding the object (e.g., when binding is handled outside).
+     * @param unbind - Allows to skip unbinding the object (e.g., when binding is handled outside).
+     * @returns - True if data was uploaded, false otherwise.
+     */
+    @Initializable.assert_initialized()
+    update(bind: boolean = true, unbind: boolean = true): boolean {
+        const dirty = this._block.dirty;
+        if (dirty === undefined) {
+            return false;
+        }
+        const gl = this._context.gl;
+
+        if (bind) {
+            this.bind();
+        }
+        this._context.gl2facade.bufferSubData(gl.UNIFORM_BUFFER, dirty[0],
+            new Uint8Array(this._block.data, dirty[0], dirty[1] - dirty[0]), 0, 0);
+        if (unbind) {
+            this.unbind();
+        }
+
+        this._block.reset();
+        return true;
+    }
+
+
+    /**
+     * Returns the number of bytes this object approximately allocates on the GPU.
+     */
+    get bytes(): number {
+        this.assertInitialized();
+        return this._context.allocationRegister.allocated(this._identifier);
+    }
+
+    /**
+     * The uniform block providing the layout and the data of this buffer. Alter the data using the block's setter
+     * and invoke `update` for upload.
+     */
+    get block(): UniformBlock {
+        this.assertInitialized();
+        return this._block;
+    }
+
+    /**
+     * Index of the binding point the buffer was last bound to via `bindBase`, undefined if not bound yet.
+     */
+    get bindingPoint(): GLuint | undefined {
+        return this._bindingPoint;
+    }
+
+}
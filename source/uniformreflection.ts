@@ -0,0 +1,197 @@
+
+/**
+ * Context-independent description of GLSL uniform types as reported by getActiveUniform, used by programs for typed
+ * uniform uploads. Each type is described by its GLSL name, the kind of setter required (float, int, uint, or matrix
+ * upload), and the number of components per array element. Types are identified by their (WebGL1 and WebGL2) enum
+ * values, thus, no context is required for lookup and validation. Supported values are numbers, booleans (bool
+ * types only), and array-likes (e.g., number arrays, gl-matrix types, or typed arrays) of one or more elements:
+ * ```
+ * const descriptor = UniformReflection.descriptor(gl.FLOAT_VEC3);  // { name: 'vec3', kind: Kind.Float, ... }
+ * UniformReflection.validate(descriptor, 1, vec3.fromValues(0.0, 1.0, 0.0)); // undefined (valid)
+ * UniformReflection.validate(descriptor, 1, 1.0); // 'expected 3 components ...'
+ * ```
+ */
+export class UniformReflection {
+
+    /**
+     * Matches the array suffix of active uniform and attribute names, e.g., '[0]' of 'u_kernel[0]'.
+     */
+    protected static readonly ARRAY_SUFFIX = /\[0\]$/;
+
+
+    /**
+     * Provides the descriptor of a uniform type.
+     * @param type - Type enum as reported by getActiveUniform, e.g., gl.FLOAT_VEC3.
+     * @returns - Descriptor of the type or undefined if the type is not supported.
+     */
+    static descriptor(type: GLenum): UniformReflection.Descriptor | undefined {
+        return DESCRIPTORS.get(type);
+    }
+
+    /**
+     * Strips the array suffix of active uniform and attribute names. Note that names of array uniforms are reported
+     * with suffix, e.g., 'u_kernel[0]', and that arrays of size one cannot be distinguished from non-arrays otherwise.
+     * @param name - Name as reported by getActiveUniform or getActiveAttrib.
+     * @returns - Tuple of the name without array suffix and whether or not the name refers to an array.
+     */
+    static parseName(name: string): [string, boolean] {
+        const array = UniformReflection.ARRAY_SUFFIX.test(name);
+        return [array ? name.replace(UniformReflection.ARRAY_SUFFIX, '') : name, array];
+    }
+
+    /**
+     * Validates a value for upload to a uniform of the described type. Arrays can be partially uploaded, i.e., the
+     * number of components of a value is expected to be a multiple of the type's components, but not to exceed the
+     * uniform's array length.
+     * @param descriptor - Descriptor of the uniform's type.
+     * @param arrayLength - Number of array elements of the uniform (1 for non-array uniforms).
+     * @param value - Value to validate.
+     * @returns - Description of the mismatch or undefined if the value is valid.
+     */
+    static validate(descriptor: UniformReflection.Descriptor, arrayLength: GLsizei,
+        value: UniformReflection.Value): string | undefined {
+
+        if (typeof value === 'boolean') {
+            if (descriptor.kind !== Kind.Bool) {
+                return `expected ${descriptor.name} value, given boolean`;
+            }
+            return descriptor.components === 1 ? undefined :
+                `expected ${descriptor.components} components for ${descriptor.name}, given 1`;
+        }
+
+        const values: ArrayLike<number> = typeof value === 'number' ? [value] : value;
+        const length = values.length;
+        if (length === 0 || length % descriptor.components !== 0 ||
+            length > descriptor.components * arrayLength) {
+            return `expected ${descriptor.components} components for ${descriptor.name}` +
+                (arrayLength > 1 ? ` (for each of up to ${arrayLength} elements)` : '') + `, given ${length}`;
+        }
+
+        if (descriptor.kind !== Kind.Int && descriptor.kind !== Kind.Uint && descriptor.kind !== Kind.Sampler) {
+            return undefined;
+        }
+        for (let i = 0; i < length; ++i) {
+            if (values[i] % 1 !== 0 || (descriptor.kind !== Kind.Int && values[i] < 0)) {
+                return `expected ${descriptor.kind === Kind.Int ? 'integer' : 'non-negative integer'} values ` +
+                    `for ${descriptor.name}, given ${values[i]}`;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Compares a cached value with a value to be uploaded, component-wise for array-likes.
+     * @param cached - Value cached on last upload (if any).
+     * @param value - Value to be uploaded.
+     * @returns - True if both values are equal and the upload can be skipped, false otherwise.
+     */
+    static equals(cached: UniformReflection.Value | undefined, value: UniformReflection.Value): boolean {
+        if (cached === undefined || typeof cached !== 'object' || typeof value !== 'object') {
+            return cached === value;
+        }
+        if (cached.length !== value.length) {
+            return false;
+        }
+        for (let i = 0; i < value.length; ++i) {
+            if (cached[i] !== value[i]) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Creates a copy of a value for caching, since array-likes such as gl-matrix types are usually modified in-place.
+     * @param value - Value to be cached.
+     */
+    static clone(value: UniformReflection.Value): UniformReflection.Value {
+        return typeof value === 'object' ? Array.prototype.slice.call(value) : value;
+    }
+
+}
+
+
+export namespace UniformReflection {
+
+    /**
+     * Kind of upload required for a uniform type, i.e., the family of gl.uniform* functions to use.
+     */
+    export enum Kind {
+        Float = 'float',
+        Int = 'int',
+        Uint = 'uint',
+        Bool = 'bool',
+        Sampler = 'sampler',
+        Matrix = 'matrix',
+    }
+
+    export interface Descriptor {
+        /** GLSL name of the type, e.g., 'vec3'. */
+        name: string;
+        kind: Kind;
+        /** Number of components per array element, e.g., 9 for mat3. */
+        components: GLsizei;
+        /** Number of matrix columns (1 for non-matrix types). */
+        columns: GLsizei;
+    }
+
+    /**
+     * Values accepted for uniform uploads. Samplers expect the texture unit.
+     */
+    export type Value = number | boolean | ArrayLike<number>;
+
+}
+
+
+const Kind = UniformReflection.Kind;
+
+/**
+ * Descriptors of all supported uniform types by type enum.
+ */
+const DESCRIPTORS = new Map<GLenum, UniformReflection.Descriptor>([
+    /* WebGL1 */
+    [0x1406 /* FLOAT */, { name: 'float', kind: Kind.Float, components: 1, columns: 1 }],
+    [0x8B50 /* FLOAT_VEC2 */, { name: 'vec2', kind: Kind.Float, components: 2, columns: 1 }],
+    [0x8B51 /* FLOAT_VEC3 */, { name: 'vec3', kind: Kind.Float, components: 3, columns: 1 }],
+    [0x8B52 /* FLOAT_VEC4 */, { name: 'vec4', kind: Kind.Float, components: 4, columns: 1 }],
+    [0x1404 /* INT */, { name: 'int', kind: Kind.Int, components: 1, columns: 1 }],
+    [0x8B53 /* INT_VEC2 */, { name: 'ivec2', kind: Kind.Int, components: 2, columns: 1 }],
+    [0x8B54 /* INT_VEC3 */, { name: 'ivec3', kind: Kind.Int, components: 3, columns: 1 }],
+    [0x8B55 /* INT_VEC4 */, { name: 'ivec4', kind: Kind.Int, components: 4, columns: 1 }],
+    [0x8B56 /* BOOL */, { name: 'bool', kind: Kind.Bool, components: 1, columns: 1 }],
+    [0x8B57 /* BOOL_VEC2 */, { name: 'bvec2', kind: Kind.Bool, components: 2, columns: 1 }],
+    [0x8B58 /* BOOL_VEC3 */, { name: 'bvec3', kind: Kind.Bool, components: 3, columns: 1 }],
+    [0x8B59 /* BOOL_VEC4 */, { name: 'bvec4', kind: Kind.Bool, components: 4, columns: 1 }],
+    [0x8B5A /* FLOAT_MAT2 */, { name: 'mat2', kind: Kind.Matrix, components: 4, columns: 2 }],
+    [0x8B5B /* FLOAT_MAT3 */, { name: 'mat3', kind: Kind.Matrix, components: 9, columns: 3 }],
+    [0x8B5C /* FLOAT_MAT4 */, { name: 'mat4', kind: Kind.Matrix, components: 16, columns: 4 }],
+    [0x8B5E /* SAMPLER_2D */, { name: 'sampler2D', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8B60 /* SAMPLER_CUBE */, { name: 'samplerCube', kind: Kind.Sampler, components: 1, columns: 1 }],
+
+    /* WebGL2 */
+    [0x1405 /* UNSIGNED_INT */, { name: 'uint', kind: Kind.Uint, components: 1, columns: 1 }],
+    [0x8DC6 /* UNSIGNED_INT_VEC2 */, { name: 'uvec2', kind: Kind.Uint, components: 2, columns: 1 }],
+    [0x8DC7 /* UNSIGNED_INT_VEC3 */, { name: 'uvec3', kind: Kind.Uint, components: 3, columns: 1 }],
+    [0x8DC8 /* UNSIGNED_INT_VEC4 */, { name: 'uvec4', kind: Kind.Uint, components: 4, columns: 1 }],
+    [0x8B65 /* FLOAT_MAT2x3 */, { name: 'mat2x3', kind: Kind.Matrix, components: 6, columns: 2 }],
+    [0x8B66 /* FLOAT_MAT2x4 */, { name: 'mat2x4', kind: Kind.Matrix, components: 8, columns: 2 }],
+    [0x8B67 /* FLOAT_MAT3x2 */, { name: 'mat3x2', kind: Kind.Matrix, components: 6, columns: 3 }],
+    [0x8B68 /* FLOAT_MAT3x4 */, { name: 'mat3x4', kind: Kind.Matrix, components: 12, columns: 3 }],
+    [0x8B69 /* FLOAT_MAT4x2 */, { name: 'mat4x2', kind: Kind.Matrix, components: 8, columns: 4 }],
+    [0x8B6A /* FLOAT_MAT4x3 */, { name: 'mat4x3', kind: Kind.Matrix, components: 12, columns: 4 }],
+    [0x8B5F /* SAMPLER_3D */, { name: 'sampler3D', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8B62 /* SAMPLER_2D_SHADOW */, { name: 'sampler2DShadow', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DC1 /* SAMPLER_2D_ARRAY */, { name: 'sampler2DArray', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DC4 /* SAMPLER_2D_ARRAY_SHADOW */,
+        { name: 'sampler2DArrayShadow', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DC5 /* SAMPLER_CUBE_SHADOW */, { name: 'samplerCubeShadow', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DCA /* INT_SAMPLER_2D */, { name: 'isampler2D', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DCB /* INT_SAMPLER_3D */, { name: 'isampler3D', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DCC /* INT_SAMPLER_CUBE */, { name: 'isamplerCube', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DCF /* INT_SAMPLER_2D_ARRAY */, { name: 'isampler2DArray', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DD2 /* UNSIGNED_INT_SAMPLER_2D */, { name: 'usampler2D', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DD3 /* UNSIGNED_INT_SAMPLER_3D */, { name: 'usampler3D', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DD4 /* UNSIGNED_INT_SAMPLER_CUBE */, { name: 'usamplerCube', kind: Kind.Sampler, components: 1, columns: 1 }],
+    [0x8DD7 /* UNSIGNED_INT_SAMPLER_2D_ARRAY */,
+        { name: 'usampler2DArray', kind: Kind.Sampler, components: 1, columns: 1 }],
+]);
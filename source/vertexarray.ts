@@ -2,6 +2,7 @@
 import { assert } from './auxiliaries';
 
 import { Bindable } from './bindable';
+import { Buffer } from './buffer';
 import { Initializable } from './initializable';
 import { AbstractObject } from './object';
 
@@ -27,6 +28,11 @@ import { AbstractObject } from './object';
  * ```
  * this.someTriangleVAO.draw();
  * ```
+ *
+ * Alternatively, buffers carrying a vertex layout can be bound automatically, without custom bind functions:
+ * ```
+ * this._vertexArray.initialize(...VertexArray.layoutBindings([vertexBuffer, instanceBuffer], locations, indexBuffer));
+ * ```
  */
 export class VertexArray extends AbstractObject<any> implements Bindable {
 
@@ -53,6 +59,37 @@ export class VertexArray extends AbstractObject<any> implements Bindable {
     protected _unbind: () => void;
 
 
+    /**
+     * Creates bind and unbind functions that enable and disable the vertex layouts of all given buffers, intended to
+     * be passed on initialization (@see {@link Buffer.enableLayout}).
+     * @param buffers - Buffers carrying a vertex layout each.
+     * @param locations - Attribute locations by attribute name, e.g., derived from a program's attributes.
+     * @param indexBuffer - Optional element array buffer bound along the vertex buffers.
+     * @returns - Tuple of bind and unbind function.
+     */
+    static layoutBindings(buffers: Array<Buffer>, locations: Map<string, GLint>,
+        indexBuffer?: Buffer): [() => void, () => void] {
+
+        for (const buffer of buffers) {
+            assert(buffer.layout !== undefined, `expected buffer '${buffer.identifier}' to carry a vertex layout`);
+        }
+        /* Please note the implicit bind in enableLayout and the skipped unbind, respectively. */
+        const bind = () => {
+            buffers.forEach((buffer) => buffer.enableLayout(locations, true, false));
+            if (indexBuffer !== undefined) {
+                indexBuffer.bind();
+            }
+        };
+        const unbind = () => {
+            buffers.forEach((buffer) => buffer.disableLayout(locations, true, true));
+            if (indexBuffer !== undefined) {
+                indexBuffer.unbind();
+            }
+        };
+        return [bind, unbind];
+    }
+
+
     /**
      * Depending on the context features, a vertex array object is created and the bind method is specified (either
      * native, by extension, or none/direct bind).
@@ -0,0 +1,203 @@
+
+import { assert } from './auxiliaries';
+
+import { Program } from './program';
+import { UniformReflection } from './uniformreflection';
+
+
+/**
+ * Declarative description of the vertex attributes stored in a single (interleaved or non-interleaved) buffer. For
+ * every attribute the number of components, the component type, normalization, the byte offset and stride, as well
+ * as the instancing divisor are specified. Offsets and stride can be omitted, in which case the attributes are
+ * assumed to be tightly interleaved in the given order. A buffer carrying a layout can be bound to any set of
+ * attribute locations (@see {@link Buffer.enableLayout}), which can be validated against a program's attributes:
+ * ```
+ * const layout = new VertexLayout([
+ *     { name: 'a_vertex', size: 3, type: gl.FLOAT },
+ *     { name: 'a_normal', size: 4, type: gl.BYTE, normalized: true },
+ *     { name: 'a_uv', size: 2, type: gl.UNSIGNED_SHORT, normalized: true }]); // stride of 20 bytes
+ * vertexBuffer.layout = layout;
+ *
+ * const messages = VertexLayout.validate([layout], program.attributes);
+ * vertexBuffer.enableLayout(VertexLayout.locations(program.attributes));
+ * ```
+ * Matrix attributes (9 or 16 components) are bound as consecutive column attributes (3 or 4 locations).
+ */
+export class VertexLayout {
+
+    /** @see {@link attributes} */
+    protected _attributes = new Array<VertexLayout.Entry>();
+
+
+    /**
+     * Provides the size in bytes of a vertex attribute component type.
+     * @param type - Component type, e.g., gl.FLOAT or gl.UNSIGNED_BYTE.
+     * @returns - Size in bytes, 0 for unknown types.
+     */
+    static byteSizeOfType(type: GLenum): GLsizei {
+        switch (type) {
+            case 0x1400: /* BYTE */
+            case 0x1401: /* UNSIGNED_BYTE */
+                return 1;
+            case 0x1402: /* SHORT */
+            case 0x1403: /* UNSIGNED_SHORT */
+            case 0x140B: /* HALF_FLOAT */
+            case 0x8D61: /* HALF_FLOAT_OES */
+                return 2;
+            case 0x1404: /* INT */
+            case 0x1405: /* UNSIGNED_INT */
+            case 0x1406: /* FLOAT */
+                return 4;
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * Creates a map of attribute locations by name from reflected program attributes, e.g., for enabling layouts.
+     * @param attributes - Active attributes of a linked program (@see {@link Program.attributes}).
+     */
+    static locations(attributes: Map<string, Program.AttributeInfo>): Map<string, GLint> {
+        const locations = new Map<string, GLint>();
+        attributes.forEach((attribute, name) => locations.set(name, attribute.location));
+        return locations;
+    }
+
+    /**
+     * Validates vertex layouts against the active attributes of a program: every active attribute is expected to be
+     * provided by exactly one layout, with matching integer/float component kind and at most as many components as
+     * expected by the attribute (missing components are filled in by defaults).
+     * @param layouts - Layouts of all buffers intended for drawing with the program.
+     * @param attributes - Active attributes of a linked program (@see {@link Program.attributes}).
+     * @returns - Descriptions of all mismatches, empty if the layouts are valid.
+     */
+    static validate(layouts: Array<VertexLayout>, attributes: Map<string, Program.AttributeInfo>): Array<string> {
+        const messages = new Array<string>();
+
+        attributes.forEach((attribute, name) => {
+            if (name.startsWith('gl_')) {
+                return;
+            }
+            const entries = new Array<VertexLayout.Entry>();
+            for (const layout of layouts) {
+                const entry = layout.attribute(name);
+                if (entry !== undefined) {
+                    entries.push(entry);
+                }
+            }
+            if (entries.length !== 1) {
+                messages.push(entries.length === 0 ? `attribute '${name}' is not provided by any layout` :
+                    `attribute '${name}' is provided by ${entries.length} layouts`);
+                return;
+            }
+
+            const entry = entries[0];
+            if (attribute.size > 0 && entry.size > attribute.size) {
+                messages.push(`attribute '${name}' expects up to ${attribute.size} components, ` +
+                    `layout provides ${entry.size}`);
+            }
+            const descriptor = UniformReflection.descriptor(attribute.type);
+            const integer = descriptor !== undefined &&
+                (descriptor.kind === UniformReflection.Kind.Int || descriptor.kind === UniformReflection.Kind.Uint);
+            if (integer !== entry.integer) {
+                messages.push(`attribute '${name}' expects ${integer ? 'integer' : 'float'} components, ` +
+                    `layout provides ${entry.integer ? 'integer' : 'float'} components`);
+            }
+        });
+        return messages;
+    }
+
+
+    /**
+     * Resolves offsets and strides of the given attributes. Omitted offsets are derived by tightly interleaving the
+     * attributes in order, omitted strides by the overall size of all attributes.
+     * @param attributes - Attributes stored in a single buffer.
+     */
+    constructor(attributes: Array<VertexLayout.Attribute>) {
+        let offset = 0;
+        const sizes = attributes.map((attribute) => {
+            assert(attribute.size >= 1 && attribute.size <= 4 || attribute.size === 9 || attribute.size === 16,
+                `expected 1 to 4, 9, or 16 components for attribute '${attribute.name}', given ${attribute.size}`);
+            const byteSize = VertexLayout.byteSizeOfType(attribute.type);
+            assert(byteSize > 0, `unknown component type ${attribute.type} of attribute '${attribute.name}'`);
+            return byteSize * attribute.size;
+        });
+        const stride = sizes.reduce((sum, size) => sum + size, 0);
+
+        attributes.forEach((attribute, index) => {
+            assert(this.attribute(attribute.name) === undefined,
+                `expected unique attribute names, given '${attribute.name}' twice`);
+
+            this._attributes.push({
+                name: attribute.name,
+                size: attribute.size,
+                type: attribute.type,
+                normalized: attribute.normalized === true,
+                integer: attribute.integer === true,
+                offset: attribute.offset !== undefined ? attribute.offset : offset,
+                /* A stride of 0 refers to tightly packed data of a single attribute and is resolved explicitly. */
+                stride: attribute.stride !== undefined && attribute.stride !== 0 ? attribute.stride :
+                    attribute.offset !== undefined ? sizes[index] : stride,
+                divisor: attribute.divisor !== undefined ? attribute.divisor : 0,
+            });
+            offset += sizes[index];
+        });
+    }
+
+
+    /**
+     * Provides the resolved attribute of the given name.
+     * @param name - Name of the attribute.
+     * @returns - The resolved attribute or undefined if not part of this layout.
+     */
+    attribute(name: string): VertexLayout.Entry | undefined {
+        return this._attributes.find((attribute) => attribute.name === name);
+    }
+
+
+    /**
+     * All resolved attributes in declaration order.
+     */
+    get attributes(): Array<VertexLayout.Entry> {
+        return this._attributes;
+    }
+
+}
+
+
+export namespace VertexLayout {
+
+    export interface Attribute {
+        /** Name of the attribute, e.g., 'a_vertex', used for location lookup and validation. */
+        name: string;
+        /** Number of components, 1 to 4, or 9 and 16 for mat3 and mat4 attributes respectively. */
+        size: GLint;
+        /** Component type, e.g., gl.FLOAT or gl.UNSIGNED_BYTE. */
+        type: GLenum;
+        /** Whether or not integer data is normalized when converted to float (default false). */
+        normalized?: boolean;
+        /** Whether or not the attribute is an integer attribute (ivec*, uvec*, WebGL2 only, default false). */
+        integer?: boolean;
+        /** Byte offset of the first component, derived by tight interleaving if omitted. */
+        offset?: GLintptr;
+        /**
+         * Byte offset between consecutive vertices. If omitted or 0, derived by tight interleaving or, if an offset is
+         * given, by tight packing of this attribute.
+         */
+        stride?: GLsizei;
+        /** Number of instances per attribute advance, 0 for per-vertex data (default 0). */
+        divisor?: GLuint;
+    }
+
+    export interface Entry {
+        name: string;
+        size: GLint;
+        type: GLenum;
+        normalized: boolean;
+        integer: boolean;
+        offset: GLintptr;
+        stride: GLsizei;
+        divisor: GLuint;
+    }
+
+}
@@ -0,0 +1,423 @@
+
+import { assert, log, LogLevel } from './auxiliaries';
+import { GLfloat2, GLfloat3, GLsizei3 } from './tuples';
+
+import { fetchAsync, fetchJsonAsync } from './fetch';
+
+
+/**
+ * Scalar volume data, e.g., a CT scan, as provided by NRRD files or raw files described by a JSON header. Volumes are
+ * parsed independently of a context, whereas upload is done by the 3D texture (@see {@link Texture3D.volumeData}):
+ * ```
+ * texture.loadVolume('data/head.nrrd').then((volume) => {
+ *     const extent = volume.extent;
+ *     const scale = 1.0 / Math.max(...extent);
+ *     this._volumePass.transform = mat4.fromScaling(m4(), [extent[0] * scale, extent[1] * scale, extent[2] * scale]);
+ *     this.invalidate(true);
+ * });
+ * ```
+ * The JSON header of a raw file is expected next to it (same name with .json extension) or can be passed explicitly:
+ * `{ "size": [256, 256, 128], "type": "uint16", "spacing": [1.0, 1.0, 2.0], "endian": "little" }`. Only raw,
+ * uncompressed NRRD encoding with attached data is supported.
+ */
+export class Volume {
+
+    /**
+     * Magic of NRRD files, followed by the format version digit.
+     */
+    protected static readonly NRRD_MAGIC = 'NRRD000';
+
+
+    /** @see {@link size} */
+    protected _size: GLsizei3;
+
+    /** @see {@link type} */
+    protected _type: Volume.Type;
+
+    /** @see {@link data} */
+    protected _data: Volume.Data;
+
+    /** @see {@link spacing} */
+    protected _spacing: GLfloat3;
+
+    /** @see {@link range} */
+    protected _range: GLfloat2 | undefined;
+
+
+    /**
+     * Maps NRRD type names to volume types.
+     * @returns - Volume type, undefined if the type is not supported.
+     */
+    protected static fromNRRDType(type: string): Volume.Type | undefined {
+        switch (type) {
+            case 'uchar': case 'unsigned char': case 'uint8': case 'uint8_t':
+                return Volume.Type.Uint8;
+            case 'short': case 'short int': case 'signed short': case 'signed short int': case 'int16':
+            case 'int16_t':
+                return Volume.Type.Int16;
+            case 'ushort': case 'unsigned short': case 'unsigned short int': case 'uint16': case 'uint16_t':
+                return Volume.Type.Uint16;
+            case 'float':
+                return Volume.Type.Float32;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Maps type names of raw file headers to volume types.
+     * @returns - Volume type, undefined if the type is not supported.
+     */
+    protected static fromRawType(type: string): Volume.Type | undefined {
+        switch (type) {
+            case 'uint8':
+                return Volume.Type.Uint8;
+            case 'int16':
+                return Volume.Type.Int16;
+            case 'uint16':
+                return Volume.Type.Uint16;
+            case 'float32':
+                return Volume.Type.Float32;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Creates a raw file header from its JSON representation.
+     * @returns - Header, undefined if the JSON does not describe a supported volume.
+     */
+    protected static fromJSON(json: Volume.HeaderJSON): Volume.Header | undefined {
+        const type = Volume.fromRawType(json.type);
+        if (type === undefined || json.size === undefined || json.size.length !== 3) {
+            log(LogLevel.Error, `expected three sizes and a volume type of uint8, int16, uint16, or float32, ` +
+                `given '${json.size}' and '${json.type}'`);
+            return undefined;
+        }
+        const header: Volume.Header = { size: [json.size[0], json.size[1], json.size[2]], type };
+        if (json.spacing !== undefined) {
+            header.spacing = [json.spacing[0], json.spacing[1], json.spacing[2]];
+        }
+        if (json.endian === 'little' || json.endian === 'big') {
+            header.endian = json.endian;
+        }
+        header.offset = json.offset;
+        return header;
+    }
+
+    /**
+     * Creates a typed array of the given type from the data at the given offset. Data is copied if it is not aligned
+     * or its byte order differs from the platform's.
+     */
+    protected static typed(data: ArrayBuffer, offset: number, type: Volume.Type, count: number,
+        littleEndian: boolean): Volume.Data {
+
+        const bytes = Volume.bytesPerValue(type);
+        assert(offset + count * bytes <= data.byteLength, `expected ${count * bytes} bytes of volume data, given ` +
+            `${data.byteLength - offset}`);
+
+        const platformLittleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+        const aligned = offset % bytes === 0;
+        if (type === Volume.Type.Uint8 || (aligned && littleEndian === platformLittleEndian)) {
+            switch (type) {
+                case Volume.Type.Int16:
+                    return new Int16Array(data, offset, count);
+                case Volume.Type.Uint16:
+                    return new Uint16Array(data, offset, count);
+                case Volume.Type.Float32:
+                    return new Float32Array(data, offset, count);
+                default:
+                    return new Uint8Array(data, offset, count);
+            }
+        }
+
+        const view = new DataView(data, offset, count * bytes);
+        switch (type) {
+            case Volume.Type.Int16: {
+                const result = new Int16Array(count);
+                for (let i = 0; i < count; ++i) {
+                    result[i] = view.getInt16(i * 2, littleEndian);
+                }
+                return result;
+            }
+            case Volume.Type.Uint16: {
+                const result = new Uint16Array(count);
+                for (let i = 0; i < count; ++i) {
+                    result[i] = view.getUint16(i * 2, littleEndian);
+                }
+                return result;
+            }
+            default: {
+                const result = new Float32Array(count);
+                for (let i = 0; i < count; ++i) {
+                    result[i] = view.getFloat32(i * 4, littleEndian);
+                }
+                return result;
+            }
+        }
+    }
+
+    /**
+     * Provides the byte size of a single value of the given type.
+     */
+    static bytesPerValue(type: Volume.Type): number {
+        switch (type) {
+            case Volume.Type.Int16:
+            case Volume.Type.Uint16:
+                return 2;
+            case Volume.Type.Float32:
+                return 4;
+            default:
+                return 1;
+        }
+    }
+
+    /**
+     * Checks for the NRRD magic ('NRRD000' followed by the version).
+     * @param data - Content of the file.
+     */
+    static isNRRD(data: ArrayBuffer): boolean {
+        if (data.byteLength < Volume.NRRD_MAGIC.length) {
+            return false;
+        }
+        const bytes = new Uint8Array(data, 0, Volume.NRRD_MAGIC.length);
+        return Volume.NRRD_MAGIC.split('').every((char, index) => bytes[index] === char.charCodeAt(0));
+    }
+
+    /**
+     * Parses a three-dimensional NRRD file with attached, raw encoded data. Spacing is derived from either the
+     * `spacings` or `space directions` field.
+     * @param data - Content of the file.
+     * @returns - Volume, undefined if the file uses an unsupported type, encoding, or detached data.
+     */
+    static parseNRRD(data: ArrayBuffer): Volume | undefined {
+        assert(Volume.isNRRD(data), `expected NRRD magic`);
+        const bytes = new Uint8Array(data);
+
+        /* The header is terminated by an empty line, followed by the data. */
+        const fields = new Map<string, string>();
+        let offset = 0;
+        let line = '';
+        while (offset < bytes.length) {
+            const char = bytes[offset++];
+            if (char !== 0x0A) {
+                line += String.fromCharCode(char);
+                continue;
+            }
+            line = line.replace(/\r$/, '');
+            if (line.length === 0) {
+                break;
+            }
+            const separator = line.indexOf(': ');
+            if (line[0] !== '#' && separator > 0) { /* skip magic, comments, and key/value pairs ('key:=value') */
+                fields.set(line.substr(0, separator).toLowerCase(), line.substr(separator + 2).trim());
+            }
+            line = '';
+        }
+
+        const dimension = parseInt(fields.get('dimension') || '0', 10);
+        if (dimension !== 3) {
+            log(LogLevel.Warning, `expected three-dimensional NRRD, given dimension ${dimension}`);
+            return undefined;
+        }
+        if (fields.has('data file') || fields.has('datafile')) {
+            log(LogLevel.Warning, `NRRD with detached data not supported`);
+            return undefined;
+        }
+        const encoding = fields.get('encoding') || 'raw';
+        if (encoding !== 'raw') {
+            log(LogLevel.Warning, `NRRD encoding '${encoding}' not supported, expected 'raw'`);
+            return undefined;
+        }
+        const type = Volume.fromNRRDType(fields.get('type') || '');
+        if (type === undefined) {
+            log(LogLevel.Warning, `NRRD type '${fields.get('type')}' not supported`);
+            return undefined;
+        }
+
+        const sizes = (fields.get('sizes') || '').split(/\s+/).map((value) => parseInt(value, 10));
+        assert(sizes.length === 3 && sizes.every((value) => value > 0), `expected three valid NRRD sizes, given ` +
+            `'${fields.get('sizes')}'`);
+        const size: GLsizei3 = [sizes[0], sizes[1], sizes[2]];
+
+        let spacing: GLfloat3 = [1.0, 1.0, 1.0];
+        if (fields.has('spacings')) {
+            const spacings = fields.get('spacings')!.split(/\s+/).map((value) => parseFloat(value));
+            spacing = [spacings[0], spacings[1], spacings[2]];
+        } else if (fields.has('space directions')) {
+            const directions = fields.get('space directions')!.match(/\(([^)]*)\)/g) || [];
+            assert(directions.length === 3, `expected three NRRD space directions`);
+            const lengths = directions.map((direction) => Math.sqrt(direction.slice(1, -1).split(',')
+                .map((value) => parseFloat(value)).reduce((sum, value) => sum + value * value, 0.0)));
+            spacing = [lengths[0], lengths[1], lengths[2]];
+        }
+
+        const littleEndian = (fields.get('endian') || 'little') === 'little';
+        const count = size[0] * size[1] * size[2];
+        return new Volume(size, type, Volume.typed(data, offset, type, count, littleEndian), spacing);
+    }
+
+    /**
+     * Parses raw volume data as described by the given header.
+     * @param data - Content of the raw file.
+     * @param header - Description of size, type, spacing, byte order, and offset of the data.
+     */
+    static parseRaw(data: ArrayBuffer, header: Volume.Header): Volume {
+        assert(header.size.length === 3 && header.size.every((value) => value > 0), `expected three valid sizes`);
+        assert(Volume.fromRawType(header.type) !== undefined,
+            `expected volume type of uint8, int16, uint16, or float32, given '${header.type}'`);
+
+        const count = header.size[0] * header.size[1] * header.size[2];
+        const littleEndian = header.endian !== 'big';
+        return new Volume([header.size[0], header.size[1], header.size[2]], header.type,
+            Volume.typed(data, header.offset || 0, header.type, count, littleEndian),
+            header.spacing ? [header.spacing[0], header.spacing[1], header.spacing[2]] : [1.0, 1.0, 1.0]);
+    }
+
+    /**
+     * Asynchronous load of a volume from a NRRD file or a raw file. For raw files, the header is fetched from the
+     * JSON file of the same name unless specified.
+     * @param url - URL of the NRRD (.nrrd) or raw file.
+     * @param header - Optional header of a raw file.
+     * @returns - Promise resolving on the volume.
+     */
+    static load(url: string, header?: Volume.Header): Promise<Volume> {
+        if (header === undefined && !/\.nrrd$/i.test(url)) {
+            const headerUrl = url.replace(/(\.[^./]*)?$/, '.json');
+            return fetchJsonAsync<Volume.Header>(headerUrl, (json: Volume.HeaderJSON) => Volume.fromJSON(json))
+                .then((json) => Volume.load(url, json));
+        }
+
+        return fetchAsync<ArrayBuffer>(url, 'arraybuffer').then<Volume>((data) => {
+            const volume = header === undefined ? Volume.parseNRRD(data) : Volume.parseRaw(data, header);
+            if (volume === undefined) {
+                return Promise.reject(`parsing volume from '${url}' failed`);
+            }
+            return volume;
+        });
+    }
+
+
+    /**
+     * @param size - Number of values along x, y, and z.
+     * @param type - Type of the values.
+     * @param data - Values, x varying fastest and z slowest.
+     * @param spacing - Distance between adjacent values along x, y, and z.
+     */
+    constructor(size: GLsizei3, type: Volume.Type, data: Volume.Data, spacing: GLfloat3 = [1.0, 1.0, 1.0]) {
+        assert(data.length === size[0] * size[1] * size[2], `expected ${size[0] * size[1] * size[2]} values, ` +
+            `given ${data.length}`);
+        this._size = size;
+        this._type = type;
+        this._data = data;
+        this._spacing = spacing;
+    }
+
+
+    /**
+     * Maps all values linearly from the volume's value range to [0, 1], e.g., for upload as float texture.
+     */
+    normalized(): Float32Array {
+        const range = this.range;
+        const scale = range[1] > range[0] ? 1.0 / (range[1] - range[0]) : 0.0;
+
+        const result = new Float32Array(this._data.length);
+        for (let i = 0; i < this._data.length; ++i) {
+            result[i] = (this._data[i] - range[0]) * scale;
+        }
+        return result;
+    }
+
+
+    /**
+     * Number of values along x, y, and z.
+     */
+    get size(): GLsizei3 {
+        return this._size;
+    }
+
+    /**
+     * Type of the values.
+     */
+    get type(): Volume.Type {
+        return this._type;
+    }
+
+    /**
+     * Values, x varying fastest and z slowest.
+     */
+    get data(): Volume.Data {
+        return this._data;
+    }
+
+    /**
+     * Distance between adjacent values along x, y, and z, e.g., for anisotropic voxels.
+     */
+    get spacing(): GLfloat3 {
+        return this._spacing;
+    }
+
+    /**
+     * Extent of the volume, i.e., size times spacing, e.g., for deriving a model transform.
+     */
+    get extent(): GLfloat3 {
+        return [this._size[0] * this._spacing[0], this._size[1] * this._spacing[1], this._size[2] * this._spacing[2]];
+    }
+
+    /**
+     * Minimum and maximum value (computed lazily).
+     */
+    get range(): GLfloat2 {
+        if (this._range === undefined) {
+            let min = Number.POSITIVE_INFINITY;
+            let max = Number.NEGATIVE_INFINITY;
+            /* tslint:disable-next-line:prefer-for-of */
+            for (let i = 0; i < this._data.length; ++i) {
+                min = Math.min(min, this._data[i]);
+                max = Math.max(max, this._data[i]);
+            }
+            this._range = [min, max];
+        }
+        return this._range;
+    }
+
+}
+
+
+export namespace Volume {
+
+    /**
+     * Supported value types.
+     */
+    export enum Type {
+        Uint8 = 'uint8',
+        Int16 = 'int16',
+        Uint16 = 'uint16',
+        Float32 = 'float32',
+    }
+
+    /**
+     * JSON header of raw volume files. The byte order defaults to little endian and the offset to zero.
+     */
+    export interface Header {
+        size: GLsizei3;
+        type: Type;
+        spacing?: GLfloat3;
+        endian?: 'little' | 'big';
+        offset?: number;
+    }
+
+    /**
+     * JSON representation of raw volume file headers as fetched, i.e., not yet validated.
+     */
+    export interface HeaderJSON {
+        size: Array<number>;
+        type: string;
+        spacing?: Array<number>;
+        endian?: string;
+        offset?: number;
+    }
+
+    export type Data = Uint8Array | Int16Array | Uint16Array | Float32Array;
+
+}
@@ -0,0 +1,394 @@
+
+import { mat4 } from 'gl-matrix';
+
+import { assert, logIf, LogLevel } from './auxiliaries';
+import { m4 } from './gl-matrix-extensions';
+import { GLfloat2 } from './tuples';
+
+import { Camera } from './camera';
+import { ColorScale } from './colorscale';
+import { Context } from './context';
+import { Framebuffer } from './framebuffer';
+import { Initializable } from './initializable';
+import { NdcFillingTriangle } from './ndcfillingtriangle';
+import { Program } from './program';
+import { RandomSquareKernel } from './randomsquarekernel';
+import { Shader } from './shader';
+import { Texture2D } from './texture2d';
+import { Texture3D } from './texture3d';
+
+
+/**
+ * This pass renders a scalar volume (@see {@link Texture3D}) by ray marching, either compositing all samples
+ * classified by a transfer function front to back (with early ray termination) or shading the first hit of an
+ * isosurface. The transfer function is baked from a color scale and an opacity ramp. Ray starts are jittered per
+ * pixel and frame, thus, results should be accumulated over multiple frames, e.g., by an accumulate pass. The volume
+ * occupies the unit cube centered at the origin, transformed by the pass's transform, e.g., scaled to the volume's
+ * extent. The result is blended (premultiplied alpha) onto the target's content. Volume rendering requires WebGL2.
+ * ```
+ * this._volumePass.initialize(this._ndcTriangle);
+ * this._volumePass.volume = this._volumeTexture;
+ * this._volumePass.transferFunction(colorScale, [[0.2, 0.0], [0.6, 0.05], [1.0, 0.5]]);
+ * ...
+ * // within onFrame
+ * this._volumePass.camera = this._camera;
+ * this._intermediateFBO.clear(gl.COLOR_BUFFER_BIT, true, false);
+ * this._volumePass.frame(this._intermediateFBO, frameNumber);
+ * this._accumulate.frame(frameNumber);
+ * ```
+ */
+export class VolumePass extends Initializable {
+
+    /**
+     * Maximum number of steps per ray, matching the loop bound of the volume shader.
+     */
+    static readonly MAX_STEPS = 2048;
+
+
+    /**
+     * Read-only access to the objects context, used to get context information and WebGL API access.
+     */
+    protected _context: Context;
+
+    /** @see {@link volume} */
+    protected _volume: Texture3D | undefined;
+
+    /** @see {@link camera} */
+    protected _camera: Camera | undefined;
+
+    /** @see {@link transform} */
+    protected _transform: mat4 = mat4.identity(m4());
+
+    /** @see {@link mode} */
+    protected _mode: VolumePass.Mode = VolumePass.Mode.Composite;
+
+    /** @see {@link isoValue} */
+    protected _isoValue = 0.5;
+
+    /** @see {@link stepCount} */
+    protected _stepCount = 256;
+
+    /** @see {@link opacityThreshold} */
+    protected _opacityThreshold = 0.99;
+
+    /**
+     * Ray start offsets in [-0.5, +0.5] steps per frame of a multi-frame (@see {@link jitter}).
+     */
+    protected _jitterKernel = new RandomSquareKernel(1);
+
+    /**
+     * Geometry used to draw on. If no triangle is given, the ndc triangle will be created and managed internally.
+     */
+    protected _ndcTriangle: NdcFillingTriangle;
+
+    /**
+     * Tracks ownership of the ndc-filling triangle.
+     */
+    protected _ndcTriangleShared = false;
+
+    protected _program: Program;
+
+    /** @see {@link transferFunctionTexture} */
+    protected _transferFunction: Texture2D;
+
+
+    /**
+     * Interpolates the opacity of a ramp linearly at the given position. Positions outside the ramp are clamped to
+     * its first or last stop.
+     * @param ramp - Opacity stops as position and opacity, ordered by position.
+     * @param position - Position in [0, 1] to interpolate the opacity at.
+     */
+    static opacity(ramp: VolumePass.OpacityRamp, position: number): number {
+        if (ramp.length === 0) {
+            return 1.0;
+        }
+        if (position <= ramp[0][0]) {
+            return ramp[0][1];
+        }
+        for (let i = 1; i < ramp.length; ++i) {
+            if (position <= ramp[i][0]) {
+                const a = (position - ramp[i - 1][0]) / (ramp[i][0] - ramp[i - 1][0]);
+                return ramp[i - 1][1] * (1.0 - a) + ramp[i][1] * a;
+            }
+        }
+        return ramp[ramp.length - 1][1];
+    }
+
+    /**
+     * Bakes a transfer function into interleaved rgba bytes, with color from the color scale and opacity from the
+     * ramp. Opacity is specified per texel of the volume, i.e., it is independent of the step count.
+     * @param colorScale - Color scale mapping normalized values to color.
+     * @param ramp - Opacity stops as position and opacity, ordered by position.
+     * @param size - Number of entries of the transfer function.
+     */
+    static bakeTransferFunction(colorScale: ColorScale, ramp: VolumePass.OpacityRamp, size: number = 256):
+        Uint8Array {
+        assert(size > 1, `expected transfer function of at least two entries, given ${size}`);
+        for (let i = 1; i < ramp.length; ++i) {
+            assert(ramp[i][0] >= ramp[i - 1][0], `expected opacity stops ordered by position`);
+        }
+
+        const bytes = colorScale.bakeUI8(size);
+        for (let i = 0; i < size; ++i) {
+            const opacity = VolumePass.opacity(ramp, i / (size - 1));
+            bytes[i * 4 + 3] = Math.round(Math.min(Math.max(opacity, 0.0), 1.0) * 255.0);
+        }
+        return bytes;
+    }
+
+
+    constructor(context: Context) {
+        super();
+        this._context = context;
+    }
+
+
+    /**
+     * Initializes the ray marching program and the transfer function texture (a linear gray ramp by default).
+     * @param ndcTriangle - If specified, assumed to be used as shared geometry. If none is specified, a ndc-filling
+     * triangle will be created internally.
+     */
+    @Initializable.initialize()
+    initialize(ndcTriangle?: NdcFillingTriangle): boolean {
+        assert(this._context.isWebGL2, `expected WebGL2 for volume rendering`);
+        const gl = this._context.gl;
+
+        if (ndcTriangle === undefined) {
+            this._ndcTriangle = new NdcFillingTriangle(this._context, 'NdcFillingTriangle-Volume');
+        } else {
+            this._ndcTriangle = ndcTriangle;
+            this._ndcTriangleShared = true;
+        }
+        if (!this._ndcTriangle.initialized) {
+            this._ndcTriangle.initialize(0);
+        }
+
+        const vert = new Shader(this._context, gl.VERTEX_SHADER, 'ndcvertices.vert (volume)');
+        vert.initialize(require('./shaders/ndcvertices.vert'));
+        const frag = new Shader(this._context, gl.FRAGMENT_SHADER, 'volume.frag');
+        frag.initialize(require('./shaders/volume.frag'));
+
+        this._program = new Program(this._context, 'VolumeProgram');
+        this._program.initialize([vert, frag]);
+        this._program.attribute('a_vertex', this._ndcTriangle.aVertex);
+
+        this._program.bind();
+        this._program.setUniform('u_volume', 0);
+        this._program.setUniform('u_transferFunction', 1);
+        this._program.unbind();
+
+        this._transferFunction = new Texture2D(this._context, 'VolumeTransferFunction');
+        this._transferFunction.initialize(256, 1, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE);
+        this._transferFunction.filter(gl.LINEAR, gl.LINEAR);
+        this._transferFunction.wrap(gl.CLAMP_TO_EDGE, gl.CLAMP_TO_EDGE);
+
+        const gray = new Uint8Array(256 * 4);
+        for (let i = 0; i < gray.length; ++i) {
+            gray[i] = i >> 2;
+        }
+        this._transferFunction.data(gray);
+
+        return true;
+    }
+
+    /**
+     * Uninitializes the program, the transfer function texture, and the geometry (if not shared). The volume
+     * texture is not uninitialized.
+     */
+    @Initializable.uninitialize()
+    uninitialize(): void {
+        if (!this._ndcTriangleShared && this._ndcTriangle.initialized) {
+            this._ndcTriangle.uninitialize();
+        }
+        this._program.uninitialize();
+        this._transferFunction.uninitialize();
+    }
+
+    /**
+     * Bakes the transfer function used for classification (@see {@link bakeTransferFunction}). The color at the
+     * iso value is used for shading isosurfaces.
+     * @param colorScale - Color scale mapping normalized values to color.
+     * @param ramp - Opacity stops as position and opacity, ordered by position.
+     * @param size - Number of entries of the transfer function.
+     */
+    @Initializable.assert_initialized()
+    transferFunction(colorScale: ColorScale, ramp: VolumePass.OpacityRamp, size: number = 256): void {
+        this._transferFunction.resize(size, 1);
+        this._transferFunction.data(VolumePass.bakeTransferFunction(colorScale, ramp, size));
+    }
+
+    /**
+     * Ray start offset in steps for the given frame of a multi-frame.
+     * @param frameNumber - Frame number to retrieve the offset for.
+     */
+    jitter(frameNumber: number): number {
+        return this._jitterKernel.get(frameNumber % this._jitterKernel.width)[0];
+    }
+
+    /**
+     * Renders the volume and blends it onto the target's content (premultiplied alpha). The viewport is set to the
+     * target's size.
+     * @param target - Framebuffer to blend the volume onto.
+     * @param frameNumber - Frame number of the multi-frame, used for jittering ray starts.
+     */
+    @Initializable.assert_initialized()
+    frame(target: Framebuffer, frameNumber: number): void {
+        logIf(this._volume === undefined || this._camera === undefined, LogLevel.Warning,
+            `volume and camera expected for volume rendering`);
+        if (this._volume === undefined || this._camera === undefined) {
+            return;
+        }
+        const gl = this._context.gl;
+
+        const modelViewProjection = mat4.multiply(m4(), this._camera.viewProjection, this._transform);
+        const inverse = mat4.invert(m4(), modelViewProjection);
+        assert(inverse !== null, `expected model view projection to be invertible`);
+
+        this._program.bind();
+        this._program.setUniform('u_inverseModelViewProjection', inverse!);
+        this._program.setUniform('u_ndcNear', this._camera.reversedZ ? 1.0 : -1.0);
+        this._program.setUniform('u_volumeSize', this._volume.size);
+        this._program.setUniform('u_stepCount', this._stepCount);
+        this._program.setUniform('u_jitter', this.jitter(frameNumber));
+        this._program.setUniform('u_mode', this._mode === VolumePass.Mode.Isosurface ? 1 : 0);
+        this._program.setUniform('u_isoValue', this._isoValue);
+        this._program.setUniform('u_opacityThreshold', this._opacityThreshold);
+
+        this._volume.bind(gl.TEXTURE0);
+        this._transferFunction.bind(gl.TEXTURE1);
+
+        target.bind();
+        gl.viewport(0, 0, target.width, target.height);
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+        this._ndcTriangle.bind();
+        this._ndcTriangle.draw();
+        this._ndcTriangle.unbind();
+
+        gl.disable(gl.BLEND);
+        target.unbind();
+
+        this._volume.unbind(gl.TEXTURE0);
+        this._transferFunction.unbind(gl.TEXTURE1);
+        this._program.unbind();
+    }
+
+
+    /**
+     * Scalar volume to render, e.g., loaded via {@link Texture3D.loadVolume}. It should be filtered linearly and
+     * clamped to edge. The pass does not take ownership of the texture.
+     */
+    set volume(volume: Texture3D | undefined) {
+        this._volume = volume;
+    }
+
+    get volume(): Texture3D | undefined {
+        return this._volume;
+    }
+
+    /**
+     * Camera the volume is rendered for.
+     */
+    set camera(camera: Camera | undefined) {
+        this._camera = camera;
+    }
+
+    get camera(): Camera | undefined {
+        return this._camera;
+    }
+
+    /**
+     * Model matrix of the volume, transforming the unit cube centered at the origin into world space, e.g., scaled
+     * by the volume's extent to account for anisotropic spacing.
+     */
+    set transform(transform: mat4) {
+        this._transform = mat4.clone(transform);
+    }
+
+    get transform(): mat4 {
+        return this._transform;
+    }
+
+    /**
+     * Rendering mode, either compositing via the transfer function or isosurface.
+     */
+    set mode(mode: VolumePass.Mode) {
+        this._mode = mode;
+    }
+
+    get mode(): VolumePass.Mode {
+        return this._mode;
+    }
+
+    /**
+     * Normalized value in [0, 1] of the isosurface.
+     */
+    set isoValue(value: number) {
+        this._isoValue = Math.min(Math.max(value, 0.0), 1.0);
+    }
+
+    get isoValue(): number {
+        return this._isoValue;
+    }
+
+    /**
+     * Number of steps along the volume's diagonal, i.e., inverse step size, in [1, {@link MAX_STEPS}].
+     */
+    set stepCount(count: number) {
+        this._stepCount = Math.min(Math.max(Math.floor(count), 1), VolumePass.MAX_STEPS);
+    }
+
+    get stepCount(): number {
+        return this._stepCount;
+    }
+
+    /**
+     * Accumulated opacity beyond which rays are terminated early.
+     */
+    set opacityThreshold(threshold: number) {
+        this._opacityThreshold = Math.min(Math.max(threshold, 0.0), 1.0);
+    }
+
+    get opacityThreshold(): number {
+        return this._opacityThreshold;
+    }
+
+    /**
+     * Number of frames the ray start offsets are generated for, e.g., the multi-frame number.
+     */
+    set multiFrameNumber(multiFrameNumber: number) {
+        this._jitterKernel.width = Math.max(multiFrameNumber, 1);
+    }
+
+    get multiFrameNumber(): number {
+        return this._jitterKernel.width;
+    }
+
+    /**
+     * Transfer function texture (rgba, width of the number of entries and height of one).
+     */
+    get transferFunctionTexture(): Texture2D {
+        this.assertInitialized();
+        return this._transferFunction;
+    }
+
+}
+
+
+export namespace VolumePass {
+
+    /**
+     * Rendering modes of the volume pass.
+     */
+    export enum Mode {
+        Composite = 'composite',
+        Isosurface = 'isosurface',
+    }
+
+    /**
+     * Opacity stops as position in [0, 1] and opacity in [0, 1], ordered by position.
+     */
+    export type OpacityRamp = Array<GLfloat2>;
+
+}
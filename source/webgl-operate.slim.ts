@@ -3,7 +3,10 @@ export { branch, commit, version } from './version';
 
 export { Context } from './context';
 export { Canvas } from './canvas';
+export { HeadlessCanvas } from './headlesscanvas';
 export { Controller } from './controller';
+export { Profiler } from './profiler';
+export { FrameCapture } from './framecapture';
 
 export { Initializable } from './initializable';
 
@@ -12,36 +15,49 @@ export { ExtensionsHash } from './extensionshash';
 export { ChangeLookup } from './changelookup';
 export { MouseEventProvider } from './mouseeventprovider';
 export { TouchEventProvider } from './toucheventprovider';
+export { PointerEventProvider } from './pointereventprovider';
 export { EventHandler } from './eventhandler';
 
 export { Buffer } from './buffer';
 export { Color } from './color';
 export { ColorScale } from './colorscale';
+export { CompressedTexture } from './compressedtexture';
 export { DefaultFramebuffer } from './defaultframebuffer';
+export { EnvironmentMap } from './environmentmap';
 export { Framebuffer } from './framebuffer';
 export { Geometry } from './geometry';
 export { Program } from './program';
+export { RGBEDecoder } from './rgbedecoder';
 export { Renderbuffer } from './renderbuffer';
 export { Renderer, Invalidate } from './renderer';
 export { Shader } from './shader';
 export { Texture2D } from './texture2d';
 export { Texture3D } from './texture3d';
 export { TextureCube } from './texturecube';
+export { UniformBlock } from './uniformblock';
+export { UniformBuffer } from './uniformbuffer';
 export { VertexArray } from './vertexarray';
+export { VertexLayout } from './vertexlayout';
+export { Volume } from './volume';
 export { Wizard } from './wizard';
 
 export { Camera } from './camera';
+export { CameraAnimation } from './cameraanimation';
 export { CameraModifier } from './cameramodifier';
 export { Navigation } from './navigation';
+export { GestureRecognizer } from './gesturerecognizer';
 export { FirstPersonModifier } from './firstpersonmodifier';
 export { PanModifier } from './panmodifier';
+export { PickingManager } from './pickingmanager';
 export { PointerLock } from './pointerlock';
+export { Stereo } from './stereo';
 export { TrackballModifier } from './trackballmodifier';
 export { TurntableModifier } from './turntablemodifier';
 export { ZoomModifier } from './zoommodifier';
 
 export { NdcFillingRectangle } from './ndcfillingrectangle';
 export { NdcFillingTriangle } from './ndcfillingtriangle';
+export { MeshGeometry } from './meshgeometry';
 
 export { AbstractKernel } from './kernel';
 export { AntiAliasingKernel } from './antialiasingkernel';
@@ -51,8 +67,20 @@ export { KernelF32, KernelI32, KernelI8, KernelUI32, KernelUI8 } from './kernel'
 export { AccumulatePass } from './accumulatepass';
 export { BlitPass } from './blitpass';
 export { ReadbackPass } from './readbackpass';
+export { ShadowPass } from './shadowpass';
+export { VolumePass } from './volumepass';
 
+export { PostProcessingChain } from './postprocessingchain';
+export { PostProcessingPass } from './postprocessingpass';
+export { BloomPass } from './bloompass';
+export { DepthOfFieldPass } from './depthoffieldpass';
+export { FXAAPass } from './fxaapass';
+export { SSAOPass } from './ssaopass';
+export { ToneMappingPass } from './tonemappingpass';
 
+
+export * from './gltf/index';
+export * from './scene/index';
 export * from './text/index';
 
 
@@ -68,5 +96,8 @@ export { quat } from 'gl-matrix';
 import * as root_gl_matrix_extensions from './gl-matrix-extensions';
 export import gl_matrix_extensions = root_gl_matrix_extensions;
 
+import * as root_mesh_generators from './meshgenerators';
+export import mesh_generators = root_mesh_generators;
+
 import * as root_tuples from './tuples';
 export import tuples = root_tuples;
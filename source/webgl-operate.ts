@@ -13,6 +13,9 @@ export import fetch = root_fetch;
 import * as root_raymath from './raymath';
 export import ray_math = root_raymath;
 
+import * as root_mipmapping from './mipmapping';
+export import mipmapping = root_mipmapping;
+
 
 // /* DEBUG facilities */
 
@@ -1,11 +1,283 @@
 
+import { vec2, vec3 } from 'gl-matrix';
+
+import { DEG2RAD, RAD2DEG } from './auxiliaries';
+import { v3 } from './gl-matrix-extensions';
+
+import { Camera } from './camera';
 import { CameraModifier } from './cameramodifier';
 
 
+/**
+ * Math for zooming towards (or away from) an anchor below the event position, e.g., the cursor. The anchor is retrieved
+ * from depth if a readback pass is assigned (@see {@link readbackPass}) and falls back to the focal plane otherwise.
+ * Zooming either dollies eye and center towards the anchor or narrows the field of view, keeping the anchor in place.
+ * For orthographic cameras, the view volume's height is scaled instead (dollying has no effect on the image then).
+ * Zooming can be continuous, based on an initial (@see initiate) and subsequent (@see process) event positions, or
+ * stepwise (@see step), e.g., for wheel events or pinch gestures. With inertia, the last zoom is continued with
+ * decreasing velocity on subsequent updates (@see coast).
+ */
 export class ZoomModifier extends CameraModifier {
 
+    protected static readonly DEFAULT_SENSITIVITY = 0.005;
+
+    /**
+     * Zoom velocity (logarithm of the zoom factor) below which coasting stops.
+     */
+    protected static readonly COAST_EPSILON = 1e-4;
+
+
+    /** @see {@link mode} */
+    protected _mode: ZoomModifier.Mode = ZoomModifier.Mode.Dolly;
+
+    /** @see {@link sensitivity} */
+    protected _sensitivity: number = ZoomModifier.DEFAULT_SENSITIVITY;
+
+    /** @see {@link minDistance} */
+    protected _minDistance = 0.01;
+
+    /** @see {@link maxDistance} */
+    protected _maxDistance = Number.POSITIVE_INFINITY;
+
+    /** @see {@link minFovy} */
+    protected _minFovy = 1.0;
+
+    /** @see {@link maxFovy} */
+    protected _maxFovy = 120.0;
+
+    /** @see {@link inertia} */
+    protected _inertia = 0.0;
+
+    /**
+     * Anchor and event position of the ongoing zoom (continuous or coasting).
+     */
+    protected _anchor: vec3 | undefined;
+    protected _anchorPoint: vec2;
+
+    /**
+     * Zoom factor of the last continuous update relative to the previous one as logarithm, used for coasting.
+     */
+    protected _velocity = 0.0;
+    protected _factor = 1.0;
+
+
+    /**
+     * Applies the given zoom factor to the reference camera and assigns the result to the camera. For dolly zooming,
+     * eye and center are scaled about the anchor. For field of view zooming, the fovy is scaled and the camera is
+     * translated within the view plane such that the anchor remains at the same position on screen. For orthographic
+     * projection, the orthographic height is scaled (within the distance limits) instead of the fovy.
+     * @param factor - Zoom factor, greater than one for zooming in.
+     */
+    protected apply(factor: number): void {
+        if (this._camera === undefined || this._anchor === undefined) {
+            return;
+        }
+        const reference = this._reference;
+        const anchor = this._anchor;
+
+        const orthographic = reference.mode === Camera.ProjectionMode.Orthographic;
+        if (this._mode === ZoomModifier.Mode.Dolly && !orthographic) {
+            /* Clamp the factor by the resulting distance between eye and center. */
+            const distance = vec3.distance(reference.eye, reference.center);
+            factor = Math.min(Math.max(factor, distance / this._maxDistance), distance / this._minDistance);
+
+            const scale = 1.0 / factor;
+            this._camera.eye = vec3.scaleAndAdd(v3(), anchor, vec3.subtract(v3(), reference.eye, anchor), scale);
+            this._camera.center = vec3.scaleAndAdd(v3(), anchor,
+                vec3.subtract(v3(), reference.center, anchor), scale);
+            this._factor = factor;
+            return;
+        }
+
+        if (orthographic) {
+            /* Scale the orthographic height and clamp it by the distance limits. */
+            const height = reference.orthographicHeight;
+            factor = Math.min(Math.max(factor, height / this._maxDistance), height / this._minDistance);
+            this._camera.orthographicHeight = height / factor;
+        } else {
+            /* Scale the tangent of the half field of view and clamp the resulting fovy. */
+            const tangent = Math.tan(reference.fovy * DEG2RAD * 0.5);
+            const fovy = Math.min(Math.max(2.0 * Math.atan(tangent / factor) * RAD2DEG, this._minFovy),
+                this._maxFovy);
+            factor = tangent / Math.tan(fovy * DEG2RAD * 0.5);
+            this._camera.fovy = fovy;
+        }
+
+        /* The anchor's offset from the view direction in the view plane scales with the factor, compensate for it. */
+        const forward = vec3.normalize(v3(), vec3.subtract(v3(), reference.center, reference.eye));
+        const toAnchor = vec3.subtract(v3(), anchor, reference.eye);
+        const lateral = vec3.scaleAndAdd(v3(), toAnchor, forward, -vec3.dot(toAnchor, forward));
+        const translation = vec3.scale(v3(), lateral, 1.0 - 1.0 / factor);
+
+        this._camera.eye = vec3.add(v3(), reference.eye, translation);
+        this._camera.center = vec3.add(v3(), reference.center, translation);
+        this._factor = factor;
+    }
+
+    /**
+     * Retrieves the anchor at the given position and resets the reference camera.
+     */
+    protected anchorAt(point: vec2): void {
+        Object.assign(this._reference, this._camera);
+        this._anchorPoint = point;
+        this._anchor = this.anchor(point);
+    }
+
+
+    /**
+     * Initiate a new continuous zoom at a specific event position. Coasting of a previous zoom is stopped.
+     * @param point - Position of the current event to retrieve the anchor at.
+     */
+    initiate(point: vec2): void {
+        this._velocity = 0.0;
+        this._factor = 1.0;
+        this.anchorAt(point);
+
+        /* Retrieve initial event position. */
+        this._initialPoint = point;
+    }
+
+    /**
+     * Update the continuous zoom w.r.t. a specific event position. Moving upwards zooms in.
+     * @param point - Position of the current event to derive the zoom factor from.
+     */
+    process(point: vec2): void {
+        /* Retrieve current event positions. */
+        this._currentPoint = point;
+
+        const previous = this._factor;
+        this.apply(Math.exp((this._initialPoint[1] - this._currentPoint[1]) * this._sensitivity));
+        this._velocity = Math.log(this._factor / previous);
+    }
+
+    /**
+     * Zooms by the given factor at a specific event position, e.g., on wheel events, double-taps, or pinch changes.
+     * @param point - Position of the current event to retrieve the anchor at.
+     * @param factor - Zoom factor relative to the current camera, greater than one for zooming in.
+     */
+    step(point: vec2, factor: number): void {
+        this.anchorAt(point);
+        this.apply(factor);
+        this._velocity = Math.log(this._factor);
+    }
+
+    /**
+     * Continues the last zoom with its velocity decreased by the inertia. This should be invoked on every update after
+     * a zoom was processed or stepped.
+     * @returns - Whether or not the zoom is still coasting, i.e., further updates are required.
+     */
+    coast(): boolean {
+        this._velocity *= this._inertia;
+        if (Math.abs(this._velocity) < ZoomModifier.COAST_EPSILON || this._camera === undefined) {
+            this._velocity = 0.0;
+            return false;
+        }
+        const velocity = this._velocity;
+        this.anchorAt(this._anchorPoint);
+        this.apply(Math.exp(velocity));
+        this._velocity = Math.log(this._factor) !== 0.0 ? velocity : 0.0;
+        return this._velocity !== 0.0;
+    }
+
+    /**
+     * Stops coasting immediately.
+     */
+    stop(): void {
+        this._velocity = 0.0;
+    }
+
+    /**
+     * Zooms are applied immediately on processing, thus, there is nothing left to update.
+     */
     update(): void {
+    }
+
+
+    /**
+     * Whether to dolly the camera towards the anchor or to narrow its field of view.
+     */
+    set mode(mode: ZoomModifier.Mode) {
+        this._mode = mode;
+    }
+
+    get mode(): ZoomModifier.Mode {
+        return this._mode;
+    }
+
+    /**
+     * Zoom sensitivity for continuous zooming (per pixel).
+     */
+    set sensitivity(sensitivity: number) {
+        this._sensitivity = sensitivity;
+    }
+
+    get sensitivity(): number {
+        return this._sensitivity;
+    }
+
+    /**
+     * Minimum distance between eye and center when dollying (minimum orthographic height for orthographic cameras).
+     */
+    set minDistance(distance: number) {
+        this._minDistance = distance;
+    }
+
+    get minDistance(): number {
+        return this._minDistance;
+    }
+
+    /**
+     * Maximum distance between eye and center when dollying (maximum orthographic height for orthographic cameras).
+     */
+    set maxDistance(distance: number) {
+        this._maxDistance = distance;
+    }
+
+    get maxDistance(): number {
+        return this._maxDistance;
+    }
+
+    /**
+     * Minimum vertical field of view in degrees when zooming the field of view.
+     */
+    set minFovy(fovy: number) {
+        this._minFovy = fovy;
+    }
+
+    get minFovy(): number {
+        return this._minFovy;
+    }
+
+    /**
+     * Maximum vertical field of view in degrees when zooming the field of view.
+     */
+    set maxFovy(fovy: number) {
+        this._maxFovy = fovy;
+    }
+
+    get maxFovy(): number {
+        return this._maxFovy;
+    }
+
+    /**
+     * Fraction of the zoom velocity retained per update when coasting, in [0.0, 1.0). Zero disables inertia.
+     */
+    set inertia(inertia: number) {
+        this._inertia = Math.min(Math.max(inertia, 0.0), 0.99);
+    }
+
+    get inertia(): number {
+        return this._inertia;
+    }
+
+}
+
+
+export namespace ZoomModifier {
 
+    export enum Mode {
+        Dolly = 'dolly',
+        FieldOfView = 'fov',
     }
 
 }
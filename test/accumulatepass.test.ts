@@ -0,0 +1,41 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { AccumulatePass } from '../source/accumulatepass';
+import { Camera } from '../source/camera';
+
+
+/* tslint:disable:no-unused-expression */
+
+describe('AccumulatePass', () => {
+
+    it('should reproject normalized device coordinates into the previous frame', () => {
+        const camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        const previous = mat4.clone(camera.viewProjection);
+
+        const identity = AccumulatePass.reprojection(previous, camera.viewProjection)!;
+        for (let i = 0; i < 16; ++i) {
+            expect(identity[i]).to.be.closeTo(i % 5 === 0 ? 1.0 : 0.0, 1e-5);
+        }
+
+        camera.eye = vec3.fromValues(1.0, 0.5, 4.0);
+        camera.center = vec3.fromValues(0.5, 0.0, 0.0);
+        const reprojection = AccumulatePass.reprojection(previous, camera.viewProjection)!;
+
+        const point = vec3.fromValues(0.25, -0.5, 0.5);
+        const current = vec3.transformMat4(vec3.create(), point, camera.viewProjection);
+        const reprojected = vec3.transformMat4(vec3.create(), current, reprojection);
+        const expected = vec3.transformMat4(vec3.create(), point, previous);
+        for (let i = 0; i < 3; ++i) {
+            expect(reprojected[i]).to.be.closeTo(expected[i], 1e-4);
+        }
+
+        expect(AccumulatePass.reprojection(previous, mat4.fromValues(
+            0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0))).to.be.undefined;
+    });
+
+});
@@ -0,0 +1,87 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { Camera } from '../source/camera';
+
+
+/* tslint:disable:no-unused-expression */
+
+function project(camera: Camera, point: Array<number>): vec3 {
+    return vec3.transformMat4(vec3.create(), vec3.fromValues(point[0], point[1], point[2]), camera.viewProjection);
+}
+
+function expectVec3(actual: vec3, expected: Array<number>): void {
+    expect(actual[0]).to.be.closeTo(expected[0], 1e-4);
+    expect(actual[1]).to.be.closeTo(expected[1], 1e-4);
+    expect(actual[2]).to.be.closeTo(expected[2], 1e-4);
+}
+
+
+describe('Camera', () => {
+
+    let camera: Camera;
+
+    beforeEach(() => {
+        /* Looking from (0, 0, 4) at the origin, with near and far planes at z = 2 and z = -4 in world space. */
+        camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        camera.fovy = 90.0;
+        camera.near = 2.0;
+        camera.far = 8.0;
+    });
+
+    it('should match a symmetric perspective projection by default', () => {
+        const expected = mat4.perspective(mat4.create(), Math.PI * 0.5, 1.0, 2.0, 8.0);
+        for (let i = 0; i < 16; ++i) {
+            expect(camera.projection[i]).to.be.closeTo(expected[i], 1e-6);
+        }
+        expectVec3(project(camera, [2.0, 2.0, 2.0]), [1.0, 1.0, -1.0]);
+    });
+
+    it('should project orthographically with the given height and invalidate on changes', () => {
+        camera.mode = Camera.ProjectionMode.Orthographic;
+        camera.orthographicHeight = 4.0;
+        camera.aspect = 2.0;
+        camera.altered = false;
+
+        expectVec3(project(camera, [4.0, 2.0, 2.0]), [1.0, 1.0, -1.0]);
+        expectVec3(project(camera, [4.0, 2.0, -4.0]), [1.0, 1.0, 1.0]);
+
+        camera.orthographicHeight = 8.0;
+        expect(camera.altered).to.be.true;
+        expectVec3(project(camera, [4.0, 2.0, 2.0]), [0.5, 0.5, -1.0]);
+
+        const inverse = camera.viewProjectionInverse!;
+        expectVec3(vec3.transformMat4(vec3.create(), vec3.fromValues(0.5, 0.5, 0.0), inverse), [4.0, 2.0, -1.0]);
+    });
+
+    it('should restrict projections to off-axis frustum windows', () => {
+        /* The upper right quarter of the frustum is stretched to the entire viewport. */
+        camera.frustumWindow = [0.0, 1.0, 0.0, 1.0];
+        expectVec3(project(camera, [2.0, 2.0, 2.0]), [1.0, 1.0, -1.0]);
+        expectVec3(project(camera, [0.0, 0.0, 2.0]), [-1.0, -1.0, -1.0]);
+
+        camera.mode = Camera.ProjectionMode.Orthographic;
+        camera.orthographicHeight = 4.0;
+        expectVec3(project(camera, [1.0, 1.0, -1.0]), [0.0, 0.0, 0.0]);
+    });
+
+    it('should support reversed depth and an infinite far plane', () => {
+        camera.reversedZ = true;
+        expect(project(camera, [0.0, 0.0, 2.0])[2]).to.be.closeTo(1.0, 1e-6);
+        expect(project(camera, [0.0, 0.0, -4.0])[2]).to.be.closeTo(-1.0, 1e-6);
+
+        camera.infiniteFar = true;
+        expect(project(camera, [0.0, 0.0, 2.0])[2]).to.be.closeTo(1.0, 1e-6);
+        expect(project(camera, [0.0, 0.0, -4.0])[2]).to.be.above(-1.0);
+        expect(project(camera, [0.0, 0.0, -1e6])[2]).to.be.closeTo(-1.0, 1e-4);
+
+        camera.reversedZ = false;
+        expect(project(camera, [0.0, 0.0, 2.0])[2]).to.be.closeTo(-1.0, 1e-6);
+        expect(project(camera, [0.0, 0.0, -1e6])[2]).to.be.closeTo(1.0, 1e-4);
+    });
+
+});
@@ -0,0 +1,129 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { vec3 } from 'gl-matrix';
+
+import { Camera } from '../source/camera';
+import { CameraAnimation } from '../source/cameraanimation';
+
+
+/* tslint:disable:no-unused-expression */
+
+type State = CameraAnimation.State;
+
+function state(eye: Array<number>, center: Array<number>, fovy: number = 45.0): State {
+    return {
+        eye: vec3.fromValues(eye[0], eye[1], eye[2]), center: vec3.fromValues(center[0], center[1], center[2]),
+        up: vec3.fromValues(0.0, 1.0, 0.0), fovy,
+    };
+}
+
+function expectVec3(actual: vec3, expected: Array<number>): void {
+    expect(actual[0]).to.be.closeTo(expected[0], 1e-4);
+    expect(actual[1]).to.be.closeTo(expected[1], 1e-4);
+    expect(actual[2]).to.be.closeTo(expected[2], 1e-4);
+}
+
+
+describe('CameraAnimation', () => {
+
+    it('should interpolate eye linearly and keep the view direction if unchanged', () => {
+        const from = state([0.0, 0.0, 4.0], [0.0, 0.0, 0.0], 30.0);
+        const to = state([4.0, 0.0, 4.0], [4.0, 0.0, 0.0], 60.0);
+
+        const half = CameraAnimation.interpolate(from, to, 0.5);
+        expectVec3(half.eye, [2.0, 0.0, 4.0]);
+        expectVec3(half.center, [2.0, 0.0, 0.0]);
+        expectVec3(half.up, [0.0, 1.0, 0.0]);
+        expect(half.fovy).to.be.closeTo(45.0, 1e-6);
+
+        expectVec3(CameraAnimation.interpolate(from, to, 0.25).eye, [1.0, 0.0, 4.0]);
+        expect(CameraAnimation.interpolate(from, to, 1.0)).to.deep.equal(to);
+    });
+
+    it('should interpolate orientations spherically', () => {
+        const from = state([0.0, 0.0, 4.0], [0.0, 0.0, 0.0]);
+        const to = state([4.0, 0.0, 0.0], [0.0, 0.0, 0.0]);
+
+        /* Halfway, the view direction is rotated by 45 degrees around the up axis. */
+        const half = CameraAnimation.interpolate(from, to, 0.5);
+        const offset = 4.0 * Math.SQRT1_2;
+        expectVec3(half.eye, [2.0, 0.0, 2.0]);
+        expectVec3(half.center, [2.0 - offset, 0.0, 2.0 - offset]);
+        expectVec3(half.up, [0.0, 1.0, 0.0]);
+    });
+
+    it('should evaluate keyframed paths through all keyframes', () => {
+        const keyframes = [
+            { state: state([0.0, 0.0, 4.0], [0.0, 0.0, 0.0]), time: 0.0 },
+            { state: state([4.0, 0.0, 4.0], [4.0, 0.0, 0.0]), time: 100.0 },
+            { state: state([4.0, 4.0, 4.0], [4.0, 4.0, 0.0]), time: 200.0 },
+        ];
+        expectVec3(CameraAnimation.evaluate(keyframes, -10.0).eye, [0.0, 0.0, 4.0]);
+        expectVec3(CameraAnimation.evaluate(keyframes, 100.0).eye, [4.0, 0.0, 4.0]);
+        expectVec3(CameraAnimation.evaluate(keyframes, 300.0).eye, [4.0, 4.0, 4.0]);
+
+        /* The spline's tangent at the second keyframe points from the first to the third keyframe. */
+        const before = CameraAnimation.evaluate(keyframes, 90.0).eye;
+        const after = CameraAnimation.evaluate(keyframes, 110.0).eye;
+        expect(before[1]).to.be.below(0.0);
+        expect(after[0]).to.be.above(4.0);
+    });
+
+    it('should fit bounding spheres into view', () => {
+        const camera = new Camera(vec3.fromValues(0.0, 0.0, 10.0));
+        camera.fovy = 90.0;
+
+        const fitted = CameraAnimation.sphereInView(camera, vec3.fromValues(1.0, 0.0, 0.0), 1.0);
+        expectVec3(fitted.center, [1.0, 0.0, 0.0]);
+        expectVec3(fitted.eye, [1.0, 0.0, Math.SQRT2]);
+
+        /* For wide viewports, the vertical extent is limiting. */
+        camera.aspect = 2.0;
+        expectVec3(CameraAnimation.sphereInView(camera, vec3.fromValues(0.0, 0.0, 0.0), 1.0).eye,
+            [0.0, 0.0, Math.SQRT2]);
+    });
+
+    it('should invalidate and emit progress until completion', () => {
+        const invalidate = sinon.spy();
+        const camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        const animation = new CameraAnimation(invalidate, camera);
+
+        const progress = new Array<number>();
+        animation.progress$.subscribe((value) => progress.push(value));
+
+        animation.transition(state([4.0, 0.0, 4.0], [4.0, 0.0, 0.0]), 1000.0, CameraAnimation.Easing.linear);
+        expect(animation.running).to.be.true;
+        expect(invalidate.calledOnce).to.be.true;
+
+        expect(animation.update(500.0)).to.be.true;
+        expect(animation.update(750.0)).to.be.true;
+        expectVec3(camera.eye, [1.0, 0.0, 4.0]);
+        expect(invalidate.calledThrice).to.be.true;
+
+        expect(animation.update(2000.0)).to.be.true;
+        expectVec3(camera.eye, [4.0, 0.0, 4.0]);
+        expectVec3(camera.center, [4.0, 0.0, 0.0]);
+        expect(animation.running).to.be.false;
+        expect(invalidate.calledThrice).to.be.true;
+        expect(progress).to.deep.equal([0.0, 0.0, 0.25, 1.0]);
+
+        expect(animation.update(2500.0)).to.be.false;
+    });
+
+    it('should provide easing functions mapping zero and one to themselves', () => {
+        const easings = [CameraAnimation.Easing.linear, CameraAnimation.Easing.easeIn, CameraAnimation.Easing.easeOut,
+        CameraAnimation.Easing.easeInOut, CameraAnimation.Easing.smoothstep];
+        for (const easing of easings) {
+            expect(easing(0.0)).to.be.closeTo(0.0, 1e-6);
+            expect(easing(1.0)).to.be.closeTo(1.0, 1e-6);
+        }
+        expect(CameraAnimation.Easing.easeInOut(0.5)).to.be.closeTo(0.5, 1e-6);
+        expect(CameraAnimation.Easing.easeIn(0.5)).to.be.below(0.5);
+        expect(CameraAnimation.Easing.easeOut(0.5)).to.be.above(0.5);
+    });
+
+});
@@ -0,0 +1,100 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { Color } from '../source/color';
+import { ColorScale } from '../source/colorscale';
+import { Context } from '../source/context';
+
+import { glMock, GLMockCalls, parameters } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const GL_CONSTANTS: { [name: string]: number } = {
+    UNSIGNED_BYTE: 0x1401, RGBA: 0x1908, RGBA8: 0x8058, TEXTURE_2D: 0x0DE1,
+    NEAREST: 0x2600, LINEAR: 0x2601, TEXTURE_MAG_FILTER: 0x2800, TEXTURE_MIN_FILTER: 0x2801,
+};
+
+
+describe('ColorScale', () => {
+
+    const rgb = [255, 0, 0, 0, 255, 0, 0, 0, 255];
+
+    it('should interpolate between adjacent colors up to the end of the scale', () => {
+        const scale = ColorScale.fromArray(rgb, ColorScale.ArrayType.RGB, 3);
+
+        expect(scale.lerp(0.25, Color.Space.RGB)!.tuple(Color.Space.RGB, false)).to.deep.equal([0.5, 0.5, 0.0]);
+        const end = scale.lerp(0.9, Color.Space.RGB)!.tuple(Color.Space.RGB, false);
+        [0.0, 0.2, 0.8].forEach((value, index) => expect(end[index]).to.be.closeTo(value, 1e-6));
+        expect(scale.lerp(1.5)).to.equal(scale.color(2));
+        expect(scale.lerp(-1.0)).to.equal(scale.color(0));
+    });
+
+    it('should pick the nearest of the adjacent colors for the nearest hint', () => {
+        const scale = ColorScale.fromArray(rgb, ColorScale.ArrayType.RGB, 3);
+        scale.hint = ColorScale.InterpolationHint.Nearest;
+
+        expect(scale.lerp(0.2)).to.equal(scale.color(0));
+        expect(scale.lerp(0.3)).to.equal(scale.color(1));
+        expect(scale.lerp(0.7)).to.equal(scale.color(1));
+        expect(scale.lerp(0.8)).to.equal(scale.color(2));
+    });
+
+    it('should bake equidistant entries matching first and last color', () => {
+        const scale = ColorScale.fromArray(rgb, ColorScale.ArrayType.RGB, 3);
+
+        expect(Array.from(scale.bakeUI8())).to.deep.equal([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+        expect(Array.from(scale.bakeUI8(2, false))).to.deep.equal([255, 0, 0, 0, 0, 255]);
+
+        const floats = scale.bakeF32(5);
+        expect(floats.length).to.equal(5 * 4);
+        expect(Array.from(floats.subarray(8, 12))).to.deep.equal([0.0, 1.0, 0.0, 1.0]);
+        expect(floats[4 + 1]).to.be.within(0.0, 1.0);
+
+        /* Interpolation in RGB yields the arithmetic mean of adjacent colors. */
+        expect(Array.from(scale.bakeUI8(5, false, Color.Space.RGB).subarray(3, 6))).to.deep.equal([128, 128, 0]);
+        expect(Array.from(scale.bitsUI8(Color.Space.RGB, false))).to.deep.equal(rgb);
+    });
+
+    it('should bake nearest interpolated scales without blending', () => {
+        const scale = ColorScale.fromArray(rgb, ColorScale.ArrayType.RGB, 3);
+        scale.hint = ColorScale.InterpolationHint.Nearest;
+
+        const bits = scale.bakeUI8(7, false);
+        const greens = [0, 1, 2, 3, 4, 5, 6].map((i) => bits[i * 3 + 1]);
+        expect(greens).to.deep.equal([0, 0, 255, 255, 255, 0, 0]);
+        expect(bits[6 * 3 + 2]).to.equal(255);
+    });
+
+    it('should bake stacked scales into atlas rows', () => {
+        const first = ColorScale.fromArray(rgb, ColorScale.ArrayType.RGB, 3);
+        const second = ColorScale.fromArray([0, 0, 0, 255, 255, 255], ColorScale.ArrayType.RGB, 2);
+
+        const bits = ColorScale.bakeAtlasUI8([first, second], 3);
+        expect(bits.length).to.equal(2 * 3 * 4);
+        expect(Array.from(bits.subarray(0, 12))).to.deep.equal(Array.from(first.bakeUI8(3)));
+        expect(Array.from(bits.subarray(12, 16))).to.deep.equal([0, 0, 0, 255]);
+        expect(Array.from(bits.subarray(20, 24))).to.deep.equal([255, 255, 255, 255]);
+    });
+
+    it('should map interpolation hints to texture filtering', () => {
+        const calls: GLMockCalls = new Map();
+        const context = Context.requestFromFactory(() => glMock({ constants: GL_CONSTANTS, calls }), 'webgl2');
+        const scale = ColorScale.fromArray(rgb, ColorScale.ArrayType.RGB, 3);
+
+        const texture = scale.texture(context, 16, Color.Space.LAB, 'ColorScaleTexture');
+        expect([texture.width, texture.height]).to.deep.equal([16, 1]);
+        expect(parameters(calls, 'texParameteri').get(GL_CONSTANTS.TEXTURE_MIN_FILTER)).to.equal(GL_CONSTANTS.LINEAR);
+
+        scale.hint = ColorScale.InterpolationHint.Nearest;
+        scale.texture(context);
+        expect(parameters(calls, 'texParameteri').get(GL_CONSTANTS.TEXTURE_MAG_FILTER)).to.equal(GL_CONSTANTS.NEAREST);
+
+        const atlas = ColorScale.atlas(context, [scale, scale, scale], 8);
+        expect([atlas.width, atlas.height]).to.deep.equal([8, 3]);
+        expect(parameters(calls, 'texParameteri').get(GL_CONSTANTS.TEXTURE_MIN_FILTER)).to.equal(GL_CONSTANTS.NEAREST);
+    });
+
+});
@@ -0,0 +1,110 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as aux from '../source/auxiliaries';
+
+import { CompressedTexture } from '../source/compressedtexture';
+import { Context } from '../source/context';
+import { ContextMasquerade } from '../source/contextmasquerade';
+import { byteSizeOfFormat } from '../source/formatbytesizes';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+function readFixture(name: string): ArrayBuffer {
+    const data = fs.readFileSync(path.join(__dirname, name));
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+}
+
+
+describe('CompressedTexture', () => {
+
+    const sandbox = sinon.createSandbox();
+
+    afterEach(() => sandbox.restore());
+
+
+    it('should detect containers by identifier', () => {
+        expect(CompressedTexture.isKTX(readFixture('cubemap.etc2.ktx'))).to.be.true;
+        expect(CompressedTexture.isKTX2(readFixture('cubemap.etc2.ktx'))).to.be.false;
+        expect(CompressedTexture.isKTX2(readFixture('logo.astc.ktx2'))).to.be.true;
+        expect(CompressedTexture.isDDS(readFixture('logo.dxt1.dds'))).to.be.true;
+        expect(CompressedTexture.isDDS(new ArrayBuffer(2))).to.be.false;
+    });
+
+    it('should parse KTX cube maps with all levels', () => {
+        const texture = CompressedTexture.parse(readFixture('cubemap.etc2.ktx'))!;
+        expect(texture.internalFormat).to.equal(0x9274); // COMPRESSED_RGB8_ETC2
+        expect(texture.family).to.equal(CompressedTexture.Family.ETC);
+        expect([texture.width, texture.height, texture.faces]).to.deep.equal([4, 4, 6]);
+        expect(texture.levels.length).to.equal(3);
+        expect(texture.levels[2][5].byteLength).to.equal(8);
+        expect(texture.levels[2][5][0]).to.equal(2 * 16 + 5);
+        expect(texture.byteSize).to.equal(3 * 6 * 8);
+    });
+
+    it('should parse KTX2 levels by level index', () => {
+        const texture = CompressedTexture.parse(readFixture('logo.astc.ktx2'))!;
+        expect(texture.internalFormat).to.equal(0x93D4); // COMPRESSED_SRGB8_ALPHA8_ASTC_6x6_KHR
+        expect(texture.family).to.equal(CompressedTexture.Family.ASTC);
+        expect(texture.levelSize(1)).to.deep.equal([5, 5]);
+        expect(texture.levels[0][0].byteLength).to.equal(64);
+        expect(texture.levels[1][0][0]).to.equal(0x11);
+        expect(texture.byteSize).to.equal(80);
+    });
+
+    it('should not parse supercompressed KTX2', () => {
+        const logStub = sandbox.stub(aux, 'log');
+        const data = readFixture('logo.astc.ktx2');
+        new DataView(data).setUint32(44, 1, true); // BasisLZ
+
+        expect(CompressedTexture.parse(data)).to.be.undefined;
+        expect(logStub.calledOnce).to.be.true;
+    });
+
+    it('should parse DDS mipmap levels', () => {
+        const texture = CompressedTexture.parse(readFixture('logo.dxt1.dds'))!;
+        expect(texture.internalFormat).to.equal(0x83F0); // COMPRESSED_RGB_S3TC_DXT1_EXT
+        expect(texture.faces).to.equal(1);
+        expect(texture.levels.map((level) => level[0].byteLength)).to.deep.equal([32, 8, 8, 8]);
+        expect(texture.levels[3][0][0]).to.equal(3);
+    });
+
+    it('should compute byte sizes rounded to blocks', () => {
+        expect(CompressedTexture.byteSize(0x83F3, 5, 3)).to.equal(2 * 1 * 16); // DXT5
+        expect(CompressedTexture.byteSize(0x93BD, 24, 12)).to.equal(2 * 1 * 16); // ASTC 12x12
+        expect(CompressedTexture.byteSize(0x8C02, 1, 1)).to.equal(32); // PVRTC 4bpp, 8x8 minimum
+        expect(CompressedTexture.byteSize(0x8C03, 1, 1)).to.equal(32); // PVRTC 2bpp, 16x8 minimum
+    });
+
+    it('should select the preferred family supported by a masqueraded context', () => {
+        sandbox.stub(ContextMasquerade, 'presets').returns([{
+            identifier: 'no-astc', backend: 'webgl2', extensions_conceal: ['WEBGL_compressed_texture_astc'],
+        }]);
+        const extensions = ['WEBGL_compressed_texture_astc', 'WEBGL_compressed_texture_etc',
+            'WEBGL_compressed_texture_s3tc'];
+        const all = [CompressedTexture.Family.ASTC, CompressedTexture.Family.ETC, CompressedTexture.Family.S3TC];
+
+        const context = Context.requestFromFactory(() => glMock({ extensions }), 'webgl2');
+        expect(CompressedTexture.best(context, all)).to.equal(CompressedTexture.Family.ASTC);
+
+        const masked = Context.requestFromFactory(() => glMock({ extensions }), 'webgl2', undefined,
+            ContextMasquerade.fromPreset('no-astc'));
+        expect(CompressedTexture.best(masked, all)).to.equal(CompressedTexture.Family.ETC);
+        expect(CompressedTexture.best(masked, [CompressedTexture.Family.S3TC, CompressedTexture.Family.PVRTC]))
+            .to.equal(CompressedTexture.Family.S3TC);
+        expect(CompressedTexture.best(masked, [CompressedTexture.Family.PVRTC])).to.be.undefined;
+
+        expect(byteSizeOfFormat(masked, 0x83F0)).to.equal(0.5);
+        expect(byteSizeOfFormat(masked, 0x9278)).to.equal(1.0);
+    });
+
+});
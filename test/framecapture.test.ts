@@ -0,0 +1,224 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { mat4, vec4 } from 'gl-matrix';
+
+import { Framebuffer } from '../source/framebuffer';
+import { FrameCapture } from '../source/framecapture';
+import { HeadlessCanvas } from '../source/headlesscanvas';
+import { Renderer } from '../source/renderer';
+import { GLsizei2 } from '../source/tuples';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:max-classes-per-file no-unused-expression */
+
+const MAX_TEXTURE_SIZE = 0x0D33;
+const MAX_VIEWPORT_DIMS = 0x0D3A;
+const UNSIGNED_BYTE = 0x1401;
+
+/**
+ * Creates a minimal mock of a WebGL2 context with a maximum viewport size of 64 by 64 pixel. By default, every read
+ * back fills the pixels with the number of reads so far.
+ * @param readPixels - Optional read back replacing the default one.
+ */
+function captureMock(readPixels?: (x: number, y: number, width: number, height: number, format: GLenum,
+    type: GLenum, data: Uint8Array) => void): WebGLRenderingContext {
+    let reads = 0;
+    return glMock({
+        canvas: { width: 100, height: 40 },
+        constants: { MAX_TEXTURE_SIZE, MAX_VIEWPORT_DIMS, UNSIGNED_BYTE },
+        members: {
+            getParameter: (pname: GLenum) => pname === MAX_VIEWPORT_DIMS ? [64, 64] :
+                pname === MAX_TEXTURE_SIZE ? 4096 : undefined,
+            readPixels: readPixels || ((x: number, y: number, width: number, height: number, format: GLenum,
+                type: GLenum, data: Uint8Array) => data.fill(++reads)),
+        },
+    });
+}
+
+class RendererMock extends Renderer {
+
+    tiles = false;
+    frameSizes = new Array<GLsizei2>();
+
+    protected onInitialize(): boolean {
+        return true;
+    }
+    protected onUninitialize(): void { }
+
+    protected onUpdate(): boolean {
+        return false;
+    }
+    protected onPrepare(): void {
+        this.frameSizes.push([this._frameSize[0], this._frameSize[1]]);
+    }
+    protected onFrame(frameNumber: number): void { }
+    protected onSwap(): void { }
+
+    get supportsTiles(): boolean {
+        return this.tiles;
+    }
+
+    get captureTarget(): [Framebuffer, GLenum] | undefined {
+        const framebuffer = {
+            bind: () => undefined, unbind: () => undefined, texture: () => ({ type: UNSIGNED_BYTE }),
+        };
+        return [framebuffer as any as Framebuffer, 0];
+    }
+
+    get currentTileTransform(): mat4 {
+        return this._tileTransform;
+    }
+}
+
+/**
+ * Renders all requests of the canvas until the given promise is settled, allowing the capture to chain its tiles.
+ */
+function drive<T>(canvas: HeadlessCanvas, promise: Promise<T>): Promise<T> {
+    let settled = false;
+    promise.then(() => settled = true, () => settled = true);
+
+    const step = (remaining: number): Promise<void> => Promise.resolve().then(() => {
+        if (settled || remaining === 0) {
+            return;
+        }
+        canvas.render();
+        return step(remaining - 1);
+    });
+    return step(64).then(() => promise);
+}
+
+
+describe('FrameCapture', () => {
+
+    it('should split images into tiles not exceeding the maximum size', () => {
+        expect(FrameCapture.tiles([64, 32], [64, 64])).to.deep.equal([[0, 0, 64, 32]]);
+        expect(FrameCapture.tiles([100, 70], [64, 64])).to.deep.equal([
+            [0, 0, 64, 64], [64, 0, 36, 64], [0, 64, 64, 6], [64, 64, 36, 6]]);
+        expect(() => FrameCapture.tiles([100, 70], [0, 64])).to.throw();
+    });
+
+    it('should transform tile regions to normalized device coordinates', () => {
+        const size: GLsizei2 = [100, 70];
+        const tile: [number, number, number, number] = [64, 0, 36, 64];
+        const transform = FrameCapture.tileTransform(mat4.create(), tile, size);
+
+        /* Lower left and upper right tile corners in normalized device coordinates of the full image. */
+        const lowerLeft = vec4.fromValues(2.0 * tile[0] / size[0] - 1.0, 2.0 * tile[1] / size[1] - 1.0, 0.0, 1.0);
+        const upperRight = vec4.fromValues(2.0 * (tile[0] + tile[2]) / size[0] - 1.0,
+            2.0 * (tile[1] + tile[3]) / size[1] - 1.0, 0.0, 1.0);
+
+        vec4.transformMat4(lowerLeft, lowerLeft, transform);
+        vec4.transformMat4(upperRight, upperRight, transform);
+        expect(lowerLeft[0]).to.be.closeTo(-1.0, 1e-6);
+        expect(lowerLeft[1]).to.be.closeTo(-1.0, 1e-6);
+        expect(upperRight[0]).to.be.closeTo(+1.0, 1e-6);
+        expect(upperRight[1]).to.be.closeTo(+1.0, 1e-6);
+
+        FrameCapture.tileTransform(transform, [0, 0, 100, 70], size);
+        expect(mat4.equals(transform, mat4.create())).to.be.true;
+    });
+
+    it('should convert floats to clamped bytes', () => {
+        const bytes = FrameCapture.toBytes(new Float32Array([-1.0, 0.0, 0.5, 1.0, 2.0]));
+        expect(Array.from(bytes)).to.deep.equal([0, 0, 128, 255, 255]);
+    });
+
+    it('should capture tiles of finished multi-frames and restore the frame size', () => {
+        const canvas = new HeadlessCanvas(() => captureMock());
+        canvas.controller.multiFrameNumber = 2;
+        const renderer = new RendererMock();
+        renderer.tiles = true;
+        canvas.renderer = renderer;
+        canvas.render();
+
+        const capture = new FrameCapture(canvas.context, canvas.controller, renderer);
+        return drive(canvas, capture.capture([100, 40])).then(([image, size]) => {
+            expect(size).to.deep.equal([100, 40]);
+            expect(image).to.be.instanceof(Uint8Array);
+            expect(renderer.frameSizes).to.deep.equal([[100, 40], [64, 40], [36, 40], [100, 40]]);
+            expect(renderer.frameSize).to.deep.equal([100, 40]);
+            expect(mat4.equals(renderer.currentTileTransform, mat4.create())).to.be.true;
+
+            /* The first tile was read first, the second tile last, in both the top and bottom row. */
+            expect(image[0]).to.equal(1);
+            expect(image[63 * 4]).to.equal(1);
+            expect(image[64 * 4]).to.equal(2);
+            expect(image[(39 * 100 + 99) * 4]).to.equal(2);
+        });
+    });
+
+    it('should compose tiles rendered with the tile transform into the full image', () => {
+        const size: GLsizei2 = [100, 40];
+        let renderer: RendererMock;
+
+        /* Every read back encodes each pixel's position within the full image, derived from the tile transform. */
+        const readPixels = (x: number, y: number, width: number, height: number, format: GLenum, type: GLenum,
+            data: Uint8Array) => {
+            const inverse = mat4.invert(mat4.create(), renderer.currentTileTransform)!;
+            for (let j = 0; j < height; ++j) {
+                for (let i = 0; i < width; ++i) {
+                    const ndc = vec4.fromValues((i + 0.5) / width * 2.0 - 1.0, (j + 0.5) / height * 2.0 - 1.0,
+                        0.0, 1.0);
+                    vec4.transformMat4(ndc, ndc, inverse);
+                    data[(j * width + i) * 4 + 0] = Math.floor((ndc[0] * 0.5 + 0.5) * size[0]);
+                    data[(j * width + i) * 4 + 1] = Math.floor((ndc[1] * 0.5 + 0.5) * size[1]);
+                }
+            }
+        };
+        const canvas = new HeadlessCanvas(() => captureMock(readPixels));
+        renderer = new RendererMock();
+        renderer.tiles = true;
+        canvas.renderer = renderer;
+        canvas.render();
+
+        const capture = new FrameCapture(canvas.context, canvas.controller, renderer);
+        return drive(canvas, capture.capture(size)).then(([image]) => {
+            /* Rows are stored top row first, whereas the tile transform operates bottom-up. */
+            for (let row = 0; row < size[1]; ++row) {
+                for (let column = 0; column < size[0]; ++column) {
+                    expect(image[(row * size[0] + column) * 4 + 0]).to.equal(column);
+                    expect(image[(row * size[0] + column) * 4 + 1]).to.equal(size[1] - 1 - row);
+                }
+            }
+        });
+    });
+
+    it('should clamp the size if the renderer does not support tiles', () => {
+        const canvas = new HeadlessCanvas(() => captureMock());
+        const renderer = new RendererMock();
+        canvas.renderer = renderer;
+        canvas.render();
+
+        const capture = new FrameCapture(canvas.context, canvas.controller, renderer);
+        return drive(canvas, capture.capture([100, 40])).then(([image, size]) => {
+            expect(size).to.deep.equal([64, 40]);
+            expect(image.length).to.equal(64 * 40 * 4);
+        });
+    });
+
+    it('should reject capturing if the controller is blocked or paused', () => {
+        const canvas = new HeadlessCanvas(() => captureMock());
+        const renderer = new RendererMock();
+        canvas.renderer = renderer;
+        canvas.render();
+
+        const capture = new FrameCapture(canvas.context, canvas.controller, renderer);
+        const rejected = (promise: Promise<any>) => promise.then(() => false, () => true);
+
+        canvas.controller.block();
+        return rejected(capture.capture([32, 32])).then((blocked) => {
+            expect(blocked).to.be.true;
+            expect(renderer.frameSize).to.deep.equal([100, 40]);
+            canvas.controller.unblock();
+
+            canvas.controller.pause();
+            return rejected(capture.capture([32, 32]));
+        }).then((paused) => expect(paused).to.be.true);
+    });
+
+});
@@ -0,0 +1,151 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { GestureRecognizer } from '../source/gesturerecognizer';
+
+
+/* tslint:disable:no-unused-expression */
+
+type Touch = GestureRecognizer.Touch;
+
+function touch(identifier: number, x: number, y: number): Touch {
+    return { identifier, x, y };
+}
+
+function types(gestures: Array<GestureRecognizer.Gesture>): Array<string> {
+    return gestures.map((gesture) => `${gesture.type}:${GestureRecognizer.Phase[gesture.phase]}`);
+}
+
+
+describe('GestureRecognizer', () => {
+
+    let recognizer: GestureRecognizer;
+
+    beforeEach(() => {
+        recognizer = new GestureRecognizer();
+    });
+
+    it('should recognize taps and double-taps', () => {
+        expect(recognizer.process([touch(0, 100, 100)], 0)).to.be.empty;
+        expect(types(recognizer.process([], 100))).to.deep.equal(['tap:End']);
+
+        recognizer.process([touch(1, 105, 98)], 250);
+        const gestures = recognizer.process([], 300);
+        expect(types(gestures)).to.deep.equal(['doubletap:End']);
+        expect(gestures[0].center[0]).to.equal(105);
+
+        /* A third tap starts a new sequence. */
+        recognizer.process([touch(2, 105, 98)], 400);
+        expect(types(recognizer.process([], 450))).to.deep.equal(['tap:End']);
+    });
+
+    it('should not recognize slow or distant taps as double-tap', () => {
+        recognizer.process([touch(0, 100, 100)], 0);
+        recognizer.process([], 300);
+        expect(types(recognizer.process([touch(0, 100, 100)], 400))).to.be.empty;
+        expect(types(recognizer.process([], 500))).to.deep.equal(['tap:End']);
+
+        recognizer.process([touch(0, 200, 100)], 600);
+        expect(types(recognizer.process([], 650))).to.deep.equal(['tap:End']);
+    });
+
+    it('should recognize drags beyond the slop with deltas', () => {
+        recognizer.process([touch(0, 100, 100)], 0);
+        expect(recognizer.process([touch(0, 105, 100)], 10)).to.be.empty;
+
+        const begin = recognizer.process([touch(0, 120, 100)], 20);
+        expect(types(begin)).to.deep.equal(['drag:Begin']);
+        expect(Array.from(begin[0].delta)).to.deep.equal([20, 0]);
+
+        const change = recognizer.process([touch(0, 120, 130)], 30);
+        expect(types(change)).to.deep.equal(['drag:Change']);
+        expect(Array.from(change[0].delta)).to.deep.equal([0, 30]);
+        expect(change[0].scale).to.equal(1.0);
+
+        /* Releasing a drag does not result in a tap. */
+        expect(types(recognizer.process([], 40))).to.deep.equal(['drag:End']);
+    });
+
+    it('should recognize long-presses on tick and while resting', () => {
+        recognizer.process([touch(0, 100, 100)], 0);
+        expect(recognizer.tick(400)).to.be.empty;
+        expect(recognizer.state).to.equal(GestureRecognizer.State.Pressed);
+        expect(types(recognizer.tick(500))).to.deep.equal(['longpress:End']);
+        expect(recognizer.tick(600)).to.be.empty;
+
+        /* Neither moving nor releasing after a long-press results in further gestures. */
+        expect(recognizer.process([touch(0, 150, 100)], 700)).to.be.empty;
+        expect(recognizer.process([], 800)).to.be.empty;
+
+        recognizer.process([touch(1, 100, 100)], 1000);
+        expect(types(recognizer.process([touch(1, 102, 100)], 1600))).to.deep.equal(['longpress:End']);
+    });
+
+    it('should recognize pinches with relative scale', () => {
+        recognizer.process([touch(0, 100, 100)], 0);
+        recognizer.process([touch(0, 100, 100), touch(1, 200, 100)], 10);
+        expect(recognizer.state).to.equal(GestureRecognizer.State.Dual);
+        expect(recognizer.process([touch(0, 96, 100), touch(1, 204, 100)], 20)).to.be.empty;
+
+        const begin = recognizer.process([touch(0, 75, 100), touch(1, 225, 100)], 30);
+        expect(types(begin)).to.deep.equal(['pinch:Begin']);
+        expect(begin[0].scale).to.be.closeTo(1.5, 1e-6);
+        expect(Array.from(begin[0].center)).to.deep.equal([150, 100]);
+
+        const change = recognizer.process([touch(0, 125, 100), touch(1, 175, 100)], 40);
+        expect(types(change)).to.deep.equal(['pinch:Change']);
+        expect(change[0].scale).to.be.closeTo(0.5, 1e-6);
+
+        /* Lifting a finger ends the pinch and blocks a drag of the remaining finger. */
+        expect(types(recognizer.process([touch(1, 175, 100)], 50))).to.deep.equal(['pinch:End']);
+        expect(recognizer.state).to.equal(GestureRecognizer.State.Blocked);
+        expect(recognizer.process([touch(1, 300, 100)], 60)).to.be.empty;
+        expect(recognizer.process([], 70)).to.be.empty;
+        expect(recognizer.state).to.equal(GestureRecognizer.State.Idle);
+    });
+
+    it('should recognize two-finger pans and twists', () => {
+        recognizer.process([touch(0, 100, 100), touch(1, 200, 100)], 0);
+        const pan = recognizer.process([touch(0, 100, 120), touch(1, 200, 120)], 10);
+        expect(types(pan)).to.deep.equal(['pan:Begin']);
+        expect(Array.from(pan[0].delta)).to.deep.equal([0, 20]);
+        expect(types(recognizer.process([touch(0, 100, 130), touch(1, 200, 130)], 20))).to.deep.equal(['pan:Change']);
+        expect(types(recognizer.process([], 30))).to.deep.equal(['pan:End']);
+
+        /* Rotate the second finger by 90 degrees around the first (the distance is kept). */
+        recognizer.process([touch(0, 100, 100), touch(1, 200, 100)], 100);
+        const twist = recognizer.process([touch(0, 100, 100), touch(1, 100, 200)], 110);
+        expect(types(twist)).to.deep.equal(['twist:Begin']);
+        expect(twist[0].rotation).to.be.closeTo(Math.PI * 0.5, 1e-6);
+
+        /* Rotations are wrapped to [-PI, +PI]. */
+        const change = recognizer.process([touch(0, 100, 100), touch(1, 0, 99)], 120);
+        expect(change[0].rotation).to.be.closeTo(-Math.PI + Math.atan2(1, 100), 1e-6);
+    });
+
+    it('should block recognition for more than two touches and end gestures on cancel', () => {
+        recognizer.process([touch(0, 0, 0), touch(1, 100, 0), touch(2, 50, 50)], 0);
+        expect(recognizer.state).to.equal(GestureRecognizer.State.Blocked);
+        expect(recognizer.process([touch(0, 0, 50), touch(1, 100, 50), touch(2, 50, 100)], 10)).to.be.empty;
+        recognizer.process([], 20);
+
+        recognizer.process([touch(0, 100, 100)], 100);
+        recognizer.process([touch(0, 150, 100)], 110);
+        expect(types(recognizer.cancel())).to.deep.equal(['drag:End']);
+        expect(recognizer.state).to.equal(GestureRecognizer.State.Idle);
+        expect(recognizer.cancel()).to.be.empty;
+    });
+
+    it('should apply configured thresholds', () => {
+        recognizer = new GestureRecognizer({ slop: 50, longPressDuration: 1000 });
+        expect(recognizer.thresholds.tapDuration).to.equal(GestureRecognizer.DEFAULT_THRESHOLDS.tapDuration);
+
+        recognizer.process([touch(0, 100, 100)], 0);
+        expect(recognizer.process([touch(0, 140, 100)], 10)).to.be.empty;
+        expect(recognizer.tick(900)).to.be.empty;
+        expect(types(recognizer.tick(1000))).to.deep.equal(['longpress:End']);
+    });
+
+});
@@ -0,0 +1,98 @@
+
+/**
+ * Options for creating a WebGL context mock.
+ */
+export interface GLMockOptions {
+
+    /**
+     * String representation the context type is derived from (as done for actual contexts), defaults to
+     * 'WebGL2RenderingContext'.
+     */
+    type?: string;
+
+    /**
+     * Size of the context's canvas, defaults to 300 by 150 pixel.
+     */
+    canvas?: { width: number, height: number };
+
+    /**
+     * Names of the supported extensions. Requesting a supported extension yields an (empty) extension object.
+     */
+    extensions?: Array<string>;
+
+    /**
+     * Constants resolving to the given values, all other constants resolve to 0.
+     */
+    constants?: { [name: string]: number };
+
+    /**
+     * Members (functions or values) added to or replacing the defaults.
+     */
+    members?: { [name: string]: any };
+
+    /**
+     * If given, the arguments of every function call are recorded by function name (in order of invocation).
+     */
+    calls?: GLMockCalls;
+}
+
+/**
+ * Arguments of recorded function calls by function name.
+ */
+export type GLMockCalls = Map<string, Array<Array<any>>>;
+
+
+/**
+ * Creates a minimal mock of a WebGL context: constants resolve to 0 and functions to no-ops, unless specified by the
+ * options. Functions creating objects (e.g., 'createTexture') yield empty objects and functions querying objects (e.g.,
+ * 'isTexture') return true. This allows, e.g., creating contexts via `Context.requestFromFactory` and initializing
+ * objects without an actual WebGL implementation.
+ * @param options - Context type, extensions, constants, members, and call recording of the mock.
+ */
+export function glMock(options: GLMockOptions = {}): WebGLRenderingContext {
+    const extensions = options.extensions || [];
+    const constants = options.constants || {};
+    const calls = options.calls;
+
+    const target: { [name: string]: any } = Object.assign({
+        canvas: options.canvas || { width: 300, height: 150 },
+        toString: () => `[object ${options.type || 'WebGL2RenderingContext'}]`,
+        getSupportedExtensions: () => extensions,
+        getContextAttributes: () => ({}),
+        getExtension: (name: string) => extensions.indexOf(name) > -1 ? {} : undefined,
+    }, options.members);
+
+    const record = (name: string, func: (...args: Array<any>) => any) => (...args: Array<any>) => {
+        if (!calls!.has(name)) {
+            calls!.set(name, new Array<Array<any>>());
+        }
+        calls!.get(name)!.push(args);
+        return func(...args);
+    };
+
+    return new Proxy(target, {
+        get: (object: { [name: string]: any }, property: string) => {
+            if (constants.hasOwnProperty(property)) {
+                return constants[property];
+            }
+            const member = property in object ? object[property] : /^[A-Z0-9_]+$/.test(property) ? 0 :
+                /^create[A-Z]/.test(property) ? () => ({}) : /^is[A-Z]/.test(property) ? () => true : () => undefined;
+            return calls !== undefined && typeof member === 'function' && property !== 'toString' ?
+                record(property, member) : member;
+        },
+    }) as any as WebGLRenderingContext;
+}
+
+/**
+ * Retrieves the latest value set per parameter from recorded calls of parameter functions, e.g., 'texParameteri'.
+ * @param calls - Recorded function calls of a mock.
+ * @param name - Name of a function passing parameter and value as last two arguments.
+ * @returns - Latest value by parameter.
+ */
+export function parameters(calls: GLMockCalls, name: string): Map<GLenum, any> {
+    const result = new Map<GLenum, any>();
+    for (const args of calls.get(name) || []) {
+        result.set(args[args.length - 2], args[args.length - 1]);
+    }
+    return result;
+}
@@ -0,0 +1,153 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { GLTF } from '../source/gltf/gltf';
+import { GLTFAsset } from '../source/gltf/gltfasset';
+import { GLTFParser } from '../source/gltf/gltfparser';
+
+
+/* tslint:disable:no-unused-expression */
+
+function readFixture(name: string): ArrayBuffer {
+    const data = fs.readFileSync(path.join(__dirname, name));
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+}
+
+function parseGLTF(): GLTFAsset {
+    const root = JSON.parse(GLTFParser.decodeUTF8(new Uint8Array(readFixture('triangle.gltf')))) as GLTF.Root;
+    const buffers = (root.buffers as Array<GLTF.Buffer>).map((buffer) =>
+        GLTFParser.decodeDataURI(buffer.uri as string) as ArrayBuffer);
+    return GLTFParser.parse(root, buffers, 'models/triangle.gltf');
+}
+
+function parseGLB(): GLTFAsset {
+    const [root, bin] = GLTFParser.parseGLB(readFixture('triangle.glb'));
+    return GLTFParser.parse(root, [bin as ArrayBuffer], 'models/triangle.glb');
+}
+
+
+describe('GLTFParser', () => {
+
+    it('should detect binary glTF by magic', () => {
+        expect(GLTFParser.isGLB(readFixture('triangle.glb'))).to.be.true;
+        expect(GLTFParser.isGLB(readFixture('triangle.gltf'))).to.be.false;
+        expect(GLTFParser.isGLB(new ArrayBuffer(4))).to.be.false;
+    });
+
+    it('should split binary glTF into JSON and binary chunk', () => {
+        const [root, bin] = GLTFParser.parseGLB(readFixture('triangle.glb'));
+        expect(root.asset.version).to.equal('2.0');
+        expect(bin).to.not.be.undefined;
+        expect((bin as ArrayBuffer).byteLength).to.equal(104);
+    });
+
+    it('should decode base64 data URIs only', () => {
+        const decoded = GLTFParser.decodeDataURI('data:application/octet-stream;base64,AAECAw==');
+        expect(Array.from(new Uint8Array(decoded as ArrayBuffer))).to.deep.equal([0, 1, 2, 3]);
+        expect(GLTFParser.decodeDataURI('buffer.bin')).to.be.undefined;
+    });
+
+    it('should resolve relative URIs against the glTF URL', () => {
+        expect(GLTFParser.resolveURI('models/box.gltf', 'box.bin')).to.equal('models/box.bin');
+        expect(GLTFParser.resolveURI('box.gltf', 'box.bin')).to.equal('box.bin');
+        expect(GLTFParser.resolveURI('models/box.gltf', 'https://host/box.bin')).to.equal('https://host/box.bin');
+        expect(GLTFParser.resolveURI('models/box.gltf', '/box.bin')).to.equal('/box.bin');
+        expect(GLTFParser.resolveURI('models/box.gltf', 'data:,')).to.equal('data:,');
+    });
+
+    it('should resolve accessors into tightly packed typed arrays', () => {
+        const asset = parseGLTF();
+        expect(asset.accessors.length).to.equal(4);
+
+        const position = asset.accessors[0];
+        expect(position.data).to.be.instanceof(Float32Array);
+        expect(position.components).to.equal(3);
+        expect(Array.from(position.data)).to.deep.equal([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+        expect(position.max).to.deep.equal([1, 1, 0]);
+
+        const indices = asset.accessors[3];
+        expect(indices.data).to.be.instanceof(Uint16Array);
+        expect(Array.from(indices.data)).to.deep.equal([0, 1, 2]);
+    });
+
+    it('should de-interleave accessors of strided buffer views', () => {
+        const asset = parseGLTF();
+        expect(Array.from(asset.accessors[1].data)).to.deep.equal([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+        expect(Array.from(asset.accessors[2].data)).to.deep.equal([0, 0, 1, 0, 0, 1]);
+    });
+
+    it('should resolve mesh primitives with attributes, indices, and material', () => {
+        const asset = parseGLTF();
+        const primitive = asset.meshes[0].primitives[0];
+
+        expect(Array.from(primitive.attributes.keys())).to.deep.equal(['POSITION', 'NORMAL', 'TEXCOORD_0']);
+        expect(primitive.attributes.get('POSITION')).to.equal(asset.accessors[0]);
+        expect(primitive.indices).to.equal(asset.accessors[3]);
+        expect(primitive.material).to.equal(asset.materials[0]);
+        expect(primitive.mode).to.equal(GLTF.PrimitiveMode.Triangles);
+    });
+
+    it('should apply material defaults of the metallic-roughness model', () => {
+        const material = parseGLTF().materials[0];
+
+        expect(material.name).to.equal('red');
+        expect(Array.from(material.baseColorFactor)).to.deep.equal([1, 0, 0, 1]);
+        expect(material.metallicFactor).to.equal(0.5);
+        expect(material.roughnessFactor).to.equal(1.0);
+        expect(Array.from(material.emissiveFactor)).to.deep.equal([0, 0, 0]);
+        expect(material.alphaMode).to.equal(GLTF.AlphaMode.Mask);
+        expect(material.alphaCutoff).to.equal(0.5);
+        expect(material.doubleSided).to.be.true;
+        expect(material.normalTexture).to.be.undefined;
+        expect(material.baseColorTexture).to.not.be.undefined;
+        expect(material.baseColorTexture!.texCoord).to.equal(0);
+    });
+
+    it('should resolve textures with sampler parameters and image URIs', () => {
+        const texture = parseGLTF().textures[0];
+
+        expect(texture.magFilter).to.equal(9729);
+        expect(texture.minFilter).to.equal(9987);
+        expect(texture.wrapS).to.equal(33071);
+        expect(texture.wrapT).to.equal(10497); /* REPEAT by default */
+        expect(texture.image!.uri).to.equal('models/triangle.png');
+    });
+
+    it('should compute world transforms of the node hierarchy', () => {
+        const asset = parseGLTF();
+        expect(asset.nodes[1].parent).to.equal(0);
+        expect(asset.nodes[0].children).to.deep.equal([1]);
+
+        const point = vec3.transformMat4(vec3.create(), vec3.fromValues(1.0, 1.0, 0.0), asset.nodes[1].world);
+        expect(Array.from(point)).to.deep.equal([3, 2, 0]);
+        expect(mat4.equals(asset.nodes[0].world, asset.nodes[0].local)).to.be.true;
+    });
+
+    it('should traverse the default scene depth-first', () => {
+        const asset = parseGLTF();
+        const visited = new Array<string | undefined>();
+        asset.traverse((node) => visited.push(node.name));
+
+        expect(asset.scene).to.equal(0);
+        expect(visited).to.deep.equal(['root', 'triangle']);
+    });
+
+    it('should parse .glb and .gltf fixtures equally', () => {
+        const gltf = parseGLTF();
+        const glb = parseGLB();
+
+        expect(glb.accessors.length).to.equal(gltf.accessors.length);
+        for (let i = 0; i < gltf.accessors.length; ++i) {
+            expect(Array.from(glb.accessors[i].data)).to.deep.equal(Array.from(gltf.accessors[i].data));
+        }
+        expect(mat4.equals(glb.nodes[1].world, gltf.nodes[1].world)).to.be.true;
+    });
+
+});
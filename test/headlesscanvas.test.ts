@@ -0,0 +1,107 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { Context } from '../source/context';
+import { HeadlessCanvas } from '../source/headlesscanvas';
+import { Renderer } from '../source/renderer';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:max-classes-per-file no-unused-expression */
+
+class RendererMock extends Renderer {
+
+    calls = { update: 0, prepare: 0, frame: 0, swap: 0 };
+
+    protected onInitialize(): boolean {
+        return true;
+    }
+    protected onUninitialize(): void { }
+
+    protected onUpdate(): boolean {
+        ++this.calls.update;
+        return false;
+    }
+    protected onPrepare(): void {
+        ++this.calls.prepare;
+    }
+    protected onFrame(frameNumber: number): void {
+        ++this.calls.frame;
+    }
+    protected onSwap(): void {
+        ++this.calls.swap;
+    }
+
+    invalidate(force: boolean = false): void {
+        super.invalidate(force);
+    }
+
+    get currentFrameSize(): [number, number] {
+        return this._frameSize;
+    }
+}
+
+
+describe('HeadlessCanvas', () => {
+
+    it('should create contexts using a factory and fall back to webgl', () => {
+        const canvas = new HeadlessCanvas(() => glMock());
+        expect(canvas.context.isWebGL2).to.be.true;
+        expect(canvas.size).to.deep.equal([300, 150]);
+
+        const fallback = new HeadlessCanvas((identifier: string) =>
+            identifier === 'webgl' ? glMock({ type: 'WebGLRenderingContext' }) : undefined, [64, 32], 'auto');
+        expect(fallback.context.isWebGL1).to.be.true;
+        expect(fallback.context.gl.canvas.width).to.equal(64);
+        expect(fallback.context.gl.canvas.height).to.equal(32);
+    });
+
+    it('should invoke the renderer lifecycle explicitly', () => {
+        const canvas = new HeadlessCanvas(() => glMock(), [64, 64]);
+        canvas.controller.multiFrameNumber = 4;
+
+        const renderer = new RendererMock();
+        canvas.renderer = renderer;
+        expect(renderer.initialized).to.be.true;
+        expect(renderer.calls.update).to.equal(0);
+        expect(canvas.pending).to.be.true;
+
+        expect(canvas.render()).to.equal(4);
+        expect(canvas.pending).to.be.false;
+        expect(renderer.calls).to.deep.equal({ update: 1, prepare: 1, frame: 4, swap: 4 });
+        expect(canvas.controller.multiFrameCount).to.equal(1);
+
+        renderer.invalidate();
+        expect(canvas.render(2)).to.equal(2);
+        expect(canvas.pending).to.be.true;
+        canvas.render();
+        expect(renderer.calls).to.deep.equal({ update: 2, prepare: 2, frame: 8, swap: 8 });
+
+        canvas.dispose();
+        expect(renderer.initialized).to.be.false;
+        expect(canvas.renderer).to.be.undefined;
+    });
+
+    it('should pass size changes on to the renderer', () => {
+        const canvas = new HeadlessCanvas(() => glMock());
+        const renderer = new RendererMock();
+        canvas.renderer = renderer;
+        canvas.render();
+
+        canvas.size = [128, 96];
+        expect(renderer.currentFrameSize).to.deep.equal([128, 96]);
+        expect(canvas.context.gl.canvas.width).to.equal(128);
+        expect(canvas.pending).to.be.true;
+        canvas.render();
+        expect(renderer.calls.prepare).to.equal(2);
+    });
+
+    it('should assert when no context can be created', () => {
+        expect(() => new HeadlessCanvas(() => undefined)).to.throw();
+        expect(() => Context.requestFromFactory(() => undefined, 'webgl')).to.throw();
+    });
+
+});
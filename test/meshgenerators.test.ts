@@ -0,0 +1,141 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { vec3 } from 'gl-matrix';
+
+import * as meshGenerators from '../source/meshgenerators';
+
+
+/* tslint:disable:no-unused-expression */
+
+function position(mesh: meshGenerators.Mesh, index: number): vec3 {
+    return vec3.fromValues(mesh.positions[index * 3], mesh.positions[index * 3 + 1], mesh.positions[index * 3 + 2]);
+}
+
+function normal(mesh: meshGenerators.Mesh, index: number): vec3 {
+    return vec3.fromValues(mesh.normals[index * 3], mesh.normals[index * 3 + 1], mesh.normals[index * 3 + 2]);
+}
+
+/**
+ * Validates array sizes, index ranges, normalized normals, uv ranges, and counter-clockwise winding with respect to
+ * the vertex normals.
+ */
+function expectValidMesh(mesh: meshGenerators.Mesh): void {
+    const vertices = mesh.positions.length / 3;
+    expect(mesh.positions.length % 3).to.equal(0);
+    expect(mesh.normals.length).to.equal(vertices * 3);
+    expect(mesh.uvs.length).to.equal(vertices * 2);
+    expect(mesh.indices.length % 3).to.equal(0);
+
+    for (let i = 0; i < vertices; ++i) {
+        expect(vec3.length(normal(mesh, i))).to.be.closeTo(1.0, 1e-6);
+    }
+    /* tslint:disable-next-line:prefer-for-of */
+    for (let i = 0; i < mesh.uvs.length; ++i) {
+        expect(mesh.uvs[i]).to.be.within(0.0, 1.0);
+    }
+
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+        const [a, b, c] = [mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]];
+        expect(Math.max(a, b, c)).to.be.lessThan(vertices);
+
+        const pa = position(mesh, a);
+        const face = vec3.cross(vec3.create(), vec3.subtract(vec3.create(), position(mesh, b), pa),
+            vec3.subtract(vec3.create(), position(mesh, c), pa));
+        expect(vec3.length(face)).to.be.greaterThan(0.0);
+
+        const average = vec3.add(vec3.create(), vec3.add(vec3.create(), normal(mesh, a), normal(mesh, b)),
+            normal(mesh, c));
+        expect(vec3.dot(face, average)).to.be.greaterThan(0.0);
+    }
+}
+
+function expectBounds(mesh: meshGenerators.Mesh, extents: Array<number>): void {
+    for (let axis = 0; axis < 3; ++axis) {
+        let min = Infinity;
+        let max = -Infinity;
+        for (let i = axis; i < mesh.positions.length; i += 3) {
+            min = Math.min(min, mesh.positions[i]);
+            max = Math.max(max, mesh.positions[i]);
+        }
+        expect(min).to.be.closeTo(-extents[axis], 1e-6);
+        expect(max).to.be.closeTo(+extents[axis], 1e-6);
+    }
+}
+
+
+describe('Mesh Generators', () => {
+
+    it('should create boxes with flat faces', () => {
+        const mesh = meshGenerators.box(2.0, 4.0, 6.0);
+        expect(mesh.positions.length / 3).to.equal(24);
+        expect(mesh.indices.length).to.equal(36);
+        expectValidMesh(mesh);
+        expectBounds(mesh, [1.0, 2.0, 3.0]);
+    });
+
+    it('should create uv-spheres without degenerated pole triangles', () => {
+        const mesh = meshGenerators.uvSphere(2.0, 8, 4);
+        expect(mesh.positions.length / 3).to.equal(9 * 5);
+        expect(mesh.indices.length / 3).to.equal(8 * 2 * 3);
+        expectValidMesh(mesh);
+        expectBounds(mesh, [2.0, 2.0, 2.0]);
+
+        for (let i = 0; i < mesh.positions.length / 3; ++i) {
+            expect(vec3.length(position(mesh, i))).to.be.closeTo(2.0, 1e-6);
+        }
+    });
+
+    it('should create icospheres by subdivision', () => {
+        const icosahedron = meshGenerators.icosphere(1.0, 0);
+        expect(icosahedron.positions.length / 3).to.equal(12);
+        expect(icosahedron.indices.length / 3).to.equal(20);
+        expectValidMesh(icosahedron);
+
+        const mesh = meshGenerators.icosphere(1.0, 2);
+        expect(mesh.positions.length / 3).to.equal(10 * 16 + 2);
+        expect(mesh.indices.length / 3).to.equal(20 * 16);
+        expectValidMesh(mesh);
+
+        for (let i = 0; i < mesh.positions.length / 3; ++i) {
+            expect(vec3.length(position(mesh, i))).to.be.closeTo(1.0, 1e-6);
+        }
+    });
+
+    it('should create subdivided planes facing up', () => {
+        const mesh = meshGenerators.plane(2.0, 1.0, 4, 2);
+        expect(mesh.positions.length / 3).to.equal(5 * 3);
+        expect(mesh.indices.length / 3).to.equal(4 * 2 * 2);
+        expectValidMesh(mesh);
+
+        for (let i = 0; i < mesh.positions.length / 3; ++i) {
+            expect(normal(mesh, i)[1]).to.equal(1.0);
+        }
+    });
+
+    it('should create cylinders and cones with optional caps', () => {
+        const cylinder = meshGenerators.cylinder(0.5, 2.0, 16, 2);
+        expectValidMesh(cylinder);
+        expectBounds(cylinder, [0.5, 1.0, 0.5]);
+        expect(cylinder.indices.length / 3).to.equal(16 * 2 * 2 + 16 * 2);
+
+        const uncapped = meshGenerators.cylinder(0.5, 2.0, 16, 2, false);
+        expect(uncapped.indices.length / 3).to.equal(16 * 2 * 2);
+
+        const cone = meshGenerators.cone(1.0, 1.0, 12, 3);
+        expectValidMesh(cone);
+        expectBounds(cone, [1.0, 0.5, 1.0]);
+        expect(cone.indices.length / 3).to.equal(12 * (3 * 2 - 1) + 12);
+    });
+
+    it('should create tori around the y-axis', () => {
+        const mesh = meshGenerators.torus(1.0, 0.25, 8, 16);
+        expect(mesh.positions.length / 3).to.equal(9 * 17);
+        expect(mesh.indices.length / 3).to.equal(8 * 16 * 2);
+        expectValidMesh(mesh);
+        expectBounds(mesh, [1.25, 0.25, 1.25]);
+    });
+
+});
@@ -0,0 +1,41 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { Context } from '../source/context';
+import { MeshGeometry } from '../source/meshgeometry';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const GL_CONSTANTS: { [name: string]: number } = { UNSIGNED_SHORT: 0x1403, UNSIGNED_INT: 0x1405 };
+
+
+describe('MeshGeometry', () => {
+
+    it('should use unsigned short indices unless the primitive restart index is required', () => {
+        const context = Context.requestFromFactory(() =>
+            glMock({ constants: GL_CONSTANTS }), 'webgl2');
+
+        expect(MeshGeometry.indexType(context, 3)).to.equal(GL_CONSTANTS.UNSIGNED_SHORT);
+        expect(MeshGeometry.indexType(context, 65535)).to.equal(GL_CONSTANTS.UNSIGNED_SHORT);
+        expect(MeshGeometry.indexType(context, 65536)).to.equal(GL_CONSTANTS.UNSIGNED_INT);
+    });
+
+    it('should require the element index uint extension for unsigned int indices in WebGL1', () => {
+        const context = Context.requestFromFactory(() =>
+            glMock({ type: 'WebGLRenderingContext', constants: GL_CONSTANTS }), 'webgl');
+
+        expect(MeshGeometry.indexType(context, 65535)).to.equal(GL_CONSTANTS.UNSIGNED_SHORT);
+        expect(MeshGeometry.indexType(context, 65536)).to.be.undefined;
+
+        const extensions = ['OES_element_index_uint'];
+        const extended = Context.requestFromFactory(() =>
+            glMock({ type: 'WebGLRenderingContext', constants: GL_CONSTANTS, extensions }), 'webgl');
+        expect(MeshGeometry.indexType(extended, 65536)).to.equal(GL_CONSTANTS.UNSIGNED_INT);
+    });
+
+});
@@ -0,0 +1,105 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import * as aux from '../source/auxiliaries';
+
+import { Context } from '../source/context';
+import { isPowerOfTwo, levelCount, texels, upperPowerOfTwo } from '../source/mipmapping';
+import { Texture2D } from '../source/texture2d';
+
+import { glMock, GLMockCalls, parameters } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const GL_CONSTANTS: { [name: string]: number } = {
+    UNSIGNED_BYTE: 0x1401, RGBA: 0x1908, TEXTURE_2D: 0x0DE1,
+};
+
+const ANISOTROPIC = { TEXTURE_MAX_ANISOTROPY_EXT: 0x84FE, MAX_TEXTURE_MAX_ANISOTROPY_EXT: 0x84FF };
+
+function texture(type: string, extensions: Array<string> = [], calls?: GLMockCalls): Texture2D {
+    const members = {
+        getExtension: () => ANISOTROPIC,
+        getParameter: (parameter: GLenum) => parameter === ANISOTROPIC.MAX_TEXTURE_MAX_ANISOTROPY_EXT ? 8 : 0,
+    };
+    const context = Context.requestFromFactory(() =>
+        glMock({ type, extensions, constants: GL_CONSTANTS, members, calls }));
+    const result = new Texture2D(context, 'Texture');
+    result.initialize(8, 4, GL_CONSTANTS.RGBA, GL_CONSTANTS.RGBA, GL_CONSTANTS.UNSIGNED_BYTE);
+    return result;
+}
+
+
+describe('mipmapping', () => {
+
+    const sandbox = sinon.createSandbox();
+
+    afterEach(() => sandbox.restore());
+
+
+    it('should detect and round up to powers of two', () => {
+        expect(isPowerOfTwo(1)).to.be.true;
+        expect(isPowerOfTwo(512)).to.be.true;
+        expect(isPowerOfTwo(0)).to.be.false;
+        expect(isPowerOfTwo(384)).to.be.false;
+
+        expect(upperPowerOfTwo(1)).to.equal(1);
+        expect(upperPowerOfTwo(384)).to.equal(512);
+        expect(upperPowerOfTwo(512)).to.equal(512);
+    });
+
+    it('should count levels and texels of mip chains', () => {
+        expect(levelCount(1024, 512)).to.equal(11);
+        expect(levelCount(5, 3)).to.equal(3);
+        expect(levelCount(4, 4, 16)).to.equal(5);
+
+        expect(texels(4, 4, 1, 3)).to.equal(16 + 4 + 1);
+        expect(texels(4, 2, 2, 3)).to.equal(16 + 2 + 1);
+        expect(texels(4, 4, 1, 1)).to.equal(16);
+    });
+
+    it('should account for mipmap levels in texture byte sizes', () => {
+        const texture2D = texture('WebGL2RenderingContext');
+        expect(texture2D.bytes).to.equal(8 * 4 * 4);
+
+        texture2D.generateMipmap();
+        expect(texture2D.levels).to.equal(4);
+        expect(texture2D.bytes).to.equal((32 + 8 + 2 + 1) * 4);
+        expect(texture2D.context.allocationRegister.allocated('Texture')).to.equal(texture2D.bytes);
+
+        texture2D.resize(16, 16);
+        expect(texture2D.levels).to.equal(1);
+        expect(texture2D.bytes).to.equal(16 * 16 * 4);
+
+        texture2D.data(undefined, true, true, 2);
+        expect(texture2D.levels).to.equal(3);
+        expect(texture2D.bytes).to.equal((256 + 64 + 16) * 4);
+    });
+
+    it('should require power-of-two sizes for mipmap generation in WebGL1', () => {
+        const texture2D = texture('WebGLRenderingContext');
+        texture2D.resize(6, 4);
+        expect(() => texture2D.generateMipmap()).to.throw();
+
+        texture2D.resize(8, 4);
+        expect(() => texture2D.generateMipmap()).to.not.throw();
+    });
+
+    it('should clamp anisotropy to the hardware maximum', () => {
+        const calls: GLMockCalls = new Map();
+        const texture2D = texture('WebGL2RenderingContext', ['EXT_texture_filter_anisotropic'], calls);
+
+        expect(texture2D.anisotropy(16.0)).to.equal(8.0);
+        expect(parameters(calls, 'texParameterf').get(ANISOTROPIC.TEXTURE_MAX_ANISOTROPY_EXT)).to.equal(8.0);
+        expect(texture2D.anisotropy(0.0)).to.equal(1.0);
+
+        const logStub = sandbox.stub(aux, 'log');
+        expect(texture('WebGL2RenderingContext').anisotropy(4.0)).to.equal(1.0);
+        expect(logStub.calledOnce).to.be.true;
+    });
+
+});
@@ -0,0 +1,59 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { vec2 } from 'gl-matrix';
+
+import { PickingManager } from '../source/pickingmanager';
+
+
+/* tslint:disable:no-unused-expression */
+
+describe('PickingManager', () => {
+
+    let manager: PickingManager<string>;
+
+    beforeEach(() => {
+        manager = new PickingManager<string>(() => { }, undefined);
+    });
+
+    it('should allocate ids and ranges starting at one', () => {
+        expect(manager.register('a')).to.equal(1);
+        expect(manager.registerRange('b', 10)).to.equal(2);
+        expect(manager.register('c')).to.equal(12);
+
+        expect(manager.lookup(0)).to.be.undefined;
+        expect(manager.lookup(1)).to.deep.equal(['a', 0]);
+        expect(manager.lookup(7)).to.deep.equal(['b', 5]);
+        expect(manager.lookup(12)).to.deep.equal(['c', 0]);
+        expect(manager.lookup(13)).to.be.undefined;
+    });
+
+    it('should reuse released ids for ranges that fit', () => {
+        manager.register('a');
+        manager.registerRange('b', 4);
+        manager.register('c');
+
+        expect(manager.unregister('b')).to.be.true;
+        expect(manager.unregister('b')).to.be.false;
+        expect(manager.lookup(3)).to.be.undefined;
+
+        expect(manager.registerRange('d', 5)).to.equal(7);
+        expect(manager.registerRange('e', 3)).to.equal(2);
+        expect(manager.register('f')).to.equal(5);
+        expect(manager.lookup(4)).to.deep.equal(['e', 2]);
+        expect(manager.lookup(5)).to.deep.equal(['f', 0]);
+    });
+
+    it('should encode ids as normalized rgba bytes', () => {
+        expect(PickingManager.encode(0)).to.deep.equal([0.0, 0.0, 0.0, 0.0]);
+        expect(PickingManager.encode(250285).map((value) => Math.round(value * 255.0)))
+            .to.deep.equal([173, 209, 3, 0]);
+    });
+
+    it('should not pick without readback pass', () => {
+        expect(manager.pickAt(vec2.fromValues(0, 0))).to.be.undefined;
+    });
+
+});
@@ -0,0 +1,159 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { EventHandler } from '../source/eventhandler';
+import { PointerEventProvider } from '../source/pointereventprovider';
+
+
+/* tslint:disable:max-classes-per-file no-unused-expression */
+
+/**
+ * Canvas element subset used by the pointer event provider, dispatching events to listeners in order of registration
+ * and capturing pointers until they are released explicitly or by pointer up.
+ */
+class ElementMock {
+
+    listeners = new Map<string, Array<(event: any) => void>>();
+    captured = new Set<number>();
+
+    addEventListener(type: string, listener: (event: any) => void): void {
+        if (!this.listeners.has(type)) {
+            this.listeners.set(type, new Array<(event: any) => void>());
+        }
+        this.listeners.get(type)!.push(listener);
+    }
+
+    setPointerCapture(pointerId: number): void {
+        this.captured.add(pointerId);
+    }
+
+    hasPointerCapture(pointerId: number): boolean {
+        return this.captured.has(pointerId);
+    }
+
+    dispatch(type: string, pointerId: number, init: any = {}): any {
+        const event = Object.assign({
+            type, pointerId, isPrimary: pointerId === 1, pointerType: 'touch', preventDefault: sinon.spy(),
+        }, init);
+        const listeners = this.listeners.get(type);
+        if (listeners !== undefined) {
+            listeners.forEach((listener) => listener(event));
+        }
+        if (type === 'pointerup' || type === 'pointercancel') {
+            this.captured.delete(pointerId);
+        }
+        return event;
+    }
+}
+
+
+describe('PointerEventProvider', () => {
+
+    let element: ElementMock;
+    let provider: PointerEventProvider;
+
+    beforeEach(() => {
+        element = new ElementMock();
+        provider = new PointerEventProvider(element as any as HTMLCanvasElement);
+    });
+
+    it('should not register listeners or capture pointers unless requested', () => {
+        element.dispatch('pointerdown', 1);
+        expect(element.listeners.size).to.equal(0);
+
+        provider.down$.subscribe();
+        element.dispatch('pointerdown', 2);
+        expect(provider.pointers.has(2)).to.be.true;
+        expect(element.captured.size).to.equal(0);
+    });
+
+    it('should track multiple pointers by id until up or cancel', () => {
+        expect(provider.pointers.size).to.equal(0);
+        element.dispatch('pointerdown', 1);
+        element.dispatch('pointerdown', 2);
+        const move = element.dispatch('pointermove', 2, { pressure: 0.25, tiltX: 30 });
+        expect(Array.from(provider.pointers.keys())).to.deep.equal([1, 2]);
+        expect(provider.pointers.get(2)).to.equal(move);
+        expect(provider.pointers.get(2)!.pressure).to.equal(0.25);
+
+        element.dispatch('pointerup', 1);
+        expect(Array.from(provider.pointers.keys())).to.deep.equal([2]);
+        element.dispatch('pointercancel', 2);
+        expect(provider.pointers.size).to.equal(0);
+    });
+
+    it('should capture pointers on down if enabled and keep captured pointers on leave', () => {
+        provider.capture = true;
+        element.dispatch('pointerdown', 1);
+        expect(element.captured.has(1)).to.be.true;
+        element.dispatch('pointerleave', 1);
+        expect(provider.pointers.has(1)).to.be.true;
+
+        /* A hovering pen is tracked from its first move and removed when leaving. */
+        element.dispatch('pointermove', 3, { pointerType: 'pen' });
+        expect(provider.pointers.has(3)).to.be.true;
+        element.dispatch('pointerleave', 3);
+        expect(provider.pointers.has(3)).to.be.false;
+
+        provider.capture = false;
+        element.dispatch('pointerdown', 2);
+        expect(element.captured.has(2)).to.be.false;
+    });
+
+    it('should emit coalesced move events individually if enabled', () => {
+        const moves = new Array<PointerEvent>();
+        provider.move$.subscribe((event) => moves.push(event));
+
+        const coalesced = [{ pointerId: 1, offsetX: 1 }, { pointerId: 1, offsetX: 2 }];
+        const getCoalescedEvents = () => coalesced;
+
+        const dispatched = element.dispatch('pointermove', 1, { getCoalescedEvents });
+        expect(moves).to.deep.equal([dispatched]);
+
+        provider.coalesced = true;
+        element.dispatch('pointermove', 1, { getCoalescedEvents });
+        expect(moves.slice(1)).to.deep.equal(coalesced);
+
+        /* Without coalesced events (or browser support), the dispatched event is emitted. */
+        const fallback = element.dispatch('pointermove', 1, { getCoalescedEvents: () => [] });
+        expect(moves[3]).to.equal(fallback);
+    });
+
+    it('should prevent default handling of masked event types only', () => {
+        provider.down$.subscribe();
+        provider.up$.subscribe();
+        provider.preventDefault(PointerEventProvider.Type.Down, PointerEventProvider.Type.Up);
+        provider.allowDefault(PointerEventProvider.Type.Up);
+
+        expect(element.dispatch('pointerdown', 1).preventDefault.calledOnce).to.be.true;
+        expect(element.dispatch('pointerup', 1).preventDefault.called).to.be.false;
+    });
+
+    it('should invoke pointer event handlers on update with the latest events', () => {
+        const invalidate = sinon.spy();
+        const eventHandler = new EventHandler(invalidate, undefined, undefined, provider);
+
+        /* The latest events are cleared after invocation, thus, they are copied for inspection. */
+        const calls = new Array<Array<PointerEvent>>();
+        const handler = (latests: Array<PointerEvent>) => calls.push(latests.slice());
+        eventHandler.pushPointerEventHandler(PointerEventProvider.Type.Down, handler);
+        const first = element.dispatch('pointerdown', 1);
+        const second = element.dispatch('pointerdown', 2);
+        expect(invalidate.calledTwice).to.be.true;
+
+        eventHandler.update();
+        expect(calls).to.deep.equal([[first, second]]);
+
+        /* No events since last update, thus, no invocation. */
+        eventHandler.update();
+        expect(calls.length).to.equal(1);
+        eventHandler.dispose();
+
+        const missing = new EventHandler(invalidate, undefined, undefined);
+        expect(() => missing.pushPointerEventHandler(PointerEventProvider.Type.Move, handler)).to.throw();
+    });
+
+});
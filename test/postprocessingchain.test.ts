@@ -0,0 +1,159 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { Context } from '../source/context';
+import { Framebuffer } from '../source/framebuffer';
+import { NdcFillingTriangle } from '../source/ndcfillingtriangle';
+import { PostProcessingChain } from '../source/postprocessingchain';
+import { PostProcessingPass } from '../source/postprocessingpass';
+import { Texture2D } from '../source/texture2d';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const GL_CONSTANTS: { [name: string]: number } = {
+    UNSIGNED_BYTE: 0x1401, FLOAT: 0x1406, HALF_FLOAT: 0x140B, RGBA: 0x1908, RGBA8: 0x8058, RGBA16F: 0x881A,
+    COLOR_ATTACHMENT0: 0x8CE0, MAX_COLOR_ATTACHMENTS: 0x8CDF,
+};
+
+class PassMock extends PostProcessingPass {
+
+    /* Passes applied so far, shared among all pass mocks for tracking the order of application. */
+    static applied = new Array<PassMock>();
+
+    sources = new Array<Texture2D>();
+    targets = new Array<Framebuffer>();
+
+    /* Whether or not the pass writes its target, e.g., false for missing inputs. */
+    writes = true;
+
+    protected onInitialize(): boolean {
+        return true;
+    }
+
+    protected onUninitialize(): void {
+    }
+
+    frame(source: Texture2D, target: Framebuffer, inputs: PostProcessingPass.Inputs): boolean {
+        PassMock.applied.push(this);
+        this.sources.push(source);
+        this.targets.push(target);
+        return this.writes;
+    }
+
+    get size(): [GLsizei, GLsizei] {
+        return this._size;
+    }
+}
+
+
+describe('PostProcessingChain', () => {
+
+    let context: Context;
+    let chain: PostProcessingChain;
+    let input: Texture2D;
+
+    beforeEach(() => {
+        const members = {
+            checkFramebufferStatus: () => 0,
+            getParameter: (parameter: GLenum) => parameter === GL_CONSTANTS.MAX_COLOR_ATTACHMENTS ? 1 : 0,
+        };
+        context = Context.requestFromFactory(() => glMock({ constants: GL_CONSTANTS, members }));
+
+        /* The ndc-filling triangle is not used by the pass mocks, thus, a shared one is assumed. */
+        chain = new PostProcessingChain(context);
+        chain.initialize({ initialized: true } as NdcFillingTriangle);
+
+        input = new Texture2D(context, 'InputTexture');
+        input.initialize(1, 1, GL_CONSTANTS.RGBA8, GL_CONSTANTS.RGBA, GL_CONSTANTS.UNSIGNED_BYTE);
+    });
+
+
+    it('should apply passes in order of insertion', () => {
+        const passes = [new PassMock(context), new PassMock(context), new PassMock(context)];
+        passes.forEach((pass) => chain.push(pass));
+
+        PassMock.applied.length = 0;
+        chain.frame(input);
+        expect(PassMock.applied).to.deep.equal(passes);
+        expect(chain.passes).to.deep.equal(passes);
+    });
+
+    it('should ping-pong between intermediate targets', () => {
+        const passes = [new PassMock(context), new PassMock(context), new PassMock(context)];
+        passes.forEach((pass) => chain.push(pass));
+
+        const result = chain.frame(input);
+
+        expect(passes[0].sources[0]).to.equal(input);
+        expect(passes[1].sources[0]).to.equal(passes[0].targets[0].texture(context.gl2facade.COLOR_ATTACHMENT0));
+        expect(passes[2].sources[0]).to.equal(passes[1].targets[0].texture(context.gl2facade.COLOR_ATTACHMENT0));
+
+        expect(passes[0].targets[0]).to.not.equal(passes[1].targets[0]);
+        expect(passes[0].targets[0]).to.equal(passes[2].targets[0]);
+
+        expect(chain.framebuffer).to.equal(passes[2].targets[0]);
+        expect(result).to.equal(passes[2].targets[0].texture(context.gl2facade.COLOR_ATTACHMENT0));
+    });
+
+    it('should skip disabled passes and passes not writing their target', () => {
+        const passes = [new PassMock(context), new PassMock(context), new PassMock(context)];
+        passes.forEach((pass) => chain.push(pass));
+
+        passes[0].enabled = false;
+        passes[1].writes = false;
+        chain.frame(input);
+
+        expect(passes[0].sources).to.be.empty;
+        expect(passes[1].sources[0]).to.equal(input);
+        expect(passes[2].sources[0]).to.equal(input);
+        expect(passes[2].targets[0]).to.equal(passes[1].targets[0]);
+        expect(chain.framebuffer).to.equal(passes[2].targets[0]);
+
+        /* Re-enabling does not require re-initialization. */
+        passes[0].enabled = true;
+        chain.frame(input);
+
+        expect(passes[0].sources[0]).to.equal(input);
+        expect(passes[2].sources[1]).to.equal(passes[0].targets[0].texture(context.gl2facade.COLOR_ATTACHMENT0));
+        expect(passes[2].targets[1]).to.not.equal(passes[0].targets[0]);
+    });
+
+    it('should return the input if no pass is applied', () => {
+        const pass = new PassMock(context);
+        chain.push(pass);
+        pass.enabled = false;
+
+        expect(chain.frame(input)).to.equal(input);
+        expect(chain.framebuffer).to.be.undefined;
+    });
+
+    it('should initialize and resize passes regardless of being enabled', () => {
+        const passes = [new PassMock(context), new PassMock(context)];
+        passes[1].enabled = false;
+        passes.forEach((pass) => chain.push(pass));
+        expect(passes[0].initialized).to.be.true;
+        expect(passes[1].initialized).to.be.true;
+
+        chain.frameSize = [4, 2];
+        expect(passes[0].size).to.deep.equal([4, 2]);
+        expect(passes[1].size).to.deep.equal([4, 2]);
+    });
+
+    it('should not apply removed passes', () => {
+        const passes = [new PassMock(context), new PassMock(context)];
+        passes.forEach((pass) => chain.push(pass));
+
+        expect(chain.remove(passes[0])).to.be.true;
+        expect(chain.remove(passes[0])).to.be.false;
+        chain.frame(input);
+
+        expect(passes[0].sources).to.be.empty;
+        expect(passes[1].sources[0]).to.equal(input);
+    });
+
+});
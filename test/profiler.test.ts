@@ -0,0 +1,183 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { logPerformanceStart, logPerformanceStop } from '../source/auxiliaries';
+import { Context } from '../source/context';
+import { Profiler } from '../source/profiler';
+
+
+/* tslint:disable:max-classes-per-file no-unused-expression */
+
+const TIME_ELAPSED_EXT = 0x88BF;
+const GPU_DISJOINT_EXT = 0x8FBB;
+
+class QueryMock {
+    available = false;
+    result = 0;
+}
+
+/**
+ * Minimal WebGL2 context providing timer queries that are resolved explicitly by the tests.
+ */
+class ContextMock {
+
+    queries = new Array<QueryMock>();
+    disjoint = false;
+    active: QueryMock | undefined;
+
+    isWebGL1 = false;
+    isWebGL2 = true;
+    supportsDisjointTimerQueryWebGL2 = true;
+    disjointTimerQueryWebGL2 = { TIME_ELAPSED_EXT, GPU_DISJOINT_EXT };
+
+    gl = {
+        QUERY_RESULT: 0x8866,
+        QUERY_RESULT_AVAILABLE: 0x8867,
+        createQuery: () => {
+            const query = new QueryMock();
+            this.queries.push(query);
+            return query;
+        },
+        deleteQuery: (query: QueryMock) => undefined,
+        beginQuery: (target: GLenum, query: QueryMock) => {
+            query.available = false;
+            this.active = query;
+        },
+        endQuery: (target: GLenum) => this.active = undefined,
+        getQueryParameter: (query: QueryMock, pname: GLenum) =>
+            pname === this.gl.QUERY_RESULT ? query.result : query.available,
+        getParameter: (pname: GLenum) => pname === GPU_DISJOINT_EXT ? this.disjoint : undefined,
+    };
+
+    resolveAll(nanoseconds: number): void {
+        this.queries.forEach((query) => {
+            query.available = true;
+            query.result = nanoseconds;
+        });
+    }
+}
+
+/**
+ * Performance API subset used by the performance logging with marks advancing by one millisecond each.
+ */
+class PerformanceMock {
+
+    time = 0.0;
+    marks = new Map<string, number>();
+    measures = new Map<string, number>();
+
+    mark = (name: string) => this.marks.set(name, ++this.time);
+    measure = (name: string, start: string, end: string) =>
+        this.measures.set(name, this.marks.get(end)! - this.marks.get(start)!)
+    getEntriesByName = (name: string) =>
+        this.measures.has(name) ? [{ duration: this.measures.get(name) }] : this.marks.has(name) ? [{}] : []
+    clearMarks = (name: string) => this.marks.delete(name);
+    clearMeasures = (name: string) => this.measures.delete(name);
+}
+
+function profile(profiler: Profiler, frameNumber: number, ...sections: Array<string>): void {
+    profiler.beginFrame(frameNumber);
+    for (const section of sections) {
+        profiler.begin(section);
+        profiler.end();
+    }
+    profiler.endFrame();
+}
+
+
+describe('Profiler', () => {
+
+    let context: ContextMock;
+    let profiler: Profiler;
+    let reports: Array<Profiler.Report>;
+
+    beforeEach(() => {
+        context = new ContextMock();
+        profiler = new Profiler(context as any as Context);
+        reports = new Array<Profiler.Report>();
+        profiler.report$.subscribe((report) => reports.push(report));
+    });
+
+    afterEach(() => {
+        profiler.delete();
+    });
+
+    it('should publish frame reports once all queries are resolved, in order', () => {
+        expect(profiler.supported).to.be.true;
+
+        profile(profiler, 0, 'geometry', 'blit');
+        profile(profiler, 1, 'geometry', 'geometry');
+        expect(reports).to.be.empty;
+
+        context.resolveAll(2e6);
+        profiler.resolve();
+        expect(reports.length).to.equal(2);
+        expect(reports[0].frameNumber).to.equal(0);
+        expect(reports[0].disjoint).to.be.false;
+        expect(reports[0].timings.map((timing) => timing.name)).to.deep.equal(['geometry', 'blit']);
+        expect(reports[0].timings[0].gpu).to.be.closeTo(2.0, 1e-9);
+        /* Sections of equal name are accumulated. */
+        expect(reports[1].timings.length).to.equal(1);
+        expect(reports[1].timings[0].gpu).to.be.closeTo(4.0, 1e-9);
+    });
+
+    it('should reuse query objects of resolved frames', () => {
+        profile(profiler, 0, 'geometry');
+        context.resolveAll(1e6);
+        profiler.resolve();
+        profile(profiler, 1, 'geometry');
+        expect(context.queries.length).to.equal(1);
+    });
+
+    it('should discard pending gpu timings on disjoint operations', () => {
+        profile(profiler, 0, 'geometry');
+        context.disjoint = true;
+        profiler.resolve();
+
+        expect(reports.length).to.equal(1);
+        expect(reports[0].disjoint).to.be.true;
+        expect(reports[0].timings).to.be.empty;
+    });
+
+    it('should merge cpu timings into the frame they were measured in', () => {
+        const performance = (global as any).performance;
+        (global as any).performance = new PerformanceMock();
+        const stub = sinon.stub(console, 'log');
+
+        logPerformanceStart('update');
+        logPerformanceStop('update', undefined);
+
+        profiler.beginFrame(0);
+        profiler.begin('geometry');
+        logPerformanceStart('geometry');
+        logPerformanceStop('geometry', undefined);
+        profiler.end();
+        profiler.endFrame();
+
+        stub.restore();
+        (global as any).performance = performance;
+
+        context.resolveAll(1e6);
+        profiler.resolve();
+        const timings = reports[0].timings;
+        expect(timings.map((timing) => timing.name)).to.deep.equal(['update', 'geometry']);
+        expect(timings[0].cpu).to.equal(1.0);
+        expect(timings[0].gpu).to.be.undefined;
+        expect(timings[1].cpu).to.equal(1.0);
+        expect(timings[1].gpu).to.be.closeTo(1.0, 1e-9);
+    });
+
+    it('should assert on nested sections', () => {
+        profiler.beginFrame(0);
+        profiler.begin('outer');
+        expect(() => profiler.begin('inner')).to.throw();
+        profiler.end();
+        expect(() => profiler.end()).to.throw();
+        profiler.endFrame();
+        expect(() => profiler.begin('outside')).to.throw();
+    });
+
+});
@@ -0,0 +1,80 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { RGBEDecoder } from '../source/rgbedecoder';
+
+
+/* tslint:disable:no-unused-expression */
+
+/**
+ * Assembles a Radiance .hdr file from the given header lines, resolution string, and scanline bytes.
+ */
+function hdr(header: Array<string>, resolution: string, scanlines: Array<number>): ArrayBuffer {
+    const text = ['#?RADIANCE', ...header, '', resolution, ''].join('\n');
+    const bytes = new Uint8Array(text.length + scanlines.length);
+    for (let i = 0; i < text.length; ++i) {
+        bytes[i] = text.charCodeAt(i);
+    }
+    bytes.set(scanlines, text.length);
+    return bytes.buffer;
+}
+
+
+describe('RGBEDecoder', () => {
+
+    it('should detect the Radiance signature', () => {
+        expect(RGBEDecoder.isRGBE(hdr([], '-Y 1 +X 1', [0, 0, 0, 0]))).to.be.true;
+
+        const rgbe = new Uint8Array([0x23, 0x3F, 0x52, 0x47, 0x42, 0x45, 0x0A]); // '#?RGBE\n'
+        expect(RGBEDecoder.isRGBE(rgbe.buffer)).to.be.true;
+        expect(RGBEDecoder.isRGBE(new Uint8Array([0x89, 0x50, 0x4E, 0x47]).buffer)).to.be.false;
+    });
+
+    it('should decode flat scanlines and header variables', () => {
+        const data = hdr(['FORMAT=32-bit_rle_rgbe', 'EXPOSURE=2.0', 'EXPOSURE=0.5', 'GAMMA=2.2'], '-Y 2 +X 2',
+            [1, 2, 3, 128, 4, 5, 6, 128, 7, 8, 9, 128, 10, 11, 12, 128]);
+        const image = RGBEDecoder.decode(data);
+
+        expect([image.width, image.height]).to.deep.equal([2, 2]);
+        expect(image.exposure).to.equal(1.0);
+        expect(image.gamma).to.equal(2.2);
+        expect(Array.from(image.data)).to.deep.equal([1, 2, 3, 128, 4, 5, 6, 128, 7, 8, 9, 128, 10, 11, 12, 128]);
+    });
+
+    it('should flip bottom-to-top scanlines', () => {
+        const image = RGBEDecoder.decode(hdr([], '+Y 2 +X 1', [1, 1, 1, 128, 2, 2, 2, 128]));
+        expect(Array.from(image.data)).to.deep.equal([2, 2, 2, 128, 1, 1, 1, 128]);
+        expect(image.exposure).to.equal(1.0);
+    });
+
+    it('should decode run-length encoded scanlines', () => {
+        const scanline = [2, 2, 0, 8,
+            128 + 8, 200,                    // red: run of 8
+            8, 0, 1, 2, 3, 4, 5, 6, 7,       // green: span of 8
+            128 + 4, 0, 4, 10, 20, 30, 40,   // blue: run of 4 and span of 4
+            128 + 8, 129];                   // exponent: run of 8
+        const image = RGBEDecoder.decode(hdr(['FORMAT=32-bit_rle_rgbe'], '-Y 2 +X 8', [...scanline, ...scanline]));
+
+        expect(image.data.length).to.equal(8 * 2 * 4);
+        expect(Array.from(image.data.subarray(0, 8))).to.deep.equal([200, 0, 0, 129, 200, 1, 0, 129]);
+        expect(Array.from(image.data.subarray(7 * 4, 8 * 4))).to.deep.equal([200, 7, 40, 129]);
+        expect(Array.from(image.data.subarray(8 * 4))).to.deep.equal(Array.from(image.data.subarray(0, 8 * 4)));
+    });
+
+    it('should reject invalid formats and truncated data', () => {
+        expect(() => RGBEDecoder.decode(hdr(['FORMAT=32-bit_rle_xyze'], '-Y 1 +X 1', [0, 0, 0, 0]))).to.throw();
+        expect(() => RGBEDecoder.decode(hdr([], '-X 1 +Y 1', [0, 0, 0, 0]))).to.throw();
+        expect(() => RGBEDecoder.decode(hdr([], '-Y 2 +X 1', [0, 0, 0, 0]))).to.throw();
+        expect(() => RGBEDecoder.decode(hdr([], '-Y 1 +X 8', [2, 2, 0, 8, 128 + 9, 0]))).to.throw();
+    });
+
+    it('should convert RGBE to linear floats', () => {
+        const rgb = RGBEDecoder.toFloat(new Uint8Array([128, 64, 0, 128, 255, 255, 255, 0, 128, 128, 128, 137]));
+        expect(Array.from(rgb)).to.deep.equal([0.5, 0.25, 0.0, 0.0, 0.0, 0.0, 256.0, 256.0, 256.0]);
+
+        expect(Array.from(RGBEDecoder.toFloat(new Uint8Array([128, 64, 0, 128]), 4.0))).to.deep.equal([2, 1, 0]);
+    });
+
+});
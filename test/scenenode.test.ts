@@ -0,0 +1,186 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { Camera } from '../source/camera';
+import { CameraComponent } from '../source/scene/cameracomponent';
+import { LabelComponent } from '../source/scene/labelcomponent';
+import { LightComponent } from '../source/scene/lightcomponent';
+import { SceneNode } from '../source/scene/scenenode';
+import { SceneNodeComponent } from '../source/scene/scenenodecomponent';
+import { Position3DLabel } from '../source/text/position3dlabel';
+import { Text } from '../source/text/text';
+
+
+/* tslint:disable:no-unused-expression max-classes-per-file */
+
+class ComponentMock extends SceneNodeComponent {
+    updates = 0;
+    protected onWorldChanged(world: mat4): void {
+        ++this.updates;
+    }
+}
+
+function translation(x: number, y: number, z: number): mat4 {
+    return mat4.fromTranslation(mat4.create(), vec3.fromValues(x, y, z));
+}
+
+function expectVec3(actual: vec3, expected: Array<number>): void {
+    expect(vec3.equals(actual, vec3.fromValues(expected[0], expected[1], expected[2]))).to.be.true;
+}
+
+
+describe('SceneNode', () => {
+
+    it('should compose world transforms along the hierarchy', () => {
+        const root = new SceneNode('root');
+        const child = root.addChild(new SceneNode('child'));
+        const grandchild = child.addChild(new SceneNode('grandchild'));
+
+        root.transform = translation(1.0, 0.0, 0.0);
+        child.transform = mat4.fromScaling(mat4.create(), vec3.fromValues(2.0, 2.0, 2.0));
+        grandchild.transform = translation(0.0, 1.0, 0.0);
+
+        expectVec3(grandchild.worldPosition, [1.0, 2.0, 0.0]);
+        expect(grandchild.parent).to.equal(child);
+        expect(root.find('grandchild')).to.equal(grandchild);
+        expect(root.find('none')).to.be.undefined;
+    });
+
+    it('should invalidate world transforms of the subtree', () => {
+        const root = new SceneNode();
+        const child = root.addChild(new SceneNode());
+        expectVec3(child.worldPosition, [0.0, 0.0, 0.0]);
+
+        root.transform = translation(0.0, 0.0, 3.0);
+        expectVec3(child.worldPosition, [0.0, 0.0, 3.0]);
+    });
+
+    it('should propagate alterations bottom-up and reset them on update', () => {
+        const root = new SceneNode();
+        const child = root.addChild(new SceneNode());
+        const grandchild = child.addChild(new SceneNode());
+        root.update();
+        expect(root.altered).to.be.false;
+
+        grandchild.transform = translation(1.0, 0.0, 0.0);
+        expect(grandchild.altered).to.be.true;
+        expect(child.altered).to.be.true;
+        expect(root.altered).to.be.true;
+
+        root.update();
+        expect(root.altered).to.be.false;
+        expect(grandchild.altered).to.be.false;
+
+        grandchild.transform = translation(1.0, 0.0, 0.0);
+        expect(root.altered).to.be.false; /* Equal transform does not alter. */
+    });
+
+    it('should notify components on world changes only', () => {
+        const root = new SceneNode();
+        const child = root.addChild(new SceneNode());
+        const sibling = root.addChild(new SceneNode());
+
+        const component = child.addComponent(new ComponentMock());
+        const siblingComponent = sibling.addComponent(new ComponentMock());
+        expect(component.node).to.equal(child);
+
+        root.update();
+        expect(component.updates).to.equal(1);
+        expect(siblingComponent.updates).to.equal(1);
+
+        root.update();
+        expect(component.updates).to.equal(1);
+
+        root.transform = translation(1.0, 0.0, 0.0);
+        root.update();
+        expect(component.updates).to.equal(2);
+        expect(siblingComponent.updates).to.equal(2);
+
+        child.transform = translation(1.0, 0.0, 0.0);
+        child.world; /* Lazy evaluation should not swallow notification. */
+        root.update();
+        expect(component.updates).to.equal(3);
+        expect(siblingComponent.updates).to.equal(2);
+    });
+
+    it('should filter components by type', () => {
+        const node = new SceneNode();
+        const light = node.addComponent(new LightComponent(LightComponent.Type.Point));
+        node.addComponent(new ComponentMock());
+
+        expect(node.componentsOfType(LightComponent)).to.deep.equal([light]);
+        expect(node.componentsOfType(ComponentMock).length).to.equal(1);
+
+        node.removeComponent(light);
+        expect(node.componentsOfType(LightComponent).length).to.equal(0);
+        expect(light.node).to.be.undefined;
+    });
+
+    it('should reject cycles', () => {
+        const root = new SceneNode();
+        const child = root.addChild(new SceneNode());
+        const stub = sinon.stub(console, 'log');
+        expect(() => child.addChild(root)).to.throw();
+        stub.restore();
+    });
+
+    it('should skip subtrees on traversal if requested', () => {
+        const root = new SceneNode('root');
+        const a = root.addChild(new SceneNode('a'));
+        a.addChild(new SceneNode('a0'));
+        root.addChild(new SceneNode('b'));
+
+        const visited = new Array<string>();
+        root.traverse((node) => {
+            visited.push(node.name);
+            return node !== a;
+        });
+        expect(visited).to.deep.equal(['root', 'a', 'b']);
+
+        root.removeChild(a);
+        expect(a.parent).to.be.undefined;
+        expect(root.children.length).to.equal(1);
+    });
+
+    it('should drive cameras by world transforms', () => {
+        const camera = new Camera(vec3.fromValues(0.0, 0.0, 1.0), vec3.fromValues(0.0, 0.0, 0.0));
+        const root = new SceneNode();
+        root.addComponent(new CameraComponent(camera));
+
+        root.transform = translation(0.0, 2.0, 0.0);
+        root.update();
+
+        expectVec3(camera.eye, [0.0, 2.0, 1.0]);
+        expectVec3(camera.center, [0.0, 2.0, 0.0]);
+        expectVec3(camera.up, [0.0, 1.0, 0.0]);
+    });
+
+    it('should derive world position and direction of lights', () => {
+        const root = new SceneNode();
+        const light = root.addComponent(new LightComponent());
+        root.transform = mat4.fromYRotation(mat4.create(), Math.PI * 0.5);
+        root.update();
+
+        expectVec3(light.position, [0.0, 0.0, 0.0]);
+        expectVec3(light.direction, [-1.0, 0.0, 0.0]);
+    });
+
+    it('should position 3D labels by world transforms', () => {
+        const label = new Position3DLabel(new Text('label'));
+        const root = new SceneNode();
+        root.addComponent(new LabelComponent(label));
+
+        root.transform = translation(1.0, 2.0, 3.0);
+        root.update();
+
+        expectVec3(label.position, [1.0, 2.0, 3.0]);
+        expectVec3(label.direction, [1.0, 0.0, 0.0]);
+        expectVec3(label.up, [0.0, 1.0, 0.0]);
+    });
+
+});
@@ -0,0 +1,97 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { ShaderPreprocessor } from '../source/shaderpreprocessor';
+
+
+/* tslint:disable:no-unused-expression */
+
+describe('ShaderPreprocessor', () => {
+
+    before(() => {
+        ShaderPreprocessor.register('alpha', 'float alpha() {\n    return 1.0;\n}');
+        ShaderPreprocessor.register('./beta.glsl', '#include <alpha>\nfloat beta() { return alpha(); }');
+        ShaderPreprocessor.register('cycle', '#include "cycle"');
+    });
+
+    after(() => {
+        ShaderPreprocessor.unregister('alpha');
+        ShaderPreprocessor.unregister('beta');
+        ShaderPreprocessor.unregister('cycle');
+    });
+
+
+    it('should register chunks with normalized names', () => {
+        expect(ShaderPreprocessor.registered('alpha')).to.be.true;
+        expect(ShaderPreprocessor.registered('beta')).to.be.true;
+        expect(ShaderPreprocessor.registered('./beta.glsl')).to.be.true;
+        expect(ShaderPreprocessor.registered('gamma')).to.be.false;
+    });
+
+    it('should leave sources without directives unchanged', () => {
+        const source = 'precision highp float;\nvoid main() { }';
+        expect(ShaderPreprocessor.process(source).source).to.equal(source);
+    });
+
+    it('should resolve includes recursively and include each chunk once', () => {
+        const result = ShaderPreprocessor.process('#include <beta>\n#include <alpha>\nvoid main() { }');
+        const lines = result.source.split('\n');
+
+        expect(lines.filter((line) => line === 'float alpha() {').length).to.equal(1);
+        expect(lines.indexOf('float alpha() {')).to.be.lessThan(lines.indexOf('float beta() { return alpha(); }'));
+        expect(lines[lines.length - 1]).to.equal('void main() { }');
+        expect(result.lines.length).to.equal(lines.length);
+    });
+
+    it('should support quoted includes with trailing comments', () => {
+        const result = ShaderPreprocessor.process('  #include "alpha" // lambert\n');
+        expect(result.source).to.contain('float alpha() {');
+    });
+
+    it('should assert on unknown and recursive includes', () => {
+        const stub = sinon.stub(console, 'log');
+        expect(() => ShaderPreprocessor.process('#include <gamma>')).to.throw();
+        expect(() => ShaderPreprocessor.process('#include <cycle>')).to.throw();
+        stub.restore();
+    });
+
+    it('should inject defines after the version directive', () => {
+        const defines = new Map<string, string>([['SHADOWS', '1'], ['DEBUG', '']]);
+
+        const unversioned = ShaderPreprocessor.process('void main() { }', defines).source.split('\n');
+        expect(unversioned).to.deep.equal(['#define SHADOWS 1', '#define DEBUG', 'void main() { }']);
+
+        const versioned = ShaderPreprocessor.process('// comment\n#version 300 es\nvoid main() { }', defines);
+        expect(versioned.source.split('\n')).to.deep.equal(
+            ['// comment', '#version 300 es', '#define SHADOWS 1', '#define DEBUG', 'void main() { }']);
+    });
+
+    it('should create order-independent variant keys', () => {
+        const a = new Map<string, string>([['B', ''], ['A', '1']]);
+        const b = new Map<string, string>([['A', '1'], ['B', '']]);
+
+        expect(ShaderPreprocessor.variant(a)).to.equal('A=1;B');
+        expect(ShaderPreprocessor.variant(a)).to.equal(ShaderPreprocessor.variant(b));
+        expect(ShaderPreprocessor.variant(undefined)).to.equal('');
+    });
+
+    it('should map info log locations to original files and lines', () => {
+        const defines = new Map<string, string>([['SHADOWS', '1']]);
+        const result = ShaderPreprocessor.process('precision highp float;\n#include <alpha>\nvoid main() { x; }',
+            defines, 'mesh.frag');
+
+        /* Line 1: define, 2: precision, 3: include comment, 4-6: alpha, 7: main. */
+        const infoLog = 'ERROR: 0:5: \'1.0\' : syntax error\nERROR: 0:7: \'x\' : undeclared identifier\nERROR: 0:99: x';
+        expect(ShaderPreprocessor.mapInfoLog(infoLog, result).split('\n')).to.deep.equal([
+            'ERROR: alpha:2: \'1.0\' : syntax error',
+            'ERROR: mesh.frag:3: \'x\' : undeclared identifier',
+            'ERROR: 0:99: x']);
+
+        /* Consider, e.g., a prepended version directive. */
+        expect(ShaderPreprocessor.mapInfoLog('ERROR: 0:8: x', result, 1)).to.equal('ERROR: mesh.frag:3: x');
+    });
+
+});
@@ -0,0 +1,105 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { vec3 } from 'gl-matrix';
+
+import { Camera } from '../source/camera';
+import { Context } from '../source/context';
+import { ShadowPass } from '../source/shadowpass';
+import { Texture2D } from '../source/texture2d';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const GL_CONSTANTS: { [name: string]: number } = {
+    UNSIGNED_SHORT: 0x1403, UNSIGNED_INT: 0x1405, DEPTH_COMPONENT: 0x1902, DEPTH_STENCIL: 0x84F9,
+    COLOR_ATTACHMENT0: 0x8CE0, DEPTH_ATTACHMENT: 0x8D00,
+};
+
+describe('ShadowPass', () => {
+
+    it('should split cascades uniformly, logarithmically, or blended', () => {
+        expect(ShadowPass.splits(1.0, 100.0, 4, 0.0)).to.deep.equal([25.75, 50.5, 75.25, 100.0]);
+
+        const logarithmic = ShadowPass.splits(1.0, 100.0, 2, 1.0);
+        expect(logarithmic[0]).to.be.closeTo(10.0, 1e-6);
+        expect(logarithmic[1]).to.be.closeTo(100.0, 1e-6);
+
+        const blended = ShadowPass.splits(1.0, 100.0, 2, 0.5);
+        expect(blended[0]).to.be.closeTo(30.25, 1e-6);
+        expect(blended[1]).to.be.closeTo(100.0, 1e-6);
+    });
+
+    it('should derive frustum corners at the given distances', () => {
+        const camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        camera.fovy = 90.0;
+        camera.aspect = 2.0;
+
+        const corners = ShadowPass.frustumCorners(camera, 1.0, 2.0);
+        expect(corners.length).to.equal(8);
+        expect(Array.from(corners[0])).to.deep.equal([-2.0, -1.0, 3.0]);
+        expect(Array.from(corners[6])).to.deep.equal([4.0, 2.0, 2.0]);
+    });
+
+    it('should cover all corners by a directional light view projection', () => {
+        const camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        const corners = ShadowPass.frustumCorners(camera, 0.5, 8.0);
+        const direction = vec3.normalize(vec3.create(), vec3.fromValues(1.0, -1.0, -0.5));
+
+        const viewProjection = ShadowPass.directional(direction, corners, 1024, 10.0);
+        for (const corner of corners) {
+            const ndc = vec3.transformMat4(vec3.create(), corner, viewProjection);
+            expect(Math.max(Math.abs(ndc[0]), Math.abs(ndc[1]), Math.abs(ndc[2]))).to.be.at.most(1.0);
+        }
+
+        /* Casters towards the light are covered by the caster distance. */
+        const center = vec3.transformMat4(vec3.create(), vec3.scaleAndAdd(vec3.create(), corners[0], direction, -5.0),
+            viewProjection);
+        expect(center[2]).to.be.within(-1.0, 1.0);
+    });
+
+    it('should project a spot light direction onto the shadow map center', () => {
+        const position = vec3.fromValues(1.0, 2.0, 3.0);
+        const direction = vec3.fromValues(0.0, -1.0, 0.0);
+
+        const viewProjection = ShadowPass.spot(position, direction, Math.PI * 0.25, 0.1, 10.0);
+        const ndc = vec3.transformMat4(vec3.create(), vec3.scaleAndAdd(vec3.create(), position, direction, 5.0),
+            viewProjection);
+        expect(ndc[0]).to.be.closeTo(0.0, 1e-6);
+        expect(ndc[1]).to.be.closeTo(0.0, 1e-6);
+        expect(ndc[2]).to.be.within(-1.0, 1.0);
+    });
+
+    it('should allocate depth texture shadow maps per cascade in WebGL1', () => {
+        const members = { checkFramebufferStatus: () => 0 };
+        const context = Context.requestFromFactory(() => glMock({
+            type: 'WebGLRenderingContext', extensions: ['WEBGL_depth_texture'], constants: GL_CONSTANTS, members,
+        }));
+
+        const pass = new ShadowPass(context);
+        pass.initialize();
+        expect(pass.depthPacked).to.be.false;
+
+        pass.camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        pass.cascades = 2;
+        pass.resolution = 64;
+        pass.update();
+
+        expect(pass.textures.length).to.equal(2);
+        expect(pass.viewProjections.length).to.equal(2);
+        for (const texture of pass.textures) {
+            expect(texture.internalFormat).to.equal(GL_CONSTANTS.DEPTH_COMPONENT);
+            expect(context.allocationRegister.allocated(texture.identifier)).to.equal(64 * 64 * 4);
+        }
+
+        const texture = new Texture2D(context, 'DepthTexture');
+        const depth = GL_CONSTANTS.DEPTH_COMPONENT;
+        texture.initialize(8, 8, depth, depth, GL_CONSTANTS.UNSIGNED_SHORT);
+        expect(context.allocationRegister.allocated(texture.identifier)).to.equal(8 * 8 * 2);
+    });
+
+});
@@ -0,0 +1,43 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { RandomSquareKernel } from '../source/randomsquarekernel';
+import { SSAOPass } from '../source/ssaopass';
+
+
+/* tslint:disable:no-unused-expression */
+
+describe('SSAOPass', () => {
+
+    it('should generate hemisphere samples within the unit hemisphere around +z', () => {
+        const kernel = SSAOPass.hemisphere(32);
+        expect(kernel.width).to.equal(32);
+        expect(kernel.components).to.equal(3);
+
+        for (let i = 0; i < kernel.width; ++i) {
+            const sample = kernel.get(i);
+            expect(sample[2]).to.be.at.least(0.0);
+            expect(Math.sqrt(sample[0] * sample[0] + sample[1] * sample[1] + sample[2] * sample[2]))
+                .to.be.at.most(1.0 + 1e-6);
+        }
+    });
+
+    it('should encode noise as normalized rotation vectors with zero samples mapped to +x', () => {
+        const kernel = new RandomSquareKernel(16);
+        const bytes = SSAOPass.noise(kernel);
+        expect(bytes.length).to.equal(64);
+
+        /* The kernel's first sample is fixed at zero. */
+        expect(Array.from(bytes.subarray(0, 4))).to.deep.equal([255, 128, 0, 255]);
+
+        for (let i = 1; i < kernel.width; ++i) {
+            const x = bytes[i * 4 + 0] / 255.0 * 2.0 - 1.0;
+            const y = bytes[i * 4 + 1] / 255.0 * 2.0 - 1.0;
+            expect(Math.sqrt(x * x + y * y)).to.be.closeTo(1.0, 0.02);
+            expect(bytes[i * 4 + 3]).to.equal(255);
+        }
+    });
+
+});
@@ -0,0 +1,83 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { vec3 } from 'gl-matrix';
+
+import { Camera } from '../source/camera';
+import { Stereo } from '../source/stereo';
+
+
+/* tslint:disable:no-unused-expression */
+
+function project(camera: Camera, point: Array<number>): vec3 {
+    return vec3.transformMat4(vec3.create(), vec3.fromValues(point[0], point[1], point[2]), camera.viewProjection);
+}
+
+
+describe('Stereo', () => {
+
+    let camera: Camera;
+    let stereo: Stereo;
+
+    beforeEach(() => {
+        camera = new Camera(vec3.fromValues(0.0, 0.0, 4.0));
+        camera.fovy = 90.0;
+        camera.viewport = [200, 100];
+        camera.aspect = 2.0;
+
+        stereo = new Stereo(camera);
+        stereo.interocularDistance = 0.2;
+    });
+
+    it('should compute eye sizes and bounds for the output modes', () => {
+        const size: [number, number] = [101, 50];
+        expect(Stereo.eyeSize(Stereo.Mode.SideBySide, size)).to.deep.equal([50, 50]);
+        expect(Stereo.bounds(Stereo.Mode.SideBySide, Stereo.Eye.Left, size)).to.deep.equal([0, 0, 50, 50]);
+        expect(Stereo.bounds(Stereo.Mode.SideBySide, Stereo.Eye.Right, size)).to.deep.equal([51, 0, 101, 50]);
+
+        expect(Stereo.eyeSize(Stereo.Mode.TopBottom, size)).to.deep.equal([101, 25]);
+        expect(Stereo.bounds(Stereo.Mode.TopBottom, Stereo.Eye.Left, size)).to.deep.equal([0, 25, 101, 50]);
+        expect(Stereo.bounds(Stereo.Mode.TopBottom, Stereo.Eye.Right, size)).to.deep.equal([0, 0, 101, 25]);
+
+        expect(Stereo.eyeSize(Stereo.Mode.Anaglyph, size)).to.deep.equal([101, 50]);
+        expect(Stereo.colorMask(Stereo.Mode.Anaglyph, Stereo.Eye.Left)).to.deep.equal([true, false, false, true]);
+        expect(Stereo.colorMask(Stereo.Mode.SideBySide, Stereo.Eye.Left)).to.be.undefined;
+    });
+
+    it('should derive parallel eyes with off-axis frusta converging at the center', () => {
+        stereo.update();
+        const left = stereo.eyeCamera(Stereo.Eye.Left);
+        const right = stereo.eyeCamera(Stereo.Eye.Right);
+
+        expect(Array.from(left.eye)).to.deep.equal([-0.1, 0.0, 4.0].map((x) => Math.fround(x)));
+        expect(Array.from(right.center)).to.deep.equal([0.1, 0.0, 0.0].map((x) => Math.fround(x)));
+        expect(left.viewport).to.deep.equal([100, 100]);
+        expect(left.aspect).to.equal(1.0);
+
+        /* The center has zero parallax, points in front of it crossed parallax. */
+        expect(project(left, [0.0, 0.0, 0.0])[0]).to.be.closeTo(0.0, 1e-6);
+        expect(project(right, [0.0, 0.0, 0.0])[0]).to.be.closeTo(0.0, 1e-6);
+        expect(project(left, [0.0, 0.0, 2.0])[0]).to.be.above(0.0);
+        expect(project(right, [0.0, 0.0, 2.0])[0]).to.be.below(0.0);
+
+        stereo.convergence = 2.0;
+        stereo.update();
+        expect(project(left, [0.0, 0.0, 2.0])[0]).to.be.closeTo(0.0, 1e-6);
+    });
+
+    it('should toe-in eyes of orthographic cameras', () => {
+        camera.mode = Camera.ProjectionMode.Orthographic;
+        stereo.mode = Stereo.Mode.Anaglyph;
+        stereo.update();
+
+        const left = stereo.eyeCamera(Stereo.Eye.Left);
+        expect(left.mode).to.equal(Camera.ProjectionMode.Orthographic);
+        expect(left.aspect).to.equal(2.0);
+        expect(Array.from(left.center)).to.deep.equal([0.0, 0.0, 0.0]);
+        expect(left.frustumWindow).to.deep.equal([-1.0, 1.0, -1.0, 1.0]);
+        expect(project(left, [0.0, 0.0, 0.0])[0]).to.be.closeTo(0.0, 1e-6);
+    });
+
+});
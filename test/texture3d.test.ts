@@ -0,0 +1,49 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { Context } from '../source/context';
+import { Texture3D } from '../source/texture3d';
+import { Volume } from '../source/volume';
+
+import { glMock } from './glmock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const GL_CONSTANTS: { [name: string]: number } = {
+    UNSIGNED_BYTE: 0x1401, FLOAT: 0x1406, HALF_FLOAT: 0x140B, RED: 0x1903, RGBA: 0x1908,
+    R8: 0x8229, R16F: 0x822D, RGBA8: 0x8058,
+};
+
+
+describe('Texture3D', () => {
+
+    let context: Context;
+    let texture: Texture3D;
+
+    beforeEach(() => {
+        context = Context.requestFromFactory(() => glMock({ constants: GL_CONSTANTS }));
+        texture = new Texture3D(context, 'VolumeTexture');
+        texture.initialize(1, 1, 1, GL_CONSTANTS.RGBA8, GL_CONSTANTS.RGBA, GL_CONSTANTS.UNSIGNED_BYTE);
+    });
+
+
+    it('should register half float bytes for float volumes', () => {
+        const data = new Float32Array([0.0, 0.5, 1.0, 2.0, 0.0, 0.5, 1.0, 2.0]);
+        texture.volumeData(Volume.parseRaw(data.buffer, { size: [2, 2, 2], type: Volume.Type.Float32 }));
+
+        expect(texture.internalFormat).to.equal(GL_CONSTANTS.R16F);
+        expect(context.allocationRegister.allocated(texture.identifier)).to.equal(8 * 2);
+    });
+
+    it('should register single bytes for 8 bit volumes', () => {
+        const data = new Uint8Array([0, 64, 128, 255]);
+        texture.volumeData(Volume.parseRaw(data.buffer, { size: [2, 2, 1], type: Volume.Type.Uint8 }));
+
+        expect(texture.internalFormat).to.equal(GL_CONSTANTS.R8);
+        expect(context.allocationRegister.allocated(texture.identifier)).to.equal(4);
+    });
+
+});
@@ -0,0 +1,108 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { mat3, mat4, vec3 } from 'gl-matrix';
+
+import { UniformBlock } from '../source/uniformblock';
+
+
+/* tslint:disable:no-unused-expression */
+
+const Type = UniformBlock.Type;
+
+function offsets(block: UniformBlock): Array<number> {
+    return Array.from(block.entries.values()).map((entry) => entry.offset);
+}
+
+
+describe('UniformBlock', () => {
+
+    it('should align scalars and vectors by std140 rules', () => {
+        const block = new UniformBlock([
+            { name: 'a', type: Type.Float },
+            { name: 'b', type: Type.Vec2 },
+            { name: 'c', type: Type.Vec3 },
+            { name: 'd', type: Type.Float },
+            { name: 'e', type: Type.Vec4 },
+            { name: 'f', type: Type.Int },
+        ]);
+        expect(offsets(block)).to.deep.equal([0, 8, 16, 28, 32, 48]);
+        expect(block.byteSize).to.equal(64);
+    });
+
+    it('should pad arrays and matrix columns to vec4', () => {
+        const block = new UniformBlock([
+            { name: 'a', type: Type.Float },
+            { name: 'b', type: Type.Float, arrayLength: 3 },
+            { name: 'c', type: Type.Mat3 },
+            { name: 'd', type: Type.Vec3, arrayLength: 2 },
+            { name: 'e', type: Type.Mat4, arrayLength: 2 },
+            { name: 'f', type: Type.Vec2 },
+        ]);
+        expect(offsets(block)).to.deep.equal([0, 16, 64, 112, 144, 272]);
+        expect(block.entry('b')!.arrayStride).to.equal(16);
+        expect(block.entry('c')!.matrixStride).to.equal(16);
+        expect(block.entry('e')!.arrayStride).to.equal(64);
+        expect(block.byteSize).to.equal(288);
+    });
+
+    it('should pack matrices with padded columns', () => {
+        const block = new UniformBlock([
+            { name: 'u_normal', type: Type.Mat3 },
+            { name: 'u_model', type: Type.Mat4 },
+        ]);
+        const normal = mat3.fromValues(1, 2, 3, 4, 5, 6, 7, 8, 9);
+        const model = mat4.fromTranslation(mat4.create(), vec3.fromValues(1, 2, 3));
+        block.set('u_normal', normal);
+        block.set('u_model', model);
+
+        const floats = new Float32Array(block.data);
+        expect(Array.from(floats.subarray(0, 12))).to.deep.equal([1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0]);
+        expect(Array.from(floats.subarray(12, 28))).to.deep.equal(Array.from(model));
+    });
+
+    it('should pack vec3 arrays and integer types', () => {
+        const block = new UniformBlock([
+            { name: 'u_flags', type: Type.BVec2 },
+            { name: 'u_count', type: Type.Uint },
+            { name: 'u_positions', type: Type.Vec3, arrayLength: 2 },
+        ]);
+        block.set('u_flags', [true, false]);
+        block.set('u_count', 7);
+        block.set('u_positions', [1, 2, 3, 4, 5, 6]);
+
+        const ints = new Int32Array(block.data);
+        const floats = new Float32Array(block.data);
+        expect(Array.from(ints.subarray(0, 3))).to.deep.equal([1, 0, 7]);
+        expect(Array.from(floats.subarray(4, 12))).to.deep.equal([1, 2, 3, 0, 4, 5, 6, 0]);
+    });
+
+    it('should track altered byte ranges', () => {
+        const block = new UniformBlock([
+            { name: 'a', type: Type.Vec4 },
+            { name: 'b', type: Type.Vec3, arrayLength: 4 },
+            { name: 'c', type: Type.Float },
+        ]);
+        expect(block.dirty).to.deep.equal([0, block.byteSize]);
+        block.reset();
+        expect(block.dirty).to.be.undefined;
+
+        block.set('b', [1, 2, 3, 4, 5, 6]); /* Partial array update of two elements. */
+        expect(block.dirty).to.deep.equal([16, 44]);
+        block.set('c', 1.0);
+        expect(block.dirty).to.deep.equal([16, 84]);
+    });
+
+    it('should assert on unknown members and mismatched values', () => {
+        const block = new UniformBlock([{ name: 'a', type: Type.Vec3 }]);
+        const stub = sinon.stub(console, 'log');
+        expect(() => block.set('b', 1.0)).to.throw();
+        expect(() => block.set('a', [1.0, 2.0])).to.throw();
+        expect(() => new UniformBlock([{ name: 'a', type: Type.Float }, { name: 'a', type: Type.Int }])).to.throw();
+        stub.restore();
+    });
+
+});
@@ -0,0 +1,91 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { mat4, vec3 } from 'gl-matrix';
+
+import { UniformReflection } from '../source/uniformreflection';
+
+
+/* tslint:disable:no-unused-expression */
+
+const FLOAT_VEC3 = 0x8B51;
+const INT = 0x1404;
+const BOOL = 0x8B56;
+const FLOAT_MAT4 = 0x8B5C;
+const SAMPLER_2D = 0x8B5E;
+const UNSIGNED_INT_VEC2 = 0x8DC6;
+const FLOAT_MAT2x3 = 0x8B65;
+
+
+describe('UniformReflection', () => {
+
+    it('should describe WebGL1 and WebGL2 uniform types', () => {
+        expect(UniformReflection.descriptor(FLOAT_VEC3)).to.deep.equal(
+            { name: 'vec3', kind: UniformReflection.Kind.Float, components: 3, columns: 1 });
+        expect(UniformReflection.descriptor(SAMPLER_2D)!.kind).to.equal(UniformReflection.Kind.Sampler);
+        expect(UniformReflection.descriptor(UNSIGNED_INT_VEC2)!.kind).to.equal(UniformReflection.Kind.Uint);
+
+        const mat2x3 = UniformReflection.descriptor(FLOAT_MAT2x3)!;
+        expect(mat2x3.components).to.equal(6);
+        expect(mat2x3.columns).to.equal(2);
+
+        expect(UniformReflection.descriptor(0x0)).to.be.undefined;
+    });
+
+    it('should strip array suffixes of active names', () => {
+        expect(UniformReflection.parseName('u_kernel[0]')).to.deep.equal(['u_kernel', true]);
+        expect(UniformReflection.parseName('u_texture')).to.deep.equal(['u_texture', false]);
+        expect(UniformReflection.parseName('u_lights[1].color')).to.deep.equal(['u_lights[1].color', false]);
+    });
+
+    it('should validate component counts including partial arrays', () => {
+        const vec3Type = UniformReflection.descriptor(FLOAT_VEC3)!;
+        expect(UniformReflection.validate(vec3Type, 1, vec3.fromValues(0.0, 1.0, 2.0))).to.be.undefined;
+        expect(UniformReflection.validate(vec3Type, 1, 1.0)).to.be.a('string');
+        expect(UniformReflection.validate(vec3Type, 1, [0.0, 1.0])).to.be.a('string');
+        expect(UniformReflection.validate(vec3Type, 1, [])).to.be.a('string');
+
+        expect(UniformReflection.validate(vec3Type, 4, new Float32Array(6))).to.be.undefined;
+        expect(UniformReflection.validate(vec3Type, 4, new Float32Array(15))).to.be.a('string');
+
+        const mat4Type = UniformReflection.descriptor(FLOAT_MAT4)!;
+        expect(UniformReflection.validate(mat4Type, 1, mat4.create())).to.be.undefined;
+        expect(UniformReflection.validate(mat4Type, 1, new Float32Array(9))).to.be.a('string');
+    });
+
+    it('should validate integer, unsigned, and boolean values', () => {
+        const intType = UniformReflection.descriptor(INT)!;
+        expect(UniformReflection.validate(intType, 1, -2)).to.be.undefined;
+        expect(UniformReflection.validate(intType, 1, 0.5)).to.be.a('string');
+        expect(UniformReflection.validate(intType, 1, true)).to.be.a('string');
+
+        const samplerType = UniformReflection.descriptor(SAMPLER_2D)!;
+        expect(UniformReflection.validate(samplerType, 1, 3)).to.be.undefined;
+        expect(UniformReflection.validate(samplerType, 1, -1)).to.be.a('string');
+
+        const uvec2Type = UniformReflection.descriptor(UNSIGNED_INT_VEC2)!;
+        expect(UniformReflection.validate(uvec2Type, 1, new Uint32Array([1, 2]))).to.be.undefined;
+        expect(UniformReflection.validate(uvec2Type, 1, [1, -2])).to.be.a('string');
+
+        const boolType = UniformReflection.descriptor(BOOL)!;
+        expect(UniformReflection.validate(boolType, 1, false)).to.be.undefined;
+        expect(UniformReflection.validate(boolType, 1, 1)).to.be.undefined;
+    });
+
+    it('should compare cached values component-wise', () => {
+        const value = vec3.fromValues(1.0, 2.0, 3.0);
+        const cached = UniformReflection.clone(value);
+
+        expect(UniformReflection.equals(undefined, value)).to.be.false;
+        expect(UniformReflection.equals(cached, value)).to.be.true;
+        expect(UniformReflection.equals(1.0, 1.0)).to.be.true;
+        expect(UniformReflection.equals(true, 1)).to.be.false;
+        expect(UniformReflection.equals(cached, [1.0, 2.0])).to.be.false;
+
+        value[0] = 4.0; /* In-place modification must not affect the cached copy. */
+        expect(UniformReflection.equals(cached, value)).to.be.false;
+    });
+
+});
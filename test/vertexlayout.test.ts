@@ -0,0 +1,88 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import { Program } from '../source/program';
+import { VertexLayout } from '../source/vertexlayout';
+
+
+/* tslint:disable:no-unused-expression */
+
+const BYTE = 0x1400;
+const UNSIGNED_SHORT = 0x1403;
+const FLOAT = 0x1406;
+
+const INT_VEC2 = 0x8B53;
+const FLOAT_VEC3 = 0x8B51;
+const FLOAT_MAT4 = 0x8B5C;
+
+function attributes(...infos: Array<[string, GLenum, GLsizei]>): Map<string, Program.AttributeInfo> {
+    const map = new Map<string, Program.AttributeInfo>();
+    infos.forEach(([name, type, size], location) => map.set(name, { name, type, size, arrayLength: 1, location }));
+    return map;
+}
+
+
+describe('VertexLayout', () => {
+
+    it('should interleave attributes tightly if offsets and strides are omitted', () => {
+        const layout = new VertexLayout([
+            { name: 'a_vertex', size: 3, type: FLOAT },
+            { name: 'a_normal', size: 4, type: BYTE, normalized: true },
+            { name: 'a_uv', size: 2, type: UNSIGNED_SHORT, normalized: true },
+        ]);
+        expect(layout.attributes.map((attribute) => attribute.offset)).to.deep.equal([0, 12, 16]);
+        expect(layout.attributes.map((attribute) => attribute.stride)).to.deep.equal([20, 20, 20]);
+
+        const normal = layout.attribute('a_normal')!;
+        expect(normal.normalized).to.be.true;
+        expect(normal.integer).to.be.false;
+        expect(normal.divisor).to.equal(0);
+        expect(layout.attribute('a_color')).to.be.undefined;
+    });
+
+    it('should respect explicit offsets, strides, and divisors', () => {
+        const layout = new VertexLayout([
+            { name: 'a_vertex', size: 3, type: FLOAT, offset: 0 },
+            { name: 'a_normal', size: 3, type: FLOAT, offset: 48 },
+            { name: 'a_transform', size: 16, type: FLOAT, offset: 96, stride: 80, divisor: 1 },
+        ]);
+        expect(layout.attributes.map((attribute) => attribute.stride)).to.deep.equal([12, 12, 80]);
+        expect(layout.attribute('a_normal')!.offset).to.equal(48);
+        expect(layout.attribute('a_transform')!.divisor).to.equal(1);
+    });
+
+    it('should provide byte sizes of component types', () => {
+        expect(VertexLayout.byteSizeOfType(BYTE)).to.equal(1);
+        expect(VertexLayout.byteSizeOfType(UNSIGNED_SHORT)).to.equal(2);
+        expect(VertexLayout.byteSizeOfType(FLOAT)).to.equal(4);
+        expect(VertexLayout.byteSizeOfType(0x0)).to.equal(0);
+    });
+
+    it('should assert on invalid attributes', () => {
+        const stub = sinon.stub(console, 'log');
+        expect(() => new VertexLayout([{ name: 'a', size: 5, type: FLOAT }])).to.throw();
+        expect(() => new VertexLayout([{ name: 'a', size: 3, type: 0x0 }])).to.throw();
+        expect(() => new VertexLayout([{ name: 'a', size: 3, type: FLOAT }, { name: 'a', size: 1, type: FLOAT }]))
+            .to.throw();
+        stub.restore();
+    });
+
+    it('should validate layouts against program attributes', () => {
+        const vertices = new VertexLayout([{ name: 'a_vertex', size: 3, type: FLOAT }]);
+        const instances = new VertexLayout([{ name: 'a_transform', size: 16, type: FLOAT, divisor: 1 }]);
+
+        const valid = attributes(['a_vertex', FLOAT_VEC3, 3], ['a_transform', FLOAT_MAT4, 16]);
+        expect(VertexLayout.validate([vertices, instances], valid)).to.be.empty;
+        expect(VertexLayout.locations(valid).get('a_transform')).to.equal(1);
+
+        expect(VertexLayout.validate([vertices], valid).length).to.equal(1);
+        expect(VertexLayout.validate([vertices, vertices, instances], valid).length).to.equal(1);
+
+        const mismatched = attributes(['a_vertex', INT_VEC2, 2]);
+        expect(VertexLayout.validate([vertices], mismatched).length).to.equal(2);
+    });
+
+});
@@ -0,0 +1,88 @@
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+
+const expect = chai.expect;
+
+import * as aux from '../source/auxiliaries';
+
+import { Volume } from '../source/volume';
+
+
+/* tslint:disable:no-unused-expression */
+
+/**
+ * Assembles a NRRD file from the given header lines (following the magic) and data bytes.
+ */
+function nrrd(header: Array<string>, data: Array<number>): ArrayBuffer {
+    const text = ['NRRD0004', '# comment: ignored', ...header, '', ''].join('\n');
+    const bytes = new Uint8Array(text.length + data.length);
+    for (let i = 0; i < text.length; ++i) {
+        bytes[i] = text.charCodeAt(i);
+    }
+    bytes.set(data, text.length);
+    return bytes.buffer;
+}
+
+
+describe('Volume', () => {
+
+    const sandbox = sinon.createSandbox();
+
+    afterEach(() => sandbox.restore());
+
+
+    it('should detect the NRRD magic', () => {
+        expect(Volume.isNRRD(nrrd([], []))).to.be.true;
+        expect(Volume.isNRRD(new Uint8Array([0x4E, 0x52, 0x52]).buffer)).to.be.false;
+    });
+
+    it('should parse NRRD with spacings', () => {
+        const volume = Volume.parseNRRD(nrrd(['type: uchar', 'dimension: 3', 'sizes: 2 1 2', 'spacings: 1 1 2.5',
+            'encoding: raw', 'meta:=value'], [1, 2, 3, 4]))!;
+
+        expect(volume.size).to.deep.equal([2, 1, 2]);
+        expect(volume.type).to.equal(Volume.Type.Uint8);
+        expect(Array.from(volume.data)).to.deep.equal([1, 2, 3, 4]);
+        expect(volume.spacing).to.deep.equal([1.0, 1.0, 2.5]);
+        expect(volume.extent).to.deep.equal([2.0, 1.0, 5.0]);
+    });
+
+    it('should parse big endian NRRD with space directions', () => {
+        const volume = Volume.parseNRRD(nrrd(['type: unsigned short', 'dimension: 3', 'sizes: 1 1 2',
+            'endian: big', 'space directions: (0,3,4) (0,1,0) (2,0,0)'], [0x01, 0x02, 0xFF, 0x00]))!;
+
+        expect(volume.type).to.equal(Volume.Type.Uint16);
+        expect(Array.from(volume.data)).to.deep.equal([0x0102, 0xFF00]);
+        expect(volume.spacing).to.deep.equal([5.0, 1.0, 2.0]);
+    });
+
+    it('should not parse unsupported NRRD', () => {
+        const logStub = sandbox.stub(aux, 'log');
+
+        expect(Volume.parseNRRD(nrrd(['type: uchar', 'dimension: 3', 'sizes: 1 1 1', 'encoding: gzip'], [0])))
+            .to.be.undefined;
+        expect(Volume.parseNRRD(nrrd(['type: double', 'dimension: 3', 'sizes: 1 1 1'], [0]))).to.be.undefined;
+        expect(Volume.parseNRRD(nrrd(['type: uchar', 'dimension: 2', 'sizes: 1 1'], [0]))).to.be.undefined;
+        expect(logStub.calledThrice).to.be.true;
+
+        expect(() => Volume.parseNRRD(nrrd(['type: uchar', 'dimension: 3', 'sizes: 2 2 2'], [0]))).to.throw();
+    });
+
+    it('should parse raw data described by a header', () => {
+        const data = new Float32Array([0.0, 0.5, 2.0, -2.0]);
+        const volume = Volume.parseRaw(data.buffer, { size: [2, 2, 1], type: Volume.Type.Float32 });
+
+        expect(volume.spacing).to.deep.equal([1.0, 1.0, 1.0]);
+        expect(volume.range).to.deep.equal([-2.0, 2.0]);
+        expect(Array.from(volume.normalized())).to.deep.equal([0.5, 0.625, 1.0, 0.0]);
+
+        const offset = new Uint8Array([0, 0xFE, 0xFF, 0x02, 0x00]);
+        const int16 = Volume.parseRaw(offset.buffer, { size: [1, 1, 2], type: Volume.Type.Int16, offset: 1 });
+        expect(Array.from(int16.data)).to.deep.equal([-2, 2]);
+
+        const uint32 = { size: [1, 1, 1], type: 'uint32' } as any as Volume.Header;
+        expect(() => Volume.parseRaw(new ArrayBuffer(4), uint32)).to.throw();
+    });
+
+});
@@ -0,0 +1,35 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { ColorScale } from '../source/colorscale';
+import { VolumePass } from '../source/volumepass';
+
+
+/* tslint:disable:no-unused-expression */
+
+describe('VolumePass', () => {
+
+    it('should interpolate opacity ramps', () => {
+        const ramp: VolumePass.OpacityRamp = [[0.2, 0.0], [0.6, 0.4], [1.0, 1.0]];
+        expect(VolumePass.opacity(ramp, 0.0)).to.equal(0.0);
+        expect(VolumePass.opacity(ramp, 0.4)).to.be.closeTo(0.2, 1e-6);
+        expect(VolumePass.opacity(ramp, 0.8)).to.be.closeTo(0.7, 1e-6);
+        expect(VolumePass.opacity(ramp, 1.0)).to.equal(1.0);
+        expect(VolumePass.opacity([], 0.5)).to.equal(1.0);
+    });
+
+    it('should bake color scale and opacity ramp into a transfer function', () => {
+        const scale = ColorScale.fromArray([0, 0, 0, 255, 255, 255], ColorScale.ArrayType.RGB, 2);
+        const bytes = VolumePass.bakeTransferFunction(scale, [[0.0, 0.0], [1.0, 1.0]], 3);
+
+        expect(bytes.length).to.equal(3 * 4);
+        expect(Array.from(bytes.subarray(0, 4))).to.deep.equal([0, 0, 0, 0]);
+        expect(bytes[7]).to.equal(128);
+        expect(Array.from(bytes.subarray(8, 12))).to.deep.equal([255, 255, 255, 255]);
+
+        expect(() => VolumePass.bakeTransferFunction(scale, [[0.5, 0.0], [0.2, 1.0]])).to.throw();
+    });
+
+});
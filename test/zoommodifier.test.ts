@@ -0,0 +1,156 @@
+
+import * as chai from 'chai';
+
+const expect = chai.expect;
+
+import { vec2, vec3 } from 'gl-matrix';
+
+import { Camera } from '../source/camera';
+import { PanModifier } from '../source/panmodifier';
+import { ZoomModifier } from '../source/zoommodifier';
+
+
+/* tslint:disable:no-unused-expression */
+
+/**
+ * Camera looking from (0, 0, 4) at the origin with a 200 x 200 viewport and the default vertical field of view of 45
+ * degrees. At the focal plane, the viewport's right edge is at x = 4 * tan(22.5).
+ */
+function camera(): Camera {
+    const result = new Camera(vec3.fromValues(0.0, 0.0, 4.0), vec3.fromValues(0.0, 0.0, 0.0),
+        vec3.fromValues(0.0, 1.0, 0.0));
+    result.viewport = [200, 200];
+    result.aspect = 1.0;
+    return result;
+}
+
+function expectVec3(actual: vec3, expected: Array<number>): void {
+    expect(actual[0]).to.be.closeTo(expected[0], 1e-4);
+    expect(actual[1]).to.be.closeTo(expected[1], 1e-4);
+    expect(actual[2]).to.be.closeTo(expected[2], 1e-4);
+}
+
+const EDGE = 4.0 * Math.tan(Math.PI / 8.0);
+
+
+describe('ZoomModifier', () => {
+
+    let zoom: ZoomModifier;
+    let target: Camera;
+
+    beforeEach(() => {
+        zoom = new ZoomModifier();
+        target = camera();
+        zoom.camera = target;
+    });
+
+    it('should dolly towards the anchor on the focal plane', () => {
+        zoom.step(vec2.fromValues(100, 100), 2.0);
+        expectVec3(target.eye, [0.0, 0.0, 2.0]);
+        expectVec3(target.center, [0.0, 0.0, 0.0]);
+
+        /* Zooming at the right edge keeps the anchor at (EDGE, 0, 0) in place. */
+        target = camera();
+        zoom.camera = target;
+        zoom.step(vec2.fromValues(200, 100), 2.0);
+        expectVec3(target.eye, [EDGE * 0.5, 0.0, 2.0]);
+        expectVec3(target.center, [EDGE * 0.5, 0.0, 0.0]);
+    });
+
+    it('should clamp dollying by the distance limits', () => {
+        zoom.minDistance = 1.0;
+        zoom.maxDistance = 8.0;
+
+        zoom.step(vec2.fromValues(100, 100), 10.0);
+        expectVec3(target.eye, [0.0, 0.0, 1.0]);
+
+        zoom.step(vec2.fromValues(100, 100), 0.01);
+        expectVec3(target.eye, [0.0, 0.0, 8.0]);
+    });
+
+    it('should narrow the field of view within limits in fov mode', () => {
+        zoom.mode = ZoomModifier.Mode.FieldOfView;
+
+        zoom.step(vec2.fromValues(100, 100), 2.0);
+        const fovy = 2.0 * Math.atan(Math.tan(Math.PI / 8.0) * 0.5) * 180.0 / Math.PI;
+        expect(target.fovy).to.be.closeTo(fovy, 1e-4);
+        expectVec3(target.eye, [0.0, 0.0, 4.0]);
+
+        zoom.minFovy = 10.0;
+        zoom.step(vec2.fromValues(100, 100), 100.0);
+        expect(target.fovy).to.be.closeTo(10.0, 1e-4);
+    });
+
+    it('should scale the orthographic height for orthographic cameras', () => {
+        target.mode = Camera.ProjectionMode.Orthographic;
+        target.orthographicHeight = 2.0 * EDGE;
+
+        /* Zooming at the right edge keeps the anchor at (EDGE, 0, 0) in place, the eye is not dollied. */
+        zoom.step(vec2.fromValues(200, 100), 2.0);
+        expect(target.orthographicHeight).to.be.closeTo(EDGE, 1e-4);
+        expectVec3(target.eye, [EDGE * 0.5, 0.0, 4.0]);
+
+        zoom.minDistance = EDGE * 0.25;
+        zoom.step(vec2.fromValues(100, 100), 100.0);
+        expect(target.orthographicHeight).to.be.closeTo(EDGE * 0.25, 1e-4);
+    });
+
+    it('should zoom continuously and coast with inertia', () => {
+        zoom.initiate(vec2.fromValues(100, 100));
+        zoom.process(vec2.fromValues(100, 100 - Math.log(2.0) / zoom.sensitivity));
+        expectVec3(target.eye, [0.0, 0.0, 2.0]);
+
+        /* Without inertia, the zoom stops immediately. */
+        expect(zoom.coast()).to.be.false;
+
+        zoom.inertia = 0.5;
+        zoom.step(vec2.fromValues(100, 100), 2.0);
+        expect(zoom.coast()).to.be.true;
+        expectVec3(target.eye, [0.0, 0.0, 1.0 / Math.SQRT2]);
+
+        let updates = 0;
+        while (zoom.coast()) {
+            ++updates;
+        }
+        expect(updates).to.be.above(0);
+        expect(updates).to.be.below(16);
+    });
+
+});
+
+
+describe('PanModifier', () => {
+
+    let pan: PanModifier;
+    let target: Camera;
+
+    beforeEach(() => {
+        pan = new PanModifier();
+        target = camera();
+        pan.camera = target;
+    });
+
+    it('should keep the grabbed point below the pointer', () => {
+        pan.initiate(vec2.fromValues(100, 100));
+        pan.process(vec2.fromValues(200, 100));
+        expectVec3(target.eye, [-EDGE, 0.0, 4.0]);
+        expectVec3(target.center, [-EDGE, 0.0, 0.0]);
+
+        pan.process(vec2.fromValues(100, 0));
+        expectVec3(target.center, [0.0, -EDGE, 0.0]);
+    });
+
+    it('should coast with inertia', () => {
+        pan.inertia = 0.5;
+        pan.initiate(vec2.fromValues(100, 100));
+        pan.process(vec2.fromValues(200, 100));
+
+        expect(pan.coast()).to.be.true;
+        expectVec3(target.center, [-EDGE * 1.5, 0.0, 0.0]);
+
+        pan.stop();
+        expect(pan.coast()).to.be.false;
+        expectVec3(target.center, [-EDGE * 1.5, 0.0, 0.0]);
+    });
+
+});